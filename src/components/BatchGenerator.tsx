@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -27,8 +27,10 @@ import {
   Loader2, 
   CheckCircle,
   AlertCircle,
+  AlertTriangle,
   Trash2,
   FileArchive,
+  FileImage,
   Settings2,
   Plus,
   Palette,
@@ -36,13 +38,23 @@ import {
   Frame,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { generateQRCanvas, generateQRContent, applyDesignStyle, addLogoToCanvas, addBorderToCanvas } from '@/lib/qr-utils';
-import type { QRMode, QRDesignStyle, LogoItem, LogoShape, LogoLayout } from '@/lib/qr-types';
-import { DESIGN_STYLES, LOGO_SHAPES, LOGO_LAYOUTS } from '@/lib/qr-types';
+import { generateQRContent, isFormDataValid, renderQRCanvas } from '@/lib/qr-utils';
+import type { ParsedQRContent } from '@/lib/qr-parse';
+import { eventToFormData, getLocalTimeZone } from '@/lib/qr-payload';
+import { formatCoordinate, parseCoordinates } from '@/lib/qr-geo';
+import { renderQRSvg, downloadSvg } from '@/lib/qr-svg';
+import { verifyQRCanvas } from '@/lib/qr-decode';
+import { createGradient, gradientToCss } from '@/lib/qr-gradient';
+import type { QRMode, QRDesignStyle, LogoItem, LogoShape, LogoLayout, QRRenderOptions, ErrorCorrectionLevel, QRGradient, QREyeStyle, PaymentScheme } from '@/lib/qr-types';
+import { DESIGN_STYLES, LOGO_SHAPES, LOGO_LAYOUTS, DEFAULT_EYE_STYLE, PAYMENT_SCHEMES } from '@/lib/qr-types';
 import { QualitySelector, type QRQuality, getQualitySize } from './QualitySelector';
+import { ErrorCorrectionSelector } from './ErrorCorrectionSelector';
+import { GradientEditor } from './GradientEditor';
 import { DesignSelector } from './DesignSelector';
+import { EyeStyleSelector } from './EyeStyleSelector';
 import { LogoManager } from './LogoManager';
 import { ColorPresets, type ColorPreset } from './ColorPresets';
+import type { ImageFormat } from './DownloadOptions';
 import JSZip from 'jszip';
 
 interface BatchItem {
@@ -53,28 +65,47 @@ interface BatchItem {
   data: Record<string, string>;
   status: 'pending' | 'generating' | 'done' | 'error';
   dataUrl?: string;
+  svg?: string;
+  format?: ImageFormat;
   error?: string;
+  verified?: boolean; // decoded back to the same content
+  verifyMessage?: string;
 }
 
 interface BatchGeneratorProps {
-  initialContents?: string[];
+  initialContents?: ParsedQRContent[]; // scanned codes to recreate, each keeping its own mode
 }
 
 export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
   // Input state
-  const [inputText, setInputText] = useState(initialContents.join('\n'));
-  const [items, setItems] = useState<BatchItem[]>([]);
+  const [inputText, setInputText] = useState('');
+  const [items, setItems] = useState<BatchItem[]>(() =>
+    initialContents.map(({ mode, formData }, index) => ({
+      id: `batch-${Date.now()}-${index}`,
+      mode,
+      content: generateQRContent(mode, formData),
+      filename: `${mode}-${index + 1}`,
+      data: formData,
+      status: 'pending' as const,
+    }))
+  );
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [batchMode, setBatchMode] = useState<QRMode>('url');
+  const [paymentScheme, setPaymentScheme] = useState<PaymentScheme>('upi');
   const [quality, setQuality] = useState<QRQuality>('high');
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [errorCorrectionLevel, setErrorCorrectionLevel] = useState<ErrorCorrectionLevel>('H');
   const [zipName, setZipName] = useState('qr-codes-batch');
 
   // Design state - all options available in batch
   const [designStyle, setDesignStyle] = useState<QRDesignStyle>('square');
+  const [eyeStyle, setEyeStyle] = useState<QREyeStyle>(DEFAULT_EYE_STYLE);
   const [customColors, setCustomColors] = useState(false);
   const [fgColor, setFgColor] = useState('#000000');
   const [bgColor, setBgColor] = useState('#ffffff');
+  const [fgGradient, setFgGradient] = useState<QRGradient | null>(null);
+  const [bgGradient, setBgGradient] = useState<QRGradient | null>(null);
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
 
   // Logo state - preset to square
@@ -88,18 +119,24 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
   const [enableBorder, setEnableBorder] = useState(false);
   const [borderWidth, setBorderWidth] = useState(15);
   const [borderColor, setBorderColor] = useState('#ffffff');
-  
-  // Update input when initialContents changes
-  useState(() => {
-    if (initialContents.length > 0) {
-      setInputText(initialContents.join('\n'));
-    }
-  });
+
+  // Densest item decides the symbol version shown in the capacity hint
+  const longestContent = useMemo(() => {
+    return items.reduce((longest, item) => {
+      try {
+        const content = generateQRContent(item.mode, item.data);
+        return content.length > longest.length ? content : longest;
+      } catch {
+        return longest;
+      }
+    }, '');
+  }, [items]);
 
   const handlePresetSelect = (preset: ColorPreset) => {
     setSelectedPreset(preset.id);
     setFgColor(preset.fg);
     setBgColor(preset.bg);
+    setFgGradient(preset.isGradient && preset.gradientColors ? createGradient(preset.gradientColors) : null);
     setCustomColors(true);
   };
 
@@ -156,6 +193,65 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
           message: parts[1] || 'Hello' 
         };
       }
+      case 'sms': {
+        // Format: +44 7700 900123 | Message - numbers without + stay local
+        const parts = line.split('|').map(p => p.trim());
+        return { phone: parts[0] || '', countryCode: '', message: parts[1] || '' };
+      }
+      case 'tel':
+        // Format: +44 7700 900123
+        return { phone: line.trim(), countryCode: '' };
+      case 'geo': {
+        // Format: 51.5074, -0.1278 | Label - DMS and full Plus Codes work too
+        const parts = line.split('|').map(p => p.trim());
+        const point = parseCoordinates(parts[0] || '');
+        return {
+          latitude: point ? formatCoordinate(point.latitude) : '',
+          longitude: point ? formatCoordinate(point.longitude) : '',
+          altitude: '',
+          label: parts[1] || '',
+          format: 'geo',
+        };
+      }
+      case 'payment': {
+        const parts = line.split('|').map(p => p.trim());
+        switch (paymentScheme) {
+          case 'epc':
+            // Format: Name | IBAN | Amount | Reference or text | BIC
+            return {
+              scheme: 'epc',
+              name: parts[0] || '',
+              iban: parts[1] || '',
+              amount: parts[2] || '',
+              ...(/^RF\d{2}/i.test(parts[3] || '') ? { reference: parts[3] } : { text: parts[3] || '' }),
+              bic: parts[4] || '',
+            };
+          case 'swiss':
+            // Format: IBAN | Name | Street | Number | Postal code | Town | Country | Amount | Reference | Message
+            return {
+              scheme: 'swiss',
+              iban: parts[0] || '',
+              name: parts[1] || '',
+              street: parts[2] || '',
+              buildingNumber: parts[3] || '',
+              postalCode: parts[4] || '',
+              town: parts[5] || '',
+              country: parts[6] || 'CH',
+              amount: parts[7] || '',
+              reference: parts[8] || '',
+              message: parts[9] || '',
+            };
+          case 'bitcoin':
+            // Format: Address | Amount | Label | Message
+            return { scheme: 'bitcoin', address: parts[0] || '', amount: parts[1] || '', label: parts[2] || '', message: parts[3] || '' };
+          case 'ethereum':
+            // Format: Address | Amount | Chain ID
+            return { scheme: 'ethereum', address: parts[0] || '', amount: parts[1] || '', chainId: parts[2] || '' };
+          default:
+            // Format: UPI ID | Name | Amount | Note
+            return { scheme: 'upi', payee: parts[0] || '', name: parts[1] || '', amount: parts[2] || '', note: parts[3] || '' };
+        }
+      }
       case 'email': {
         // Format: email@example.com | Subject | Body
         const parts = line.split('|').map(p => p.trim());
@@ -166,12 +262,16 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
         };
       }
       case 'wifi': {
-        // Format: SSID | Password | WPA/WEP/nopass
+        // Format: SSID | Password | WPA/WPA3/WPA2-EAP/WEP/nopass | EAP method | Phase 2 | Identity | Anonymous identity
         const parts = line.split('|').map(p => p.trim());
-        return { 
-          ssid: parts[0], 
-          password: parts[1] || '', 
-          authType: parts[2] || 'WPA' 
+        return {
+          ssid: parts[0],
+          password: parts[1] || '',
+          authType: parts[2] || 'WPA',
+          eapMethod: parts[3] || '',
+          phase2: parts[4] || '',
+          identity: parts[5] || '',
+          anonymousIdentity: parts[6] || '',
         };
       }
       case 'vcard': {
@@ -186,6 +286,22 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
           company: parts[3] || '',
         };
       }
+      case 'event': {
+        // Format: Title | 2026-11-03 09:00 | 2026-11-03 17:00 | Location | Description | URL
+        // A start without a time makes an all-day event, times are in the local zone
+        const parts = line.split('|').map(p => p.trim());
+        const start = (parts[1] || '').replace(' ', 'T');
+        return eventToFormData({
+          title: parts[0] || '',
+          start,
+          end: (parts[2] || '').replace(' ', 'T'),
+          allDay: !start.includes('T'),
+          timeZone: getLocalTimeZone(),
+          location: parts[3],
+          description: parts[4]?.replace(/\\n/g, '\n'),
+          url: parts[5],
+        });
+      }
       default:
         return { text: line };
     }
@@ -252,39 +368,57 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
       try {
         const content = generateQRContent(item.mode, item.data);
         
-        if (!content || content.length < 1) {
+        if (!content || !isFormDataValid(item.mode, item.data)) {
           throw new Error('Invalid content');
         }
 
-        let canvas = await generateQRCanvas(content, {
+        const renderOptions: QRRenderOptions = {
+          size,
+          design: designStyle,
           fgColor: effectiveFgColor,
           bgColor: effectiveBgColor,
-          size,
-        });
-
-        // Apply design style
-        canvas = applyDesignStyle(canvas, designStyle, effectiveFgColor, effectiveBgColor);
-
-        // Add logo if enabled
-        if (enableLogo && selectedLogo) {
-          canvas = await addLogoToCanvas(canvas, selectedLogo, {
-            shape: logoShape,
-            layout: logoLayout,
-            size: logoSize,
-            bgColor: effectiveBgColor,
-          });
-        }
+          fgGradient: customColors ? fgGradient : null,
+          bgGradient: customColors ? bgGradient : null,
+          eyes: eyeStyle,
+          errorCorrectionLevel,
+          logo: enableLogo ? selectedLogo : null,
+          logoShape,
+          logoLayout,
+          logoSize,
+          borderWidth: enableBorder ? borderWidth : 0,
+          borderColor,
+        };
 
-        // Add border if enabled
-        if (enableBorder) {
-          canvas = addBorderToCanvas(canvas, borderWidth, borderColor);
+        if (format === 'svg') {
+          // Vector output - raster only needed for the thumbnail and verification
+          const svg = await renderQRSvg(content, renderOptions);
+          const thumbnail = await renderQRCanvas(content, { ...renderOptions, size: 256 });
+          const verification = await verifyQRCanvas(
+            await renderQRCanvas(content, { ...renderOptions, size: 800 }),
+            content
+          );
+          updatedItems[i] = {
+            ...item,
+            status: 'done',
+            format,
+            svg,
+            dataUrl: thumbnail.toDataURL('image/png'),
+            verified: verification.ok,
+            verifyMessage: verification.message,
+          };
+        } else {
+          const canvas = await renderQRCanvas(content, renderOptions);
+          const mimeType = format === 'jpeg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
+          const verification = await verifyQRCanvas(canvas, content);
+          updatedItems[i] = {
+            ...item,
+            status: 'done',
+            format,
+            dataUrl: canvas.toDataURL(mimeType, 0.95),
+            verified: verification.ok,
+            verifyMessage: verification.message,
+          };
         }
-
-        updatedItems[i] = {
-          ...item,
-          status: 'done',
-          dataUrl: canvas.toDataURL('image/png'),
-        };
       } catch (error) {
         console.error('Batch generation error:', error);
         updatedItems[i] = { 
@@ -303,7 +437,12 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
     setIsGenerating(false);
     
     const successCount = updatedItems.filter(i => i.status === 'done').length;
-    toast.success(`Generated ${successCount} of ${updatedItems.length} QR codes`);
+    const unreadableCount = updatedItems.filter(i => i.status === 'done' && !i.verified).length;
+    if (unreadableCount > 0) {
+      toast.warning(`Generated ${successCount} of ${updatedItems.length} QR codes - ${unreadableCount} failed verification`);
+    } else {
+      toast.success(`Generated ${successCount} of ${updatedItems.length} QR codes`);
+    }
   };
 
   const downloadAll = async () => {
@@ -315,10 +454,15 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
     }
 
     if (successItems.length === 1) {
-      const link = document.createElement('a');
-      link.download = `${successItems[0].filename}.png`;
-      link.href = successItems[0].dataUrl!;
-      link.click();
+      const item = successItems[0];
+      if (item.svg) {
+        downloadSvg(item.svg, item.filename);
+      } else {
+        const link = document.createElement('a');
+        link.download = `${item.filename}.${item.format || 'png'}`;
+        link.href = item.dataUrl!;
+        link.click();
+      }
       toast.success('Downloaded!');
       return;
     }
@@ -327,8 +471,12 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
       const zip = new JSZip();
       
       successItems.forEach((item) => {
+        if (item.svg) {
+          zip.file(`${item.filename}.svg`, item.svg);
+          return;
+        }
         const base64 = item.dataUrl!.split(',')[1];
-        zip.file(`${item.filename}.png`, base64, { base64: true });
+        zip.file(`${item.filename}.${item.format || 'png'}`, base64, { base64: true });
       });
 
       const blob = await zip.generateAsync({ type: 'blob' });
@@ -353,6 +501,7 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
 
   const doneCount = items.filter(i => i.status === 'done').length;
   const errorCount = items.filter(i => i.status === 'error').length;
+  const unverifiedCount = items.filter(i => i.status === 'done' && !i.verified).length;
 
   const getPlaceholder = () => {
     switch (batchMode) {
@@ -362,12 +511,33 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
         return `Hello World\nLine 1\\nLine 2\\nLine 3\nAnother single line`;
       case 'whatsapp':
         return `+91 9876543210 | Hello\n+1 1234567890 | Hi there`;
+      case 'sms':
+        return `+44 7700 900123 | JOIN\n+1 415 555 0100 | Hi there`;
+      case 'tel':
+        return `+44 7700 900123\n+1 415 555 0100`;
+      case 'geo':
+        return `51.5074, -0.1278 | North Entrance\n9C3XGV3C+CW | Loading Bay`;
+      case 'payment':
+        switch (paymentScheme) {
+          case 'epc':
+            return `Muster GmbH | DE89370400440532013000 | 125.00 | RF18539007547034\nBeispiel AG | AT611904300234573201 | 49.90 | Invoice 1043`;
+          case 'swiss':
+            return `CH4431999123000889012 | Robert Schneider AG | Rue du Lac | 1268 | 2501 | Biel | CH | 1949.75 | 210000000003139471430009017\nCH5800791123000889012 | Robert Schneider AG | Rue du Lac | 1268 | 2501 | Biel | CH | 199.95 | RF18539007547034 | Order 1043`;
+          case 'bitcoin':
+            return `bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq | 0.0015 | Invoice 1042`;
+          case 'ethereum':
+            return `0xde0B295669a9FD93d5F28D9Ec85E40f4cb697BAe | 0.05 | 1`;
+          default:
+            return `shop@okbank | Sharma Store | 499.00 | Invoice 1042\nshop@okbank | Sharma Store | 1250.00 | Invoice 1043`;
+        }
       case 'email':
         return `john@example.com | Subject | Body\njane@example.com | Hello`;
       case 'wifi':
-        return `MyNetwork | password123 | WPA\nGuestWiFi | guest | WEP`;
+        return `MyNetwork | correct-horse-battery | WPA3\nGuestWiFi | welcome2guests | WPA\nCorpNet | s3cret | WPA2-EAP | PEAP | MSCHAPV2 | alice@corp.example`;
       case 'vcard':
         return `John Doe | +1234567890 | john@example.com | Company\nJane Smith | +0987654321 | jane@example.com`;
+      case 'event':
+        return `Keynote | 2026-11-03 09:00 | 2026-11-03 10:30 | Hall A\nExpo Day | 2026-11-04 | 2026-11-05 | Hall B`;
       default:
         return `Item 1\nItem 2\nItem 3`;
     }
@@ -401,11 +571,37 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
                 <SelectItem value="url">🔗 URL / Website</SelectItem>
                 <SelectItem value="text">📝 Plain Text</SelectItem>
                 <SelectItem value="whatsapp">💬 WhatsApp</SelectItem>
+                <SelectItem value="sms">✉️ SMS</SelectItem>
+                <SelectItem value="tel">📞 Phone Call</SelectItem>
                 <SelectItem value="email">📧 Email</SelectItem>
                 <SelectItem value="wifi">📶 WiFi</SelectItem>
                 <SelectItem value="vcard">👤 vCard / Contact</SelectItem>
+                <SelectItem value="event">📅 Calendar Event</SelectItem>
+                <SelectItem value="geo">📍 Location</SelectItem>
+                <SelectItem value="payment">💳 Payment</SelectItem>
               </SelectContent>
             </Select>
+            {batchMode === 'payment' && (
+              <Select
+                value={paymentScheme}
+                onValueChange={(v) => {
+                  setPaymentScheme(v as PaymentScheme);
+                  // EPC069-12 and the Swiss QR-bill mandate level M
+                  if (v === 'epc' || v === 'swiss') setErrorCorrectionLevel('M');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_SCHEMES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} - {option.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
 
           {/* Multi-line Input */}
@@ -420,17 +616,48 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
             />
             <p className="text-xs text-muted-foreground">
               {batchMode === 'whatsapp' && 'Format: +CountryCode Phone | Message'}
+              {batchMode === 'sms' && 'Format: +CountryCode Phone | Message'}
+              {batchMode === 'tel' && 'One +CountryCode Phone per line'}
               {batchMode === 'email' && 'Format: email@example.com | Subject | Body'}
-              {batchMode === 'wifi' && 'Format: SSID | Password | WPA/WEP/nopass'}
+              {batchMode === 'wifi' && 'Format: SSID | Password | WPA/WPA3/WPA2-EAP/WEP/nopass | EAP method | Phase 2 | Identity | Anonymous identity'}
               {batchMode === 'vcard' && 'Format: FirstName LastName | Phone | Email | Company'}
+              {batchMode === 'payment' && paymentScheme === 'upi' && 'Format: UPI ID | Payee Name | Amount | Note'}
+              {batchMode === 'payment' && paymentScheme === 'epc' && 'Format: Name | IBAN | Amount | RF reference or text | BIC'}
+              {batchMode === 'payment' && paymentScheme === 'swiss' && 'Format: IBAN | Name | Street | Number | Postal Code | Town | Country | Amount | Reference | Message'}
+              {batchMode === 'payment' && paymentScheme === 'bitcoin' && 'Format: Address | Amount (BTC) | Label | Message'}
+              {batchMode === 'payment' && paymentScheme === 'ethereum' && 'Format: Address | Amount (ETH) | Chain ID'}
+              {batchMode === 'geo' && 'Format: Latitude, Longitude | Label (DMS or a full Plus Code also work)'}
+              {batchMode === 'event' && 'Format: Title | Start | End | Location | Description | URL (dates as YYYY-MM-DD HH:mm, no time = all day)'}
               {batchMode === 'url' && 'One URL per line. Supports multi-line pasting.'}
               {batchMode === 'text' && 'One text per line. Use \\n for multi-line text within a single QR.'}
             </p>
           </div>
 
-          {/* Quality & Zip Name */}
+          {/* Quality, Format, Error Correction & Zip Name */}
           <div className="grid grid-cols-2 gap-4">
             <QualitySelector value={quality} onChange={setQuality} />
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <FileImage className="h-4 w-4" />
+                File Format
+              </Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as ImageFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="jpeg">JPEG</SelectItem>
+                  <SelectItem value="webp">WebP</SelectItem>
+                  <SelectItem value="svg">SVG (Vector)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <ErrorCorrectionSelector
+              value={errorCorrectionLevel}
+              onChange={setErrorCorrectionLevel}
+              content={longestContent}
+            />
             <div className="space-y-2">
               <Label className="flex items-center gap-2">
                 <FileArchive className="h-4 w-4" />
@@ -485,6 +712,9 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
                   {doneCount > 0 && (
                     <span className="text-success">{doneCount} ✓</span>
                   )}
+                  {unverifiedCount > 0 && (
+                    <span className="text-warning">{unverifiedCount} unreadable</span>
+                  )}
                   {errorCount > 0 && (
                     <span className="text-destructive">{errorCount} ✗</span>
                   )}
@@ -518,9 +748,14 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
                       {item.status === 'generating' && (
                         <Loader2 className="w-4 h-4 animate-spin text-primary flex-shrink-0" />
                       )}
-                      {item.status === 'done' && (
+                      {item.status === 'done' && item.verified && (
                         <CheckCircle className="w-4 h-4 text-success flex-shrink-0" />
                       )}
+                      {item.status === 'done' && !item.verified && (
+                        <span title={item.verifyMessage} className="flex-shrink-0">
+                          <AlertTriangle className="w-4 h-4 text-warning" />
+                        </span>
+                      )}
                       {item.status === 'error' && (
                         <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
                       )}
@@ -615,6 +850,9 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
                   onChange={(v) => setDesignStyle(v as QRDesignStyle)}
                   columns={3}
                 />
+                <div className="mt-4">
+                  <EyeStyleSelector value={eyeStyle} onChange={setEyeStyle} fgColor={fgColor} />
+                </div>
               </AccordionContent>
             </AccordionItem>
 
@@ -686,6 +924,25 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
                         </div>
                       </div>
                     </div>
+
+                    <GradientEditor
+                      label="Foreground Gradient"
+                      value={fgGradient}
+                      onChange={(v) => {
+                        setFgGradient(v);
+                        setSelectedPreset(null);
+                      }}
+                      baseColor={fgColor}
+                    />
+                    <GradientEditor
+                      label="Background Gradient"
+                      value={bgGradient}
+                      onChange={(v) => {
+                        setBgGradient(v);
+                        setSelectedPreset(null);
+                      }}
+                      baseColor={bgColor}
+                    />
                   </>
                 )}
               </AccordionContent>
@@ -811,8 +1068,8 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
               <span className="px-2 py-1 bg-background rounded">{DESIGN_STYLES.find(s => s.value === designStyle)?.label || designStyle}</span>
               {customColors && (
                 <span className="px-2 py-1 bg-background rounded flex items-center gap-1">
-                  <div className="w-3 h-3 rounded" style={{ backgroundColor: fgColor }} />
-                  <div className="w-3 h-3 rounded" style={{ backgroundColor: bgColor }} />
+                  <div className="w-3 h-3 rounded" style={{ background: fgGradient ? gradientToCss(fgGradient) : fgColor }} />
+                  <div className="w-3 h-3 rounded" style={{ background: bgGradient ? gradientToCss(bgGradient) : bgColor }} />
                 </span>
               )}
               {enableLogo && selectedLogo && (
@@ -824,6 +1081,7 @@ export function BatchGenerator({ initialContents = [] }: BatchGeneratorProps) {
               <span className="px-2 py-1 bg-primary/20 text-primary rounded font-medium">
                 {quality.toUpperCase()}
               </span>
+              <span className="px-2 py-1 bg-background rounded">{format.toUpperCase()}</span>
             </div>
           </div>
         </CardContent>
@@ -1,8 +1,9 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Upload, 
   ScanLine, 
@@ -15,52 +16,165 @@ import {
   CheckCircle,
   XCircle,
   Plus,
+  FileDown,
+  ScanSearch,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Html5Qrcode } from 'html5-qrcode';
+import { parseQRContent, type ParsedQRContent } from '@/lib/qr-parse';
+import { centerOf, detectQRCodes, loadLuminanceImage, type LuminanceImage, type Point } from '@/lib/qr-detect';
+import { inspectQRCode, type QRInspection } from '@/lib/qr-inspect';
+import {
+  DOCUMENT_ACCEPT,
+  downscale,
+  isScanDocument,
+  luminanceToBlob,
+  openScanDocument,
+  pageLabel,
+  scanResultsToCsv,
+  type ScanDocument,
+} from '@/lib/qr-document';
+import { downloadBlob } from '@/lib/qr-utils';
+import { filesFromTransfer } from '@/lib/qr-clipboard';
+import type { ScanDelivery } from '@/hooks/use-scan-inbox';
+import { QRInspectionColumns } from './QRInspectionDetails';
+
+// Page thumbnails are rendered from the scanned raster at this long side
+const PAGE_THUMBNAIL_SIZE = 512;
+const UNREADABLE = 'Could not read QR code';
+
+interface ScannedCode {
+  content: string;
+  corners: Point[] | null; // null when only the single-code fallback could read the image
+  selected: boolean;
+  inspection: QRInspection | null;
+}
+
+// Detect every code and grade each one; `scale` converts module sizes back to source pixels
+function scanImage(image: LuminanceImage, scale = 1, thorough = false): ScannedCode[] {
+  return detectQRCodes(image, { thorough }).map(({ content, corners }) => ({
+    content,
+    corners,
+    selected: true,
+    inspection: inspectQRCode(image, corners, scale),
+  }));
+}
 
 interface ScannedItem {
   id: string;
   filename: string;
-  content: string;
+  codes: ScannedCode[];
+  imageSize?: { width: number; height: number };
+  thumbnail: string; // object URL, empty until a document page has been rendered
   status: 'pending' | 'scanning' | 'done' | 'error';
   error?: string;
   file: File;
+  page?: { documentId: string; index: number }; // set for pages of PDF / TIFF documents
+  thorough?: boolean; // scanned window by window - "Find more codes" has nothing left to add
+}
+
+function closeDocument(documents: Map<string, ScanDocument>, documentId: string) {
+  void documents.get(documentId)?.close();
+  documents.delete(documentId);
 }
 
+// Print sheets often need the window sweep, which is too slow to run on every image by default
+const canFindMore = (item: ScannedItem) =>
+  !item.thorough && (item.status === 'done' || item.error === UNREADABLE);
+
+// "3 images", "12 pages", "2 images and 5 pages"
+function describeCount(items: ScannedItem[]): string {
+  const pages = items.filter(i => i.page).length;
+  const images = items.length - pages;
+  const parts = [
+    images > 0 || pages === 0 ? `${images} image${images === 1 ? '' : 's'}` : '',
+    pages > 0 ? `${pages} page${pages === 1 ? '' : 's'}` : '',
+  ];
+  return parts.filter(Boolean).join(' and ');
+}
+
+const newItemId = (index: number) => `scan-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`;
+
 interface BatchScannerProps {
-  onContentsExtracted: (contents: string[]) => void;
+  onContentsExtracted: (payloads: ParsedQRContent[]) => void;
   onSwitchToBatch?: () => void;
+  incoming?: ScanDelivery;
+  onIncomingConsumed?: (id: number) => void;
 }
 
-export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScannerProps) {
+export function BatchScanner({ onContentsExtracted, onSwitchToBatch, incoming, onIncomingConsumed }: BatchScannerProps) {
   const [items, setItems] = useState<ScannedItem[]>([]);
   const [isScanning, setIsScanning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  // Open PDF / TIFF documents - closed once their pages are scanned, and reopened from the file for "Find more codes"
+  const documentsRef = useRef(new Map<string, ScanDocument>());
+
+  useEffect(() => {
+    const documents = documentsRef.current;
+    return () => documents.forEach(document => void document.close());
+  }, []);
 
   const addFiles = useCallback(async (files: FileList | File[]) => {
-    const fileArray = Array.from(files).filter(f => f.type.startsWith('image/'));
+    const fileArray = Array.from(files).filter(f => f.type.startsWith('image/') || isScanDocument(f));
     if (fileArray.length === 0) {
-      toast.error('Please select image files');
+      toast.error('Please select image or PDF files');
       return;
     }
 
-    const newItems: ScannedItem[] = fileArray.map((file, index) => ({
-      id: `scan-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
-      filename: file.name,
-      content: '',
-      status: 'pending' as const,
-      file,
-    }));
+    const newItems: ScannedItem[] = [];
+    for (const [index, file] of fileArray.entries()) {
+      if (!isScanDocument(file)) {
+        newItems.push({
+          id: newItemId(index),
+          filename: file.name,
+          codes: [],
+          thumbnail: URL.createObjectURL(file),
+          status: 'pending',
+          file,
+        });
+        continue;
+      }
+
+      // Documents expand into one item per page
+      const documentId = newItemId(index);
+      try {
+        const document = await openScanDocument(new Uint8Array(await file.arrayBuffer()));
+        if (document.pages.length === 0) {
+          await document.close();
+          throw new Error('No pages');
+        }
+        documentsRef.current.set(documentId, document);
+        document.pages.forEach((_, page) => newItems.push({
+          id: `${documentId}-${page}`,
+          filename: pageLabel(file.name, page),
+          codes: [],
+          thumbnail: '',
+          status: 'pending',
+          file,
+          page: { documentId, index: page },
+        }));
+      } catch (err) {
+        console.error('Document error:', err);
+        newItems.push({
+          id: documentId,
+          filename: file.name,
+          codes: [],
+          thumbnail: '',
+          status: 'error',
+          error: 'Could not open document',
+          file,
+        });
+      }
+    }
 
     setItems(prev => [...prev, ...newItems]);
-    toast.success(`${fileArray.length} image${fileArray.length > 1 ? 's' : ''} added`);
+    toast.success(`${describeCount(newItems)} added`);
 
     // Auto-scan new files
-    await scanFiles(newItems);
+    await scanFiles(newItems.filter(item => item.status === 'pending'));
   }, []);
 
   const handleFilesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -89,13 +203,22 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
     e.stopPropagation();
     setIsDragOver(false);
     
-    const files = e.dataTransfer.files;
-    if (files && files.length > 0) {
+    // Images dragged from other browser tabs arrive as URLs or HTML rather than files
+    const { files, failed } = await filesFromTransfer(e.dataTransfer);
+    if (failed.length > 0) toast.error('Could not load dropped image - save it and drop the file instead');
+    if (files.length > 0) {
       await addFiles(files);
     }
   }, [addFiles]);
 
-  const scanFiles = async (filesToScan: ScannedItem[]) => {
+  // Files pasted or dropped elsewhere on the Scan tab
+  useEffect(() => {
+    if (!incoming) return;
+    onIncomingConsumed?.(incoming.id);
+    void addFiles(incoming.files);
+  }, [incoming, onIncomingConsumed, addFiles]);
+
+  const scanFiles = async (filesToScan: ScannedItem[], thorough = false) => {
     if (filesToScan.length === 0) return;
     
     setIsScanning(true);
@@ -106,32 +229,68 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
       scannerRef.current = new Html5Qrcode('batch-qr-reader-element');
     }
 
-    const results: { id: string; content: string; status: 'done' | 'error'; error?: string }[] = [];
+    const results: { id: string; codes: ScannedCode[]; status: 'done' | 'error'; error?: string }[] = [];
 
     for (let i = 0; i < filesToScan.length; i++) {
       const item = filesToScan[i];
       
       setItems(prev => prev.map(p => 
-        p.id === item.id ? { ...p, status: 'scanning' } : p
+        p.id === item.id ? { ...p, status: 'scanning', thorough } : p
       ));
 
       try {
-        const result = await scannerRef.current.scanFile(item.file, true);
-        results.push({ id: item.id, content: result, status: 'done' });
-        setItems(prev => prev.map(p => 
-          p.id === item.id ? { ...p, status: 'done', content: result } : p
-        ));
+        if (item.page) {
+          const { documentId, index } = item.page;
+          let document = documentsRef.current.get(documentId);
+          if (!document) {
+            document = await openScanDocument(new Uint8Array(await item.file.arrayBuffer()));
+            documentsRef.current.set(documentId, document);
+          }
+          const page = document.pages[index];
+          if (!page) throw new Error('Page not found');
+          const image = await page.render();
+          const codes = scanImage(image, 1, thorough);
+          if (codes.length === 0) throw new Error('No QR code on page');
+          // Error rows show no thumbnail, so empty pages never get an object URL
+          const thumbnail =
+            item.thumbnail || URL.createObjectURL(await luminanceToBlob(downscale(image, PAGE_THUMBNAIL_SIZE)));
+          results.push({ id: item.id, codes, status: 'done' });
+          setItems(prev => prev.map(p =>
+            p.id === item.id
+              ? { ...p, status: 'done', codes, thumbnail, imageSize: { width: image.width, height: image.height } }
+              : p
+          ));
+        } else {
+          const { image, scale } = await loadLuminanceImage(item.file);
+          const { width, height } = image;
+          let codes = scanImage(image, scale, thorough);
+          // The single-code scanner can still read some images the multi-code pass misses (e.g. via the native detector)
+          if (codes.length === 0) {
+            const result = await scannerRef.current.scanFile(item.file, true);
+            codes = [{ content: result, corners: null, selected: true, inspection: null }];
+          }
+          results.push({ id: item.id, codes, status: 'done' });
+          setItems(prev => prev.map(p => 
+            p.id === item.id ? { ...p, status: 'done', codes, imageSize: { width, height } } : p
+          ));
+        }
       } catch (err) {
         console.error('Scan error:', err);
-        results.push({ id: item.id, content: '', status: 'error', error: 'Could not read QR code' });
+        // Name unsupported page encodings (e.g. CCITT fax TIFFs) instead of blaming the code
+        const error = err instanceof Error && err.message.includes('not supported') ? err.message : UNREADABLE;
+        results.push({ id: item.id, codes: [], status: 'error', error });
         setItems(prev => prev.map(p => 
-          p.id === item.id ? { ...p, status: 'error', error: 'Could not read QR code' } : p
+          p.id === item.id ? { ...p, status: 'error', error } : p
         ));
       }
 
       setProgress(((i + 1) / filesToScan.length) * 100);
     }
 
+    // Every page is rasterized by now - the decoded PDFs would otherwise stay in the pdf.js worker
+    const scannedDocuments = new Set(filesToScan.flatMap(item => (item.page ? [item.page.documentId] : [])));
+    scannedDocuments.forEach(documentId => closeDocument(documentsRef.current, documentId));
+
     try {
       await scannerRef.current.clear();
     } catch {}
@@ -140,31 +299,32 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
     setProgress(0);
 
     const successCount = results.filter(r => r.status === 'done').length;
-    toast.success(`Scanned ${successCount} of ${filesToScan.length} QR code${filesToScan.length > 1 ? 's' : ''}`);
+    const codeCount = results.reduce((sum, r) => sum + r.codes.length, 0);
+    toast.success(
+      `Found ${codeCount} QR code${codeCount === 1 ? '' : 's'} in ${successCount} of ${describeCount(filesToScan)}`
+    );
   };
 
+  const selectedContents = () =>
+    items.flatMap(i => (i.status === 'done' ? i.codes.filter(c => c.selected).map(c => c.content) : []));
+
   const handleRecreateAll = () => {
-    const contents = items
-      .filter(i => i.status === 'done' && i.content)
-      .map(i => i.content);
+    const payloads = selectedContents().map(content => parseQRContent(content));
     
-    if (contents.length === 0) {
-      toast.error('No QR codes scanned successfully');
+    if (payloads.length === 0) {
+      toast.error('No QR codes selected');
       return;
     }
 
-    onContentsExtracted(contents);
+    onContentsExtracted(payloads);
     if (onSwitchToBatch) {
       onSwitchToBatch();
     }
-    toast.success(`${contents.length} QR codes ready for batch recreation!`);
+    toast.success(`${payloads.length} QR codes ready for batch recreation!`);
   };
 
   const handleCopyAll = async () => {
-    const contents = items
-      .filter(i => i.status === 'done' && i.content)
-      .map(i => i.content)
-      .join('\n');
+    const contents = selectedContents().join('\n');
     
     if (!contents) {
       toast.error('Nothing to copy');
@@ -179,16 +339,52 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
     }
   };
 
+  // One row per selected code, labelled by file or file#page
+  const handleExportCsv = () => {
+    const rows = items.flatMap(i =>
+      i.status === 'done'
+        ? i.codes.flatMap((c, index) =>
+            c.selected ? [{ source: i.filename, index: index + 1, content: c.content, inspection: c.inspection }] : []
+          )
+        : []
+    );
+    if (rows.length === 0) {
+      toast.error('No QR codes selected');
+      return;
+    }
+    downloadBlob(new Blob([scanResultsToCsv(rows)], { type: 'text/csv;charset=utf-8' }), 'qr-scan-results.csv');
+    toast.success(`Exported ${rows.length} QR code${rows.length === 1 ? '' : 's'}`);
+  };
+
   const removeItem = (id: string) => {
-    setItems(items.filter(i => i.id !== id));
+    const item = items.find(i => i.id === id);
+    if (item?.thumbnail) URL.revokeObjectURL(item.thumbnail);
+    const remaining = items.filter(i => i.id !== id);
+    const documentId = item?.page?.documentId;
+    if (documentId && !remaining.some(i => i.page?.documentId === documentId)) {
+      closeDocument(documentsRef.current, documentId);
+    }
+    setItems(remaining);
   };
 
   const clearAll = () => {
+    items.forEach(i => i.thumbnail && URL.revokeObjectURL(i.thumbnail));
+    documentsRef.current.forEach(document => void document.close());
+    documentsRef.current.clear();
     setItems([]);
     setProgress(0);
   };
 
+  const toggleCode = (id: string, index: number) => {
+    setItems(prev => prev.map(p =>
+      p.id === id
+        ? { ...p, codes: p.codes.map((c, i) => (i === index ? { ...c, selected: !c.selected } : c)) }
+        : p
+    ));
+  };
+
   const doneCount = items.filter(i => i.status === 'done').length;
+  const selectedCount = selectedContents().length;
   const errorCount = items.filter(i => i.status === 'error').length;
 
   return (
@@ -199,7 +395,7 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
           Batch QR Scanner
         </CardTitle>
         <CardDescription>
-          Upload QR code images to scan and recreate. You can add more images anytime.
+          Upload QR code images, PDF proofs or multi-page TIFFs to scan and recreate - use Find more codes to sweep print sheets and photos with many codes. You can add more files anytime.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -243,10 +439,10 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
               </div>
               <div className="text-center">
                 <span className="text-sm font-medium">
-                  {items.length > 0 ? 'Add More QR Images' : 'Upload QR Images'}
+                  {items.length > 0 ? 'Add More Images or PDFs' : 'Upload QR Images or PDFs'}
                 </span>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Drag & drop or click to browse
+                  Drag & drop, paste or click to browse
                 </p>
               </div>
             </>
@@ -254,7 +450,7 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
+            accept={`image/*,${DOCUMENT_ACCEPT}`}
             multiple
             onChange={handleFilesUpload}
             className="hidden"
@@ -276,7 +472,7 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
         {items.length > 0 && !isScanning && (
           <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
             <div className="flex items-center gap-4">
-              <span className="text-sm font-medium">{items.length} images</span>
+              <span className="text-sm font-medium">{items.length} images & pages</span>
               {doneCount > 0 && (
                 <span className="text-sm text-green-600 dark:text-green-400 flex items-center gap-1">
                   <CheckCircle className="h-4 w-4" /> {doneCount} scanned
@@ -300,7 +496,7 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
 
         {/* Scanned Items List */}
         {items.length > 0 && (
-          <div className="max-h-64 overflow-y-auto space-y-2 scrollbar-thin">
+          <div className="max-h-96 overflow-y-auto space-y-2 scrollbar-thin">
             <AnimatePresence>
               {items.map((item) => (
                 <motion.div
@@ -308,44 +504,109 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, x: -10 }}
-                  className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30"
+                  className="p-3 rounded-lg bg-secondary/30 space-y-2"
                 >
-                  {item.status === 'pending' && (
-                    <FileImage className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                  )}
-                  {item.status === 'scanning' && (
-                    <motion.div
-                      animate={{ rotate: 360 }}
-                      transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                    >
-                      <RefreshCw className="h-4 w-4 text-primary flex-shrink-0" />
-                    </motion.div>
-                  )}
-                  {item.status === 'done' && (
-                    <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />
-                  )}
-                  {item.status === 'error' && (
-                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
-                  )}
-                  
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{item.filename}</p>
+                  <div className="flex items-center gap-2">
+                    {item.status === 'pending' && (
+                      <FileImage className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    )}
+                    {item.status === 'scanning' && (
+                      <motion.div
+                        animate={{ rotate: 360 }}
+                        transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                      >
+                        <RefreshCw className="h-4 w-4 text-primary flex-shrink-0" />
+                      </motion.div>
+                    )}
                     {item.status === 'done' && (
-                      <p className="text-xs text-muted-foreground truncate">{item.content}</p>
+                      <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />
                     )}
                     {item.status === 'error' && (
-                      <p className="text-xs text-destructive">{item.error}</p>
+                      <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    )}
+                  
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{item.filename}</p>
+                      {item.status === 'done' && (
+                        <p className="text-xs text-muted-foreground">
+                          {item.codes.length} code{item.codes.length === 1 ? '' : 's'} found
+                        </p>
+                      )}
+                      {item.status === 'error' && (
+                        <p className="text-xs text-destructive">{item.error}</p>
+                      )}
+                    </div>
+
+                    {canFindMore(item) && !isScanning && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 gap-1 px-2 text-xs"
+                        onClick={() => scanFiles([item], true)}
+                      >
+                        <ScanSearch className="h-3 w-3" />
+                        Find more codes
+                      </Button>
                     )}
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => removeItem(item.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
                   </div>
 
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6"
-                    onClick={() => removeItem(item.id)}
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
+                  {item.status === 'done' && item.codes.length > 0 && (
+                    <div className="flex gap-3">
+                      {/* Thumbnail with the detected outlines - click one to toggle it */}
+                      {item.imageSize && item.thumbnail && item.codes.some(c => c.corners) && (
+                        <div className="relative w-28 flex-shrink-0 self-start">
+                          <img src={item.thumbnail} alt={item.filename} className="w-full rounded" />
+                          <svg
+                            viewBox={`0 0 ${item.imageSize.width} ${item.imageSize.height}`}
+                            className="absolute inset-0 w-full h-full"
+                          >
+                            {item.codes.map((code, index) => {
+                              if (!code.corners) return null;
+                              const [x, y] = centerOf(code.corners);
+                              return (
+                                <g key={index} className="cursor-pointer" onClick={() => toggleCode(item.id, index)}>
+                                  <polygon
+                                    points={code.corners.map(p => p.join(',')).join(' ')}
+                                    className={code.selected ? 'fill-primary/20 stroke-primary' : 'fill-transparent stroke-muted-foreground'}
+                                    strokeWidth={item.imageSize.width / 100}
+                                  />
+                                  <text
+                                    x={x}
+                                    y={y}
+                                    textAnchor="middle"
+                                    dominantBaseline="central"
+                                    fontSize={item.imageSize.width / 12}
+                                    className={code.selected ? 'fill-primary' : 'fill-muted-foreground'}
+                                  >
+                                    {index + 1}
+                                  </text>
+                                </g>
+                              );
+                            })}
+                          </svg>
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        {item.codes.map((code, index) => (
+                          <label key={index} className="flex items-center gap-2 text-xs cursor-pointer">
+                            <Checkbox checked={code.selected} onCheckedChange={() => toggleCode(item.id, index)} />
+                            <span className="text-muted-foreground w-4 text-right">{index + 1}</span>
+                            <span className="truncate font-mono flex-1 min-w-0" title={code.content}>{code.content}</span>
+                            <QRInspectionColumns inspection={code.inspection} />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </motion.div>
               ))}
             </AnimatePresence>
@@ -361,14 +622,25 @@ export function BatchScanner({ onContentsExtracted, onSwitchToBatch }: BatchScan
               className="flex-1 gap-2"
             >
               <Copy className="h-4 w-4" />
-              Copy All Contents
+              Copy Selected
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={handleExportCsv}
+              className="flex-1 gap-2"
+              disabled={selectedCount === 0}
+            >
+              <FileDown className="h-4 w-4" />
+              Export CSV
             </Button>
             
             <Button
               onClick={handleRecreateAll}
               className="flex-1 gap-2 gradient-primary text-white"
+              disabled={selectedCount === 0}
             >
-              Recreate All in Batch
+              Recreate {selectedCount} in Batch
               <ArrowRight className="h-4 w-4" />
             </Button>
           </div>
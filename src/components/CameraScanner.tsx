@@ -0,0 +1,337 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowRight,
+  Camera,
+  CameraOff,
+  Copy,
+  Flashlight,
+  FlashlightOff,
+  RefreshCw,
+  Trash2,
+  ZoomIn,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Html5Qrcode, type CameraDevice } from 'html5-qrcode';
+import { parseQRContent, type ParsedQRContent } from '@/lib/qr-parse';
+import {
+  installFakeCameraFromQuery,
+  playScanFeedback,
+  recordScan,
+  type LiveScanEntry,
+} from '@/lib/qr-camera';
+
+interface CameraScannerProps {
+  onContentExtracted: (payload: ParsedQRContent) => void;
+  onContentsExtracted?: (payloads: ParsedQRContent[]) => void;
+  onSwitchToBatch?: () => void;
+}
+
+interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+const CAMERA_ELEMENT_ID = 'qr-camera-element';
+
+export function CameraScanner({ onContentExtracted, onContentsExtracted, onSwitchToBatch }: CameraScannerProps) {
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraId, setCameraId] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoomRange, setZoomRange] = useState<ZoomRange | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [beep, setBeep] = useState(true);
+  const [vibrate, setVibrate] = useState(true);
+  const [entries, setEntries] = useState<LiveScanEntry[]>([]);
+
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+  // The decode callback is bound once per start - read the latest state through refs
+  const entriesRef = useRef<LiveScanEntry[]>([]);
+  const feedbackRef = useRef({ beep, vibrate });
+  feedbackRef.current = { beep, vibrate };
+
+  const handleDecoded = (content: string) => {
+    const result = recordScan(entriesRef.current, content, Date.now());
+    entriesRef.current = result.entries;
+    setEntries(result.entries);
+    if (result.isNew) playScanFeedback(feedbackRef.current);
+  };
+
+  const stopCamera = async () => {
+    const scanner = scannerRef.current;
+    scannerRef.current = null;
+    setIsRunning(false);
+    setTorchOn(false);
+    setTorchSupported(false);
+    setZoomRange(null);
+    if (!scanner) return;
+    try {
+      if (scanner.isScanning) await scanner.stop();
+      scanner.clear();
+    } catch (err) {
+      console.error('Camera stop error:', err);
+    }
+  };
+
+  const startCamera = async (deviceId = cameraId) => {
+    setIsStarting(true);
+    try {
+      if (import.meta.env.DEV) await installFakeCameraFromQuery(window.location.search);
+
+      // Listing cameras triggers the permission prompt, so only do it once the user asks
+      let devices = cameras;
+      if (devices.length === 0) {
+        devices = await Html5Qrcode.getCameras();
+        setCameras(devices);
+      }
+      if (devices.length === 0) throw new Error('No camera found');
+
+      await stopCamera();
+      const scanner = new Html5Qrcode(CAMERA_ELEMENT_ID, false);
+      scannerRef.current = scanner;
+      await scanner.start(
+        deviceId || { facingMode: 'environment' },
+        {
+          fps: 10,
+          qrbox: (width, height) => {
+            const size = Math.floor(Math.min(width, height) * 0.7);
+            return { width: size, height: size };
+          },
+        },
+        handleDecoded,
+        () => {}
+      );
+      setIsRunning(true);
+
+      const capabilities = scanner.getRunningTrackCameraCapabilities();
+      const torch = capabilities.torchFeature();
+      setTorchSupported(torch.isSupported());
+      const zoomFeature = capabilities.zoomFeature();
+      if (zoomFeature.isSupported()) {
+        setZoomRange({ min: zoomFeature.min(), max: zoomFeature.max(), step: zoomFeature.step() || 0.1 });
+        setZoom(zoomFeature.value() ?? zoomFeature.min());
+      }
+    } catch (err) {
+      console.error('Camera start error:', err);
+      await stopCamera();
+      toast.error(err instanceof Error && err.message === 'No camera found' ? 'No camera found' : 'Could not start the camera');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  // Release the camera when leaving the tab
+  useEffect(() => {
+    return () => {
+      stopCamera();
+    };
+  }, []);
+
+  const handleCameraChange = (id: string) => {
+    setCameraId(id);
+    if (isRunning) startCamera(id);
+  };
+
+  const handleTorchToggle = async () => {
+    const scanner = scannerRef.current;
+    if (!scanner) return;
+    try {
+      await scanner.getRunningTrackCameraCapabilities().torchFeature().apply(!torchOn);
+      setTorchOn(!torchOn);
+    } catch {
+      toast.error('Could not switch the torch');
+    }
+  };
+
+  const handleZoomChange = async (value: number) => {
+    setZoom(value);
+    try {
+      await scannerRef.current?.getRunningTrackCameraCapabilities().zoomFeature().apply(value);
+    } catch {
+      // Some drivers reject intermediate values - the next slider step usually applies
+    }
+  };
+
+  const removeEntry = (content: string) => {
+    entriesRef.current = entriesRef.current.filter((entry) => entry.content !== content);
+    setEntries(entriesRef.current);
+  };
+
+  const clearEntries = () => {
+    entriesRef.current = [];
+    setEntries([]);
+  };
+
+  const handleCopyAll = async () => {
+    try {
+      await navigator.clipboard.writeText(entries.map((entry) => entry.content).join('\n'));
+      toast.success('All contents copied!');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleRecreateAll = async () => {
+    if (!onContentsExtracted) return;
+    onContentsExtracted(entries.map((entry) => parseQRContent(entry.content)));
+    await stopCamera();
+    onSwitchToBatch?.();
+    toast.success(`${entries.length} QR codes ready for batch recreation!`);
+  };
+
+  const handleRecreate = async (content: string) => {
+    onContentExtracted(parseQRContent(content));
+    await stopCamera();
+    toast.success('Content loaded! Customize and generate your QR.');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Html5Qrcode renders the video into this element */}
+      <div
+        id={CAMERA_ELEMENT_ID}
+        className={`overflow-hidden rounded-xl bg-black ${isRunning || isStarting ? '' : 'hidden'}`}
+      />
+
+      {!isRunning && !isStarting && (
+        <div className="flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed rounded-xl border-border">
+          <Camera className="h-10 w-10 text-muted-foreground" />
+          <p className="text-xs text-muted-foreground text-center">
+            Point the camera at one or more QR codes - every new code is added to the list below
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {cameras.length > 1 && (
+          <Select value={cameraId} onValueChange={handleCameraChange}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Rear camera" />
+            </SelectTrigger>
+            <SelectContent>
+              {cameras.map((camera, index) => (
+                <SelectItem key={camera.id} value={camera.id}>
+                  {camera.label || `Camera ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {isRunning ? (
+          <Button variant="outline" className="flex-1 gap-2" onClick={stopCamera}>
+            <CameraOff className="h-4 w-4" />
+            Stop Camera
+          </Button>
+        ) : (
+          <Button className="flex-1 gap-2 gradient-primary text-white" onClick={() => startCamera()} disabled={isStarting}>
+            {isStarting ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+            Start Camera
+          </Button>
+        )}
+        {isRunning && torchSupported && (
+          <Button variant="outline" size="icon" onClick={handleTorchToggle} title={torchOn ? 'Torch off' : 'Torch on'}>
+            {torchOn ? <FlashlightOff className="h-4 w-4" /> : <Flashlight className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {isRunning && zoomRange && (
+        <div className="flex items-center gap-3">
+          <ZoomIn className="h-4 w-4 text-muted-foreground" />
+          <Slider
+            value={[zoom]}
+            onValueChange={([value]) => handleZoomChange(value)}
+            min={zoomRange.min}
+            max={zoomRange.max}
+            step={zoomRange.step}
+            className="flex-1"
+          />
+          <span className="text-xs text-muted-foreground w-10 text-right">{zoom.toFixed(1)}x</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch id="scan-beep" checked={beep} onCheckedChange={setBeep} />
+          <Label htmlFor="scan-beep" className="text-sm">Beep</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="scan-vibrate" checked={vibrate} onCheckedChange={setVibrate} />
+          <Label htmlFor="scan-vibrate" className="text-sm">Vibrate</Label>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+            <span className="text-sm font-medium">
+              {entries.length} code{entries.length > 1 ? 's' : ''} scanned
+            </span>
+            <Button variant="ghost" size="sm" onClick={clearEntries}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-2 scrollbar-thin">
+            <AnimatePresence>
+              {[...entries].reverse().map((entry) => (
+                <motion.div
+                  key={entry.content}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: -10 }}
+                  className="flex items-center gap-2 p-3 rounded-lg bg-secondary/30"
+                >
+                  <p className="flex-1 min-w-0 text-xs font-mono truncate" title={entry.content}>
+                    {entry.content}
+                  </p>
+                  {entry.count > 1 && <span className="text-xs text-muted-foreground">×{entry.count}</span>}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => handleRecreate(entry.content)}
+                    title="Recreate QR"
+                  >
+                    <ArrowRight className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeEntry(entry.content)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={handleCopyAll} className="flex-1 gap-2">
+              <Copy className="h-4 w-4" />
+              Copy All Contents
+            </Button>
+            {onContentsExtracted && (
+              <Button onClick={handleRecreateAll} className="flex-1 gap-2 gradient-primary text-white">
+                Recreate All in Batch
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
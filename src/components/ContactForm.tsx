@@ -0,0 +1,205 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  CONTACT_LABELS,
+  CONTACT_PHONE_TYPES,
+  SOCIAL_NETWORKS,
+  VCARD_FORMATS,
+  type ContactEntry,
+  type ErrorCorrectionLevel,
+  type VCardAddress,
+  type VCardData,
+  type VCardFormat,
+} from '@/lib/qr-types';
+import { buildContactPayload } from '@/lib/qr-payload';
+import { getQRCapacity } from '@/lib/qr-capacity';
+
+// Beyond this version contact codes get hard to scan from a business card
+const DENSE_VERSION = 15;
+
+const EMPTY_ADDRESS: VCardAddress = { street: '', city: '', region: '', postcode: '', country: '' };
+
+interface ContactFormProps {
+  value: VCardData;
+  onChange: (value: VCardData) => void;
+  format: VCardFormat;
+  onFormatChange: (format: VCardFormat) => void;
+  errorCorrectionLevel: ErrorCorrectionLevel; // for the size estimate
+}
+
+export function ContactForm({ value, onChange, format, onFormatChange, errorCorrectionLevel }: ContactFormProps) {
+  const update = (patch: Partial<VCardData>) => onChange({ ...value, ...patch });
+  const updateAddress = (patch: Partial<VCardAddress>) =>
+    update({ address: { ...EMPTY_ADDRESS, ...value.address, ...patch } });
+
+  const estimate = useMemo(() => {
+    const payload = buildContactPayload(value, format);
+    return { bytes: new TextEncoder().encode(payload).length, capacity: getQRCapacity(payload, errorCorrectionLevel) };
+  }, [value, format, errorCorrectionLevel]);
+
+  // Typed list editor for phones, emails, websites and profiles
+  const renderEntries = <T extends string>(
+    label: string,
+    key: 'phones' | 'emails' | 'urls' | 'socials',
+    types: { value: T; label: string }[],
+    placeholder: string
+  ) => {
+    const entries = value[key] as ContactEntry<T>[];
+    const setEntries = (next: ContactEntry<T>[]) => update({ [key]: next });
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>{label}</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs gap-1"
+            onClick={() => setEntries([...entries, { type: types[0].value, value: '' }])}
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+        {entries.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <Select
+              value={entry.type}
+              onValueChange={(v) => setEntries(entries.map((e, i) => (i === index ? { ...e, type: v as T } : e)))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={placeholder}
+              value={entry.value}
+              onChange={(e) =>
+                setEntries(entries.map((item, i) => (i === index ? { ...item, value: e.target.value } : item)))
+              }
+              className="flex-1"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="flex-shrink-0"
+              onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const address = value.address ?? EMPTY_ADDRESS;
+  const { capacity } = estimate;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>First Name</Label>
+          <Input placeholder="John" value={value.firstName} onChange={(e) => update({ firstName: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Last Name</Label>
+          <Input placeholder="Doe" value={value.lastName} onChange={(e) => update({ lastName: e.target.value })} />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Company</Label>
+          <Input placeholder="Acme Inc" value={value.company ?? ''} onChange={(e) => update({ company: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Title</Label>
+          <Input placeholder="CEO" value={value.title ?? ''} onChange={(e) => update({ title: e.target.value })} />
+        </div>
+      </div>
+
+      {renderEntries('Phone', 'phones', CONTACT_PHONE_TYPES, '+1 234 567 8900')}
+      {renderEntries('Email', 'emails', CONTACT_LABELS, 'john@example.com')}
+      {renderEntries('Website', 'urls', CONTACT_LABELS, 'https://example.com')}
+      {renderEntries('Social Profiles', 'socials', SOCIAL_NETWORKS, 'Profile URL or @handle')}
+
+      <div className="space-y-2">
+        <Label>Address</Label>
+        <Input placeholder="Street" value={address.street} onChange={(e) => updateAddress({ street: e.target.value })} />
+        <div className="grid grid-cols-2 gap-3">
+          <Input placeholder="City" value={address.city} onChange={(e) => updateAddress({ city: e.target.value })} />
+          <Input placeholder="Region / State" value={address.region} onChange={(e) => updateAddress({ region: e.target.value })} />
+          <Input placeholder="Postcode" value={address.postcode} onChange={(e) => updateAddress({ postcode: e.target.value })} />
+          <Input placeholder="Country" value={address.country} onChange={(e) => updateAddress({ country: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Birthday</Label>
+          <Input type="date" value={value.birthday ?? ''} onChange={(e) => update({ birthday: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Photo URL</Label>
+          <Input placeholder="https://..." value={value.photo ?? ''} onChange={(e) => update({ photo: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Notes</Label>
+        <Textarea placeholder="Notes..." value={value.note ?? ''} onChange={(e) => update({ note: e.target.value })} rows={2} />
+      </div>
+
+      {/* Output format and size estimate */}
+      <div className="space-y-2">
+        <Label>Format</Label>
+        <div className="grid grid-cols-3 gap-2">
+          {VCARD_FORMATS.map((option) => (
+            <Button
+              key={option.value}
+              variant={format === option.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-auto py-1.5 flex-col gap-0"
+              onClick={() => onFormatChange(option.value)}
+            >
+              <span className="text-xs font-medium">{option.label}</span>
+              <span className="text-[10px] opacity-70">{option.description}</span>
+            </Button>
+          ))}
+        </div>
+        <p
+          className={cn(
+            'text-xs flex items-center gap-1',
+            !capacity.fits ? 'text-destructive' : capacity.version > DENSE_VERSION ? 'text-warning' : 'text-muted-foreground'
+          )}
+        >
+          {(!capacity.fits || capacity.version > DENSE_VERSION) && <AlertTriangle className="h-3 w-3" />}
+          {capacity.fits
+            ? `${estimate.bytes} bytes • version ${capacity.version} (${capacity.modules}×${capacity.modules} modules)`
+            : `${estimate.bytes} bytes - too much for level ${errorCorrectionLevel}`}
+          {capacity.fits && capacity.version > DENSE_VERSION && ' - dense, try MeCard or fewer fields'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import {
   Dialog,
   DialogContent,
@@ -21,26 +22,44 @@ import {
 import { Download, FileImage, Settings2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { QualitySelector, type QRQuality, QUALITY_OPTIONS } from './QualitySelector';
+import { ErrorCorrectionSelector } from './ErrorCorrectionSelector';
+import type { ErrorCorrectionLevel } from '@/lib/qr-types';
 
-export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf';
+
+// Per-download overrides of the generator settings
+export interface DownloadSettings {
+  pdfSizeMm: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+}
 
 interface DownloadOptionsProps {
   qrDataUrl: string | null;
   qrContent: string;
-  onDownload: (filename: string, quality: QRQuality, format: ImageFormat) => void;
+  onDownload: (filename: string, quality: QRQuality, format: ImageFormat, settings: DownloadSettings) => void;
   defaultFilename?: string;
+  errorCorrectionLevel?: ErrorCorrectionLevel;
 }
 
 export function DownloadOptions({ 
   qrDataUrl, 
   qrContent, 
   onDownload,
-  defaultFilename = 'qr-code'
+  defaultFilename = 'qr-code',
+  errorCorrectionLevel: defaultLevel = 'H',
 }: DownloadOptionsProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [filename, setFilename] = useState(defaultFilename);
   const [quality, setQuality] = useState<QRQuality>('high');
   const [format, setFormat] = useState<ImageFormat>('png');
+  const [pdfSizeMm, setPdfSizeMm] = useState(50);
+  const [errorCorrectionLevel, setErrorCorrectionLevel] = useState<ErrorCorrectionLevel>(defaultLevel);
+
+  // Start from the generator's level every time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) setErrorCorrectionLevel(defaultLevel);
+    setIsOpen(open);
+  };
 
   const handleDownload = () => {
     if (!qrDataUrl) {
@@ -53,7 +72,7 @@ export function DownloadOptions({
       .replace(/_{2,}/g, '_')
       .replace(/^_|_$/g, '') || 'qr-code';
 
-    onDownload(sanitizedFilename, quality, format);
+    onDownload(sanitizedFilename, quality, format, { pdfSizeMm, errorCorrectionLevel });
     setIsOpen(false);
     toast.success(`Downloaded ${sanitizedFilename}.${format}`);
   };
@@ -80,6 +99,43 @@ export function DownloadOptions({
       return 'qr-email';
     }
     
+    if (/^(smsto|sms):/i.test(qrContent)) {
+      return `sms-${qrContent.replace(/^[^:]*:/, '').split(/[:?]/)[0].replace(/\D/g, '')}`;
+    }
+    
+    if (/^(tel|facetime|facetime-audio):/.test(qrContent)) {
+      return `call-${qrContent.replace(/\D/g, '').substring(0, 15)}`;
+    }
+    
+    if (qrContent.startsWith('geo:')) {
+      const labelMatch = qrContent.match(/[?&]q=([^&]*)/);
+      return labelMatch ? `geo-${decodeURIComponent(labelMatch[1]).substring(0, 20)}` : 'qr-geo';
+    }
+    
+    if (/^upi:\/\/pay/i.test(qrContent)) {
+      const nameMatch = qrContent.match(/[?&]pn=([^&]*)/);
+      return nameMatch ? `upi-${decodeURIComponent(nameMatch[1]).substring(0, 20)}` : 'qr-upi';
+    }
+    
+    if (qrContent.startsWith('BCD\n')) {
+      const name = qrContent.split('\n')[5];
+      return name ? `sepa-${name.substring(0, 20)}` : 'qr-sepa';
+    }
+    
+    if (/^SPC\r?\n/.test(qrContent)) {
+      const name = qrContent.split(/\r?\n/)[5];
+      return name ? `qr-bill-${name.substring(0, 20)}` : 'qr-bill';
+    }
+    
+    if (/^otpauth:\/\//i.test(qrContent)) {
+      const issuerMatch = qrContent.match(/[?&]issuer=([^&]*)/);
+      return issuerMatch ? `otp-${decodeURIComponent(issuerMatch[1]).substring(0, 20)}` : 'qr-otp';
+    }
+    
+    if (/^(bitcoin|ethereum):/i.test(qrContent)) {
+      return `qr-${qrContent.slice(0, qrContent.indexOf(':')).toLowerCase()}`;
+    }
+    
     if (qrContent.startsWith('https://wa.me/')) {
       return 'qr-whatsapp';
     }
@@ -89,11 +145,16 @@ export function DownloadOptions({
       return nameMatch ? `vcard-${nameMatch[1].substring(0, 20)}` : 'qr-vcard';
     }
     
+    if (qrContent.startsWith('BEGIN:VEVENT')) {
+      const summaryMatch = qrContent.match(/SUMMARY:([^\r\n]*)/);
+      return summaryMatch ? `event-${summaryMatch[1].substring(0, 20)}` : 'qr-event';
+    }
+    
     return `qr-${qrContent.substring(0, 20).replace(/[^a-zA-Z0-9]/g, '_')}`;
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button 
           variant="outline" 
@@ -158,8 +219,17 @@ export function DownloadOptions({
             </p>
           </div>
 
-          {/* Quality */}
-          <QualitySelector value={quality} onChange={setQuality} />
+          {/* Quality (raster formats only) */}
+          {format !== 'svg' && format !== 'pdf' && (
+            <QualitySelector value={quality} onChange={setQuality} />
+          )}
+
+          {/* Error Correction */}
+          <ErrorCorrectionSelector
+            value={errorCorrectionLevel}
+            onChange={setErrorCorrectionLevel}
+            content={qrContent}
+          />
 
           {/* Format */}
           <div className="space-y-2">
@@ -172,17 +242,46 @@ export function DownloadOptions({
                 <SelectItem value="png">PNG (Recommended)</SelectItem>
                 <SelectItem value="jpeg">JPEG (Smaller size)</SelectItem>
                 <SelectItem value="webp">WebP (Modern format)</SelectItem>
+                <SelectItem value="svg">SVG (Vector, any size)</SelectItem>
+                <SelectItem value="pdf">PDF (Vector, for print)</SelectItem>
               </SelectContent>
             </Select>
+            {format === 'svg' && (
+              <p className="text-xs text-muted-foreground">
+                Vector paths - scales to any print size without quality loss
+              </p>
+            )}
           </div>
 
+          {/* PDF Size */}
+          {format === 'pdf' && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Printed Size</Label>
+                <span className="text-sm font-medium">{pdfSizeMm}mm</span>
+              </div>
+              <Slider
+                value={[pdfSizeMm]}
+                onValueChange={(v) => setPdfSizeMm(v[0])}
+                min={15}
+                max={200}
+                step={5}
+              />
+              <p className="text-xs text-muted-foreground">
+                Page is exactly the size of the code (border included)
+              </p>
+            </div>
+          )}
+
           {/* Download Button */}
           <Button 
             onClick={handleDownload}
             className="w-full gradient-primary text-white"
           >
             <Download className="h-4 w-4 mr-2" />
-            Download {quality.toUpperCase()} Quality
+            {format === 'svg' || format === 'pdf'
+              ? `Download ${format.toUpperCase()}`
+              : `Download ${quality.toUpperCase()} Quality`}
           </Button>
         </div>
       </DialogContent>
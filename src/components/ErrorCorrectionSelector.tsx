@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+import { ERROR_CORRECTION_LEVELS, type ErrorCorrectionLevel } from '@/lib/qr-types';
+import { getQRCapacity } from '@/lib/qr-capacity';
+
+interface ErrorCorrectionSelectorProps {
+  value: ErrorCorrectionLevel;
+  onChange: (value: ErrorCorrectionLevel) => void;
+  content?: string; // shows version / capacity feedback when set
+  className?: string;
+}
+
+export function ErrorCorrectionSelector({ value, onChange, content, className }: ErrorCorrectionSelectorProps) {
+  const capacity = useMemo(
+    () => (content ? getQRCapacity(content, value) : null),
+    [content, value]
+  );
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Label className="flex items-center gap-2 text-sm font-medium">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+        Error Correction
+      </Label>
+      <Select value={value} onValueChange={(v) => onChange(v as ErrorCorrectionLevel)}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select level" />
+        </SelectTrigger>
+        <SelectContent>
+          {ERROR_CORRECTION_LEVELS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <div className="flex items-center justify-between gap-4">
+                <span className="font-medium">{option.value} - {option.label}</span>
+                <span className="text-xs text-muted-foreground">~{option.recovery}% recovery</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {capacity && (
+        capacity.fits ? (
+          <p className="text-xs text-muted-foreground">
+            Version {capacity.version} • {capacity.modules}×{capacity.modules} modules • {capacity.remainingBytes} bytes left
+          </p>
+        ) : (
+          <p className="text-xs text-destructive flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Content too long for level {value} - try a lower level
+          </p>
+        )
+      )}
+    </div>
+  );
+}
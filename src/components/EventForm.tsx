@@ -0,0 +1,139 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarIcon } from 'lucide-react';
+import { EVENT_TIME_ZONES, type EventData } from '@/lib/qr-types';
+import { getEventBounds } from '@/lib/qr-payload';
+
+interface EventFormProps {
+  value: EventData;
+  onChange: (value: EventData) => void;
+}
+
+export function EventForm({ value, onChange }: EventFormProps) {
+  const update = (patch: Partial<EventData>) => onChange({ ...value, ...patch });
+
+  const { start, end } = getEventBounds(value);
+  const endsBeforeStart = isValid(start) && isValid(end) && end < start;
+
+  // Zones outside the common list (e.g. the browser's own) still need an option
+  const timeZones = EVENT_TIME_ZONES.some((zone) => zone.value === value.timeZone)
+    ? EVENT_TIME_ZONES
+    : [...EVENT_TIME_ZONES, { value: value.timeZone, label: value.timeZone }];
+
+  // Date picker plus time input for one end of the event
+  const renderDateTime = (label: string, key: 'start' | 'end') => {
+    const [datePart = '', timePart = '09:00'] = value[key].split('T');
+    const date = parseISO(datePart);
+    const setPart = (nextDate: string, nextTime: string) => update({ [key]: `${nextDate}T${nextTime}` });
+
+    return (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <div className="flex gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn('flex-1 justify-start gap-2 font-normal', !isValid(date) && 'text-muted-foreground')}
+              >
+                <CalendarIcon className="h-4 w-4" />
+                {isValid(date) ? format(date, 'PPP') : 'Pick a date'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={isValid(date) ? date : undefined}
+                defaultMonth={isValid(date) ? date : undefined}
+                onSelect={(day) => day && setPart(format(day, 'yyyy-MM-dd'), timePart)}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          {!value.allDay && (
+            <Input
+              type="time"
+              value={timePart}
+              onChange={(e) => setPart(datePart, e.target.value || '00:00')}
+              className="w-28"
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Title</Label>
+        <Input placeholder="Product Launch" value={value.title} onChange={(e) => update({ title: e.target.value })} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label>All-day Event</Label>
+        <Switch checked={value.allDay} onCheckedChange={(allDay) => update({ allDay })} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {renderDateTime('Starts', 'start')}
+        {renderDateTime('Ends', 'end')}
+      </div>
+      {endsBeforeStart && <p className="text-xs text-destructive">The event ends before it starts</p>}
+
+      {!value.allDay && (
+        <div className="flex items-center justify-between gap-3">
+          <Label>Time Zone</Label>
+          <Select value={value.timeZone} onValueChange={(timeZone) => update({ timeZone })}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone.value} value={zone.value}>
+                  {zone.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Location</Label>
+        <Input
+          placeholder="Hall B, Expo Centre"
+          value={value.location ?? ''}
+          onChange={(e) => update({ location: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Description</Label>
+        <Textarea
+          placeholder="What to expect..."
+          value={value.description ?? ''}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={3}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Event Page</Label>
+        <Input placeholder="https://example.com/event" value={value.url ?? ''} onChange={(e) => update({ url: e.target.value })} />
+      </div>
+    </div>
+  );
+}
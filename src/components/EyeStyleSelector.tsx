@@ -0,0 +1,62 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DesignSelector } from './DesignSelector';
+import { EYE_SHAPES, type EyeShape, type QREyeStyle } from '@/lib/qr-types';
+
+interface EyeStyleSelectorProps {
+  value: QREyeStyle;
+  onChange: (value: QREyeStyle) => void;
+  fgColor: string; // starting point when a custom eye color is switched on
+}
+
+export function EyeStyleSelector({ value, onChange, fgColor }: EyeStyleSelectorProps) {
+  const update = (patch: Partial<QREyeStyle>) => onChange({ ...value, ...patch });
+
+  const renderColor = (label: string, key: 'frameColor' | 'ballColor') => (
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-2">
+        {value[key] && (
+          <input
+            type="color"
+            value={value[key]}
+            onChange={(e) => update({ [key]: e.target.value })}
+            className="w-8 h-8 rounded border-2 border-border cursor-pointer"
+          />
+        )}
+        <span className="text-xs text-muted-foreground">{value[key] ? 'Custom' : 'Foreground'}</span>
+        <Switch
+          checked={!!value[key]}
+          onCheckedChange={(checked) => update({ [key]: checked ? fgColor : undefined })}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Eye Frame</Label>
+        <DesignSelector
+          options={EYE_SHAPES}
+          value={value.frameShape}
+          onChange={(v) => update({ frameShape: v as EyeShape })}
+          columns={5}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Eye Ball</Label>
+        <DesignSelector
+          options={EYE_SHAPES}
+          value={value.ballShape}
+          onChange={(v) => update({ ballShape: v as EyeShape })}
+          columns={5}
+        />
+      </div>
+      <div className="space-y-2">
+        {renderColor('Frame Color', 'frameColor')}
+        {renderColor('Ball Color', 'ballColor')}
+      </div>
+    </div>
+  );
+}
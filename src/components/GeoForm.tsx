@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Crosshair, MapPin } from 'lucide-react';
+import { GEO_FORMATS, type GeoData, type GeoFormat } from '@/lib/qr-types';
+import {
+  encodePlusCode,
+  formatCoordinate,
+  formatDms,
+  isValidLatitude,
+  isValidLongitude,
+  parseCoordinates,
+} from '@/lib/qr-geo';
+
+interface GeoFormProps {
+  value: GeoData;
+  onChange: (value: GeoData) => void;
+}
+
+export function GeoForm({ value, onChange }: GeoFormProps) {
+  const [lookup, setLookup] = useState('');
+  const update = (patch: Partial<GeoData>) => onChange({ ...value, ...patch });
+
+  const latitude = Number(value.latitude);
+  const longitude = Number(value.longitude);
+  const latitudeError = value.latitude.trim() !== '' && !isValidLatitude(latitude);
+  const longitudeError = value.longitude.trim() !== '' && !isValidLongitude(longitude);
+  const hasPoint = value.latitude.trim() !== '' && value.longitude.trim() !== '' && !latitudeError && !longitudeError;
+
+  // Coordinates, DMS or a full Plus Code typed into the lookup field
+  const applyLookup = () => {
+    const point = parseCoordinates(lookup);
+    if (!point) {
+      toast.error('Could not read that location', {
+        description: 'Use decimal degrees, degrees/minutes/seconds or a full Plus Code like 9C3XGV3C+CW',
+      });
+      return;
+    }
+    update({ latitude: formatCoordinate(point.latitude), longitude: formatCoordinate(point.longitude) });
+    setLookup('');
+  };
+
+  // Device GPS works without a network connection
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        update({
+          latitude: formatCoordinate(coords.latitude),
+          longitude: formatCoordinate(coords.longitude),
+          altitude: coords.altitude !== null ? formatCoordinate(coords.altitude) : value.altitude,
+        });
+        toast.success(`Location found (±${Math.round(coords.accuracy)} m)`);
+      },
+      (error) => toast.error('Could not get your location', { description: error.message }),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Find Location</Label>
+        <div className="flex gap-2">
+          <Input
+            placeholder={`51.5074, -0.1278 · 51°30'26"N 0°7'40"W · 9C3XGV3C+CW`}
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyLookup()}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={applyLookup} disabled={!lookup.trim()}>
+            Apply
+          </Button>
+          <Button variant="outline" size="icon" onClick={useCurrentLocation} title="Use my location">
+            <Crosshair className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Latitude</Label>
+          <Input
+            inputMode="decimal"
+            placeholder="51.5074"
+            value={value.latitude}
+            onChange={(e) => update({ latitude: e.target.value })}
+            className={latitudeError ? 'border-destructive' : undefined}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Longitude</Label>
+          <Input
+            inputMode="decimal"
+            placeholder="-0.1278"
+            value={value.longitude}
+            onChange={(e) => update({ longitude: e.target.value })}
+            className={longitudeError ? 'border-destructive' : undefined}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Altitude (m)</Label>
+          <Input
+            inputMode="decimal"
+            placeholder="Optional"
+            value={value.altitude}
+            onChange={(e) => update({ altitude: e.target.value })}
+            disabled={value.format !== 'geo'}
+          />
+        </div>
+      </div>
+      {(latitudeError || longitudeError) && (
+        <p className="text-xs text-destructive">
+          Latitude must be between -90 and 90, longitude between -180 and 180
+        </p>
+      )}
+      {hasPoint && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MapPin className="h-3 w-3" />
+          {formatDms({ latitude, longitude })} · Plus Code {encodePlusCode(latitude, longitude)}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label>Label</Label>
+        <Input
+          placeholder="Building A - North Entrance"
+          value={value.label}
+          onChange={(e) => update({ label: e.target.value })}
+          disabled={value.format === 'google'}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label>Link Type</Label>
+        <Select value={value.format} onValueChange={(format) => update({ format: format as GeoFormat })}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GEO_FORMATS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label} - {option.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { GRADIENT_TYPES, type QRGradient, type GradientType } from '@/lib/qr-types';
+import { createGradient, gradientToCss, sampleGradient } from '@/lib/qr-gradient';
+
+const MAX_STOPS = 5;
+
+interface GradientEditorProps {
+  label: string;
+  value: QRGradient | null;
+  onChange: (value: QRGradient | null) => void;
+  baseColor: string; // used when the gradient is switched on
+}
+
+export function GradientEditor({ label, value, onChange, baseColor }: GradientEditorProps) {
+  const update = (patch: Partial<QRGradient>) => value && onChange({ ...value, ...patch });
+
+  const updateStop = (index: number, patch: Partial<QRGradient['stops'][number]>) => {
+    if (!value) return;
+    update({ stops: value.stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)) });
+  };
+
+  const addStop = () => {
+    if (!value || value.stops.length >= MAX_STOPS) return;
+    // Insert in the widest gap so the new stop is visible immediately
+    const sorted = [...value.stops].sort((a, b) => a.offset - b.offset);
+    let gapStart = 0;
+    let gapSize = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = sorted[i].offset - sorted[i - 1].offset;
+      if (gap > gapSize) {
+        gapSize = gap;
+        gapStart = sorted[i - 1].offset;
+      }
+    }
+    const offset = gapStart + gapSize / 2;
+    update({
+      stops: [...sorted, { offset, color: sampleGradient(sorted, offset) }].sort((a, b) => a.offset - b.offset),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">{label}</Label>
+        <Switch
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? createGradient([baseColor, '#6366f1']) : null)}
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-3 p-3 rounded-lg bg-secondary/50">
+          {/* Preview */}
+          <div
+            className="h-8 rounded-md border border-border"
+            style={{ background: gradientToCss(value) }}
+          />
+
+          {/* Type */}
+          <div className="grid grid-cols-3 gap-2">
+            {GRADIENT_TYPES.map((type) => (
+              <Button
+                key={type.value}
+                variant={value.type === type.value ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => update({ type: type.value as GradientType })}
+              >
+                {type.label}
+              </Button>
+            ))}
+          </div>
+
+          {/* Angle (not used by radial gradients) */}
+          {value.type !== 'radial' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Angle</Label>
+                <span className="text-xs text-muted-foreground">{value.angle}°</span>
+              </div>
+              <Slider
+                value={[value.angle]}
+                onValueChange={(v) => update({ angle: v[0] })}
+                min={0}
+                max={360}
+                step={5}
+              />
+            </div>
+          )}
+
+          {/* Stops */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Color Stops</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs gap-1"
+                onClick={addStop}
+                disabled={value.stops.length >= MAX_STOPS}
+              >
+                <Plus className="h-3 w-3" />
+                Add
+              </Button>
+            </div>
+            {value.stops.map((stop, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={stop.color}
+                  onChange={(e) => updateStop(index, { color: e.target.value })}
+                  className="w-8 h-8 rounded border-2 border-border cursor-pointer flex-shrink-0"
+                />
+                <Slider
+                  value={[Math.round(stop.offset * 100)]}
+                  onValueChange={(v) => updateStop(index, { offset: v[0] / 100 })}
+                  min={0}
+                  max={100}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="text-xs text-muted-foreground w-9 text-right">
+                  {Math.round(stop.offset * 100)}%
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn('h-6 w-6 flex-shrink-0', value.stops.length <= 2 && 'invisible')}
+                  onClick={() => update({ stops: value.stops.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import type { VerificationStatus, QRDesignStyle, LogoItem, LogoShape, LogoLayout, QRMode } from '@/lib/qr-types';
-import { generateQRCanvas, generateQRContent, applyDesignStyle, addLogoToCanvas, addBorderToCanvas } from '@/lib/qr-utils';
+import type { VerificationStatus, QRDesignStyle, LogoItem, LogoShape, LogoLayout, QRMode, ErrorCorrectionLevel, QRGradient, QREyeStyle } from '@/lib/qr-types';
+import { generateQRContent, isFormDataValid, renderQRCanvas } from '@/lib/qr-utils';
 import { CheckCircle, AlertTriangle, XCircle, Loader2, Eye, EyeOff, Maximize2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { QRPreviewModal } from './QRPreviewModal';
@@ -15,11 +15,16 @@ interface LivePreviewProps {
   designStyle: QRDesignStyle;
   fgColor: string;
   bgColor: string;
+  fgGradient: QRGradient | null;
+  bgGradient: QRGradient | null;
+  eyes: QREyeStyle;
+  errorCorrectionLevel: ErrorCorrectionLevel;
   enableLogo: boolean;
   logo: LogoItem | null;
   logoShape: LogoShape;
   logoLayout: LogoLayout;
   logoSize: number;
+  logoExcavate: boolean;
   enableBorder: boolean;
   borderWidth: number;
   borderColor: string;
@@ -37,11 +42,16 @@ export function LivePreview({
   designStyle,
   fgColor,
   bgColor,
+  fgGradient,
+  bgGradient,
+  eyes,
+  errorCorrectionLevel,
   enableLogo,
   logo,
   logoShape,
   logoLayout,
   logoSize,
+  logoExcavate,
   enableBorder,
   borderWidth,
   borderColor,
@@ -69,23 +79,7 @@ export function LivePreview({
   // Check if content is valid for QR generation
   const isContentValid = useMemo(() => {
     if (!content || content.length < 3) return false;
-    
-    switch (mode) {
-      case 'url':
-        return formData.url?.trim().length >= 3;
-      case 'whatsapp':
-        return formData.phone?.replace(/\D/g, '').length >= 7;
-      case 'text':
-        return formData.text?.trim().length > 0;
-      case 'wifi':
-        return formData.ssid?.trim().length > 0;
-      case 'vcard':
-        return (formData.firstName?.trim().length > 0) || (formData.lastName?.trim().length > 0);
-      case 'email':
-        return formData.email?.includes('@');
-      default:
-        return content.length > 0;
-    }
+    return isFormDataValid(mode, formData);
   }, [mode, formData, content]);
 
   // Notify parent of content changes
@@ -109,31 +103,24 @@ export function LivePreview({
       setIsGenerating(true);
       
       try {
-        // Generate base QR canvas
-        let canvas = await generateQRCanvas(content, {
+        const canvas = await renderQRCanvas(content, {
+          size: 400, // Preview size
+          design: designStyle,
           fgColor,
           bgColor,
-          size: 400, // Preview size
+          fgGradient,
+          bgGradient,
+          eyes,
+          errorCorrectionLevel,
+          logo: enableLogo ? logo : null,
+          logoShape,
+          logoLayout,
+          logoSize,
+          logoExcavate,
+          borderWidth: enableBorder ? Math.floor(borderWidth / 2) : 0,
+          borderColor,
         });
 
-        // Apply design style
-        canvas = applyDesignStyle(canvas, designStyle, fgColor, bgColor);
-
-        // Add logo if enabled
-        if (enableLogo && logo) {
-          canvas = await addLogoToCanvas(canvas, logo, {
-            shape: logoShape,
-            layout: logoLayout,
-            size: logoSize,
-            bgColor,
-          });
-        }
-
-        // Add border if enabled
-        if (enableBorder) {
-          canvas = addBorderToCanvas(canvas, Math.floor(borderWidth / 2), borderColor);
-        }
-
         // Display on visible canvas
         const displayCanvas = canvasRef.current;
         if (displayCanvas) {
@@ -160,8 +147,8 @@ export function LivePreview({
       }
     };
   }, [
-    content, isContentValid, designStyle, fgColor, bgColor,
-    enableLogo, logo, logoShape, logoLayout, logoSize,
+    content, isContentValid, designStyle, fgColor, bgColor, fgGradient, bgGradient, eyes, errorCorrectionLevel,
+    enableLogo, logo, logoShape, logoLayout, logoSize, logoExcavate,
     enableBorder, borderWidth, borderColor, livePreviewEnabled, onCanvasReady
   ]);
 
@@ -311,11 +298,16 @@ export function LivePreview({
         designStyle={designStyle}
         fgColor={fgColor}
         bgColor={bgColor}
+        fgGradient={fgGradient}
+        bgGradient={bgGradient}
+        eyes={eyes}
+        errorCorrectionLevel={errorCorrectionLevel}
         enableLogo={enableLogo}
         logo={logo}
         logoShape={logoShape}
         logoLayout={logoLayout}
         logoSize={logoSize}
+        logoExcavate={logoExcavate}
         enableBorder={enableBorder}
         borderWidth={borderWidth}
         borderColor={borderColor}
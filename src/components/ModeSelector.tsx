@@ -4,19 +4,31 @@ import type { QRMode } from '@/lib/qr-types';
 import { 
   Globe, 
   MessageCircle, 
+  MessageSquare,
+  Phone,
   Type, 
   Wifi, 
   User, 
-  Mail 
+  Mail,
+  CalendarDays,
+  MapPin,
+  CreditCard,
+  KeyRound
 } from 'lucide-react';
 
 const modes: { value: QRMode; label: string; icon: React.ElementType }[] = [
   { value: 'url', label: 'URL', icon: Globe },
   { value: 'whatsapp', label: 'WhatsApp', icon: MessageCircle },
+  { value: 'sms', label: 'SMS', icon: MessageSquare },
+  { value: 'tel', label: 'Call', icon: Phone },
   { value: 'text', label: 'Text', icon: Type },
   { value: 'wifi', label: 'WiFi', icon: Wifi },
   { value: 'vcard', label: 'vCard', icon: User },
   { value: 'email', label: 'Email', icon: Mail },
+  { value: 'event', label: 'Event', icon: CalendarDays },
+  { value: 'geo', label: 'Location', icon: MapPin },
+  { value: 'payment', label: 'Payment', icon: CreditCard },
+  { value: 'otp', label: 'OTP', icon: KeyRound },
 ];
 
 interface ModeSelectorProps {
@@ -26,7 +38,7 @@ interface ModeSelectorProps {
 
 export function ModeSelector({ value, onChange }: ModeSelectorProps) {
   return (
-    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
       {modes.map((mode) => {
         const Icon = mode.icon;
         const isActive = value === mode.value;
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Eye, EyeOff, RefreshCw, ShieldCheck } from 'lucide-react';
+import { OTP_ALGORITHMS, type OtpAlgorithm, type OtpData, type OtpType } from '@/lib/qr-types';
+import { computeOtp, generateOtpSecret, getOtpErrors, getTotpCounter } from '@/lib/qr-otp';
+
+interface OtpFormProps {
+  value: OtpData;
+  onChange: (value: OtpData) => void;
+}
+
+export function OtpForm({ value, onChange }: OtpFormProps) {
+  const [showSecret, setShowSecret] = useState(false);
+  const [code, setCode] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const update = (patch: Partial<OtpData>) => onChange({ ...value, ...patch });
+
+  const errors = useMemo(() => getOtpErrors(value), [value]);
+  const canPreview = !errors.secret && !errors.digits && !errors.period && !errors.counter && !!value.secret.trim();
+  const period = Number(value.period) || 30;
+  const counter = value.type === 'hotp' ? Number(value.counter) : getTotpCounter(now, period);
+
+  // TOTP codes roll over with the clock
+  useEffect(() => {
+    if (value.type !== 'totp') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [value.type]);
+
+  // Computed in the browser with Web Crypto - the secret never leaves the page
+  useEffect(() => {
+    if (!canPreview) {
+      setCode(null);
+      return;
+    }
+    let cancelled = false;
+    computeOtp(value.secret, counter, value.algorithm, Number(value.digits))
+      .then((result) => !cancelled && setCode(result))
+      .catch(() => !cancelled && setCode(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [canPreview, value.secret, value.algorithm, value.digits, counter]);
+
+  const remaining = period - (Math.floor(now / 1000) % period);
+
+  // Errors only show once the field has a value
+  const fieldError = (key: keyof OtpData) =>
+    value[key].trim() && errors[key] ? <p className="text-xs text-destructive">{errors[key]}</p> : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {(['totp', 'hotp'] as OtpType[]).map((type) => (
+          <Button
+            key={type}
+            variant={value.type === type ? 'default' : 'outline'}
+            size="sm"
+            className="h-auto py-1.5 flex-col gap-0"
+            onClick={() => update({ type })}
+          >
+            <span className="text-xs font-medium">{type.toUpperCase()}</span>
+            <span className="text-[10px] opacity-70">{type === 'totp' ? 'Time-based' : 'Counter-based'}</span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Issuer</Label>
+          <Input placeholder="Acme Corp" value={value.issuer} onChange={(e) => update({ issuer: e.target.value })} />
+          {fieldError('issuer')}
+        </div>
+        <div className="space-y-2">
+          <Label>
+            Account<span className="text-destructive"> *</span>
+          </Label>
+          <Input
+            placeholder="alice@acme.com"
+            value={value.account}
+            onChange={(e) => update({ account: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>
+          Secret (base32)<span className="text-destructive"> *</span>
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            type={showSecret ? 'text' : 'password'}
+            autoComplete="off"
+            spellCheck={false}
+            placeholder="JBSWY3DPEHPK3PXP..."
+            value={value.secret}
+            onChange={(e) => update({ secret: e.target.value.toUpperCase() })}
+            className={`flex-1 font-mono ${value.secret.trim() && errors.secret ? 'border-destructive' : ''}`}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setShowSecret(!showSecret)}
+            title={showSecret ? 'Hide secret' : 'Show secret'}
+          >
+            {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={() => update({ secret: generateOtpSecret() })}>
+            <RefreshCw className="h-4 w-4" />
+            Generate
+          </Button>
+        </div>
+        {fieldError('secret')}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Algorithm</Label>
+          <Select value={value.algorithm} onValueChange={(algorithm) => update({ algorithm: algorithm as OtpAlgorithm })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OTP_ALGORITHMS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label} - {option.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Digits</Label>
+          <Select value={value.digits} onValueChange={(digits) => update({ digits })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['6', '7', '8'].map((digits) => (
+                <SelectItem key={digits} value={digits}>
+                  {digits}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {value.type === 'totp' ? (
+          <div className="space-y-2">
+            <Label>Period (s)</Label>
+            <Input inputMode="numeric" value={value.period} onChange={(e) => update({ period: e.target.value })} />
+            {fieldError('period')}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Counter</Label>
+            <Input inputMode="numeric" value={value.counter} onChange={(e) => update({ counter: e.target.value })} />
+            {fieldError('counter')}
+          </div>
+        )}
+      </div>
+
+      {code && (
+        <div className="rounded-lg border border-border bg-secondary/50 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <ShieldCheck className="h-3 w-3" />
+              {value.type === 'totp' ? 'Current code' : `Code for counter ${value.counter}`}
+            </span>
+            {value.type === 'totp' && <span className="text-xs text-muted-foreground">{remaining}s</span>}
+          </div>
+          <p className="font-mono text-2xl font-semibold tracking-[0.3em] text-center">{code}</p>
+          {value.type === 'totp' && <Progress value={(remaining / period) * 100} className="h-1" />}
+          <p className="text-[10px] text-muted-foreground text-center">
+            Computed locally - compare it with the authenticator app after scanning. The secret is not saved to history.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
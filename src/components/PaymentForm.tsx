@@ -0,0 +1,220 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import {
+  PAYMENT_SCHEMES,
+  SWISS_REFERENCE_TYPES,
+  type ErrorCorrectionLevel,
+  type PaymentScheme,
+} from '@/lib/qr-types';
+import { formatIban, getPaymentErrors, inferSwissReferenceType } from '@/lib/qr-payment';
+
+interface PaymentFormProps {
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  onErrorCorrectionLevelChange: (level: ErrorCorrectionLevel) => void;
+}
+
+export function PaymentForm({ value, onChange, errorCorrectionLevel, onErrorCorrectionLevelChange }: PaymentFormProps) {
+  const scheme = (value.scheme as PaymentScheme) || 'upi';
+  const errors = useMemo(() => getPaymentErrors({ ...value, scheme }), [value, scheme]);
+  const update = (patch: Record<string, string>) => onChange({ ...value, scheme, ...patch });
+
+  // Labelled input - errors only show once the field has a value
+  const renderField = (
+    key: string,
+    label: string,
+    placeholder: string,
+    options: { required?: boolean; className?: string; inputMode?: 'decimal' | 'numeric'; onBlur?: () => void } = {}
+  ) => {
+    const fieldValue = value[key] ?? '';
+    const error = fieldValue.trim() ? errors[key] : undefined;
+    return (
+      <div className={cn('space-y-2', options.className)}>
+        <Label>
+          {label}
+          {options.required && <span className="text-destructive"> *</span>}
+        </Label>
+        <Input
+          placeholder={placeholder}
+          value={fieldValue}
+          inputMode={options.inputMode}
+          onChange={(e) => update({ [key]: e.target.value })}
+          onBlur={options.onBlur}
+          className={error ? 'border-destructive' : undefined}
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    );
+  };
+
+  const swissReferenceType = value.referenceType || inferSwissReferenceType(value.iban ?? '', value.reference);
+
+  // Structured creditor or debtor address - debtor fields are prefixed (debtorName, debtorTown, ...)
+  const renderSwissAddress = (prefix: string, title: string) => {
+    const key = (name: string) => (prefix ? `${prefix}${name[0].toUpperCase()}${name.slice(1)}` : name);
+    const required = !prefix;
+    return (
+      <div className="space-y-3 rounded-lg border border-border p-3">
+        <p className="text-sm font-medium">{title}</p>
+        {renderField(key('name'), 'Name', prefix ? 'Pia-Maria Rutschmann-Schnyder' : 'Robert Schneider AG', { required })}
+        <div className="grid grid-cols-3 gap-3">
+          {renderField(key('street'), 'Street', 'Rue du Lac', { className: 'col-span-2' })}
+          {renderField(key('buildingNumber'), 'Number', '1268')}
+        </div>
+        <div className="grid grid-cols-4 gap-3">
+          {renderField(key('postalCode'), 'Postal Code', '2501', { required })}
+          {renderField(key('town'), 'Town', 'Biel', { required, className: 'col-span-2' })}
+          {renderField(key('country'), 'Country', 'CH', { required })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        {PAYMENT_SCHEMES.map((option) => (
+          <Button
+            key={option.value}
+            variant={scheme === option.value ? 'default' : 'outline'}
+            size="sm"
+            className="h-auto py-1.5 flex-col gap-0"
+            onClick={() => update({ scheme: option.value })}
+          >
+            <span className="text-xs font-medium">{option.label}</span>
+            <span className="text-[10px] opacity-70 whitespace-normal leading-tight">{option.description}</span>
+          </Button>
+        ))}
+      </div>
+
+      {scheme === 'upi' && (
+        <>
+          {renderField('payee', 'UPI ID', 'shopname@okbank', { required: true })}
+          {renderField('name', 'Payee Name', 'Sharma General Store', { required: true })}
+          <div className="grid grid-cols-2 gap-3">
+            {renderField('amount', 'Amount (INR)', 'Leave empty to let the payer choose', { inputMode: 'decimal' })}
+            {renderField('note', 'Note', 'Invoice 1042')}
+          </div>
+        </>
+      )}
+
+      {scheme === 'epc' && (
+        <>
+          {renderField('name', 'Beneficiary Name', 'Muster GmbH', { required: true })}
+          <div className="grid grid-cols-3 gap-3">
+            {renderField('iban', 'IBAN', 'DE89 3704 0044 0532 0130 00', {
+              required: true,
+              className: 'col-span-2',
+              onBlur: () => value.iban && update({ iban: formatIban(value.iban) }),
+            })}
+            {renderField('bic', 'BIC', 'Optional')}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {renderField('amount', 'Amount (EUR)', '12.50', { inputMode: 'decimal', className: 'col-span-2' })}
+            {renderField('purpose', 'Purpose', 'GDDS')}
+          </div>
+          {renderField('reference', 'Creditor Reference', 'RF18 5390 0754 7034')}
+          {renderField('text', 'Remittance Text', 'Invoice 2026-1042 (instead of a reference)')}
+          {renderField('info', 'Note to Payer', 'Thank you!')}
+          {errors.payload && <p className="text-xs text-destructive">{errors.payload}</p>}
+        </>
+      )}
+
+      {scheme === 'swiss' && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {renderField('iban', 'IBAN / QR-IBAN', 'CH44 3199 9123 0008 8901 2', {
+              required: true,
+              className: 'col-span-2',
+              onBlur: () => value.iban && update({ iban: formatIban(value.iban) }),
+            })}
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Select value={value.currency || 'CHF'} onValueChange={(currency) => update({ currency })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CHF">CHF</SelectItem>
+                  <SelectItem value="EUR">EUR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {renderSwissAddress('', 'Payable to')}
+          {renderField('amount', 'Amount', 'Leave empty to let the payer fill it in', { inputMode: 'decimal' })}
+          <div className="space-y-2">
+            <Label>Reference</Label>
+            <Select
+              value={swissReferenceType}
+              onValueChange={(referenceType) => update({ referenceType })}
+            >
+              <SelectTrigger className={errors.referenceType ? 'border-destructive' : undefined}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SWISS_REFERENCE_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} - {option.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.referenceType && <p className="text-xs text-destructive">{errors.referenceType}</p>}
+          </div>
+          {swissReferenceType !== 'NON' &&
+            renderField(
+              'reference',
+              swissReferenceType === 'QRR' ? 'QR Reference' : 'Creditor Reference',
+              swissReferenceType === 'QRR' ? '21 00000 00003 13947 14300 09017' : 'RF18 5390 0754 7034',
+              { required: true }
+            )}
+          {renderField('message', 'Additional Information', 'Order of 15 June 2026')}
+          {renderField('billInformation', 'Billing Information', '//S1/10/10201409/11/260615/30/106017086')}
+          {renderSwissAddress('debtor', 'Payable by (optional)')}
+          {errors.payload && <p className="text-xs text-destructive">{errors.payload}</p>}
+          <p className="text-xs text-muted-foreground">
+            The Swiss cross is added to the code automatically. Use Print to download the A6 payment part.
+          </p>
+        </>
+      )}
+
+      {(scheme === 'epc' || scheme === 'swiss') && errorCorrectionLevel !== 'M' && (
+        <div className="flex items-center justify-between gap-2 rounded-lg bg-warning/10 p-2 text-xs text-warning">
+          <span className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+            {scheme === 'epc' ? 'EPC069-12' : 'The QR-bill standard'} requires error correction level M
+          </span>
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => onErrorCorrectionLevelChange('M')}>
+            Use M
+          </Button>
+        </div>
+      )}
+
+      {(scheme === 'bitcoin' || scheme === 'ethereum') && (
+        <>
+          {renderField('address', 'Wallet Address', scheme === 'bitcoin' ? 'bc1q...' : '0x...', { required: true })}
+          <div className="grid grid-cols-2 gap-3">
+            {renderField('amount', `Amount (${scheme === 'bitcoin' ? 'BTC' : 'ETH'})`, 'Optional', { inputMode: 'decimal' })}
+            {scheme === 'bitcoin'
+              ? renderField('label', 'Label', 'Coffee Shop')
+              : renderField('chainId', 'Chain ID', '1 (mainnet)', { inputMode: 'numeric' })}
+          </div>
+          {scheme === 'bitcoin' && renderField('message', 'Message', 'Order #1042')}
+        </>
+      )}
+    </div>
+  );
+}
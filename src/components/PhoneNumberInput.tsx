@@ -0,0 +1,43 @@
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { COUNTRY_CODES } from '@/lib/qr-types';
+
+interface PhoneNumberInputProps {
+  countryCode: string;
+  onCountryCodeChange: (dial: string) => void;
+  phone: string;
+  onPhoneChange: (phone: string) => void;
+}
+
+// Country dial code picker plus national number, shared by the WhatsApp, SMS and call forms
+export function PhoneNumberInput({ countryCode, onCountryCodeChange, phone, onPhoneChange }: PhoneNumberInputProps) {
+  return (
+    <div className="flex gap-2">
+      <Select value={countryCode} onValueChange={onCountryCodeChange}>
+        <SelectTrigger className="w-32">
+          <SelectValue placeholder="Code" />
+        </SelectTrigger>
+        <SelectContent className="max-h-60">
+          {COUNTRY_CODES.map((cc) => (
+            <SelectItem key={cc.code} value={cc.dial}>
+              +{cc.dial} {cc.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="tel"
+        placeholder="Phone number"
+        value={phone}
+        onChange={(e) => onPhoneChange(e.target.value)}
+        className="flex-1"
+      />
+    </div>
+  );
+}
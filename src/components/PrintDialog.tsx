@@ -20,25 +20,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Printer, Grid3X3, Maximize2, FileText, RotateCw, Ruler } from 'lucide-react';
+import { Printer, Grid3X3, Maximize2, FileText, RotateCw, Ruler, FileDown, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  PAPER_SIZES,
+  type PaperSize,
+  type PaperOrientation,
+  type PrintLayout,
+  type QRRenderOptions,
+} from '@/lib/qr-types';
+import { computeSheetLayout, createQRSheetPdf, createSwissBillPdf, getPaperDimensions } from '@/lib/qr-pdf';
+import { isSwissQrBill } from '@/lib/qr-payment';
+import { downloadBlob } from '@/lib/qr-utils';
 
 interface PrintDialogProps {
   qrDataUrl: string | null;
   qrContent: string;
+  renderOptions?: QRRenderOptions; // enables vector PDF download
 }
 
-type PaperSize = 'a4' | 'a5' | 'letter' | 'legal' | 'custom';
-type Orientation = 'portrait' | 'landscape';
-
-const PAPER_SIZES: Record<PaperSize, { width: number; height: number; label: string }> = {
-  a4: { width: 210, height: 297, label: 'A4 (210×297mm)' },
-  a5: { width: 148, height: 210, label: 'A5 (148×210mm)' },
-  letter: { width: 216, height: 279, label: 'Letter (8.5×11")' },
-  legal: { width: 216, height: 356, label: 'Legal (8.5×14")' },
-  custom: { width: 210, height: 297, label: 'Custom' },
-};
-
 const QR_SIZE_PRESETS = [
   { value: 25, label: '25mm (1")', description: 'Small - Business cards' },
   { value: 40, label: '40mm (1.5")', description: 'Medium - Product labels' },
@@ -48,37 +48,68 @@ const QR_SIZE_PRESETS = [
   { value: 150, label: '150mm (6")', description: 'Jumbo - Banners' },
 ];
 
-export function PrintDialog({ qrDataUrl, qrContent }: PrintDialogProps) {
+export function PrintDialog({ qrDataUrl, qrContent, renderOptions }: PrintDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [qrSize, setQrSize] = useState(60);
   const [copies, setCopies] = useState(1);
-  const [layout, setLayout] = useState<'single' | 'grid' | 'fill'>('single');
+  const [layout, setLayout] = useState<PrintLayout>('single');
   const [paperSize, setPaperSize] = useState<PaperSize>('a4');
-  const [orientation, setOrientation] = useState<Orientation>('portrait');
+  const [orientation, setOrientation] = useState<PaperOrientation>('portrait');
   const [showLabel, setShowLabel] = useState(true);
   const [customLabel, setCustomLabel] = useState('');
   const [margin, setMargin] = useState(10);
   const [gridCols, setGridCols] = useState(3);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const swissBill = isSwissQrBill(qrContent);
 
-  const getPaperDimensions = () => {
-    const base = PAPER_SIZES[paperSize];
-    if (orientation === 'landscape') {
-      return { width: base.height, height: base.width };
+  const calculateGridLayout = () =>
+    computeSheetLayout({ paperSize, orientation, layout, qrSize, gridCols, margin, showLabel });
+
+  const getLabel = () =>
+    customLabel || (qrContent.length > 40 ? qrContent.slice(0, 40) + '...' : qrContent);
+
+  const handleDownloadPdf = async () => {
+    if (!renderOptions || !qrContent) {
+      toast.error('No QR code to export');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await createQRSheetPdf(qrContent, renderOptions, {
+        paperSize,
+        orientation,
+        layout,
+        qrSize,
+        copies,
+        gridCols,
+        margin,
+        label: showLabel ? getLabel() : null,
+      });
+      downloadBlob(blob, `qrcode-${paperSize}-${qrSize}mm.pdf`);
+      toast.success('PDF downloaded!');
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast.error('Failed to create PDF');
+    } finally {
+      setIsExporting(false);
     }
-    return { width: base.width, height: base.height };
   };
 
-  const calculateGridLayout = () => {
-    const paper = getPaperDimensions();
-    const usableWidth = paper.width - (margin * 2);
-    const usableHeight = paper.height - (margin * 2);
-    
-    const cols = layout === 'fill' 
-      ? Math.floor(usableWidth / (qrSize + 5))
-      : gridCols;
-    const rows = Math.floor(usableHeight / (qrSize + (showLabel ? 15 : 5)));
-    
-    return { cols: Math.max(1, cols), rows: Math.max(1, rows), maxItems: cols * rows };
+  // Swiss QR-bill payment part - fixed layout, independent of the sheet settings
+  const handleDownloadSwissBill = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await createSwissBillPdf(qrContent);
+      downloadBlob(blob, 'qr-bill-payment-part-a6.pdf');
+      toast.success('QR-bill downloaded!');
+    } catch (error) {
+      console.error('QR-bill export failed:', error);
+      toast.error('Failed to create QR-bill');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handlePrint = () => {
@@ -93,11 +124,11 @@ export function PrintDialog({ qrDataUrl, qrContent }: PrintDialogProps) {
       return;
     }
 
-    const paper = getPaperDimensions();
+    const paper = getPaperDimensions(paperSize, orientation);
     const gridLayout = calculateGridLayout();
     const actualCopies = layout === 'fill' ? gridLayout.maxItems : copies;
-    const actualCols = layout === 'single' ? 1 : layout === 'fill' ? gridLayout.cols : gridCols;
-    const label = customLabel || (qrContent.length > 40 ? qrContent.slice(0, 40) + '...' : qrContent);
+    const actualCols = gridLayout.cols;
+    const label = getLabel();
 
     printWindow.document.write(`
       <!DOCTYPE html>
@@ -227,6 +258,32 @@ export function PrintDialog({ qrDataUrl, qrContent }: PrintDialogProps) {
             </motion.div>
           )}
 
+          {/* Swiss QR-bill */}
+          {swissBill && (
+            <div className="p-3 rounded-lg bg-secondary/50 space-y-2">
+              <div>
+                <p className="text-sm font-medium">Swiss QR-bill payment part</p>
+                <p className="text-xs text-muted-foreground">
+                  A6 landscape (148×105mm) with the code at 46mm, amount and payee details as the standard requires
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadSwissBill}
+                disabled={isExporting}
+                className="w-full"
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileDown className="h-4 w-4 mr-2" />
+                )}
+                Download Payment Part PDF
+              </Button>
+            </div>
+          )}
+
           {/* Paper Size */}
           <div className="space-y-2">
             <Label className="flex items-center gap-2">
@@ -398,14 +455,36 @@ export function PrintDialog({ qrDataUrl, qrContent }: PrintDialogProps) {
             )}
           </div>
 
-          {/* Print Button */}
-          <Button 
-            onClick={handlePrint}
-            className="w-full gradient-primary text-white"
-          >
-            <Printer className="h-4 w-4 mr-2" />
-            Print {layout === 'fill' ? gridLayout.maxItems : copies} {(layout === 'fill' ? gridLayout.maxItems : copies) > 1 ? 'Copies' : 'Copy'}
-          </Button>
+          {/* Print / PDF Buttons */}
+          <div className="flex gap-2">
+            <Button 
+              onClick={handlePrint}
+              className="flex-1 gradient-primary text-white"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print {layout === 'fill' ? gridLayout.maxItems : copies} {(layout === 'fill' ? gridLayout.maxItems : copies) > 1 ? 'Copies' : 'Copy'}
+            </Button>
+            {renderOptions && (
+              <Button
+                variant="outline"
+                onClick={handleDownloadPdf}
+                disabled={isExporting}
+                className="flex-1"
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileDown className="h-4 w-4 mr-2" />
+                )}
+                Download PDF
+              </Button>
+            )}
+          </div>
+          {renderOptions && (
+            <p className="text-xs text-muted-foreground text-center">
+              PDF keeps the QR code as vector paths at exact millimetre sizes, ready for professional printing.
+            </p>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import type { QRHistoryItem } from '@/lib/qr-types';
+import { gradientToCss } from '@/lib/qr-gradient';
 import { History, Trash2, Clock, RefreshCw, ChevronDown, ChevronUp, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -159,11 +160,11 @@ export function QRHistory({
                         <span className="flex items-center gap-1">
                           <div 
                             className="w-3 h-3 rounded border border-border" 
-                            style={{ backgroundColor: item.colors.fg }}
+                            style={{ background: item.fgGradient ? gradientToCss(item.fgGradient) : item.colors.fg }}
                           />
                           <div 
                             className="w-3 h-3 rounded border border-border" 
-                            style={{ backgroundColor: item.colors.bg }}
+                            style={{ background: item.bgGradient ? gradientToCss(item.bgGradient) : item.colors.bg }}
                           />
                         </span>
                       </div>
@@ -0,0 +1,134 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import {
+  QUIET_ZONE_REQUIRED,
+  describeSegments,
+  type GradedMetric,
+  type QRInspection,
+  type QualityGrade,
+} from '@/lib/qr-inspect';
+
+const GRADE_STYLES: Record<QualityGrade, string> = {
+  A: 'bg-green-600 text-white',
+  B: 'bg-lime-600 text-white',
+  C: 'bg-yellow-500 text-black',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-destructive text-destructive-foreground',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function gradeTitle(inspection: QRInspection): string {
+  const { symbolContrast, modulation, fixedPatternDamage, unusedErrorCorrection } = inspection.grades;
+  return [
+    `Symbol contrast ${symbolContrast.grade} (${percent(symbolContrast.value)})`,
+    `Modulation ${modulation.grade} (${percent(modulation.value)})`,
+    `Fixed pattern damage ${fixedPatternDamage.grade} (${fixedPatternDamage.value} modules)`,
+    `Unused error correction ${unusedErrorCorrection.grade} (${percent(unusedErrorCorrection.value)})`,
+  ].join('\n');
+}
+
+export function QRGradeBadge({ grade, title }: { grade: QualityGrade; title?: string }) {
+  return (
+    <Badge className={`px-1.5 py-0 text-xs font-bold border-transparent ${GRADE_STYLES[grade]}`} title={title}>
+      {grade}
+    </Badge>
+  );
+}
+
+// Compact columns for result lists: version-level, mask, modes, module size, quiet zone, grade
+export function QRInspectionColumns({ inspection }: { inspection: QRInspection | null | undefined }) {
+  if (!inspection) {
+    return <span className="text-xs text-muted-foreground flex-shrink-0">no details</span>;
+  }
+  return (
+    <span className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0 font-mono">
+      <span title="Version and error correction level">{`V${inspection.version}-${inspection.errorCorrectionLevel}`}</span>
+      <span title="Mask pattern">{`m${inspection.maskPattern}`}</span>
+      <span title="Encoding modes" className="hidden sm:inline">{describeSegments(inspection)}</span>
+      <span title="Module size">{`${inspection.moduleSize.toFixed(1)}px`}</span>
+      <span
+        title={`Quiet zone - ${QUIET_ZONE_REQUIRED} modules required`}
+        className={inspection.quietZoneAdequate ? '' : 'text-destructive'}
+      >
+        {`QZ${inspection.quietZone}`}
+      </span>
+      <QRGradeBadge grade={inspection.grades.overall} title={gradeTitle(inspection)} />
+    </span>
+  );
+}
+
+function MetricRow({ label, metric, value }: { label: string; metric: GradedMetric; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-2">
+        <span className="font-mono">{value}</span>
+        <QRGradeBadge grade={metric.grade} />
+      </span>
+    </div>
+  );
+}
+
+// Full report for the single-image scanner
+export function QRInspectionDetails({ inspection }: { inspection: QRInspection }) {
+  const { grades } = inspection;
+  const facts: [string, string][] = [
+    ['Version', `${inspection.version} (${inspection.version * 4 + 17}×${inspection.version * 4 + 17})`],
+    ['Error correction', inspection.errorCorrectionLevel],
+    ['Mask pattern', String(inspection.maskPattern)],
+    [
+      'Encoding',
+      inspection.segments.length > 0
+        ? inspection.segments.map((s) => (s.count > 0 ? `${s.mode} (${s.count})` : s.mode)).join(', ')
+        : 'unknown',
+    ],
+    ['ECI', inspection.eci.length > 0 ? inspection.eci.join(', ') : 'none'],
+    ['Module size', `${inspection.moduleSize.toFixed(1)} px`],
+  ];
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-secondary/30 border border-border text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Symbol Quality</span>
+        <span className="flex items-center gap-2 text-xs text-muted-foreground">
+          ISO/IEC 15415-style grade
+          <QRGradeBadge grade={grades.overall} />
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {facts.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-mono text-right truncate" title={value}>{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div
+        className={`flex items-center gap-2 text-xs ${inspection.quietZoneAdequate ? 'text-green-600 dark:text-green-400' : 'text-destructive'}`}
+      >
+        {inspection.quietZoneAdequate ? <CheckCircle className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+        {inspection.quietZoneAdequate
+          ? `Quiet zone of at least ${QUIET_ZONE_REQUIRED} modules`
+          : `Quiet zone only ${inspection.quietZone} module${inspection.quietZone === 1 ? '' : 's'} - ${QUIET_ZONE_REQUIRED} required`}
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <MetricRow label="Symbol contrast" metric={grades.symbolContrast} value={percent(grades.symbolContrast.value)} />
+        <MetricRow label="Modulation" metric={grades.modulation} value={percent(grades.modulation.value)} />
+        <MetricRow
+          label="Fixed pattern damage"
+          metric={grades.fixedPatternDamage}
+          value={`${grades.fixedPatternDamage.value} module${grades.fixedPatternDamage.value === 1 ? '' : 's'}`}
+        />
+        <MetricRow
+          label="Unused error correction"
+          metric={grades.unusedErrorCorrection}
+          value={percent(grades.unusedErrorCorrection.value)}
+        />
+      </div>
+    </div>
+  );
+}
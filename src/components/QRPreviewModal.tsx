@@ -2,8 +2,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, Download, Copy, Share2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useEffect, useCallback, useState } from 'react';
-import { generateQRCanvas, applyDesignStyle, addLogoToCanvas, addBorderToCanvas, copyCanvasToClipboard, shareCanvas } from '@/lib/qr-utils';
-import type { QRDesignStyle, LogoItem, LogoShape, LogoLayout } from '@/lib/qr-types';
+import { renderQRCanvas, copyCanvasToClipboard, shareCanvas } from '@/lib/qr-utils';
+import type { QRDesignStyle, LogoItem, LogoShape, LogoLayout, ErrorCorrectionLevel, QRGradient, QREyeStyle } from '@/lib/qr-types';
 import { toast } from 'sonner';
 
 interface QRPreviewModalProps {
@@ -13,11 +13,16 @@ interface QRPreviewModalProps {
   designStyle: QRDesignStyle;
   fgColor: string;
   bgColor: string;
+  fgGradient: QRGradient | null;
+  bgGradient: QRGradient | null;
+  eyes: QREyeStyle;
+  errorCorrectionLevel: ErrorCorrectionLevel;
   enableLogo: boolean;
   logo: LogoItem | null;
   logoShape: LogoShape;
   logoLayout: LogoLayout;
   logoSize: number;
+  logoExcavate: boolean;
   enableBorder: boolean;
   borderWidth: number;
   borderColor: string;
@@ -30,11 +35,16 @@ export function QRPreviewModal({
   designStyle,
   fgColor,
   bgColor,
+  fgGradient,
+  bgGradient,
+  eyes,
+  errorCorrectionLevel,
   enableLogo,
   logo,
   logoShape,
   logoLayout,
   logoSize,
+  logoExcavate,
   enableBorder,
   borderWidth,
   borderColor,
@@ -47,33 +57,30 @@ export function QRPreviewModal({
     if (!content || !isOpen) return;
 
     try {
-      let canvas = await generateQRCanvas(content, {
+      const canvas = await renderQRCanvas(content, {
         size: 1024,
+        design: designStyle,
         fgColor,
         bgColor,
+        fgGradient,
+        bgGradient,
+        eyes,
+        errorCorrectionLevel,
+        logo: enableLogo ? logo : null,
+        logoShape,
+        logoLayout,
+        logoSize,
+        logoExcavate,
+        borderWidth: enableBorder ? borderWidth : 0,
+        borderColor,
       });
 
-      canvas = applyDesignStyle(canvas, designStyle, fgColor, bgColor);
-
-      if (enableLogo && logo) {
-        canvas = await addLogoToCanvas(canvas, logo, {
-          shape: logoShape,
-          layout: logoLayout,
-          size: logoSize,
-          bgColor,
-        });
-      }
-
-      if (enableBorder) {
-        canvas = addBorderToCanvas(canvas, borderWidth, borderColor);
-      }
-
       setCanvasRef(canvas);
       setQrDataUrl(canvas.toDataURL('image/png'));
     } catch (error) {
       console.error('Error generating HQ preview:', error);
     }
-  }, [content, isOpen, fgColor, bgColor, designStyle, enableLogo, logo, logoShape, logoLayout, logoSize, enableBorder, borderWidth, borderColor]);
+  }, [content, isOpen, fgColor, bgColor, fgGradient, bgGradient, eyes, errorCorrectionLevel, designStyle, enableLogo, logo, logoShape, logoLayout, logoSize, logoExcavate, enableBorder, borderWidth, borderColor]);
 
   useEffect(() => {
     generateHQPreview();
@@ -11,29 +11,73 @@ import {
   Copy, 
   Check,
   AlertCircle,
-  ArrowRight
+  ArrowRight,
+  Camera,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Html5Qrcode } from 'html5-qrcode';
+import { parseQRContent, type ParsedQRContent } from '@/lib/qr-parse';
+import { CameraScanner } from './CameraScanner';
+import type { ScanDelivery } from '@/hooks/use-scan-inbox';
+import type { QRInspection } from '@/lib/qr-inspect';
+import { inspectQRCodeInFile } from '@/lib/qr-inspect-file';
+import { QRInspectionDetails } from './QRInspectionDetails';
 
 interface QRScannerProps {
-  onContentExtracted: (content: string) => void;
+  onContentExtracted: (payload: ParsedQRContent) => void;
+  onContentsExtracted?: (payloads: ParsedQRContent[]) => void;
+  onSwitchToBatch?: () => void;
+  incoming?: ScanDelivery;
+  onIncomingConsumed?: (id: number) => void;
 }
 
-export function QRScanner({ onContentExtracted }: QRScannerProps) {
+type ScanSource = 'upload' | 'camera';
+
+export function QRScanner({
+  onContentExtracted,
+  onContentsExtracted,
+  onSwitchToBatch,
+  incoming,
+  onIncomingConsumed,
+}: QRScannerProps) {
+  const [source, setSource] = useState<ScanSource>('upload');
   const [extractedContent, setExtractedContent] = useState<string>('');
+  const [inspection, setInspection] = useState<QRInspection | null | undefined>(undefined); // undefined = pending
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string>('');
   const [copied, setCopied] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inspectionRunRef = useRef(0); // ignores inspections that finish after a newer scan started
+
+  // A pasted or dropped image switches back to image mode, then scans once the reader element exists
+  useEffect(() => {
+    if (!incoming?.files[0]) return;
+    onIncomingConsumed?.(incoming.id);
+    setSource('upload');
+    setPendingFile(incoming.files[0]);
+  }, [incoming, onIncomingConsumed]);
+
+  useEffect(() => {
+    if (source !== 'upload' || !pendingFile) return;
+    setPendingFile(null);
+    void scanImage(pendingFile);
+  }, [source, pendingFile]);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    await scanImage(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
 
+  const scanImage = async (file: File) => {
     setIsScanning(true);
     setError('');
     setExtractedContent('');
+    setInspection(undefined);
 
     try {
       const html5QrCode = new Html5Qrcode('qr-reader-element');
@@ -43,15 +87,18 @@ export function QRScanner({ onContentExtracted }: QRScannerProps) {
       toast.success('QR code scanned successfully!');
       
       await html5QrCode.clear();
+
+      // Symbol details need the code's corners, which html5-qrcode does not report - ZXing finds them again
+      const run = ++inspectionRunRef.current;
+      inspectQRCodeInFile(file)
+        .catch(() => null)
+        .then((details) => run === inspectionRunRef.current && setInspection(details));
     } catch (err) {
       console.error('QR scan error:', err);
       setError('Could not read QR code from image. Please try a clearer image.');
       toast.error('Failed to scan QR code');
     } finally {
       setIsScanning(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
@@ -70,12 +117,14 @@ export function QRScanner({ onContentExtracted }: QRScannerProps) {
 
   const handleRecreate = () => {
     if (!extractedContent) return;
-    onContentExtracted(extractedContent);
+    onContentExtracted(parseQRContent(extractedContent));
     toast.success('Content loaded! Customize and generate your QR.');
   };
 
   const handleReset = () => {
     setExtractedContent('');
+    setInspection(undefined);
+    inspectionRunRef.current++;
     setError('');
   };
 
@@ -87,113 +136,153 @@ export function QRScanner({ onContentExtracted }: QRScannerProps) {
           QR Code Scanner
         </CardTitle>
         <CardDescription>
-          Upload a QR code image to extract its content and recreate with custom styling
+          Upload a QR code image or use the camera to extract content, check print quality and recreate with custom styling
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Hidden QR reader element */}
-        <div id="qr-reader-element" className="hidden" />
-        
-        {/* Upload Area */}
-        <label
-          className={`flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed rounded-xl cursor-pointer transition-all ${
-            isScanning
-              ? 'border-primary bg-primary/5'
-              : 'border-border hover:border-primary/50 hover:bg-secondary/30'
-          }`}
-        >
-          {isScanning ? (
-            <>
-              <motion.div
-                animate={{ rotate: 360 }}
-                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-              >
-                <RefreshCw className="h-10 w-10 text-primary" />
-              </motion.div>
-              <span className="text-sm font-medium">Scanning...</span>
-            </>
-          ) : (
-            <>
-              <Upload className="h-10 w-10 text-muted-foreground" />
-              <div className="text-center">
-                <span className="text-sm font-medium">Upload QR Code Image</span>
-                <p className="text-xs text-muted-foreground mt-1">
-                  PNG, JPG, or any image with a QR code
-                </p>
-              </div>
-            </>
-          )}
-          <Input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={handleFileUpload}
-            className="hidden"
-            disabled={isScanning}
-          />
-        </label>
-
-        {/* Error Display */}
-        {error && (
-          <motion.div
-            initial={{ opacity: 0, y: -10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive"
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant={source === 'upload' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+            onClick={() => setSource('upload')}
           >
-            <AlertCircle className="h-4 w-4 flex-shrink-0" />
-            <span className="text-sm">{error}</span>
-          </motion.div>
+            <Upload className="h-4 w-4" />
+            Image
+          </Button>
+          <Button
+            variant={source === 'camera' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+            onClick={() => setSource('camera')}
+          >
+            <Camera className="h-4 w-4" />
+            Live Camera
+          </Button>
+        </div>
+
+        {source === 'camera' && (
+          <CameraScanner
+            onContentExtracted={onContentExtracted}
+            onContentsExtracted={onContentsExtracted}
+            onSwitchToBatch={onSwitchToBatch}
+          />
         )}
 
-        {/* Extracted Content */}
-        {extractedContent && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="space-y-3"
-          >
-            <Label className="text-sm font-medium">Extracted Content</Label>
-            <div className="p-3 rounded-lg bg-secondary/50 border border-border">
-              <p className="text-sm font-mono break-all">{extractedContent}</p>
-            </div>
+        {source === 'upload' && (
+          <>
+            {/* Hidden QR reader element */}
+            <div id="qr-reader-element" className="hidden" />
             
-            <div className="flex flex-col sm:flex-row gap-2">
-              <Button
-                variant="outline"
-                onClick={handleCopy}
-                className="flex-1 gap-2"
+            {/* Upload Area */}
+            <label
+              className={`flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed rounded-xl cursor-pointer transition-all ${
+                isScanning
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50 hover:bg-secondary/30'
+              }`}
+            >
+              {isScanning ? (
+                <>
+                  <motion.div
+                    animate={{ rotate: 360 }}
+                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                  >
+                    <RefreshCw className="h-10 w-10 text-primary" />
+                  </motion.div>
+                  <span className="text-sm font-medium">Scanning...</span>
+                </>
+              ) : (
+                <>
+                  <Upload className="h-10 w-10 text-muted-foreground" />
+                  <div className="text-center">
+                    <span className="text-sm font-medium">Upload QR Code Image</span>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      PNG, JPG, or any image with a QR code - or paste a screenshot
+                    </p>
+                  </div>
+                </>
+              )}
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleFileUpload}
+                className="hidden"
+                disabled={isScanning}
+              />
+            </label>
+
+            {/* Error Display */}
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive"
               >
-                {copied ? (
-                  <>
-                    <Check className="h-4 w-4" />
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <Copy className="h-4 w-4" />
-                    Copy Content
-                  </>
-                )}
-              </Button>
-              
-              <Button
-                onClick={handleRecreate}
-                className="flex-1 gap-2 gradient-primary text-white"
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span className="text-sm">{error}</span>
+              </motion.div>
+            )}
+
+            {/* Extracted Content */}
+            {extractedContent && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-3"
               >
-                Recreate QR
-                <ArrowRight className="h-4 w-4" />
-              </Button>
-            </div>
-
-            <Button
-              variant="ghost"
-              onClick={handleReset}
-              className="w-full text-muted-foreground"
-            >
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Scan Another
-            </Button>
-          </motion.div>
+                <Label className="text-sm font-medium">Extracted Content</Label>
+                <div className="p-3 rounded-lg bg-secondary/50 border border-border">
+                  <p className="text-sm font-mono break-all">{extractedContent}</p>
+                </div>
+
+                {inspection && <QRInspectionDetails inspection={inspection} />}
+                {inspection === null && (
+                  <p className="text-xs text-muted-foreground">
+                    Symbol details are not available for this image - the code could not be re-read module by module.
+                  </p>
+                )}
+                
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleCopy}
+                    className="flex-1 gap-2"
+                  >
+                    {copied ? (
+                      <>
+                        <Check className="h-4 w-4" />
+                        Copied!
+                      </>
+                    ) : (
+                      <>
+                        <Copy className="h-4 w-4" />
+                        Copy Content
+                      </>
+                    )}
+                  </Button>
+                  
+                  <Button
+                    onClick={handleRecreate}
+                    className="flex-1 gap-2 gradient-primary text-white"
+                  >
+                    Recreate QR
+                    <ArrowRight className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <Button
+                  variant="ghost"
+                  onClick={handleReset}
+                  className="w-full text-muted-foreground"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Scan Another
+                </Button>
+              </motion.div>
+            )}
+          </>
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,70 @@
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ShieldCheck, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import type { RobustnessReport } from '@/lib/qr-robustness';
+
+interface RobustnessPanelProps {
+  report: RobustnessReport | null;
+  isRunning: boolean;
+  progress: number; // 0-100
+  disabled?: boolean;
+  onRun: () => void;
+}
+
+export function RobustnessPanel({ report, isRunning, progress, disabled, onRun }: RobustnessPanelProps) {
+  return (
+    <div className="space-y-3 mt-4">
+      <Button
+        variant="outline"
+        onClick={onRun}
+        disabled={disabled || isRunning}
+        className="w-full gap-2"
+      >
+        {isRunning ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <ShieldCheck className="h-4 w-4" />
+        )}
+        {isRunning ? 'Stress testing...' : 'Test Scan Robustness'}
+      </Button>
+
+      {isRunning && <Progress value={progress} className="h-2" />}
+
+      {report && !isRunning && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-3 rounded-lg bg-secondary/50 border border-border space-y-2"
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Robustness score</span>
+            <span
+              className={cn(
+                'text-sm font-bold',
+                report.score === 100 && 'text-success',
+                report.score < 100 && report.score >= 70 && 'text-warning',
+                report.score < 70 && 'text-destructive'
+              )}
+            >
+              {report.score}% ({report.passed}/{report.total})
+            </span>
+          </div>
+          <ul className="space-y-1">
+            {report.results.map((result) => (
+              <li key={result.id} className="flex items-center gap-2 text-xs" title={result.message}>
+                {result.passed ? (
+                  <CheckCircle className="h-3 w-3 text-success flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-3 w-3 text-destructive flex-shrink-0" />
+                )}
+                <span className={cn(!result.passed && 'text-muted-foreground')}>{result.label}</span>
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+    </div>
+  );
+}
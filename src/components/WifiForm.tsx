@@ -0,0 +1,188 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import {
+  EAP_METHODS,
+  WIFI_AUTH_TYPES,
+  type EapMethod,
+  type EapPhase2,
+  type WifiAuthType,
+  type WifiData,
+} from '@/lib/qr-types';
+import { estimatePasswordStrength, getWifiErrors, getWifiWarnings } from '@/lib/qr-wifi';
+
+interface WifiFormProps {
+  value: WifiData;
+  onChange: (value: WifiData) => void;
+}
+
+const STRENGTH_STYLES = {
+  weak: { label: 'Weak', className: 'bg-destructive', width: 'w-1/3' },
+  fair: { label: 'Fair', className: 'bg-warning', width: 'w-2/3' },
+  strong: { label: 'Strong', className: 'bg-success', width: 'w-full' },
+};
+
+export function WifiForm({ value, onChange }: WifiFormProps) {
+  const update = (patch: Partial<WifiData>) => onChange({ ...value, ...patch });
+
+  const errors = useMemo(() => getWifiErrors(value), [value]);
+  const warnings = useMemo(() => getWifiWarnings(value), [value]);
+  const enterprise = value.authType === 'WPA2-EAP';
+  const method = EAP_METHODS.find((m) => m.value === value.eapMethod) ?? EAP_METHODS[0];
+  const needsPassword = enterprise ? method.password : value.authType !== 'nopass';
+  const personal = value.authType === 'WPA' || value.authType === 'SAE';
+  const strength = personal && value.password ? estimatePasswordStrength(value.password) : null;
+
+  // Switching method keeps the phase 2 choice only when the new method offers it
+  const changeMethod = (eapMethod: EapMethod) => {
+    const next = EAP_METHODS.find((m) => m.value === eapMethod) ?? EAP_METHODS[0];
+    update({ eapMethod, phase2: next.phase2.includes(value.phase2) ? value.phase2 : next.phase2[0] ?? 'NONE' });
+  };
+
+  // Errors only show once the field has a value
+  const fieldError = (key: 'ssid' | 'password' | 'identity') =>
+    value[key] && errors[key] ? <p className="text-xs text-destructive">{errors[key]}</p> : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Network Name (SSID)</Label>
+        <Input placeholder="My WiFi Network" value={value.ssid} onChange={(e) => update({ ssid: e.target.value })} />
+        {fieldError('ssid')}
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label>Security Type</Label>
+        <Select value={value.authType} onValueChange={(authType) => update({ authType: authType as WifiAuthType })}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WIFI_AUTH_TYPES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label} - {option.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {enterprise && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>EAP Method</Label>
+              <Select value={value.eapMethod} onValueChange={(m) => changeMethod(m as EapMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EAP_METHODS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Phase 2</Label>
+              <Select
+                value={value.phase2}
+                onValueChange={(phase2) => update({ phase2: phase2 as EapPhase2 })}
+                disabled={!method.phase2.length}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(method.phase2.length ? method.phase2 : ['NONE']).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === 'NONE' ? 'None' : option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Identity</Label>
+              <Input
+                placeholder="alice@corp.example"
+                value={value.identity}
+                onChange={(e) => update({ identity: e.target.value })}
+              />
+              {fieldError('identity')}
+            </div>
+            <div className="space-y-2">
+              <Label>Anonymous Identity</Label>
+              <Input
+                placeholder="Optional"
+                value={value.anonymousIdentity}
+                onChange={(e) => update({ anonymousIdentity: e.target.value })}
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {needsPassword && (
+        <div className="space-y-2">
+          <Label>Password</Label>
+          <Input
+            type="password"
+            placeholder={value.authType === 'WEP' ? 'WEP key' : 'WiFi password'}
+            value={value.password}
+            onChange={(e) => update({ password: e.target.value })}
+          />
+          {fieldError('password')}
+          {strength && (
+            <div className="flex items-center gap-2">
+              <div className="h-1 flex-1 rounded-full bg-secondary overflow-hidden">
+                <div
+                  className={cn('h-full rounded-full', STRENGTH_STYLES[strength.strength].className, STRENGTH_STYLES[strength.strength].width)}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {STRENGTH_STYLES[strength.strength].label} (~{strength.bits} bits)
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {personal && (
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>WPA3 Only</Label>
+            <p className="text-xs text-muted-foreground">Transition disable (R:1) - devices will not fall back to WPA2</p>
+          </div>
+          <Switch checked={value.transitionDisable} onCheckedChange={(transitionDisable) => update({ transitionDisable })} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label>Hidden Network</Label>
+        <Switch checked={value.hidden} onCheckedChange={(hidden) => update({ hidden })} />
+      </div>
+
+      {warnings.map((warning) => (
+        <div key={warning} className="flex items-center gap-1 rounded-lg bg-warning/10 p-2 text-xs text-warning">
+          <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
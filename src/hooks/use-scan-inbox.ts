@@ -0,0 +1,76 @@
+import * as React from "react";
+import { toast } from "sonner";
+import {
+  filesFromTransfer,
+  hasScanContent,
+  isEditableTarget,
+  routeScanFiles,
+  type ScanTarget,
+  type TransferLike,
+} from "@/lib/qr-clipboard";
+
+// Files handed to a scanner from outside it; a new id means a new delivery.
+// Scanners hand the id back through onIncomingConsumed so a remounted scanner does not take it again
+export interface ScanDelivery {
+  id: number;
+  files: File[];
+}
+
+// Global Ctrl/Cmd+V and drop handling for the Scan tab - one image goes to the single scanner,
+// several images or documents to the batch scanner
+export function useScanInbox(enabled: boolean) {
+  const [deliveries, setDeliveries] = React.useState<Partial<Record<ScanTarget, ScanDelivery>>>({});
+  const [isDragOver, setIsDragOver] = React.useState(false);
+  const nextId = React.useRef(1);
+
+  const receive = React.useCallback(async (transfer: TransferLike) => {
+    const { files, failed } = await filesFromTransfer(transfer);
+    if (failed.length > 0) {
+      toast.error(
+        failed.length === 1
+          ? "Could not load the image from that page - save it and drop the file instead"
+          : `Could not load ${failed.length} images - save them and drop the files instead`
+      );
+    }
+    if (files.length === 0) {
+      if (failed.length === 0) toast.error("No image found to scan");
+      return;
+    }
+    const target = routeScanFiles(files);
+    setDeliveries((prev) => ({ ...prev, [target]: { id: nextId.current++, files } }));
+  }, []);
+
+  // Only the delivery that was taken is cleared - a newer one may have arrived meanwhile
+  const consume = React.useCallback((target: ScanTarget, id: number) => {
+    setDeliveries((prev) => (prev[target]?.id === id ? { ...prev, [target]: undefined } : prev));
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const onPaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isEditableTarget(e.target) || !hasScanContent(e.clipboardData)) return;
+      e.preventDefault();
+      void receive(e.clipboardData);
+    };
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, [enabled, receive]);
+
+  const dropProps = {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragOver(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // Ignore leaving into a child element
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragOver(false);
+      void receive(e.dataTransfer);
+    },
+  };
+
+  return { deliveries, isDragOver, dropProps, receive, consume };
+}
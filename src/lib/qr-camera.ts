@@ -0,0 +1,164 @@
+// Live camera scanning helpers: de-duplication of continuous results, scan feedback and a fake camera for testing
+
+// A payload that leaves the frame for this long counts as a new sighting when it comes back
+export const SCAN_COOLDOWN_MS = 2000;
+
+export interface LiveScanEntry {
+  content: string;
+  firstSeen: number;
+  lastSeen: number;
+  count: number; // separate sightings, not frames
+}
+
+export interface ScanFeedbackOptions {
+  beep: boolean;
+  vibrate: boolean;
+}
+
+export interface FakeCameraOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  frameMs?: number; // how long each fixture stays in view
+}
+
+// Label reported by enumerateDevices while the fake camera is installed
+export const FAKE_CAMERA_LABEL = 'Fake camera (image fixtures)';
+
+// Continuous scanning reports the same code on every frame - only unseen payloads are added to the list
+export function recordScan(
+  entries: LiveScanEntry[],
+  content: string,
+  now: number,
+  cooldownMs = SCAN_COOLDOWN_MS
+): { entries: LiveScanEntry[]; isNew: boolean } {
+  const index = entries.findIndex((entry) => entry.content === content);
+  if (index === -1) {
+    return { entries: [...entries, { content, firstSeen: now, lastSeen: now, count: 1 }], isNew: true };
+  }
+
+  const entry = entries[index];
+  const count = now - entry.lastSeen > cooldownMs ? entry.count + 1 : entry.count;
+  const next = [...entries];
+  next[index] = { ...entry, lastSeen: now, count };
+  return { entries: next, isNew: false };
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short beep through Web Audio and a vibration pulse where the device supports it
+export function playScanFeedback({ beep, vibrate }: ScanFeedbackOptions): void {
+  if (vibrate && typeof navigator.vibrate === 'function') navigator.vibrate(80);
+  if (!beep || typeof AudioContext === 'undefined') return;
+
+  audioContext ??= new AudioContext();
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.type = 'sine';
+  oscillator.frequency.value = 1760;
+  gain.gain.value = 0.1;
+  oscillator.connect(gain).connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + 0.08);
+}
+
+// A MediaStream that shows image fixtures one after another, letterboxed on a white frame
+export function createFakeCameraStream(
+  frames: CanvasImageSource[],
+  { width = 640, height = 480, fps = 15, frameMs = 1500 }: FakeCameraOptions = {}
+): { stream: MediaStream; stop: () => void } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || typeof canvas.captureStream !== 'function') {
+    throw new Error('Canvas capture is not supported in this browser');
+  }
+
+  const started = Date.now();
+  const draw = () => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    if (frames.length === 0) return;
+
+    const frame = frames[Math.floor((Date.now() - started) / frameMs) % frames.length];
+    const { width: frameWidth, height: frameHeight } = getSourceSize(frame);
+    const scale = Math.min((width * 0.8) / frameWidth, (height * 0.8) / frameHeight);
+    const drawWidth = frameWidth * scale;
+    const drawHeight = frameHeight * scale;
+    ctx.drawImage(frame, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  };
+
+  // captureStream only emits frames when the canvas changes, so keep redrawing
+  draw();
+  const timer = setInterval(draw, 1000 / fps);
+  const stream = canvas.captureStream(fps);
+  return {
+    stream,
+    stop: () => {
+      clearInterval(timer);
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+}
+
+// Replace getUserMedia and enumerateDevices with a single fake camera; returns a function that restores them
+export function installFakeCamera(frames: CanvasImageSource[], options: FakeCameraOptions = {}): () => void {
+  const original = navigator.mediaDevices;
+  const running: (() => void)[] = [];
+  const device = {
+    deviceId: 'fake-camera',
+    groupId: 'fake-camera',
+    kind: 'videoinput',
+    label: FAKE_CAMERA_LABEL,
+    toJSON: () => ({}),
+  } as MediaDeviceInfo;
+
+  const fake = {
+    ...(original ?? {}),
+    enumerateDevices: async () => [device],
+    getUserMedia: async (constraints?: MediaStreamConstraints) => {
+      if (!constraints?.video) throw new DOMException('Only video is available', 'NotFoundError');
+      const { stream, stop } = createFakeCameraStream(frames, options);
+      running.push(stop);
+      return stream;
+    },
+  } as MediaDevices;
+
+  Object.defineProperty(navigator, 'mediaDevices', { value: fake, configurable: true });
+  return () => {
+    running.forEach((stop) => stop());
+    Object.defineProperty(navigator, 'mediaDevices', { value: original, configurable: true });
+  };
+}
+
+let fakeCameraInstalled = false;
+
+// Dev builds: ?fake-camera=/a.png,/b.png swaps the camera for those images
+export async function installFakeCameraFromQuery(search: string): Promise<boolean> {
+  if (fakeCameraInstalled) return true;
+  const param = new URLSearchParams(search).get('fake-camera');
+  if (!param) return false;
+
+  const frames = await Promise.all(param.split(',').filter(Boolean).map(loadImage));
+  installFakeCamera(frames);
+  fakeCameraInstalled = true;
+  return true;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load fixture ${src}`));
+    image.src = src;
+  });
+}
+
+function getSourceSize(source: CanvasImageSource): { width: number; height: number } {
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  const { width, height } = source as HTMLCanvasElement;
+  return { width: Number(width) || 1, height: Number(height) || 1 };
+}
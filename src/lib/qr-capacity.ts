@@ -0,0 +1,149 @@
+import QRCode from 'qrcode';
+import type { ErrorCorrectionLevel } from './qr-types';
+
+// Data codewords per version (index 0 = version 1), after error correction
+const DATA_CODEWORDS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    19, 34, 55, 80, 108, 136, 156, 194, 232, 274, 324, 370, 428, 461, 523, 589, 647, 721, 795, 861,
+    932, 1006, 1094, 1174, 1276, 1370, 1468, 1531, 1631, 1735, 1843, 1955, 2071, 2191, 2306, 2434, 2566, 2702, 2812, 2956,
+  ],
+  M: [
+    16, 28, 44, 64, 86, 108, 124, 154, 182, 216, 254, 290, 334, 365, 415, 453, 507, 563, 627, 669,
+    714, 782, 860, 914, 1000, 1062, 1128, 1193, 1267, 1373, 1455, 1541, 1631, 1725, 1812, 1914, 1992, 2102, 2216, 2334,
+  ],
+  Q: [
+    13, 22, 34, 48, 62, 76, 88, 110, 132, 154, 180, 206, 244, 261, 295, 325, 367, 397, 445, 485,
+    512, 568, 614, 664, 718, 754, 808, 871, 911, 985, 1033, 1115, 1171, 1231, 1286, 1354, 1426, 1502, 1582, 1666,
+  ],
+  H: [
+    9, 16, 26, 36, 46, 60, 66, 86, 100, 122, 140, 158, 180, 197, 223, 253, 283, 313, 341, 385,
+    406, 442, 464, 514, 538, 596, 628, 661, 701, 745, 793, 845, 901, 961, 986, 1054, 1096, 1142, 1222, 1276,
+  ],
+};
+
+// Error correction blocks per version (index 0 = version 1)
+const EC_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8,
+    8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+    17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20,
+    23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+// Character count indicator length per mode for versions 1-9, 10-26, 27-40
+const COUNT_BITS: Record<string, [number, number, number]> = {
+  Numeric: [10, 12, 14],
+  Alphanumeric: [9, 11, 13],
+  Byte: [8, 16, 16],
+  Kanji: [8, 10, 12],
+};
+
+export const MAX_QR_VERSION = 40;
+
+// Capacity report for a piece of content at one error correction level
+export interface QRCapacityInfo {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  fits: boolean;
+  version: number; // 0 when content does not fit
+  modules: number; // modules per side
+  usedBits: number;
+  capacityBits: number; // data bits available in the chosen version
+  remainingBytes: number; // extra bytes before the code grows to the next version
+}
+
+// Number of modules per side for a version
+export function getModuleCount(version: number): number {
+  return version * 4 + 17;
+}
+
+// Data capacity of a version in bytes
+export function getDataCapacity(version: number, level: ErrorCorrectionLevel): number {
+  return DATA_CODEWORDS[level][version - 1] ?? 0;
+}
+
+// Analyse how content fits a QR symbol at the given level
+export function getQRCapacity(content: string, level: ErrorCorrectionLevel): QRCapacityInfo {
+  let qr: ReturnType<typeof QRCode.create>;
+  try {
+    qr = QRCode.create(content || ' ', { errorCorrectionLevel: level });
+  } catch {
+    const capacityBits = getDataCapacity(MAX_QR_VERSION, level) * 8;
+    return {
+      errorCorrectionLevel: level,
+      fits: false,
+      version: 0,
+      modules: 0,
+      usedBits: new TextEncoder().encode(content).length * 8,
+      capacityBits,
+      remainingBytes: 0,
+    };
+  }
+
+  const band = qr.version < 10 ? 0 : qr.version < 27 ? 1 : 2;
+  const usedBits = qr.segments.reduce(
+    (sum, segment) => sum + 4 + COUNT_BITS[segment.mode.id][band] + segment.getBitsLength(),
+    0
+  );
+  const capacityBits = getDataCapacity(qr.version, level) * 8;
+
+  return {
+    errorCorrectionLevel: level,
+    fits: true,
+    version: qr.version,
+    modules: qr.modules.size,
+    usedBits,
+    capacityBits,
+    remainingBytes: Math.max(0, Math.floor((capacityBits - usedBits) / 8)),
+  };
+}
+
+// How a version's codewords split into Reed-Solomon blocks
+export interface QRBlockLayout {
+  totalCodewords: number;
+  ecCodewordsPerBlock: number;
+  dataCodewords: number[]; // per block - short blocks come first
+}
+
+// Codewords a symbol holds: every module outside the function patterns, in whole bytes
+export function getTotalCodewords(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36; // version information
+  }
+  return Math.floor(modules / 8);
+}
+
+export function getBlockLayout(version: number, level: ErrorCorrectionLevel): QRBlockLayout {
+  const totalCodewords = getTotalCodewords(version);
+  const blocks = EC_BLOCKS[level][version - 1];
+  const ecCodewordsPerBlock = (totalCodewords - getDataCapacity(version, level)) / blocks;
+  const shortBlocks = blocks - (totalCodewords % blocks);
+  const shortData = Math.floor(totalCodewords / blocks) - ecCodewordsPerBlock;
+
+  return {
+    totalCodewords,
+    ecCodewordsPerBlock,
+    dataCodewords: Array.from({ length: blocks }, (_, i) => (i < shortBlocks ? shortData : shortData + 1)),
+  };
+}
+
+// Codewords reserved for misdecode protection (ISO/IEC 18004 table 9) - they detect errors but cannot correct them
+export function getMisdecodeProtection(version: number, level: ErrorCorrectionLevel): number {
+  if (version === 1) return level === 'L' ? 3 : level === 'M' ? 2 : 1;
+  if (version === 2 && level === 'L') return 2;
+  if (version === 3 && level === 'L') return 1;
+  return 0;
+}
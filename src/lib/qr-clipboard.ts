@@ -0,0 +1,130 @@
+import { isScanDocument } from './qr-document';
+
+// Images arriving by paste or drag-and-drop: clipboard files, images dragged from other browser tabs
+// (which arrive as URLs or HTML rather than files) and pasted data URLs
+
+// The parts of DataTransfer we read - clipboard and drag events both provide it
+export interface TransferLike {
+  files: ArrayLike<File>;
+  getData(format: string): string;
+}
+
+export type ScanTarget = 'single' | 'batch';
+
+const IMAGE_EXTENSION = /\.(png|jpe?g|gif|webp|bmp|svg|avif)(\?|#|$)/i;
+
+function isScannable(file: File): boolean {
+  return file.type.startsWith('image/') || isScanDocument(file);
+}
+
+// One image goes to the single scanner; several images or any document go to the batch scanner
+export function routeScanFiles(files: File[]): ScanTarget {
+  return files.length === 1 && !isScanDocument(files[0]) ? 'single' : 'batch';
+}
+
+export function isDataImageUrl(text: string): boolean {
+  return /^data:image\/[\w.+-]+[;,]/i.test(text.trim());
+}
+
+// Image URLs in a transfer: text/uri-list, <img> sources in text/html, then plain text
+export function imageUrlsFromTransfer(transfer: Pick<TransferLike, 'getData'>): string[] {
+  const urls: string[] = [];
+  const add = (url: string) => {
+    const trimmed = url.trim();
+    if (trimmed && !urls.includes(trimmed)) urls.push(trimmed);
+  };
+
+  const html = transfer.getData('text/html');
+  if (html) {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('img[src]').forEach((img) => add(img.getAttribute('src') ?? ''));
+  }
+
+  // uri-list lines starting with # are comments; for a linked image the <img> above wins over the link
+  if (urls.length === 0) {
+    transfer
+      .getData('text/uri-list')
+      .split(/\r?\n/)
+      .filter((line) => line && !line.startsWith('#'))
+      .forEach(add);
+  }
+
+  const text = transfer.getData('text/plain').trim();
+  if (urls.length === 0 && (isDataImageUrl(text) || (/^https?:\/\/\S+$/i.test(text) && IMAGE_EXTENSION.test(text)))) {
+    add(text);
+  }
+  return urls.filter((url) => isDataImageUrl(url) || /^(https?|blob):/i.test(url));
+}
+
+// Decode a data: URL (base64 or percent-encoded) into a file
+export function dataUrlToFile(dataUrl: string, name: string): File {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?),(.*)$/is.exec(dataUrl.trim());
+  if (!match) throw new Error('Invalid data URL');
+  const type = match[1] || 'text/plain';
+  const body = match[3];
+
+  let bytes: Uint8Array;
+  if (/;base64$/i.test(match[2])) {
+    const binary = atob(body.replace(/\s+/g, ''));
+    bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } else {
+    bytes = new TextEncoder().encode(decodeURIComponent(body));
+  }
+  return new File([bytes], `${name}.${extensionFor(type)}`, { type });
+}
+
+function extensionFor(type: string): string {
+  const subtype = type.split('/')[1] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype === 'svg+xml' ? 'svg' : subtype;
+}
+
+// Clipboard screenshots are all called image.png - number them so batch results stay apart
+function pastedName(index: number): string {
+  const time = new Date().toTimeString().slice(0, 8).replace(/:/g, '');
+  return `pasted-${time}-${index + 1}`;
+}
+
+// Whether a transfer carries anything to scan - pasted text and links are left to the page
+export function hasScanContent(transfer: TransferLike): boolean {
+  return Array.from(transfer.files).some(isScannable) || imageUrlsFromTransfer(transfer).length > 0;
+}
+
+// Every scannable file in a transfer. Remote images are fetched, which fails for hosts without CORS;
+// those are reported through `failed` rather than thrown
+export async function filesFromTransfer(
+  transfer: TransferLike
+): Promise<{ files: File[]; failed: string[] }> {
+  // The browser empties the transfer once the event handler returns - read everything before awaiting
+  const urls = imageUrlsFromTransfer(transfer);
+  const files = Array.from(transfer.files).filter(isScannable).map((file, index) =>
+    !file.name || file.name === 'image.png'
+      ? new File([file], `${pastedName(index)}.${extensionFor(file.type)}`, { type: file.type })
+      : file
+  );
+  if (files.length > 0) return { files, failed: [] };
+
+  const failed: string[] = [];
+  for (const [index, url] of urls.entries()) {
+    try {
+      if (isDataImageUrl(url)) {
+        files.push(dataUrlToFile(url, pastedName(index)));
+        continue;
+      }
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      if (!blob.type.startsWith('image/')) throw new Error('Not an image');
+      const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || pastedName(index);
+      files.push(new File([blob], name, { type: blob.type }));
+    } catch {
+      failed.push(url);
+    }
+  }
+  return { files, failed };
+}
+
+// Pastes into form fields are left alone
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
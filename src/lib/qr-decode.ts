@@ -0,0 +1,115 @@
+import { Html5Qrcode } from 'html5-qrcode';
+import { luminanceToBlob, openScanDocument } from './qr-document';
+import { loadImage } from './qr-utils';
+
+// Larger canvases are scaled down before decoding - the decoder gains nothing from 8K input
+const MAX_DECODE_SIZE = 1024;
+
+let readerCount = 0;
+
+// Result of decoding a rendered QR code and comparing it to the intended payload
+export interface QRVerification {
+  ok: boolean;
+  decoded: string | null; // null = unreadable
+  message: string;
+}
+
+// Decode a canvas with the same engine the scanner uses (null if unreadable)
+export async function decodeQRCanvas(canvas: HTMLCanvasElement): Promise<string | null> {
+  const blob = await canvasToPngBlob(fitCanvas(canvas, MAX_DECODE_SIZE));
+  return blob ? decodeQRImage(blob) : null;
+}
+
+async function decodeQRImage(blob: Blob): Promise<string | null> {
+  // Html5Qrcode needs a host element, even when only scanning files
+  const host = document.createElement('div');
+  host.id = `qr-verify-reader-${++readerCount}`;
+  host.style.display = 'none';
+  document.body.appendChild(host);
+
+  const reader = new Html5Qrcode(host.id, false);
+  try {
+    return await reader.scanFile(new File([blob], 'qr-verify.png', { type: blob.type || 'image/png' }), false);
+  } catch {
+    return null;
+  } finally {
+    reader.clear();
+    host.remove();
+  }
+}
+
+// Decode the final composited canvas and check it carries the expected content
+export async function verifyQRCanvas(
+  canvas: HTMLCanvasElement,
+  expected: string
+): Promise<QRVerification> {
+  return compareDecoded(await decodeQRCanvas(canvas), expected);
+}
+
+// Vector exports are checked as printed: the SVG is drawn on white paper at decode size
+export async function verifyQRSvg(svg: string, expected: string): Promise<QRVerification> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    if (!image) return compareDecoded(null, expected);
+
+    const scale = MAX_DECODE_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale) || MAX_DECODE_SIZE;
+    canvas.height = Math.round(image.naturalHeight * scale) || MAX_DECODE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return compareDecoded(null, expected);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return verifyQRCanvas(canvas, expected);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// PDFs are rasterized with the same renderer the batch scanner uses for proofs
+export async function verifyQRPdf(pdf: Blob, expected: string): Promise<QRVerification> {
+  const doc = await openScanDocument(new Uint8Array(await pdf.arrayBuffer()));
+  try {
+    const page = await doc.pages[0].render(MAX_DECODE_SIZE);
+    return compareDecoded(await decodeQRImage(await luminanceToBlob(page)), expected);
+  } finally {
+    await doc.close();
+  }
+}
+
+function compareDecoded(decoded: string | null, expected: string): QRVerification {
+  if (decoded === null) {
+    return { ok: false, decoded, message: 'Unreadable - scanner could not decode this QR' };
+  }
+  if (normalizeLineEndings(decoded) !== normalizeLineEndings(expected)) {
+    return { ok: false, decoded, message: 'Mismatch - decoded content differs from input' };
+  }
+  return { ok: true, decoded, message: 'Verified - decoded content matches' };
+}
+
+// Scanners may report CRLF or LF for the same payload
+function normalizeLineEndings(value: string): string {
+  return value.replace(/\r\n?/g, '\n');
+}
+
+function fitCanvas(canvas: HTMLCanvasElement, maxSize: number): HTMLCanvasElement {
+  const largest = Math.max(canvas.width, canvas.height);
+  if (largest <= maxSize) return canvas;
+
+  const scale = maxSize / largest;
+  const scaled = document.createElement('canvas');
+  scaled.width = Math.round(canvas.width * scale);
+  scaled.height = Math.round(canvas.height * scale);
+
+  const ctx = scaled.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
+}
+
+function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+}
@@ -0,0 +1,264 @@
+import * as ZXingModule from 'html5-qrcode/third_party/zxing-js.umd';
+
+// Multi-code detection: find every QR code in one image, with its corners, using the ZXing build html5-qrcode ships
+
+export type Point = [number, number];
+
+export interface QRDetection {
+  content: string;
+  corners: Point[]; // top-left, top-right, bottom-right, bottom-left in image pixels
+}
+
+// 8-bit grayscale image, row-major
+export interface LuminanceImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// The typings bundled with html5-qrcode only cover what it uses itself
+interface ZXingResultPoint {
+  getX(): number;
+  getY(): number;
+  getEstimatedModuleSize?(): number;
+}
+
+interface ZXingApi {
+  RGBLuminanceSource: new (luminances: Uint8ClampedArray, width: number, height: number) => unknown;
+  HybridBinarizer: new (source: unknown) => unknown;
+  BinaryBitmap: new (binarizer: unknown) => unknown;
+  QRCodeReader: new () => {
+    decode(bitmap: unknown, hints?: Map<number, unknown>): { getText(): string; getResultPoints(): ZXingResultPoint[] };
+  };
+  DecodeHintType: { TRY_HARDER: number };
+}
+
+const ZXing = ZXingModule as unknown as ZXingApi;
+
+// Smallest window worth reading on its own - no printable code fits below it
+const MIN_WINDOW_SIZE = 96;
+const MAX_CODES = 200;
+// Each decode of a large window takes a few milliseconds - a full sweep of a big photo runs to thousands
+export const MAX_DECODE_CALLS = 600;
+
+export interface DetectOptions {
+  thorough?: boolean; // sweep windows even when the full-image pass found one code or none
+}
+
+// ITU-R 601 luma, the same weighting the scanners use
+export function toLuminance(rgba: Uint8ClampedArray, width: number, height: number): LuminanceImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const a = rgba[i * 4 + 3] / 255;
+    // Transparent pixels read as white paper
+    data[i] = Math.round((0.299 * r + 0.587 * g + 0.114 * b) * a + 255 * (1 - a));
+  }
+  return { data, width, height };
+}
+
+// Every QR code in the image. ZXing reads one code per pass, so each hit is painted over and the image
+// read again. With many codes in view the finder patterns of different codes get mixed up, so the image
+// is then swept with overlapping windows twice the size of the codes found so far (or halving sizes when
+// nothing decoded yet) - every code small enough lands whole in at least one window. The sweep only runs
+// when the full-image pass found several codes or the caller asks for it, and stops at MAX_DECODE_CALLS
+export function detectQRCodes(image: LuminanceImage, { thorough = false }: DetectOptions = {}): QRDetection[] {
+  const working: LuminanceImage = { ...image, data: new Uint8ClampedArray(image.data) };
+  const found: QRDetection[] = [];
+  const reader = new ZXing.QRCodeReader();
+  const hints = new Map<number, unknown>([[ZXing.DecodeHintType.TRY_HARDER, true]]);
+  let decodeCalls = 0;
+
+  const scanRegion = (left: number, top: number, width: number, height: number) => {
+    while (found.length < MAX_CODES && decodeCalls < MAX_DECODE_CALLS) {
+      decodeCalls++;
+      const detection = decodeRegion(working, left, top, width, height, reader, hints);
+      if (!detection) return;
+      found.push(detection);
+      fillPolygon(working, expandQuad(detection.corners, 1.1), 255);
+    }
+  };
+
+  // False when the windows at this size would not fit in what is left of the decode budget
+  const sweep = (codeSize: number): boolean => {
+    const size = Math.min(Math.round(codeSize * 1.5), image.width, image.height);
+    const stride = Math.max(1, Math.round(size / 3));
+    const windows = Math.ceil((image.width - stride) / stride) * Math.ceil((image.height - stride) / stride);
+    if (decodeCalls + windows > MAX_DECODE_CALLS) return false;
+    for (let top = 0; top < image.height - stride; top += stride) {
+      for (let left = 0; left < image.width - stride; left += stride) {
+        scanRegion(
+          Math.min(left, image.width - size),
+          Math.min(top, image.height - size),
+          size,
+          size
+        );
+      }
+    }
+    return true;
+  };
+
+  scanRegion(0, 0, image.width, image.height);
+
+  let codeSize = found.length ? largestCode(found) : Math.min(image.width, image.height) / 2;
+  const sweeping = thorough || found.length > 1;
+  while (sweeping && codeSize * 1.5 >= MIN_WINDOW_SIZE && found.length < MAX_CODES) {
+    const before = found.length;
+    if (!sweep(codeSize)) break;
+    // New finds may have uncovered their neighbours - sweep again at the size they suggest
+    if (found.length > before) codeSize = Math.max(largestCode(found.slice(before)), MIN_WINDOW_SIZE / 2);
+    else codeSize /= 2;
+  }
+
+  // Reading order: top to bottom, then left to right within a row
+  return found.sort((a, b) => {
+    const [ax, ay] = centerOf(a.corners);
+    const [bx, by] = centerOf(b.corners);
+    const rowHeight = Math.min(quadSize(a.corners), quadSize(b.corners)) / 2;
+    return Math.abs(ay - by) > rowHeight ? ay - by : ax - bx;
+  });
+}
+
+// One read of the whole image - enough to locate a code another scanner already decoded, without the sweep
+export function detectQRCode(image: LuminanceImage): QRDetection | null {
+  const hints = new Map<number, unknown>([[ZXing.DecodeHintType.TRY_HARDER, true]]);
+  return decodeRegion(image, 0, 0, image.width, image.height, new ZXing.QRCodeReader(), hints);
+}
+
+export function centerOf(corners: Point[]): Point {
+  const x = corners.reduce((sum, [px]) => sum + px, 0) / corners.length;
+  const y = corners.reduce((sum, [, py]) => sum + py, 0) / corners.length;
+  return [x, y];
+}
+
+// Bounding box side of the largest code, with room for its quiet zone
+function largestCode(detections: QRDetection[]): number {
+  return Math.max(
+    ...detections.map(({ corners }) => {
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => y);
+      return Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 1.2;
+    })
+  );
+}
+
+function quadSize(corners: Point[]): number {
+  return Math.hypot(corners[1][0] - corners[0][0], corners[1][1] - corners[0][1]);
+}
+
+function decodeRegion(
+  image: LuminanceImage,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  reader: InstanceType<ZXingApi['QRCodeReader']>,
+  hints: Map<number, unknown>
+): QRDetection | null {
+  const crop = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (top + y) * image.width + left;
+    crop.set(image.data.subarray(start, start + width), y * width);
+  }
+
+  try {
+    const source = new ZXing.RGBLuminanceSource(crop, width, height);
+    const result = reader.decode(new ZXing.BinaryBitmap(new ZXing.HybridBinarizer(source)), hints);
+    const corners = cornersFromFinders(result.getResultPoints());
+    if (!corners) return null;
+    return { content: result.getText(), corners: corners.map(([x, y]) => [x + left, y + top] as Point) };
+  } catch {
+    return null;
+  }
+}
+
+// ZXing reports finder pattern centres (bottom-left, top-left, top-right), which sit 3.5 modules in from
+// the symbol edges - step out from them to the outer corners
+function cornersFromFinders(points: ZXingResultPoint[]): Point[] | null {
+  if (points.length < 3) return null;
+  const [bottomLeft, topLeft, topRight] = points.slice(0, 3).map((p) => [p.getX(), p.getY()] as Point);
+  const moduleSize =
+    points.slice(0, 3).reduce((sum, p) => sum + (p.getEstimatedModuleSize?.() ?? 0), 0) / 3 ||
+    Math.hypot(topRight[0] - topLeft[0], topRight[1] - topLeft[1]) / 14;
+
+  const across = unit(topLeft, topRight, moduleSize * 3.5);
+  const down = unit(topLeft, bottomLeft, moduleSize * 3.5);
+  return [
+    [topLeft[0] - across[0] - down[0], topLeft[1] - across[1] - down[1]],
+    [topRight[0] + across[0] - down[0], topRight[1] + across[1] - down[1]],
+    [
+      topRight[0] + bottomLeft[0] - topLeft[0] + across[0] + down[0],
+      topRight[1] + bottomLeft[1] - topLeft[1] + across[1] + down[1],
+    ],
+    [bottomLeft[0] - across[0] + down[0], bottomLeft[1] - across[1] + down[1]],
+  ];
+}
+
+function unit(from: Point, to: Point, length: number): Point {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const distance = Math.hypot(dx, dy) || 1;
+  return [(dx / distance) * length, (dy / distance) * length];
+}
+
+// Scale a quadrilateral about its centre - covers the quiet zone when masking a found code
+function expandQuad(corners: Point[], factor: number): Point[] {
+  const [cx, cy] = centerOf(corners);
+  return corners.map(([x, y]) => [cx + (x - cx) * factor, cy + (y - cy) * factor] as Point);
+}
+
+// Paint a convex polygon into the image
+function fillPolygon(image: LuminanceImage, polygon: Point[], value: number): void {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  const minX = Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = Math.min(image.width - 1, Math.ceil(Math.max(...xs)));
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(image.height - 1, Math.ceil(Math.max(...ys)));
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (insideConvex(polygon, x + 0.5, y + 0.5)) image.data[y * image.width + x] = value;
+    }
+  }
+}
+
+function insideConvex(polygon: Point[], x: number, y: number): boolean {
+  let sign = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    const cross = (x2 - x1) * (y - y1) - (y2 - y1) * (x - x1);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// Large photos are scaled down first - sweeping a 12 MP image window by window takes too long
+export const MAX_DETECT_SIZE = 2048;
+
+// Grayscale copy of an image file, scaled down to maxSize; `scale` is output pixels per source pixel
+export async function loadLuminanceImage(
+  file: Blob,
+  maxSize = MAX_DETECT_SIZE
+): Promise<{ image: LuminanceImage; scale: number }> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { image: toLuminance(data, width, height), scale };
+}
@@ -0,0 +1,187 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { MAX_DETECT_SIZE, toLuminance, type LuminanceImage } from './qr-detect';
+import { describeSegments, type GradedMetric, type QRInspection } from './qr-inspect';
+import { isTiff, readTiff } from './qr-tiff';
+
+// Multi-page documents (PDF proofs, multi-frame TIFFs) for the batch scanner - every page is
+// rasterized locally to grayscale and scanned like a separate image. PDFs are drawn by pdf.js,
+// so clipping, soft masks and transparency come out as they print
+
+export interface ScanPage {
+  render(maxSize?: number): Promise<LuminanceImage>;
+}
+
+export interface ScanDocument {
+  kind: 'pdf' | 'tiff';
+  pages: ScanPage[];
+  close(): Promise<void>; // frees the pdf.js document and its worker-side data; pages cannot render after this
+}
+
+export const DOCUMENT_ACCEPT = 'application/pdf,.pdf,image/tiff,.tif,.tiff';
+
+export function isScanDocument(file: File): boolean {
+  return (
+    file.type === 'application/pdf' ||
+    file.type === 'image/tiff' ||
+    /\.(pdf|tiff?)$/i.test(file.name)
+  );
+}
+
+// Results from page N of a document are labelled `filename#N`
+export function pageLabel(filename: string, pageIndex: number): string {
+  return `${filename}#${pageIndex + 1}`;
+}
+
+// Canvases pdf.js renders into - DOM canvases in the browser
+interface PdfCanvas {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+}
+
+interface PdfCanvasFactory {
+  create(width: number, height: number): PdfCanvas;
+  destroy(canvas: PdfCanvas): void;
+}
+
+export async function openScanDocument(bytes: Uint8Array): Promise<ScanDocument> {
+  if (isTiff(bytes)) {
+    return {
+      kind: 'tiff',
+      pages: readTiff(bytes).map((page) => ({
+        render: async (maxSize = MAX_DETECT_SIZE) => downscale(await page.decode(), maxSize),
+      })),
+      close: async () => {},
+    };
+  }
+  // PDF readers accept a header anywhere in the first kilobyte
+  if (!new TextDecoder('latin1').decode(bytes.subarray(0, 1024)).includes('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+
+  // pdf.js is only loaded once someone drops a PDF
+  const { getDocument, GlobalWorkerOptions, VerbosityLevel } = await import('pdfjs-dist');
+  GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  // Copied because pdf.js hands the buffer to its worker; missing fonts only affect text, so warnings stay off
+  const pdf = await getDocument({ data: bytes.slice(), isEvalSupported: false, verbosity: VerbosityLevel.ERRORS })
+    .promise;
+  const canvasFactory = pdf.canvasFactory as PdfCanvasFactory;
+
+  return {
+    kind: 'pdf',
+    pages: Array.from({ length: pdf.numPages }, (_, index) => ({
+      render: async (maxSize = MAX_DETECT_SIZE) => {
+        const page = await pdf.getPage(index + 1);
+        // Long side rendered at maxSize pixels - about 175 dpi for A4 at the default size
+        const points = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: maxSize / Math.max(points.width, points.height, 1) });
+        const target = canvasFactory.create(Math.round(viewport.width), Math.round(viewport.height));
+        try {
+          await page.render({ canvas: target.canvas, canvasContext: target.context, viewport }).promise;
+          const { width, height } = target.canvas;
+          return toLuminance(target.context.getImageData(0, 0, width, height).data, width, height);
+        } finally {
+          canvasFactory.destroy(target);
+          page.cleanup();
+        }
+      },
+    })),
+    close: () => pdf.destroy(),
+  };
+}
+
+// Box-filter reduction by a whole factor, so thin modules average out instead of dropping
+export function downscale(image: LuminanceImage, maxSize: number): LuminanceImage {
+  const factor = Math.ceil(Math.max(image.width, image.height) / maxSize);
+  if (factor <= 1) return image;
+
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * image.width + x * factor;
+        for (let dx = 0; dx < factor; dx++) sum += image.data[row + dx];
+      }
+      data[y * width + x] = sum / (factor * factor);
+    }
+  }
+  return { data, width, height };
+}
+
+// Grayscale page as a PNG for the result thumbnail
+export async function luminanceToBlob(image: LuminanceImage): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  const pixels = ctx.createImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) {
+    pixels.data.set([image.data[i], image.data[i], image.data[i], 255], i * 4);
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode page'))), 'image/png')
+  );
+}
+
+export interface ScanResultRow {
+  source: string; // filename, or filename#page for documents
+  index: number; // code number within the source, 1-based
+  content: string;
+  inspection?: QRInspection | null;
+}
+
+const CSV_HEADER = [
+  'source',
+  'code',
+  'content',
+  'version',
+  'ec_level',
+  'mask',
+  'modes',
+  'eci',
+  'module_px',
+  'quiet_zone',
+  'grade',
+  'symbol_contrast',
+  'modulation',
+  'fixed_pattern_damage',
+  'unused_ec',
+];
+
+// Symbol details as CSV cells; blank when the code could not be inspected
+function inspectionCells(inspection: QRInspection | null | undefined): string[] {
+  if (!inspection) return new Array(CSV_HEADER.length - 3).fill('');
+  const { grades } = inspection;
+  const metric = ({ value, grade }: GradedMetric, digits = 2) => `${grade} (${value.toFixed(digits)})`;
+  return [
+    String(inspection.version),
+    inspection.errorCorrectionLevel,
+    String(inspection.maskPattern),
+    describeSegments(inspection),
+    inspection.eci.join(' '),
+    inspection.moduleSize.toFixed(1),
+    String(inspection.quietZone),
+    grades.overall,
+    metric(grades.symbolContrast),
+    metric(grades.modulation),
+    metric(grades.fixedPatternDamage, 0),
+    metric(grades.unusedErrorCorrection),
+  ];
+}
+
+// RFC 4180 CSV - quoted where needed, CRLF line endings
+export function scanResultsToCsv(rows: ScanResultRow[]): string {
+  const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [
+    CSV_HEADER,
+    ...rows.map((row) => [row.source, String(row.index), row.content, ...inspectionCells(row.inspection)]),
+  ]
+    .map((cells) => cells.map(escape).join(','))
+    .join('\r\n');
+}
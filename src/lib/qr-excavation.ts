@@ -0,0 +1,179 @@
+import type { LogoLayout, LogoShape, QRRenderOptions } from './qr-types';
+import { createQRMatrix, QUIET_ZONE_MODULES, type QRMatrix } from './qr-matrix';
+import { getBlockLayout, getMisdecodeProtection } from './qr-capacity';
+import { calculateLogoBox, getAlignmentPositions, getLogoFootprint, isFinderModule } from './qr-geometry';
+
+// Share of the correctable budget above which a logo is flagged - printing and
+// camera noise need some of the error correction too
+const BUDGET_WARNING = 0.7;
+
+export type ExcavationStatus = 'ok' | 'warning' | 'unrecoverable';
+
+// Damage a logo does to the symbol
+export interface ExcavationReport {
+  clearedModules: number;
+  lostCodewords: number;
+  totalCodewords: number;
+  lostFraction: number; // 0-1 of all codewords
+  budgetUsed: number; // worst block: lost codewords / correctable codewords
+  coversFinder: boolean;
+  gridModules: number; // dark alignment and timing modules hidden - not codewords, but scanners sample the grid with them
+  status: ExcavationStatus;
+  message: string;
+}
+
+// Codeword index stored in each module (-1 = function pattern or remainder bit),
+// following the two-column zigzag placement of the QR standard
+export function mapCodewords(matrix: QRMatrix): Int16Array {
+  const { size, reserved } = matrix;
+  const { totalCodewords } = getBlockLayout(matrix.version, matrix.errorCorrectionLevel);
+  const owners = new Int16Array(size * size).fill(-1);
+  let bit = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // skip the vertical timing pattern
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const index = row * size + right - j;
+        if (reserved[index]) continue;
+        if (bit < totalCodewords * 8) owners[index] = bit >> 3;
+        bit++;
+      }
+    }
+  }
+  return owners;
+}
+
+// Reed-Solomon block of each codeword in placement order (blocks are interleaved)
+function mapBlocks(matrix: QRMatrix): { blockOf: Int16Array; correctable: number } {
+  const { totalCodewords, ecCodewordsPerBlock, dataCodewords } = getBlockLayout(
+    matrix.version,
+    matrix.errorCorrectionLevel
+  );
+  const blockOf = new Int16Array(totalCodewords);
+  let index = 0;
+
+  const longest = Math.max(...dataCodewords);
+  for (let i = 0; i < longest; i++) {
+    dataCodewords.forEach((count, block) => {
+      if (i < count) blockOf[index++] = block;
+    });
+  }
+  for (let i = 0; i < ecCodewordsPerBlock; i++) {
+    dataCodewords.forEach((_, block) => {
+      blockOf[index++] = block;
+    });
+  }
+
+  const usable = ecCodewordsPerBlock - getMisdecodeProtection(matrix.version, matrix.errorCorrectionLevel);
+  return { blockOf, correctable: Math.floor(usable / 2) };
+}
+
+// Alignment patterns and timing lines - function modules outside the finders that scanners use to sample the grid
+function gridPatternModules(matrix: QRMatrix): Uint8Array {
+  const { size } = matrix;
+  const grid = new Uint8Array(size * size);
+  for (let i = 8; i < size - 8; i++) {
+    grid[6 * size + i] = 1;
+    grid[i * size + 6] = 1;
+  }
+  const positions = getAlignmentPositions(matrix.version);
+  for (const row of positions) {
+    for (const col of positions) {
+      if (isFinderModule(size, row, col)) continue;
+      for (let r = row - 2; r <= row + 2; r++) grid.fill(1, r * size + col - 2, r * size + col + 3);
+    }
+  }
+  return grid;
+}
+
+// Count the codewords a set of cleared modules destroys, block by block.
+// Every codeword with a dark module cleared counts as an error: scanners do not know which modules are missing.
+// Clearing modules that were light already leaves the codeword intact.
+export function analyzeExcavation(matrix: QRMatrix, cleared: Uint8Array): ExcavationReport {
+  const owners = mapCodewords(matrix);
+  const { blockOf, correctable } = mapBlocks(matrix);
+  const grid = gridPatternModules(matrix);
+  const lost = new Set<number>();
+  let clearedModules = 0;
+  let gridModules = 0;
+  let coversFinder = false;
+
+  for (let index = 0; index < cleared.length; index++) {
+    if (!cleared[index]) continue;
+    clearedModules++;
+    if (isFinderModule(matrix.size, Math.floor(index / matrix.size), index % matrix.size)) coversFinder = true;
+    if (!matrix.modules[index]) continue;
+    if (owners[index] >= 0) lost.add(owners[index]);
+    else if (grid[index]) gridModules++;
+  }
+
+  const lostPerBlock = new Array<number>(Math.max(...blockOf) + 1).fill(0);
+  lost.forEach((codeword) => lostPerBlock[blockOf[codeword]]++);
+  const worst = Math.max(...lostPerBlock);
+  const budgetUsed = correctable > 0 ? worst / correctable : worst > 0 ? Infinity : 0;
+  const lostFraction = lost.size / blockOf.length;
+
+  const percent = `${Math.round(lostFraction * 100)}%`;
+  const level = matrix.errorCorrectionLevel;
+  let status: ExcavationStatus = 'ok';
+  let message = lost.size > 0 ? `Logo hides ${percent} of codewords (level ${level} can recover it)` : 'Logo hides no data';
+
+  if (coversFinder) {
+    status = 'unrecoverable';
+    message = 'Logo covers a finder pattern - move it away from the corners';
+  } else if (budgetUsed > 1) {
+    status = 'unrecoverable';
+    message = `Logo hides ${percent} of codewords - more than level ${level} can recover`;
+  } else if (budgetUsed > BUDGET_WARNING) {
+    status = 'warning';
+    message = `Logo hides ${percent} of codewords - using ${Math.round(budgetUsed * 100)}% of level ${level}'s error correction`;
+  } else if (gridModules > 0) {
+    // Error correction cannot restore these - tilted or curved prints may no longer be read
+    status = 'warning';
+    message = `Logo hides ${gridModules} alignment or timing module${gridModules === 1 ? '' : 's'} - scanners may lose the grid`;
+  }
+
+  return {
+    clearedModules,
+    lostCodewords: lost.size,
+    totalCodewords: blockOf.length,
+    lostFraction,
+    budgetUsed,
+    coversFinder,
+    gridModules,
+    status,
+    message,
+  };
+}
+
+// Modules under the logo plate for a symbol rendered at `size` units
+export function getLogoExcavationMask(
+  matrix: QRMatrix,
+  size: number,
+  layout: LogoLayout,
+  sizePercent: number,
+  shape: LogoShape
+): Uint8Array {
+  return getLogoFootprint(matrix.size, calculateLogoBox(size, layout, sizePercent), shape, {
+    moduleSize: size / (matrix.size + QUIET_ZONE_MODULES * 2),
+    margin: QUIET_ZONE_MODULES,
+  });
+}
+
+// Damage report for the logo in a set of render options (null without a logo).
+// Painting a plate over modules destroys the same codewords as clearing them.
+export function assessLogoExcavation(content: string, options: QRRenderOptions): ExcavationReport | null {
+  if (!options.logo || !content) return null;
+  const matrix = createQRMatrix(content, options.errorCorrectionLevel ?? 'H');
+  const mask = getLogoExcavationMask(
+    matrix,
+    options.size,
+    options.logoLayout ?? 'center',
+    options.logoSize ?? 15,
+    options.logoShape ?? 'square'
+  );
+  return analyzeExcavation(matrix, mask);
+}
@@ -0,0 +1,172 @@
+// Offline coordinate handling for the geo mode: decimal and DMS parsing, Plus Codes
+// (Open Location Code) and range checks - no map tile service involved
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Open Location Code digits - value is the index
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_SEPARATOR_POSITION = 8;
+const OLC_PAIR_LENGTH = 10;
+const OLC_MAX_LENGTH = 15;
+// Integer precision of a 15 digit code: 20^3 per pair degree, then 5 rows x 4 columns per grid digit
+const OLC_LAT_PRECISION = 8000 * 5 ** 5;
+const OLC_LNG_PRECISION = 8000 * 4 ** 5;
+
+export function isValidLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+export function isValidLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+// Round to 6 decimals (~10 cm) and drop trailing zeros
+export function formatCoordinate(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+// Read "51.5074, -0.1278", DMS such as 51°30'26.6"N 0°7'40"W, or a full Plus Code
+export function parseCoordinates(input: string): Coordinates | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  // Plus Codes may be followed by a locality, which only short codes need
+  const plusCode = text.match(/^[23456789CFGHJMPQRVWX0]{2,8}\+[23456789CFGHJMPQRVWX]*(?=\s|,|$)/i);
+  if (plusCode) return decodePlusCode(plusCode[0]);
+
+  const decimal = text.match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (decimal) return checked(Number(decimal[1]), Number(decimal[2]));
+
+  return parseDms(text);
+}
+
+// Full codes only - short codes ("GV3C+CW London") need a reference point we do not have offline
+export function isFullPlusCode(code: string): boolean {
+  const value = code.trim().toUpperCase();
+  const separator = value.indexOf('+');
+  if (separator !== OLC_SEPARATOR_POSITION || value.indexOf('+', separator + 1) >= 0) return false;
+  if (!/^[23456789CFGHJMPQRVWX0]+\+[23456789CFGHJMPQRVWX]*$/.test(value)) return false;
+
+  // Padding zeros come in pairs and only before the separator, with nothing after it
+  const padding = value.match(/0+/);
+  if (padding) {
+    if (padding.index === 0 || padding[0].length % 2 === 1 || !value.endsWith(`${padding[0]}+`)) return false;
+  }
+  // A single digit after the separator is not allowed
+  if (value.length - separator - 1 === 1) return false;
+
+  // First digits stay inside 90 degrees latitude and 180 degrees longitude
+  return OLC_ALPHABET.indexOf(value[0]) * 20 < 180 && OLC_ALPHABET.indexOf(value[1]) * 20 < 360;
+}
+
+// Centre of the area a full Plus Code describes
+export function decodePlusCode(code: string): Coordinates | null {
+  if (!isFullPlusCode(code)) return null;
+  const digits = code.trim().toUpperCase().replace('+', '').replace(/0+$/, '').slice(0, OLC_MAX_LENGTH);
+
+  let latitude = -90;
+  let longitude = -180;
+  let latStep = 400;
+  let lngStep = 400;
+
+  for (let i = 0; i < Math.min(digits.length, OLC_PAIR_LENGTH); i += 2) {
+    latStep /= 20;
+    lngStep /= 20;
+    latitude += OLC_ALPHABET.indexOf(digits[i]) * latStep;
+    longitude += OLC_ALPHABET.indexOf(digits[i + 1]) * lngStep;
+  }
+  for (let i = OLC_PAIR_LENGTH; i < digits.length; i++) {
+    const value = OLC_ALPHABET.indexOf(digits[i]);
+    latStep /= 5;
+    lngStep /= 4;
+    latitude += Math.floor(value / 4) * latStep;
+    longitude += (value % 4) * lngStep;
+  }
+
+  return {
+    latitude: Math.min(latitude + latStep / 2, 90),
+    longitude: Math.min(longitude + lngStep / 2, 180),
+  };
+}
+
+// Plus Code for a point - 10 digits is a 14 m square, 11 about 3 m
+export function encodePlusCode(latitude: number, longitude: number, length = 11): string {
+  const digitCount = Math.min(Math.max(length, OLC_PAIR_LENGTH), OLC_MAX_LENGTH);
+  const lat = Math.min(Math.max(latitude, -90), 90);
+  const lng = ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+  // Integer arithmetic avoids floating point drift between digits
+  let latValue = Math.min(Math.floor(Math.round((lat + 90) * OLC_LAT_PRECISION * 1e6) / 1e6), 180 * OLC_LAT_PRECISION - 1);
+  let lngValue = Math.floor(Math.round((lng + 180) * OLC_LNG_PRECISION * 1e6) / 1e6);
+
+  let grid = '';
+  for (let i = 0; i < OLC_MAX_LENGTH - OLC_PAIR_LENGTH; i++) {
+    grid = OLC_ALPHABET[(latValue % 5) * 4 + (lngValue % 4)] + grid;
+    latValue = Math.floor(latValue / 5);
+    lngValue = Math.floor(lngValue / 4);
+  }
+
+  let pairs = '';
+  for (let i = 0; i < OLC_PAIR_LENGTH / 2; i++) {
+    pairs = OLC_ALPHABET[latValue % 20] + OLC_ALPHABET[lngValue % 20] + pairs;
+    latValue = Math.floor(latValue / 20);
+    lngValue = Math.floor(lngValue / 20);
+  }
+
+  const digits = (pairs + grid).slice(0, digitCount);
+  return `${digits.slice(0, OLC_SEPARATOR_POSITION)}+${digits.slice(OLC_SEPARATOR_POSITION)}`;
+}
+
+// 51°30'26.6"N 0°07'40.1"W
+export function formatDms({ latitude, longitude }: Coordinates): string {
+  const part = (value: number, positive: string, negative: string) => {
+    const abs = Math.abs(value);
+    let degrees = Math.floor(abs);
+    let minutes = Math.floor((abs - degrees) * 60);
+    let seconds = Number(((abs - degrees - minutes / 60) * 3600).toFixed(1));
+    if (seconds >= 60) {
+      seconds = 0;
+      minutes += 1;
+    }
+    if (minutes >= 60) {
+      minutes = 0;
+      degrees += 1;
+    }
+    return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(1)}"${value < 0 ? negative : positive}`;
+  };
+  return `${part(latitude, 'N', 'S')} ${part(longitude, 'E', 'W')}`;
+}
+
+// Degrees with optional minutes and seconds; hemisphere letters lead or trail both values
+function parseDms(text: string): Coordinates | null {
+  const angle = `(-?\\d+(?:\\.\\d+)?)\\s*[°º]?\\s*(?:(\\d+(?:\\.\\d+)?)\\s*['′])?\\s*(?:(\\d+(?:\\.\\d+)?)\\s*(?:["″]|''))?`;
+  const leading = /^[NSEW]/i.test(text);
+  const pattern = new RegExp(leading ? `([NSEW])\\s*${angle}` : `${angle}\\s*([NSEW])?`, 'gi');
+  const parts = [...text.matchAll(pattern)].map((match) =>
+    leading ? match.slice(1, 5) : [match[4], ...match.slice(1, 4)]
+  );
+  if (parts.length !== 2) return null;
+
+  const values = parts.map(([letter, degrees, rawMinutes, rawSeconds]) => {
+    const minutes = Number(rawMinutes ?? 0);
+    const seconds = Number(rawSeconds ?? 0);
+    if (minutes >= 60 || seconds >= 60) return null;
+    const hemisphere = (letter ?? '').toUpperCase();
+    const magnitude = Math.abs(Number(degrees)) + minutes / 60 + seconds / 3600;
+    const negative = hemisphere === 'S' || hemisphere === 'W' || degrees.startsWith('-');
+    return { value: negative ? -magnitude : magnitude, hemisphere };
+  });
+  if (values.some((value) => value === null)) return null;
+
+  // Latitude first unless the hemisphere letters say otherwise
+  const [first, second] = values as { value: number; hemisphere: string }[];
+  const swapped = 'EW'.includes(first.hemisphere || '-') || 'NS'.includes(second.hemisphere || '-');
+  return swapped ? checked(second.value, first.value) : checked(first.value, second.value);
+}
+
+function checked(latitude: number, longitude: number): Coordinates | null {
+  return isValidLatitude(latitude) && isValidLongitude(longitude) ? { latitude, longitude } : null;
+}
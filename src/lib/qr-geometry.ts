@@ -0,0 +1,377 @@
+import type { QRDesignStyle, LogoShape, LogoLayout, EyeShape } from './qr-types';
+import { KAPPA, QRPath, type CornerRadii } from './qr-path';
+import { isDarkModule, type QRMatrix } from './qr-matrix';
+
+// Geometry shared by every renderer - coordinates are in output units (px, pt...)
+export interface QRGeometryOptions {
+  design: QRDesignStyle;
+  moduleSize: number;
+  margin: number; // quiet zone in modules
+  snap?: boolean; // round square module edges to whole units (avoids canvas seams)
+  skipFinders?: boolean; // leave finder patterns to buildEyePaths
+  excavated?: Uint8Array; // row-major, 1 = module cleared for a logo
+}
+
+// Finder pattern size in modules
+export const FINDER_SIZE = 7;
+
+type FinderCorner = 'top-left' | 'top-right' | 'bottom-left';
+
+// Logo placement box
+export interface LogoBox {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Build one path containing every dark module of the matrix
+export function buildModulesPath(matrix: QRMatrix, options: QRGeometryOptions): QRPath {
+  const { design, moduleSize, margin, snap = false, skipFinders = false, excavated } = options;
+  const path = new QRPath();
+  const edge = (index: number) => {
+    const value = (index + margin) * moduleSize;
+    return snap ? Math.round(value) : value;
+  };
+  const isDark = (row: number, col: number) =>
+    isDarkModule(matrix, row, col) &&
+    !(skipFinders && isFinderModule(matrix.size, row, col)) &&
+    !excavated?.[row * matrix.size + col];
+
+  if (design === 'fluid') {
+    addFluidModules(path, matrix.size, isDark, edge);
+    return path;
+  }
+
+  for (let row = 0; row < matrix.size; row++) {
+    if (design === 'square') {
+      // Merge horizontal runs into single rectangles
+      let col = 0;
+      while (col < matrix.size) {
+        if (!isDark(row, col)) {
+          col++;
+          continue;
+        }
+        const start = col;
+        while (isDark(row, col)) col++;
+        path.rect(edge(start), edge(row), edge(col) - edge(start), edge(row + 1) - edge(row));
+      }
+      continue;
+    }
+
+    for (let col = 0; col < matrix.size; col++) {
+      if (!isDark(row, col)) continue;
+      addStyledModule(path, edge(col), edge(row), moduleSize, design);
+    }
+  }
+
+  return path;
+}
+
+// Top-left module of each finder pattern
+export function getFinderOrigins(matrixSize: number): { corner: FinderCorner; row: number; col: number }[] {
+  const far = matrixSize - FINDER_SIZE;
+  return [
+    { corner: 'top-left', row: 0, col: 0 },
+    { corner: 'top-right', row: 0, col: far },
+    { corner: 'bottom-left', row: far, col: 0 },
+  ];
+}
+
+// Check if module belongs to one of the three finder patterns
+export function isFinderModule(matrixSize: number, row: number, col: number): boolean {
+  const far = matrixSize - FINDER_SIZE;
+  return (row < FINDER_SIZE && (col < FINDER_SIZE || col >= far)) || (row >= far && col < FINDER_SIZE);
+}
+
+// Row and column centers of the alignment patterns (pairs that land on a finder are left out by the encoder)
+export function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) positions.splice(1, 0, position);
+  return positions;
+}
+
+// Eye frames (rings - fill with the even-odd rule) and eye balls for the three finder patterns
+export function buildEyePaths(
+  matrixSize: number,
+  options: {
+    moduleSize: number;
+    margin: number;
+    frameShape: EyeShape;
+    ballShape: EyeShape;
+    snap?: boolean;
+  }
+): { frames: QRPath; balls: QRPath } {
+  const { moduleSize, margin, frameShape, ballShape, snap = false } = options;
+  const edge = (index: number) => {
+    const value = (index + margin) * moduleSize;
+    return snap ? Math.round(value) : value;
+  };
+  const frames = new QRPath();
+  const balls = new QRPath();
+
+  for (const { corner, row, col } of getFinderOrigins(matrixSize)) {
+    const box = (inset: number) => {
+      const x = edge(col + inset);
+      const y = edge(row + inset);
+      return { x, y, size: edge(col + FINDER_SIZE - inset) - x };
+    };
+
+    const outer = box(0);
+    const inner = box(1);
+    const ball = box(2);
+    addEyeShape(frames, outer.x, outer.y, outer.size, frameShape, corner);
+    addEyeShape(frames, inner.x, inner.y, inner.size, frameShape, corner);
+    addEyeShape(balls, ball.x, ball.y, ball.size, ballShape, corner);
+  }
+
+  return { frames, balls };
+}
+
+// Add one eye outline - leaf shapes are mirrored so every eye points the same way relative to the code
+function addEyeShape(
+  path: QRPath,
+  x: number,
+  y: number,
+  size: number,
+  shape: EyeShape,
+  corner: FinderCorner
+): void {
+  switch (shape) {
+    case 'rounded':
+      path.roundRect(x, y, size, size, size * 0.25);
+      break;
+    case 'circle':
+      path.circle(x + size / 2, y + size / 2, size / 2);
+      break;
+    case 'leaf': {
+      const r = size * 0.5;
+      const radii: CornerRadii = corner === 'top-left' ? [r, 0, r, 0] : [0, r, 0, r];
+      path.roundRect(x, y, size, size, radii);
+      break;
+    }
+    case 'cushion': {
+      // Squircle - each side bulges towards its corners
+      const k = size * 0.08;
+      const cx = x + size / 2;
+      const cy = y + size / 2;
+      path
+        .moveTo(cx, y)
+        .curveTo(x + size - k, y, x + size, y + k, x + size, cy)
+        .curveTo(x + size, y + size - k, x + size - k, y + size, cx, y + size)
+        .curveTo(x + k, y + size, x, y + size - k, x, cy)
+        .curveTo(x, y + k, x + k, y, cx, y)
+        .close();
+      break;
+    }
+    default:
+      path.rect(x, y, size, size);
+  }
+}
+
+// Add a single styled module
+function addStyledModule(
+  path: QRPath,
+  x: number,
+  y: number,
+  size: number,
+  style: QRDesignStyle
+): void {
+  const padding = size * 0.1;
+  const actualSize = size - padding * 2;
+
+  switch (style) {
+    case 'rounded':
+      path.roundRect(x + padding, y + padding, actualSize, actualSize, actualSize / 4);
+      break;
+    case 'dots':
+      path.circle(x + size / 2, y + size / 2, actualSize / 2.2);
+      break;
+    case 'classy':
+      path.rect(x + padding, y + padding, actualSize, actualSize);
+      break;
+    case 'classy-rounded':
+      path.roundRect(x + padding, y + padding, actualSize, actualSize, actualSize / 3);
+      break;
+    case 'extra-rounded':
+      path.roundRect(x + padding, y + padding, actualSize, actualSize, actualSize / 2);
+      break;
+    case 'diamond':
+      path.polygon([
+        [x + size / 2, y + padding],
+        [x + size - padding, y + size / 2],
+        [x + size / 2, y + size - padding],
+        [x + padding, y + size / 2],
+      ]);
+      break;
+    case 'star':
+      addStar(path, x + size / 2, y + size / 2, actualSize / 2, 4);
+      break;
+    default:
+      path.rect(x, y, size, size);
+  }
+}
+
+// Connected "liquid" modules: full-size cells whose corners are rounded only where
+// both orthogonal neighbours are light, plus concave fillets in light cells that sit
+// inside an L of dark ones. Everything winds the same way, so a nonzero fill unions it.
+function addFluidModules(
+  path: QRPath,
+  matrixSize: number,
+  isDark: (row: number, col: number) => boolean,
+  edge: (index: number) => number
+): void {
+  // Corner directions in roundRect order: top-left, top-right, bottom-right, bottom-left
+  const corners: [number, number][] = [[-1, -1], [-1, 1], [1, 1], [1, -1]];
+
+  for (let row = 0; row < matrixSize; row++) {
+    for (let col = 0; col < matrixSize; col++) {
+      const x = edge(col);
+      const y = edge(row);
+      const width = edge(col + 1) - x;
+      const height = edge(row + 1) - y;
+      const radius = Math.min(width, height) / 2;
+
+      if (isDark(row, col)) {
+        const radii = corners.map(([dr, dc]) =>
+          isDark(row + dr, col) || isDark(row, col + dc) ? 0 : radius
+        ) as CornerRadii;
+        path.roundRect(x, y, width, height, radii);
+        continue;
+      }
+
+      corners.forEach(([dr, dc]) => {
+        if (!isDark(row + dr, col) || !isDark(row, col + dc) || !isDark(row + dr, col + dc)) return;
+        const cornerX = dc < 0 ? x : x + width;
+        const cornerY = dr < 0 ? y : y + height;
+        addFillet(path, cornerX, cornerY, -dc * radius, -dr * radius);
+      });
+    }
+  }
+}
+
+// Concave corner piece: the square between (x, y) and (x + dx, y + dy) minus the
+// quarter circle centered on its far corner
+function addFillet(path: QRPath, x: number, y: number, dx: number, dy: number): void {
+  const k = 1 - KAPPA;
+  let a: [number, number] = [x + dx, y];
+  let b: [number, number] = [x, y + dy];
+  let ca: [number, number] = [x + dx * k, y];
+  let cb: [number, number] = [x, y + dy * k];
+  // Match roundRect's clockwise winding (y down)
+  if (dx * dy < 0) {
+    [a, b] = [b, a];
+    [ca, cb] = [cb, ca];
+  }
+  path.moveTo(x, y).lineTo(a[0], a[1]).curveTo(ca[0], ca[1], cb[0], cb[1], b[0], b[1]).close();
+}
+
+// Add star shape
+function addStar(
+  path: QRPath,
+  cx: number,
+  cy: number,
+  radius: number,
+  points: number
+): void {
+  const vertices: [number, number][] = [];
+  for (let i = 0; i < points * 2; i++) {
+    const r = i % 2 === 0 ? radius : radius * 0.5;
+    const angle = (i * Math.PI) / points - Math.PI / 2;
+    vertices.push([cx + r * Math.cos(angle), cy + r * Math.sin(angle)]);
+  }
+  path.polygon(vertices);
+}
+
+// Calculate logo box based on layout
+export function calculateLogoBox(
+  width: number,
+  layout: LogoLayout,
+  sizePercent: number
+): LogoBox {
+  const size = width * (sizePercent / 100);
+  const margin = width * 0.08;
+
+  switch (layout) {
+    case 'bottom-right':
+      return { x: width - size - margin, y: width - size - margin, size };
+    case 'bottom-left':
+      return { x: margin, y: width - size - margin, size };
+    case 'top-right':
+      return { x: width - size - margin, y: margin, size };
+    case 'top-left':
+      return { x: margin, y: margin, size };
+    case 'watermark':
+      return { x: (width - size) / 2, y: width - size - margin * 2, size };
+    case 'center':
+    default:
+      return { x: (width - size) / 2, y: (width - size) / 2, size };
+  }
+}
+
+// Background plate behind the logo
+export function buildLogoPlatePath(box: LogoBox, shape: LogoShape): QRPath {
+  const padding = box.size * 0.15;
+  const path = new QRPath();
+
+  if (shape === 'circle') {
+    return path.circle(box.x + box.size / 2, box.y + box.size / 2, box.size / 2 + padding);
+  }
+  const plateSize = box.size + padding * 2;
+  if (shape === 'rounded') {
+    return path.roundRect(box.x - padding, box.y - padding, plateSize, plateSize, box.size / 6);
+  }
+  return path.rect(box.x - padding, box.y - padding, plateSize, plateSize);
+}
+
+// Modules whose cell overlaps the logo plate (row-major, 1 = covered)
+export function getLogoFootprint(
+  matrixSize: number,
+  box: LogoBox,
+  shape: LogoShape,
+  options: { moduleSize: number; margin: number }
+): Uint8Array {
+  const { moduleSize, margin } = options;
+  const padding = box.size * 0.15;
+  const left = box.x - padding;
+  const top = box.y - padding;
+  const right = box.x + box.size + padding;
+  const bottom = box.y + box.size + padding;
+  const cx = box.x + box.size / 2;
+  const cy = box.y + box.size / 2;
+  const radius = box.size / 2 + padding;
+  const epsilon = moduleSize * 1e-3; // touching edges do not count as overlap
+
+  const footprint = new Uint8Array(matrixSize * matrixSize);
+  for (let row = 0; row < matrixSize; row++) {
+    const y0 = (row + margin) * moduleSize;
+    const y1 = y0 + moduleSize;
+    for (let col = 0; col < matrixSize; col++) {
+      const x0 = (col + margin) * moduleSize;
+      const x1 = x0 + moduleSize;
+      let covered: boolean;
+      if (shape === 'circle') {
+        const dx = Math.max(x0 - cx, 0, cx - x1);
+        const dy = Math.max(y0 - cy, 0, cy - y1);
+        covered = Math.hypot(dx, dy) < radius - epsilon;
+      } else {
+        covered = x1 > left + epsilon && x0 < right - epsilon && y1 > top + epsilon && y0 < bottom - epsilon;
+      }
+      if (covered) footprint[row * matrixSize + col] = 1;
+    }
+  }
+  return footprint;
+}
+
+// Clip region for the logo image itself (null = no clipping)
+export function buildLogoClipPath(box: LogoBox, shape: LogoShape): QRPath | null {
+  if (shape === 'circle') {
+    return new QRPath().circle(box.x + box.size / 2, box.y + box.size / 2, box.size / 2);
+  }
+  if (shape === 'rounded') {
+    return new QRPath().roundRect(box.x, box.y, box.size, box.size, box.size / 6);
+  }
+  return null;
+}
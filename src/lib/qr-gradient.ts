@@ -0,0 +1,150 @@
+import type { QRGradient, GradientStop, GradientType } from './qr-types';
+import { QRPath } from './qr-path';
+
+// Slices used where a backend has no native conic gradient (SVG, PDF)
+const CONIC_WEDGES = 90;
+
+// Build a gradient with evenly spaced stops from a list of colors
+export function createGradient(
+  colors: string[],
+  type: GradientType = 'linear',
+  angle = 135
+): QRGradient {
+  const stops = colors.map((color, i) => ({
+    color,
+    offset: colors.length > 1 ? i / (colors.length - 1) : 0,
+  }));
+  return { type, angle, stops };
+}
+
+// Stops sorted and clamped, padded so they always cover 0..1
+export function normalizeStops(stops: GradientStop[]): GradientStop[] {
+  const sorted = stops
+    .map((stop) => ({ ...stop, offset: Math.min(1, Math.max(0, stop.offset)) }))
+    .sort((a, b) => a.offset - b.offset);
+
+  if (sorted.length === 0) return [{ offset: 0, color: '#000000' }, { offset: 1, color: '#000000' }];
+  if (sorted[0].offset > 0) sorted.unshift({ offset: 0, color: sorted[0].color });
+  if (sorted[sorted.length - 1].offset < 1) sorted.push({ offset: 1, color: sorted[sorted.length - 1].color });
+  return sorted;
+}
+
+// Gradient line across a square box, as CSS linear-gradient() sizes it
+export function getLinearGradientPoints(
+  angle: number,
+  x: number,
+  y: number,
+  size: number
+): { x1: number; y1: number; x2: number; y2: number } {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const half = (size * (Math.abs(dx) + Math.abs(dy))) / 2;
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+  return { x1: cx - dx * half, y1: cy - dy * half, x2: cx + dx * half, y2: cy + dy * half };
+}
+
+// Radial gradients reach the farthest corner of the box
+export function getRadialGradientRadius(size: number): number {
+  return (size * Math.SQRT2) / 2;
+}
+
+// Color at a position along the gradient (0-1), interpolated in sRGB
+export function sampleGradient(stops: GradientStop[], t: number): string {
+  const sorted = normalizeStops(stops);
+  const position = Math.min(1, Math.max(0, t));
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    if (position <= to.offset) {
+      const span = to.offset - from.offset;
+      return mixColors(from.color, to.color, span > 0 ? (position - from.offset) / span : 1);
+    }
+  }
+  return sorted[sorted.length - 1].color;
+}
+
+// Conic gradient as flat-colored pie slices (slightly overlapping to avoid seams)
+export function buildConicWedges(
+  gradient: QRGradient,
+  x: number,
+  y: number,
+  size: number
+): { path: QRPath; color: string }[] {
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+  const radius = getRadialGradientRadius(size) + 1;
+  const step = (Math.PI * 2) / CONIC_WEDGES;
+  const start = ((gradient.angle - 90) * Math.PI) / 180; // CSS 0deg points up
+
+  return Array.from({ length: CONIC_WEDGES }, (_, i) => {
+    const a0 = start + i * step - step * 0.05;
+    const a1 = start + (i + 1) * step + step * 0.05;
+    const path = new QRPath().polygon([
+      [cx, cy],
+      [cx + Math.cos(a0) * radius, cy + Math.sin(a0) * radius],
+      [cx + Math.cos(a1) * radius, cy + Math.sin(a1) * radius],
+    ]);
+    return { path, color: sampleGradient(gradient.stops, (i + 0.5) / CONIC_WEDGES) };
+  });
+}
+
+// Canvas fill style for a gradient covering the square box at (x, y)
+export function createCanvasGradient(
+  ctx: CanvasRenderingContext2D,
+  gradient: QRGradient,
+  x: number,
+  y: number,
+  size: number
+): CanvasGradient {
+  let fill: CanvasGradient;
+
+  if (gradient.type === 'radial') {
+    const cx = x + size / 2;
+    const cy = y + size / 2;
+    fill = ctx.createRadialGradient(cx, cy, 0, cx, cy, getRadialGradientRadius(size));
+  } else if (gradient.type === 'conic' && typeof ctx.createConicGradient === 'function') {
+    fill = ctx.createConicGradient(((gradient.angle - 90) * Math.PI) / 180, x + size / 2, y + size / 2);
+  } else {
+    // Linear - also the fallback for browsers without conic gradients
+    const { x1, y1, x2, y2 } = getLinearGradientPoints(gradient.angle, x, y, size);
+    fill = ctx.createLinearGradient(x1, y1, x2, y2);
+  }
+
+  normalizeStops(gradient.stops).forEach((stop) => fill.addColorStop(stop.offset, stop.color));
+  return fill;
+}
+
+// CSS background for swatches and previews
+export function gradientToCss(gradient: QRGradient): string {
+  const stops = normalizeStops(gradient.stops)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+
+  switch (gradient.type) {
+    case 'radial':
+      return `radial-gradient(circle farthest-corner, ${stops})`;
+    case 'conic':
+      return `conic-gradient(from ${gradient.angle}deg, ${stops})`;
+    default:
+      return `linear-gradient(${gradient.angle}deg, ${stops})`;
+  }
+}
+
+// Parse #rgb / #rrggbb into channels (black if unparseable)
+export function parseHexColor(color: string): [number, number, number] {
+  let hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) hex = hex.split('').map((c) => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return [0, 0, 0];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function mixColors(from: string, to: string, t: number): string {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  return `#${a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * t).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
@@ -0,0 +1,20 @@
+import { loadLuminanceImage } from './qr-detect';
+import { inspectFirstQRCode, type QRInspection } from './qr-inspect';
+
+// Inspection of a scanned image file. Locating and grading the code in a large photo takes long enough to
+// stall the page, so it runs in a worker - or in place where workers are missing (tests)
+export async function inspectQRCodeInFile(file: Blob): Promise<QRInspection | null> {
+  const { image, scale } = await loadLuminanceImage(file);
+  if (typeof Worker === 'undefined') return inspectFirstQRCode(image, scale);
+
+  const worker = new Worker(new URL('./qr-inspect.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    return await new Promise<QRInspection | null>((resolve, reject) => {
+      worker.onmessage = ({ data }: MessageEvent<QRInspection | null>) => resolve(data);
+      worker.onerror = (event) => reject(new Error(event.message || 'Inspection failed'));
+      worker.postMessage({ image, scale }, [image.data.buffer]);
+    });
+  } finally {
+    worker.terminate();
+  }
+}
@@ -0,0 +1,506 @@
+import * as ZXingModule from 'html5-qrcode/third_party/zxing-js.umd';
+import { getBlockLayout, getMisdecodeProtection } from './qr-capacity';
+import { detectQRCode, type LuminanceImage, type Point } from './qr-detect';
+import { getAlignmentPositions } from './qr-geometry';
+import type { ErrorCorrectionLevel } from './qr-types';
+
+// Symbol inspection for print acceptance: re-reads a detected code module by module to report how it
+// was encoded (version, level, mask, segments, ECI) and grades it in the style of ISO/IEC 15415 -
+// symbol contrast, modulation, fixed pattern damage and unused error correction
+
+export type QualityGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface GradedMetric {
+  value: number;
+  grade: QualityGrade;
+}
+
+export type QRSegmentMode =
+  | 'numeric'
+  | 'alphanumeric'
+  | 'byte'
+  | 'kanji'
+  | 'hanzi'
+  | 'structured-append'
+  | 'fnc1';
+
+export interface QRSegmentInfo {
+  mode: QRSegmentMode;
+  count: number; // characters (bytes for byte mode); 0 for structural segments
+}
+
+export interface QRInspection {
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: number;
+  segments: QRSegmentInfo[];
+  eci: number[]; // ECI assignment numbers in stream order
+  moduleSize: number; // pixels per module in the source image
+  quietZone: number; // light modules around the symbol, measured up to QUIET_ZONE_REQUIRED
+  quietZoneAdequate: boolean;
+  decoded: boolean; // every Reed-Solomon block could be corrected
+  grades: {
+    overall: QualityGrade;
+    symbolContrast: GradedMetric; // Rmax - Rmin, 0..1
+    modulation: GradedMetric; // lowest codeword modulation, 0..1
+    fixedPatternDamage: GradedMetric; // damaged finder, separator and timing modules
+    unusedErrorCorrection: GradedMetric; // worst block, 0..1
+  };
+}
+
+interface ZXingReedSolomon {
+  GenericGF: { QR_CODE_FIELD_256: unknown };
+  ReedSolomonDecoder: new (field: unknown) => { decode(received: Int32Array, twoS: number): void };
+}
+
+const ZXing = ZXingModule as unknown as ZXingReedSolomon;
+
+// ISO/IEC 18004 asks for four light modules on every side
+export const QUIET_ZONE_REQUIRED = 4;
+
+// Grade letters by numeric grade (F = 0 ... A = 4)
+const GRADE_LETTERS: QualityGrade[] = ['F', 'D', 'C', 'B', 'A'];
+
+// Lower bounds for grades A, B, C, D
+const CONTRAST_THRESHOLDS = [0.7, 0.55, 0.4, 0.2];
+const MODULATION_THRESHOLDS = [0.5, 0.4, 0.3, 0.2];
+const UEC_THRESHOLDS = [0.62, 0.5, 0.37, 0.25];
+const TIMING_DAMAGE_THRESHOLDS = [0, 0.07, 0.14, 0.2]; // upper bounds of the damaged share
+
+// Format information: 2 bits of level, in this order
+const LEVEL_BITS: ErrorCorrectionLevel[] = ['M', 'L', 'H', 'Q'];
+
+// Minimum share of finder and timing modules that must match before a grid is accepted
+const MIN_GRID_FIT = 0.85;
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+function gradeFor(value: number, thresholds: number[]): number {
+  const index = thresholds.findIndex((threshold) => value >= threshold);
+  return index === -1 ? 0 : 4 - index;
+}
+
+// Projective map from the unit square (u = column, v = row) onto the symbol corners
+function squareToQuad([p0, p1, p2, p3]: Point[]): (u: number, v: number) => Point {
+  const dx3 = p0[0] - p1[0] + p2[0] - p3[0];
+  const dy3 = p0[1] - p1[1] + p2[1] - p3[1];
+  let a13 = 0;
+  let a23 = 0;
+  if (Math.abs(dx3) > 1e-9 || Math.abs(dy3) > 1e-9) {
+    const dx1 = p1[0] - p2[0];
+    const dx2 = p3[0] - p2[0];
+    const dy1 = p1[1] - p2[1];
+    const dy2 = p3[1] - p2[1];
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+    a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  }
+  const a11 = p1[0] - p0[0] + a13 * p1[0];
+  const a21 = p3[0] - p0[0] + a23 * p3[0];
+  const a12 = p1[1] - p0[1] + a13 * p1[1];
+  const a22 = p3[1] - p0[1] + a23 * p3[1];
+  return (u, v) => {
+    const w = a13 * u + a23 * v + 1;
+    return [(a11 * u + a21 * v + p0[0]) / w, (a12 * u + a22 * v + p0[1]) / w];
+  };
+}
+
+// Mean reflectance in a small square around a point; NaN outside the image
+function reflectance(image: LuminanceImage, [x, y]: Point, radius: number): number {
+  const cx = Math.floor(x);
+  const cy = Math.floor(y);
+  if (cx < 0 || cy < 0 || cx >= image.width || cy >= image.height) return NaN;
+  let sum = 0;
+  let count = 0;
+  for (let py = Math.max(0, cy - radius); py <= Math.min(image.height - 1, cy + radius); py++) {
+    for (let px = Math.max(0, cx - radius); px <= Math.min(image.width - 1, cx + radius); px++) {
+      sum += image.data[py * image.width + px];
+      count++;
+    }
+  }
+  return sum / count;
+}
+
+// 1 = function module (finders, separators, timing, alignment, format and version information)
+function functionModules(version: number): Uint8Array {
+  const size = version * 4 + 17;
+  const mask = new Uint8Array(size * size);
+  const fill = (top: number, left: number, rows: number, cols: number) => {
+    for (let r = Math.max(0, top); r < Math.min(size, top + rows); r++) {
+      for (let c = Math.max(0, left); c < Math.min(size, left + cols); c++) mask[r * size + c] = 1;
+    }
+  };
+  fill(0, 0, 9, 9);
+  fill(0, size - 8, 9, 8);
+  fill(size - 8, 0, 8, 9);
+  fill(6, 0, 1, size);
+  fill(0, 6, size, 1);
+  const positions = getAlignmentPositions(version);
+  for (const row of positions) {
+    for (const col of positions) {
+      const nearFinder = (row === 6 && (col === 6 || col === size - 7)) || (row === size - 7 && col === 6);
+      if (!nearFinder) fill(row - 2, col - 2, 5, 5);
+    }
+  }
+  if (version >= 7) {
+    fill(0, size - 11, 6, 3);
+    fill(size - 11, 0, 3, 6);
+  }
+  return mask;
+}
+
+// Ideal color of finder, separator and timing modules; null for every other module
+function fixedPatternModule(size: number, row: number, col: number): boolean | null {
+  for (const [top, left] of [[0, 0], [0, size - 7], [size - 7, 0]]) {
+    // The finder plus its one-module separator
+    if (row >= top - 1 && row <= top + 7 && col >= left - 1 && col <= left + 7) {
+      if (row < top || row > top + 6 || col < left || col > left + 6) return false;
+      const ring = Math.max(Math.abs(row - top - 3), Math.abs(col - left - 3));
+      return ring !== 2;
+    }
+  }
+  if (row === 6 && col >= 8 && col < size - 8) return col % 2 === 0;
+  if (col === 6 && row >= 8 && row < size - 8) return row % 2 === 0;
+  return null;
+}
+
+function bitLength(value: number): number {
+  return value === 0 ? 0 : 32 - Math.clz32(value);
+}
+
+function bchCode(data: number, shift: number, generator: number): number {
+  let remainder = data << shift;
+  while (bitLength(remainder) >= bitLength(generator)) {
+    remainder ^= generator << (bitLength(remainder) - bitLength(generator));
+  }
+  return (data << shift) | remainder;
+}
+
+function hammingDistance(a: number, b: number): number {
+  let diff = a ^ b;
+  let count = 0;
+  for (; diff; diff &= diff - 1) count++;
+  return count;
+}
+
+// Both copies of the 15-bit format information, read LSB first
+function readFormat(dark: (row: number, col: number) => boolean, size: number): { level: ErrorCorrectionLevel; mask: number } | null {
+  let first = 0;
+  let second = 0;
+  const firstPositions: [number, number][] = [
+    ...Array.from({ length: 6 }, (_, i) => [i, 8] as [number, number]),
+    [7, 8],
+    [8, 8],
+    [8, 7],
+    ...Array.from({ length: 6 }, (_, i) => [8, 5 - i] as [number, number]),
+  ];
+  firstPositions.forEach(([row, col], i) => (first |= (dark(row, col) ? 1 : 0) << i));
+  for (let i = 0; i < 8; i++) second |= (dark(8, size - 1 - i) ? 1 : 0) << i;
+  for (let i = 8; i < 15; i++) second |= (dark(size - 15 + i, 8) ? 1 : 0) << i;
+
+  let best: { data: number; distance: number } | null = null;
+  for (let data = 0; data < 32; data++) {
+    const code = bchCode(data, 10, 0x537) ^ 0x5412;
+    const distance = Math.min(hammingDistance(code, first), hammingDistance(code, second));
+    if (!best || distance < best.distance) best = { data, distance };
+  }
+  if (!best || best.distance > 3) return null;
+  return { level: LEVEL_BITS[best.data >> 3], mask: best.data & 7 };
+}
+
+// Data module positions in placement order: two-column zigzag from the bottom right
+function dataModuleOrder(version: number): number[] {
+  const size = version * 4 + 17;
+  const isFunction = functionModules(version);
+  const order: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const index = row * size + right - j;
+        if (!isFunction[index]) order.push(index);
+      }
+    }
+  }
+  return order;
+}
+
+// Segment headers of the corrected data stream; payload bits are skipped, not decoded
+function parseSegments(data: Uint8Array, version: number): { segments: QRSegmentInfo[]; eci: number[] } {
+  const band = version < 10 ? 0 : version < 27 ? 1 : 2;
+  const totalBits = data.length * 8;
+  let position = 0;
+  const read = (bits: number) => {
+    let value = 0;
+    for (let i = 0; i < bits; i++, position++) {
+      value = (value << 1) | (position < totalBits ? (data[position >> 3] >> (7 - (position & 7))) & 1 : 0);
+    }
+    return value;
+  };
+
+  const segments: QRSegmentInfo[] = [];
+  const eci: number[] = [];
+  while (position + 4 <= totalBits) {
+    const mode = read(4);
+    let skip = 0;
+    if (mode === 0) break;
+    if (mode === 1) {
+      const count = read([10, 12, 14][band]);
+      segments.push({ mode: 'numeric', count });
+      skip = 10 * Math.floor(count / 3) + [0, 4, 7][count % 3];
+    } else if (mode === 2) {
+      const count = read([9, 11, 13][band]);
+      segments.push({ mode: 'alphanumeric', count });
+      skip = 11 * Math.floor(count / 2) + 6 * (count % 2);
+    } else if (mode === 4) {
+      const count = read([8, 16, 16][band]);
+      segments.push({ mode: 'byte', count });
+      skip = 8 * count;
+    } else if (mode === 8 || mode === 13) {
+      if (mode === 13) read(4); // GB 2312 subset indicator
+      const count = read([8, 10, 12][band]);
+      segments.push({ mode: mode === 8 ? 'kanji' : 'hanzi', count });
+      skip = 13 * count;
+    } else if (mode === 7) {
+      const first = read(8);
+      eci.push(
+        (first & 0x80) === 0 ? first : (first & 0xc0) === 0x80 ? ((first & 0x3f) << 8) | read(8) : ((first & 0x1f) << 16) | read(16)
+      );
+    } else if (mode === 3) {
+      segments.push({ mode: 'structured-append', count: 0 });
+      skip = 16;
+    } else if (mode === 5 || mode === 9) {
+      segments.push({ mode: 'fnc1', count: 0 });
+      skip = mode === 9 ? 8 : 0;
+    } else {
+      break;
+    }
+    position += skip;
+    if (position > totalBits) break;
+  }
+  return { segments, eci };
+}
+
+// Inspect the code whose outer corners (top-left, top-right, bottom-right, bottom-left) are given, as
+// returned by detectQRCodes. `scale` is analysed pixels per source pixel, for reporting module size.
+// Null when no QR grid with readable format information fits the corners
+export function inspectQRCode(image: LuminanceImage, corners: Point[], scale = 1): QRInspection | null {
+  const map = squareToQuad(corners);
+  const side =
+    (Math.hypot(corners[1][0] - corners[0][0], corners[1][1] - corners[0][1]) +
+      Math.hypot(corners[2][0] - corners[3][0], corners[2][1] - corners[3][1]) +
+      Math.hypot(corners[3][0] - corners[0][0], corners[3][1] - corners[0][1]) +
+      Math.hypot(corners[2][0] - corners[1][0], corners[2][1] - corners[1][1])) /
+    4;
+
+  // Rough threshold from a coarse sample of the symbol area
+  const coarse: number[] = [];
+  for (let i = 0; i < 32; i++) {
+    for (let j = 0; j < 32; j++) {
+      const value = reflectance(image, map((j + 0.5) / 32, (i + 0.5) / 32), 0);
+      if (!Number.isNaN(value)) coarse.push(value);
+    }
+  }
+  if (coarse.length === 0) return null;
+  const roughThreshold = (Math.max(...coarse) + Math.min(...coarse)) / 2;
+
+  // Pick the version whose finder and timing patterns best match the image
+  let fit: { version: number; score: number } | null = null;
+  for (let version = 1; version <= 40; version++) {
+    const size = version * 4 + 17;
+    if (side / size < 1) break;
+    let matches = 0;
+    let total = 0;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const expected = fixedPatternModule(size, row, col);
+        if (expected === null) continue;
+        const value = reflectance(image, map((col + 0.5) / size, (row + 0.5) / size), 0);
+        total++;
+        if (value < roughThreshold === expected) matches++;
+      }
+    }
+    const score = matches / total;
+    if (!fit || score > fit.score) fit = { version, score };
+  }
+  if (!fit || fit.score < MIN_GRID_FIT) return null;
+
+  const { version } = fit;
+  const size = version * 4 + 17;
+  const pitch = side / size;
+  const radius = Math.floor(pitch * 0.2);
+  const at = (row: number, col: number) => map((col + 0.5) / size, (row + 0.5) / size);
+  const values = new Float32Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) values[row * size + col] = reflectance(image, at(row, col), radius);
+  }
+
+  // Quiet zone: rings of modules around the symbol that are entirely light
+  let quietZone = 0;
+  const quietSamples: number[] = [];
+  ring: for (let k = 1; k <= QUIET_ZONE_REQUIRED; k++) {
+    const samples: number[] = [];
+    for (let i = -k; i < size + k; i++) {
+      for (const [row, col] of [[-k, i], [size - 1 + k, i], [i, -k], [i, size - 1 + k]]) {
+        const value = reflectance(image, at(row, col), radius);
+        if (Number.isNaN(value) || value < roughThreshold) break ring;
+        samples.push(value);
+      }
+    }
+    quietZone = k;
+    quietSamples.push(...samples);
+  }
+
+  let rMax = 0;
+  let rMin = 255;
+  for (const value of [...values, ...quietSamples]) {
+    if (Number.isNaN(value)) continue;
+    rMax = Math.max(rMax, value);
+    rMin = Math.min(rMin, value);
+  }
+  const contrast = Math.max(0, rMax - rMin);
+  const threshold = (rMax + rMin) / 2;
+  const dark = (row: number, col: number) => values[row * size + col] < threshold;
+
+  const format = readFormat(dark, size);
+  if (!format) return null;
+  const { level, mask } = format;
+
+  // Fixed pattern damage, graded per finder (with separator) and over both timing patterns
+  const finderErrors = [0, 0, 0];
+  let timingErrors = 0;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const expected = fixedPatternModule(size, row, col);
+      if (expected === null || dark(row, col) === expected) continue;
+      if (row < 8 && col < 8) finderErrors[0]++;
+      else if (row < 8) finderErrors[1]++;
+      else if (col < 8) finderErrors[2]++;
+      else timingErrors++;
+    }
+  }
+  const timingBound = TIMING_DAMAGE_THRESHOLDS.findIndex((bound) => timingErrors / (2 * (size - 16)) <= bound);
+  const fixedPatternGrade = Math.min(
+    ...finderErrors.map((errors) => Math.max(0, 4 - errors)),
+    timingBound === -1 ? 0 : 4 - timingBound
+  );
+
+  // Read codewords (unmasked) and remember which modules carry each one
+  const order = dataModuleOrder(version);
+  const layout = getBlockLayout(version, level);
+  const codewordModules: number[][] = [];
+  const raw = new Uint8Array(layout.totalCodewords);
+  for (let k = 0; k < layout.totalCodewords; k++) {
+    const modules = order.slice(k * 8, k * 8 + 8);
+    codewordModules.push(modules);
+    raw[k] = modules.reduce((byte, index) => {
+      const row = Math.floor(index / size);
+      const col = index % size;
+      return (byte << 1) | (dark(row, col) !== MASKS[mask](row, col) ? 1 : 0);
+    }, 0);
+  }
+
+  // De-interleave into Reed-Solomon blocks and correct each one
+  const ec = layout.ecCodewordsPerBlock;
+  const blocks = layout.dataCodewords.map((count) => ({ count, positions: new Array<number>(count + ec) }));
+  let next = 0;
+  for (let i = 0; i < Math.max(...layout.dataCodewords); i++) {
+    blocks.forEach((block) => i < block.count && (block.positions[i] = next++));
+  }
+  for (let i = 0; i < ec; i++) blocks.forEach((block) => (block.positions[block.count + i] = next++));
+
+  const usable = ec - getMisdecodeProtection(version, level);
+  const corrected = raw.slice();
+  const codewordBlock = new Int32Array(layout.totalCodewords);
+  let decoded = true;
+  let unusedEc = 1;
+  const rs = new ZXing.ReedSolomonDecoder(ZXing.GenericGF.QR_CODE_FIELD_256);
+  blocks.forEach((block, b) => {
+    block.positions.forEach((position) => (codewordBlock[position] = b));
+    const received = Int32Array.from(block.positions, (position) => raw[position]);
+    try {
+      rs.decode(received, ec);
+      const errors = block.positions.filter((position, i) => received[i] !== raw[position]).length;
+      block.positions.forEach((position, i) => (corrected[position] = received[i]));
+      unusedEc = Math.min(unusedEc, Math.max(0, 1 - (2 * errors) / usable));
+      if (2 * errors > usable) decoded = false;
+    } catch {
+      decoded = false;
+    }
+  });
+  if (!decoded) unusedEc = 0;
+
+  // Modulation per codeword: its weakest module, with wrongly colored modules counting as zero
+  const codewordModulation = codewordModules.map((modules, k) =>
+    Math.min(
+      ...modules.map((index, j) => {
+        const row = Math.floor(index / size);
+        const col = index % size;
+        const modulation = contrast === 0 || Number.isNaN(values[index]) ? 0 : (2 * Math.abs(values[index] - threshold)) / contrast;
+        // Without a successful decode there is no reference, so only the modulation itself counts
+        if (!decoded) return modulation;
+        const idealDark = (((corrected[k] >> (7 - j)) & 1) === 1) !== MASKS[mask](row, col);
+        return dark(row, col) === idealDark ? modulation : 0;
+      })
+    )
+  );
+  const codewordGrades = codewordModulation.map((value) => gradeFor(value, MODULATION_THRESHOLDS));
+
+  // Modulation grade: the best level at which the codewords graded below it would still be correctable
+  let modulationGrade = 0;
+  for (let level = 4; level >= 1 && modulationGrade === 0; level--) {
+    const errors = new Array(blocks.length).fill(0);
+    codewordGrades.forEach((grade, k) => grade < level && errors[codewordBlock[k]]++);
+    const notional = Math.min(...errors.map((count) => (2 * count > usable ? 0 : 1 - (2 * count) / usable)));
+    modulationGrade = Math.min(level, gradeFor(notional, UEC_THRESHOLDS));
+  }
+
+  const dataCodewords = blocks.flatMap((block) => block.positions.slice(0, block.count).map((position) => corrected[position]));
+  const { segments, eci } = decoded ? parseSegments(Uint8Array.from(dataCodewords), version) : { segments: [], eci: [] };
+
+  const contrastGrade = gradeFor(contrast / 255, CONTRAST_THRESHOLDS);
+  const uecGrade = gradeFor(unusedEc, UEC_THRESHOLDS);
+  const metric = (value: number, grade: number): GradedMetric => ({ value, grade: GRADE_LETTERS[grade] });
+
+  return {
+    version,
+    errorCorrectionLevel: level,
+    maskPattern: mask,
+    segments,
+    eci,
+    moduleSize: pitch / scale,
+    quietZone,
+    quietZoneAdequate: quietZone >= QUIET_ZONE_REQUIRED,
+    decoded,
+    grades: {
+      overall: GRADE_LETTERS[Math.min(contrastGrade, modulationGrade, fixedPatternGrade, uecGrade)],
+      symbolContrast: metric(contrast / 255, contrastGrade),
+      modulation: metric(Math.min(...codewordModulation), modulationGrade),
+      fixedPatternDamage: metric(finderErrors.reduce((a, b) => a + b, 0) + timingErrors, fixedPatternGrade),
+      unusedErrorCorrection: metric(unusedEc, uecGrade),
+    },
+  };
+}
+
+// "numeric + byte", the way the results list shows encoding modes
+export function describeSegments(inspection: QRInspection): string {
+  const modes = [...new Set(inspection.segments.map((segment) => segment.mode))];
+  return modes.length > 0 ? modes.join(' + ') : 'unknown';
+}
+
+// Inspect the first code a full-image read finds; null if none can be read
+export function inspectFirstQRCode(image: LuminanceImage, scale = 1): QRInspection | null {
+  const code = detectQRCode(image);
+  return code ? inspectQRCode(image, code.corners, scale) : null;
+}
@@ -0,0 +1,9 @@
+import type { LuminanceImage } from './qr-detect';
+import { inspectFirstQRCode } from './qr-inspect';
+
+// Locates and grades a scanned code off the UI thread - see inspectQRCodeInFile
+const scope = self as unknown as Worker;
+
+scope.onmessage = ({ data }: MessageEvent<{ image: LuminanceImage; scale: number }>) => {
+  scope.postMessage(inspectFirstQRCode(data.image, data.scale));
+};
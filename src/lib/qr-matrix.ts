@@ -0,0 +1,38 @@
+import QRCode from 'qrcode';
+import type { ErrorCorrectionLevel } from './qr-types';
+
+// Quiet zone around the symbol, in modules
+export const QUIET_ZONE_MODULES = 2;
+
+// QR module matrix - the symbol as produced by the encoder, before any styling
+export interface QRMatrix {
+  size: number; // modules per side (without quiet zone)
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: number;
+  modules: Uint8Array; // row-major, 1 = dark module
+  reserved: Uint8Array; // row-major, 1 = function pattern (finder, timing, format...)
+}
+
+// Encode content and return its module matrix
+export function createQRMatrix(
+  content: string,
+  errorCorrectionLevel: ErrorCorrectionLevel = 'H'
+): QRMatrix {
+  const qr = QRCode.create(content, { errorCorrectionLevel });
+
+  return {
+    size: qr.modules.size,
+    version: qr.version,
+    errorCorrectionLevel,
+    maskPattern: qr.maskPattern ?? 0,
+    modules: qr.modules.data,
+    reserved: qr.modules.reservedBit,
+  };
+}
+
+// Check if module is dark - coordinates outside the symbol are light
+export function isDarkModule(matrix: QRMatrix, row: number, col: number): boolean {
+  if (row < 0 || col < 0 || row >= matrix.size || col >= matrix.size) return false;
+  return matrix.modules[row * matrix.size + col] === 1;
+}
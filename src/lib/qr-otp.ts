@@ -0,0 +1,130 @@
+import type { OtpAlgorithm, OtpData } from './qr-types';
+
+// Authenticator provisioning (Google Authenticator Key Uri Format) and local RFC 4226 / 6238 codes
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 4226 asks for at least 128 bits - 80 bits is the floor most authenticator apps accept
+const MIN_SECRET_BYTES = 10;
+
+// Upper-case and drop spaces, dashes and padding - secrets are often shown in groups
+export function normalizeOtpSecret(secret: string): string {
+  return secret.replace(/[\s-]+/g, '').replace(/=+$/, '').toUpperCase();
+}
+
+// RFC 4648 base32 without padding
+export function base32Encode(bytes: Uint8Array): string {
+  let result = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) result += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return result;
+}
+
+// Null for characters outside A-Z2-7 or a length no byte sequence encodes to
+export function base32Decode(value: string): Uint8Array | null {
+  const text = normalizeOtpSecret(value);
+  if (!/^[A-Z2-7]*$/.test(text) || [1, 3, 6].includes(text.length % 8)) return null;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    buffer = ((buffer << 5) | BASE32_ALPHABET.indexOf(char)) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function isValidOtpSecret(secret: string): boolean {
+  const bytes = base32Decode(secret);
+  return !!bytes && bytes.length >= MIN_SECRET_BYTES;
+}
+
+// 160 random bits from Web Crypto, the RFC 4226 recommendation
+export function generateOtpSecret(bytes = 20): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+// otpauth://totp/Issuer:account?secret=...&issuer=Issuer&algorithm=SHA1&digits=6&period=30
+export function buildOtpPayload(data: OtpData): string {
+  const issuer = data.issuer.trim();
+  const account = encodeURIComponent(data.account.trim());
+  const label = issuer ? `${encodeURIComponent(issuer)}:${account}` : account;
+
+  const params = [`secret=${normalizeOtpSecret(data.secret)}`];
+  if (issuer) params.push(`issuer=${encodeURIComponent(issuer)}`);
+  params.push(`algorithm=${data.algorithm}`, `digits=${data.digits}`);
+  params.push(data.type === 'hotp' ? `counter=${data.counter.trim() || '0'}` : `period=${data.period.trim() || '30'}`);
+  return `otpauth://${data.type}/${label}?${params.join('&')}`;
+}
+
+// Same URI without the secret - what history keeps
+export function redactOtpSecret(content: string): string {
+  return content.replace(/([?&])secret=[^&]*(&|$)/i, (_, before: string, after: string) => (after ? before : ''));
+}
+
+// Problems with the OTP form, keyed by field
+export function getOtpErrors(data: OtpData): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!data.account.trim()) errors.account = 'Account name is required';
+  if (data.issuer.includes(':')) errors.issuer = 'The issuer cannot contain a colon';
+  if (!/^[A-Z2-7]*$/.test(normalizeOtpSecret(data.secret))) {
+    errors.secret = 'Base32 secrets only use the letters A-Z and digits 2-7';
+  } else if (!isValidOtpSecret(data.secret)) {
+    errors.secret = `Use a base32 secret of at least ${MIN_SECRET_BYTES * 8} bits (16 characters)`;
+  }
+  if (!/^[6-8]$/.test(data.digits)) errors.digits = 'Codes have 6 to 8 digits';
+  if (data.type === 'hotp') {
+    if (!/^\d+$/.test(data.counter.trim())) errors.counter = 'Counter is a whole number';
+  } else if (!/^[1-9]\d*$/.test(data.period.trim())) {
+    errors.period = 'Period is a positive number of seconds';
+  }
+  return errors;
+}
+
+// TOTP time step for a moment in milliseconds
+export function getTotpCounter(timeMs: number, period: number): number {
+  return Math.floor(timeMs / 1000 / period);
+}
+
+// RFC 4226 HOTP value - TOTP passes the time step as the counter
+export async function computeOtp(
+  secret: string,
+  counter: number,
+  algorithm: OtpAlgorithm = 'SHA1',
+  digits = 6
+): Promise<string> {
+  const keyData = base32Decode(secret);
+  if (!keyData) throw new Error('Invalid base32 secret');
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    keyData,
+    { name: 'HMAC', hash: `SHA-${algorithm.slice(3)}` },
+    false,
+    ['sign']
+  );
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
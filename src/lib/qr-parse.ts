@@ -0,0 +1,508 @@
+import { format, parseISO, subDays } from 'date-fns';
+import type { ContactLabel, ContactPhoneType, GeoFormat, QRMode, VCardData } from './qr-types';
+import { CONTACT_PHONE_TYPES, COUNTRY_CODES, FLOATING_TIME_ZONE, SOCIAL_NETWORKS } from './qr-types';
+import { contactToFormData, eventToFormData } from './qr-payload';
+import { formatCoordinate, isValidLatitude, isValidLongitude } from './qr-geo';
+import { isSwissQrBill, unitsToDecimal } from './qr-payment';
+import { normalizeWifiAuthType } from './qr-wifi';
+
+// Decoded payload mapped back onto the generator form - the inverse of generateQRContent
+export interface ParsedQRContent {
+  mode: QRMode;
+  formData: Record<string, string>;
+}
+
+// Dial codes longest first, so 971 wins over 97 and 1
+const DIAL_CODES = [...new Set(COUNTRY_CODES.map((c) => c.dial))].sort((a, b) => b.length - a.length);
+
+// Detect the payload type of scanned content and extract its form fields
+export function parseQRContent(content: string): ParsedQRContent {
+  const trimmed = content.trim();
+  const upper = trimmed.toUpperCase();
+
+  if (upper.startsWith('WIFI:')) return { mode: 'wifi', formData: parseWifi(trimmed) };
+  if (upper.startsWith('BEGIN:VCARD')) return { mode: 'vcard', formData: parseVCard(trimmed) };
+  if (upper.startsWith('MECARD:')) return { mode: 'vcard', formData: parseMeCard(trimmed) };
+  if (upper.startsWith('MAILTO:')) return { mode: 'email', formData: parseMailto(trimmed) };
+  if (upper.startsWith('MATMSG:')) return { mode: 'email', formData: parseMatMsg(trimmed) };
+  if (/^OTPAUTH:\/\/[HT]OTP\//.test(upper)) return { mode: 'otp', formData: parseOtp(trimmed) };
+  if (upper.startsWith('UPI://PAY')) return { mode: 'payment', formData: parseUpi(trimmed) };
+  if (/^BCD\r?\n00[12]\r?\n/.test(upper)) return { mode: 'payment', formData: parseEpc(trimmed) };
+  if (isSwissQrBill(upper)) return { mode: 'payment', formData: parseSwiss(trimmed) };
+  if (upper.startsWith('BITCOIN:')) return { mode: 'payment', formData: parseBitcoin(trimmed) };
+  const ethereum = parseEthereum(trimmed);
+  if (ethereum) return { mode: 'payment', formData: ethereum };
+  if (/^BEGIN:(VEVENT|VCALENDAR)/.test(upper) && upper.includes('BEGIN:VEVENT')) {
+    return { mode: 'event', formData: parseEvent(trimmed) };
+  }
+
+  const whatsapp = parseWhatsApp(trimmed);
+  if (whatsapp) return { mode: 'whatsapp', formData: whatsapp };
+
+  const sms = parseSms(trimmed);
+  if (sms) return { mode: 'sms', formData: sms };
+
+  const call = parseCall(trimmed);
+  if (call) return { mode: 'tel', formData: call };
+
+  const geo = parseGeo(trimmed);
+  if (geo) return { mode: 'geo', formData: geo };
+
+  if (/^https?:\/\/\S+$/i.test(trimmed)) return { mode: 'url', formData: { url: trimmed } };
+
+  return { mode: 'text', formData: { text: content } };
+}
+
+// Split an international number into dial code and national number
+export function splitPhoneNumber(value: string): { countryCode: string; phone: string } {
+  const digits = value.replace(/\D/g, '');
+  const dial = DIAL_CODES.find((code) => digits.startsWith(code) && digits.length > code.length);
+  if (dial) return { countryCode: dial, phone: digits.slice(dial.length) };
+  // Unknown code - most remaining ITU codes are two digits long
+  return { countryCode: digits.slice(0, 2), phone: digits.slice(2) };
+}
+
+// International numbers (+ or 00) are split at their dial code, local ones keep no code
+function splitAnyNumber(value: string): { countryCode: string; phone: string } {
+  const trimmed = value.trim();
+  if (/^(\+|00)/.test(trimmed)) return splitPhoneNumber(trimmed.replace(/^00/, ''));
+  return { countryCode: '', phone: trimmed.replace(/\D/g, '') };
+}
+
+// Split on separators that are not backslash-escaped (escapes are kept)
+export function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Undo backslash escaping (vCard also encodes line breaks as \n)
+export function unescapeValue(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Key:value fields of the MECARD-style formats (WIFI:, MECARD:, MATMSG:), still escaped
+function parseFields(content: string): Map<string, string[]> {
+  const body = content.slice(content.indexOf(':') + 1);
+  const fields = new Map<string, string[]>();
+  for (const part of splitEscaped(body, ';')) {
+    const colon = part.indexOf(':');
+    if (colon <= 0) continue;
+    const key = part.slice(0, colon).toUpperCase();
+    fields.set(key, [...(fields.get(key) ?? []), part.slice(colon + 1)]);
+  }
+  return fields;
+}
+
+// First unescaped value of a field ('' when missing)
+function field(fields: Map<string, string[]>, key: string): string {
+  return unescapeValue(fields.get(key)?.[0] ?? '');
+}
+
+function parseWifi(content: string): Record<string, string> {
+  const fields = parseFields(content);
+  const password = field(fields, 'P');
+  const type = field(fields, 'T');
+  const authType = !type && !password ? 'nopass' : normalizeWifiAuthType(type);
+
+  const formData: Record<string, string> = {
+    ssid: field(fields, 'S'),
+    password,
+    authType,
+    hidden: String(field(fields, 'H').toLowerCase() === 'true'),
+  };
+  // R: is a bitmap - bit 0 turns off WPA2 fallback for WPA3-Personal
+  const transition = field(fields, 'R');
+  if (transition) formData.transitionDisable = String((parseInt(transition, 16) & 1) === 1);
+  if (authType === 'WPA2-EAP') {
+    formData.eapMethod = field(fields, 'E').toUpperCase();
+    formData.phase2 = field(fields, 'PH2').toUpperCase();
+    formData.identity = field(fields, 'I');
+    formData.anonymousIdentity = field(fields, 'A');
+  }
+  return formData;
+}
+
+// One "NAME;PARAM=a,b:value" line of a vCard or iCalendar object, value still escaped
+interface ContentLine {
+  name: string;
+  params: Map<string, string[]>;
+  value: string;
+}
+
+// Unfold and split vCard / iCalendar content lines
+function parseContentLines(content: string): ContentLine[] {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const result: ContentLine[] = [];
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    // "item1.TEL;TYPE=CELL,VOICE" -> TEL with TYPE [CELL, VOICE]; vCard 2.1 writes bare "TEL;CELL"
+    const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+    const params = new Map<string, string[]>();
+    for (const param of rawParams) {
+      const [key, val] = param.includes('=') ? param.split('=') : ['TYPE', param];
+      const name = key.toUpperCase();
+      params.set(name, [...(params.get(name) ?? []), ...val.replace(/"/g, '').split(',')]);
+    }
+    result.push({ name: rawName.replace(/^[^.]*\./, '').toUpperCase(), params, value: line.slice(colon + 1) });
+  }
+  return result;
+}
+
+// vCard 2.1 - 4.0: reads TYPE parameters and keeps every repeated property
+function parseVCard(content: string): Record<string, string> {
+  const properties = parseContentLines(content).map(({ name, params, value }) => ({
+    name,
+    types: (params.get('TYPE') ?? []).map((type) => type.toLowerCase()),
+    value,
+  }));
+
+  const all = (name: string) => properties.filter((p) => p.name === name);
+  const text = (name: string) => unescapeValue(all(name)[0]?.value ?? '');
+  const label = (types: string[]): ContactLabel => (types.includes('home') ? 'home' : 'work');
+
+  const [lastName = '', firstName = ''] = splitEscaped(all('N')[0]?.value ?? '', ';').map(unescapeValue);
+  const fallbackName = !firstName && !lastName ? text('FN').trim().split(/\s+/) : [];
+  const [, , street = '', city = '', region = '', postcode = '', country = ''] = splitEscaped(
+    all('ADR')[0]?.value ?? '',
+    ';'
+  ).map(unescapeValue);
+  const birthday = text('BDAY').replace(/^(\d{4})-?(\d{2})-?(\d{2}).*$/, '$1-$2-$3');
+
+  const contact: VCardData = {
+    firstName: firstName || fallbackName[0] || '',
+    lastName: lastName || fallbackName.slice(1).join(' '),
+    company: unescapeValue(splitEscaped(all('ORG')[0]?.value ?? '', ';')[0]) || undefined,
+    title: text('TITLE') || undefined,
+    phones: all('TEL').map(({ types, value }) => ({
+      type: (CONTACT_PHONE_TYPES.find((t) => types.includes(t.value))?.value ??
+        (types.includes('mobile') ? 'cell' : types.includes('voice') ? 'work' : 'cell')) as ContactPhoneType,
+      value: unescapeValue(value).replace(/^tel:/i, ''),
+    })),
+    emails: all('EMAIL').map(({ types, value }) => ({ type: label(types), value: unescapeValue(value) })),
+    urls: all('URL').map(({ types, value }) => ({ type: label(types), value: unescapeValue(value) })),
+    socials: all('X-SOCIALPROFILE').map(({ types, value }) => ({
+      type: SOCIAL_NETWORKS.find((n) => types.includes(n.value))?.value ?? 'other',
+      value: unescapeValue(value),
+    })),
+    address: { street, city, region, postcode, country },
+    birthday: /^\d{4}-\d{2}-\d{2}$/.test(birthday) ? birthday : undefined,
+    note: text('NOTE') || undefined,
+    photo: all('PHOTO').map((p) => p.value).find((value) => /^https?:/i.test(value)),
+  };
+
+  return contactToFormData(contact, text('VERSION').startsWith('4') ? '4.0' : '3.0');
+}
+
+function parseMeCard(content: string): Record<string, string> {
+  const fields = parseFields(content);
+  const values = (key: string) => (fields.get(key) ?? []).map(unescapeValue);
+  const [lastName = '', firstName = ''] = splitEscaped(fields.get('N')?.[0] ?? '', ',').map(unescapeValue);
+  const [, , street = '', city = '', region = '', postcode = '', country = ''] = splitEscaped(
+    fields.get('ADR')?.[0] ?? '',
+    ','
+  ).map(unescapeValue);
+  const birthday = field(fields, 'BDAY').replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+
+  const contact: VCardData = {
+    firstName: firstName.trim(),
+    lastName: lastName.trim(),
+    company: field(fields, 'ORG') || undefined,
+    phones: values('TEL').map((value) => ({ type: 'cell', value })),
+    emails: values('EMAIL').map((value) => ({ type: 'work', value })),
+    urls: values('URL').map((value) => ({ type: 'work', value })),
+    socials: [],
+    address: { street, city, region, postcode, country },
+    birthday: birthday || undefined,
+    note: field(fields, 'NOTE') || undefined,
+  };
+
+  return contactToFormData(contact, 'mecard');
+}
+
+// First VEVENT of a bare event or a VCALENDAR - all-day end dates are exclusive in iCalendar
+function parseEvent(content: string): Record<string, string> {
+  const body = content.slice(content.toUpperCase().indexOf('BEGIN:VEVENT'));
+  const end = body.toUpperCase().indexOf('END:VEVENT');
+  const properties = parseContentLines(end >= 0 ? body.slice(0, end) : body);
+  const find = (name: string) => properties.find((p) => p.name === name);
+  const text = (name: string) => unescapeValue(find(name)?.value ?? '');
+
+  const dtStart = find('DTSTART');
+  const dtEnd = find('DTEND');
+  const allDay = dtStart?.params.get('VALUE')?.[0]?.toUpperCase() === 'DATE' || /^\d{8}$/.test(dtStart?.value ?? '');
+  const utc = /Z$/i.test(dtStart?.value ?? '');
+
+  // 20261103T090000Z -> 2026-11-03T09:00, 20261103 -> 2026-11-03
+  const toWallClock = (value = '') => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2}))?/);
+    if (!match) return '';
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    return allDay || !match[4] ? date : `${date}T${match[4]}:${match[5]}`;
+  };
+
+  const startValue = toWallClock(dtStart?.value);
+  let endValue = toWallClock(dtEnd?.value);
+  if (allDay && endValue) endValue = format(subDays(parseISO(endValue), 1), 'yyyy-MM-dd');
+  if (!endValue || endValue < startValue) endValue = startValue;
+
+  return eventToFormData({
+    title: text('SUMMARY'),
+    start: startValue,
+    end: endValue,
+    allDay,
+    timeZone: utc ? 'UTC' : dtStart?.params.get('TZID')?.[0] ?? FLOATING_TIME_ZONE,
+    location: text('LOCATION') || undefined,
+    description: text('DESCRIPTION') || undefined,
+    url: text('URL') || undefined,
+  });
+}
+
+function parseMailto(content: string): Record<string, string> {
+  const [address, query = ''] = content.slice('mailto:'.length).split('?');
+  const params = parseQuery(query);
+  return {
+    email: safeDecode(address),
+    subject: params.get('subject') ?? '',
+    body: params.get('body') ?? '',
+  };
+}
+
+function parseMatMsg(content: string): Record<string, string> {
+  const fields = parseFields(content);
+  return {
+    email: field(fields, 'TO'),
+    subject: field(fields, 'SUB'),
+    body: field(fields, 'BODY'),
+  };
+}
+
+// wa.me/<number>?text=..., api.whatsapp.com/send?phone=... and whatsapp://send?phone=...
+function parseWhatsApp(content: string): Record<string, string> | null {
+  const match =
+    content.match(/^https?:\/\/wa\.me\/\+?(\d+)\/?(?:\?(.*))?$/i) ??
+    content.match(/^(?:https?:\/\/api\.whatsapp\.com\/send\/?|whatsapp:\/\/send\/?)\?(.*)$/i);
+  if (!match) return null;
+
+  const isShortLink = /wa\.me/i.test(content);
+  const params = parseQuery((isShortLink ? match[2] : match[1]) ?? '');
+  const number = isShortLink ? match[1] : params.get('phone') ?? '';
+  if (!number.replace(/\D/g, '')) return null;
+
+  return { ...splitPhoneNumber(number), message: params.get('text') ?? '' };
+}
+
+// SMSTO:number:message (also the older SMS:number:message) and sms:number?body=...
+function parseSms(content: string): Record<string, string> | null {
+  const legacy = content.match(/^sms(?:to)?:([^:?&]*):([\s\S]*)$/i);
+  const uri = legacy ? null : content.match(/^sms(?:to)?:([^?&]*)(?:[?&]([\s\S]*))?$/i);
+  const match = legacy ?? uri;
+  // sms: URIs may list several recipients - the form holds one
+  const number = match ? safeDecode(match[1]).split(',')[0] : '';
+  if (!/\d/.test(number)) return null;
+
+  return {
+    ...splitAnyNumber(number),
+    message: legacy ? legacy[2] : parseQuery(uri?.[2] ?? '').get('body') ?? '',
+    format: legacy || /^smsto:/i.test(content) ? 'smsto' : 'sms',
+  };
+}
+
+// tel:, facetime: and facetime-audio: numbers (tel: parameters such as ;ext= are dropped)
+function parseCall(content: string): Record<string, string> | null {
+  const match = content.match(/^(tel|facetime|facetime-audio):([+\d\s()./-]+)(?:;.*)?$/i);
+  if (!match || !/\d/.test(match[2])) return null;
+  return { ...splitAnyNumber(match[2]), scheme: match[1].toLowerCase() };
+}
+
+// geo: URIs (including Android's geo:0,0?q=lat,lng(label)) and map links that carry coordinates
+function parseGeo(content: string): Record<string, string> | null {
+  const pinned = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*(?:\((.*)\))?\s*$/;
+  const point = (latitude: string, longitude: string, format: GeoFormat, label = '', altitude = '') => {
+    const lat = Number(latitude);
+    const lng = Number(longitude);
+    if (!isValidLatitude(lat) || !isValidLongitude(lng)) return null;
+    return {
+      latitude: formatCoordinate(lat),
+      longitude: formatCoordinate(lng),
+      altitude: altitude && Number.isFinite(Number(altitude)) ? formatCoordinate(Number(altitude)) : '',
+      label,
+      format,
+    };
+  };
+
+  const geo = content.match(/^geo:(-?[\d.]+),(-?[\d.]+)(?:,(-?[\d.]+))?[^?]*(?:\?(.*))?$/i);
+  if (geo) {
+    const query = parseQuery(geo[4] ?? '').get('q') ?? '';
+    const pin = query.match(pinned);
+    return pin ? point(pin[1], pin[2], 'geo', pin[3] ?? '', geo[3]) : point(geo[1], geo[2], 'geo', query, geo[3]);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(content);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.replace(/^www\./, '');
+
+  if (host === 'maps.apple.com') {
+    const ll = (url.searchParams.get('ll') ?? '').match(pinned);
+    const q = url.searchParams.get('q') ?? '';
+    const qPin = q.match(pinned);
+    if (ll) return point(ll[1], ll[2], 'apple', qPin ? '' : q);
+    return qPin ? point(qPin[1], qPin[2], 'apple') : null;
+  }
+
+  if (/^(maps\.)?google\.[a-z.]+$/.test(host) && (host.startsWith('maps.') || url.pathname.startsWith('/maps'))) {
+    const query = (url.searchParams.get('query') ?? url.searchParams.get('q') ?? '').match(pinned);
+    if (query) return point(query[1], query[2], 'google');
+    const at = url.pathname.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+    if (at) return point(at[1], at[2], 'google');
+  }
+  return null;
+}
+
+// Key Uri Format - the issuer parameter wins over the label prefix
+function parseOtp(content: string): Record<string, string> {
+  const [, type, label] = content.match(/^otpauth:\/\/([a-z]+)\/([^?]*)/i)!;
+  const params = parseQuery(content.includes('?') ? content.slice(content.indexOf('?') + 1) : '');
+  const decoded = safeDecode(label);
+  const separator = decoded.indexOf(':');
+  return {
+    type: type.toLowerCase(),
+    issuer: params.get('issuer') ?? (separator >= 0 ? decoded.slice(0, separator).trim() : ''),
+    account: (separator >= 0 ? decoded.slice(separator + 1) : decoded).trim(),
+    secret: (params.get('secret') ?? '').toUpperCase(),
+    algorithm: (params.get('algorithm') ?? 'SHA1').toUpperCase(),
+    digits: params.get('digits') ?? '6',
+    period: params.get('period') ?? '30',
+    counter: params.get('counter') ?? '0',
+  };
+}
+
+function parseUpi(content: string): Record<string, string> {
+  const params = parseQuery(content.slice(content.indexOf('?') + 1));
+  return {
+    scheme: 'upi',
+    payee: params.get('pa') ?? '',
+    name: params.get('pn') ?? '',
+    amount: params.get('am') ?? '',
+    note: params.get('tn') ?? '',
+  };
+}
+
+// EPC069-12 lines: service tag, version, charset, SCT, BIC, name, IBAN, EUR amount, purpose,
+// structured reference, remittance text, beneficiary info
+function parseEpc(content: string): Record<string, string> {
+  const [, , , , bic = '', name = '', iban = '', amount = '', purpose = '', reference = '', text = '', info = ''] =
+    content.split(/\r?\n/).map((line) => line.trim());
+  return {
+    scheme: 'epc',
+    name,
+    iban,
+    bic,
+    amount: amount.replace(/^EUR/i, ''),
+    purpose,
+    reference,
+    text,
+    info,
+  };
+}
+
+// SPC 0200 elements: header, IBAN, creditor, ultimate creditor, amount, currency, debtor,
+// reference type and reference, message, EPD trailer, billing information
+function parseSwiss(content: string): Record<string, string> {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+  const party = (start: number, prefix: string) => {
+    const [type = '', name = '', line1 = '', line2 = '', postalCode = '', town = '', country = ''] = lines.slice(
+      start,
+      start + 7
+    );
+    // Combined (K) addresses keep street and number in line 1, postal code and town in line 2
+    const combined = type === 'K' ? line2.match(/^(\S+)\s+(.+)$/) : null;
+    const fields = {
+      name,
+      street: line1,
+      buildingNumber: type === 'K' ? '' : line2,
+      postalCode: combined ? combined[1] : postalCode,
+      town: combined ? combined[2] : town,
+      country,
+    };
+    return Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [prefix ? `${prefix}${key[0].toUpperCase()}${key.slice(1)}` : key, value])
+    );
+  };
+
+  return {
+    scheme: 'swiss',
+    iban: lines[3] ?? '',
+    ...party(4, ''),
+    amount: lines[18] ?? '',
+    currency: lines[19] ?? '',
+    ...party(20, 'debtor'),
+    referenceType: lines[27] ?? '',
+    reference: lines[28] ?? '',
+    message: lines[29] ?? '',
+    billInformation: lines[31] ?? '',
+  };
+}
+
+// BIP21 - bech32 addresses may be upper-cased to fit the QR alphanumeric mode
+function parseBitcoin(content: string): Record<string, string> {
+  const [address, query = ''] = content.slice('bitcoin:'.length).split('?');
+  const params = parseQuery(query);
+  return {
+    scheme: 'bitcoin',
+    address: /^(BC|TB)1/.test(address) ? address.toLowerCase() : address,
+    amount: params.get('amount') ?? '',
+    label: params.get('label') ?? '',
+    message: params.get('message') ?? '',
+  };
+}
+
+// EIP-681 plain transfers; token calls (ethereum:0x...@1/transfer?...) stay text
+function parseEthereum(content: string): Record<string, string> | null {
+  const match = content.match(/^ethereum:(?:pay-)?(0x[0-9a-f]{40})(?:@(\d+))?(?:\?(.*))?$/i);
+  if (!match) return null;
+  const value = parseQuery(match[3] ?? '').get('value');
+  return {
+    scheme: 'ethereum',
+    address: match[1],
+    amount: value ? unitsToDecimal(value, 18) ?? '' : '',
+    chainId: match[2] ?? '',
+  };
+}
+
+// Query string with percent-decoding that tolerates malformed escapes
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const [key, ...rest] = pair.split('=');
+    params.set(safeDecode(key).toLowerCase(), safeDecode(rest.join('=').replace(/\+/g, ' ')));
+  }
+  return params;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,135 @@
+// Path commands shared by the canvas and vector renderers
+export type PathCommand =
+  | { op: 'M'; x: number; y: number }
+  | { op: 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+// Corner radii in clockwise order: top-left, top-right, bottom-right, bottom-left
+export type CornerRadii = [number, number, number, number];
+
+// Bezier handle length for a quarter circle
+export const KAPPA = 0.5522847498;
+
+// Backend-neutral path - built once, then traced onto a canvas or serialized
+export class QRPath {
+  readonly commands: PathCommand[] = [];
+
+  get isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  moveTo(x: number, y: number): this {
+    this.commands.push({ op: 'M', x, y });
+    return this;
+  }
+
+  lineTo(x: number, y: number): this {
+    this.commands.push({ op: 'L', x, y });
+    return this;
+  }
+
+  curveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number): this {
+    this.commands.push({ op: 'C', x1, y1, x2, y2, x, y });
+    return this;
+  }
+
+  close(): this {
+    this.commands.push({ op: 'Z' });
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number): this {
+    return this.moveTo(x, y)
+      .lineTo(x + width, y)
+      .lineTo(x + width, y + height)
+      .lineTo(x, y + height)
+      .close();
+  }
+
+  roundRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number | CornerRadii
+  ): this {
+    const max = Math.min(width, height) / 2;
+    const [tl, tr, br, bl] = (typeof radius === 'number'
+      ? [radius, radius, radius, radius]
+      : radius
+    ).map((r) => Math.max(0, Math.min(r, max)));
+
+    this.moveTo(x + tl, y);
+    this.lineTo(x + width - tr, y);
+    if (tr) this.curveTo(x + width - tr + tr * KAPPA, y, x + width, y + tr - tr * KAPPA, x + width, y + tr);
+    this.lineTo(x + width, y + height - br);
+    if (br) this.curveTo(x + width, y + height - br + br * KAPPA, x + width - br + br * KAPPA, y + height, x + width - br, y + height);
+    this.lineTo(x + bl, y + height);
+    if (bl) this.curveTo(x + bl - bl * KAPPA, y + height, x, y + height - bl + bl * KAPPA, x, y + height - bl);
+    this.lineTo(x, y + tl);
+    if (tl) this.curveTo(x, y + tl - tl * KAPPA, x + tl - tl * KAPPA, y, x + tl, y);
+    return this.close();
+  }
+
+  circle(cx: number, cy: number, radius: number): this {
+    const k = radius * KAPPA;
+    return this.moveTo(cx + radius, cy)
+      .curveTo(cx + radius, cy + k, cx + k, cy + radius, cx, cy + radius)
+      .curveTo(cx - k, cy + radius, cx - radius, cy + k, cx - radius, cy)
+      .curveTo(cx - radius, cy - k, cx - k, cy - radius, cx, cy - radius)
+      .curveTo(cx + k, cy - radius, cx + radius, cy - k, cx + radius, cy)
+      .close();
+  }
+
+  polygon(points: [number, number][]): this {
+    points.forEach(([x, y], i) => (i === 0 ? this.moveTo(x, y) : this.lineTo(x, y)));
+    return this.close();
+  }
+
+  append(other: QRPath): this {
+    this.commands.push(...other.commands);
+    return this;
+  }
+}
+
+// Trace path onto a canvas context (caller fills or clips)
+export function tracePath(ctx: CanvasRenderingContext2D, path: QRPath): void {
+  ctx.beginPath();
+  for (const cmd of path.commands) {
+    switch (cmd.op) {
+      case 'M':
+        ctx.moveTo(cmd.x, cmd.y);
+        break;
+      case 'L':
+        ctx.lineTo(cmd.x, cmd.y);
+        break;
+      case 'C':
+        ctx.bezierCurveTo(cmd.x1, cmd.y1, cmd.x2, cmd.y2, cmd.x, cmd.y);
+        break;
+      case 'Z':
+        ctx.closePath();
+        break;
+    }
+  }
+}
+
+// Serialize path to SVG path data
+export function toSvgPathData(path: QRPath): string {
+  const n = (value: number) => String(Math.round(value * 1000) / 1000);
+
+  return path.commands
+    .map((cmd) => {
+      switch (cmd.op) {
+        case 'M':
+          return `M${n(cmd.x)} ${n(cmd.y)}`;
+        case 'L':
+          return `L${n(cmd.x)} ${n(cmd.y)}`;
+        case 'C':
+          return `C${n(cmd.x1)} ${n(cmd.y1)} ${n(cmd.x2)} ${n(cmd.y2)} ${n(cmd.x)} ${n(cmd.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join('');
+}
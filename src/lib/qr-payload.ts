@@ -0,0 +1,352 @@
+import { addDays, addHours, format, isValid, parseISO, startOfHour } from 'date-fns';
+import type {
+  CallScheme,
+  ContactEntry,
+  ContactLabel,
+  ContactPhoneType,
+  EventData,
+  GeoData,
+  SmsFormat,
+  SocialNetwork,
+  VCardAddress,
+  VCardData,
+  VCardFormat,
+  WifiData,
+} from './qr-types';
+import { EAP_METHODS, FLOATING_TIME_ZONE, SOCIAL_NETWORKS, VCARD_FORMATS } from './qr-types';
+import { formatCoordinate } from './qr-geo';
+
+// vCard lines longer than this many octets are folded (RFC 6350 section 3.2)
+const VCARD_LINE_OCTETS = 75;
+
+// Backslash-escape the characters that delimit WIFI: and MECARD: fields
+export function escapeMeCardValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+// Escape a vCard text value - line breaks become \n
+export function escapeVCardValue(value: string): string {
+  return value
+    .replace(/([\\;,])/g, '\\$1')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// WIFI:T:WPA;R:1;S:name;P:secret;H:true;; - enterprise networks add E:, PH2:, A: and I:
+export function buildWifiPayload(data: Partial<WifiData> & { ssid: string }): string {
+  const authType = data.authType || 'WPA';
+  const fields = [`T:${authType}`];
+  if (data.transitionDisable && (authType === 'WPA' || authType === 'SAE')) fields.push('R:1');
+  fields.push(`S:${escapeMeCardValue(data.ssid)}`);
+
+  if (authType === 'WPA2-EAP') {
+    const method = EAP_METHODS.find((m) => m.value === data.eapMethod) ?? EAP_METHODS[0];
+    fields.push(`E:${method.value}`);
+    if (method.phase2.length && data.phase2 && data.phase2 !== 'NONE') fields.push(`PH2:${data.phase2}`);
+    if (data.anonymousIdentity?.trim()) fields.push(`A:${escapeMeCardValue(data.anonymousIdentity.trim())}`);
+    if (data.identity?.trim()) fields.push(`I:${escapeMeCardValue(data.identity.trim())}`);
+    if (method.password) fields.push(`P:${escapeMeCardValue(data.password ?? '')}`);
+  } else if (authType !== 'nopass') {
+    fields.push(`P:${escapeMeCardValue(data.password ?? '')}`);
+  }
+
+  if (data.hidden) fields.push('H:true');
+  return `WIFI:${fields.join(';')};;`;
+}
+
+// E.164 number (+ country code + national number, at most 15 digits). Formatting and the
+// national trunk 0 are dropped; numbers typed with + or 00 already carry their country code.
+export function toE164(countryCode: string, phone: string): string {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (trimmed.startsWith('00')) return `+${digits.slice(2)}`;
+
+  const dial = countryCode.replace(/\D/g, '');
+  if (!dial) return digits;
+  // Italian numbers keep their leading 0 after the country code
+  const national = dial === '39' ? digits : digits.replace(/^0+/, '');
+  return `+${dial}${national}`;
+}
+
+// SMSTO:+number:message, or an RFC 5724 sms: URI
+export function buildSmsPayload(data: { number: string; message?: string; format?: SmsFormat }): string {
+  const message = data.message ?? '';
+  if (data.format === 'sms') {
+    return `sms:${data.number}${message ? `?body=${encodeURIComponent(message)}` : ''}`;
+  }
+  return `SMSTO:${data.number}:${message}`;
+}
+
+// tel:+number, or the FaceTime equivalents on Apple devices
+export function buildCallPayload(number: string, scheme: CallScheme = 'tel'): string {
+  return `${scheme}:${number}`;
+}
+
+// geo:lat,lng[,alt]?q=label (RFC 5870), or a Google / Apple Maps link to the same point
+export function buildGeoPayload(data: GeoData): string {
+  const coords = `${formatCoordinate(Number(data.latitude))},${formatCoordinate(Number(data.longitude))}`;
+  const label = data.label.trim();
+
+  switch (data.format) {
+    case 'google':
+      return `https://www.google.com/maps/search/?api=1&query=${coords}`;
+    case 'apple':
+      return `https://maps.apple.com/?ll=${coords}&q=${encodeURIComponent(label || coords)}`;
+    default: {
+      const altitude = data.altitude.trim() ? `,${formatCoordinate(Number(data.altitude))}` : '';
+      return `geo:${coords}${altitude}${label ? `?q=${encodeURIComponent(label)}` : ''}`;
+    }
+  }
+}
+
+// Contact in the chosen output format
+export function buildContactPayload(data: VCardData, format: VCardFormat = '3.0'): string {
+  return format === 'mecard' ? buildMeCard(data) : buildVCard(data, format);
+}
+
+// vCard 3.0 / 4.0 with escaped text values, CRLF line endings and folded long lines
+export function buildVCard(data: VCardData, version: '3.0' | '4.0' = '3.0'): string {
+  const v4 = version === '4.0';
+  const text = escapeVCardValue;
+  // URIs and phone numbers are not text values - only drop line breaks
+  const plain = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+  // vCard 3.0 spells parameter values in upper case, 4.0 in lower case
+  const type = (value: string) => `TYPE=${v4 ? value : value.toUpperCase()}`;
+
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${text(data.lastName)};${text(data.firstName)};;;`,
+    `FN:${text(getContactName(data))}`,
+  ];
+
+  if (data.company) lines.push(`ORG:${text(data.company)}`);
+  if (data.title) lines.push(`TITLE:${text(data.title)}`);
+  filled(data.phones).forEach(({ type: kind, value }) =>
+    lines.push(
+      v4
+        ? `TEL;${type(kind)};VALUE=uri:tel:${value.replace(/[^\d+]/g, '')}`
+        : `TEL;${type(kind)}:${plain(value)}`
+    )
+  );
+  filled(data.emails).forEach(({ type: kind, value }) => lines.push(`EMAIL;${type(kind)}:${plain(value)}`));
+  filled(data.urls).forEach(({ type: kind, value }) => lines.push(`URL;${type(kind)}:${plain(value)}`));
+  filled(data.socials).forEach(({ type: network, value }) =>
+    lines.push(`X-SOCIALPROFILE;TYPE=${network}:${plain(getSocialUrl(network, value))}`)
+  );
+  if (data.address && hasAddress(data.address)) {
+    const { street, city, region, postcode, country } = data.address;
+    lines.push(`ADR:;;${[street, city, region, postcode, country].map(text).join(';')}`);
+  }
+  if (data.birthday) lines.push(`BDAY:${v4 ? data.birthday.replace(/-/g, '') : data.birthday}`);
+  if (data.note) lines.push(`NOTE:${text(data.note)}`);
+  if (data.photo) lines.push(v4 ? `PHOTO:${plain(data.photo)}` : `PHOTO;VALUE=URI:${plain(data.photo)}`);
+
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n');
+}
+
+// MECARD:N:Last,First;TEL:...;; - the compact contact format many phone scanners prefer.
+// It has no field types, so profiles travel as extra URLs.
+export function buildMeCard(data: VCardData): string {
+  const fields = [`N:${escapeMeCardValue(data.lastName)},${escapeMeCardValue(data.firstName)}`];
+  const add = (key: string, value?: string) => value && fields.push(`${key}:${escapeMeCardValue(value)}`);
+
+  add('ORG', data.company);
+  filled(data.phones).forEach((phone) => add('TEL', phone.value));
+  filled(data.emails).forEach((email) => add('EMAIL', email.value));
+  filled(data.urls).forEach((url) => add('URL', url.value));
+  filled(data.socials).forEach((social) => add('URL', getSocialUrl(social.type, social.value)));
+  if (data.address && hasAddress(data.address)) {
+    // PO box, room, street, city, region, postcode, country
+    const { street, city, region, postcode, country } = data.address;
+    fields.push(`ADR:${['', '', street, city, region, postcode, country].map(escapeMeCardValue).join(',')}`);
+  }
+  add('BDAY', data.birthday?.replace(/-/g, ''));
+  add('NOTE', data.note);
+  return `MECARD:${fields.join(';')};;`;
+}
+
+// Display name - FN is mandatory in every vCard version
+export function getContactName(data: Pick<VCardData, 'firstName' | 'lastName' | 'company'>): string {
+  return [data.firstName, data.lastName].filter(Boolean).join(' ') || data.company || '';
+}
+
+// Profile handles become full URLs; anything that already is a URL is kept
+export function getSocialUrl(network: SocialNetwork, value: string): string {
+  const trimmed = value.trim();
+  const baseUrl = SOCIAL_NETWORKS.find((n) => n.value === network)?.baseUrl;
+  if (!baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return trimmed;
+  return baseUrl + trimmed.replace(/^@/, '');
+}
+
+// Flatten a contact into generator form data - lists travel as JSON
+export function contactToFormData(data: VCardData, format: VCardFormat = '3.0'): Record<string, string> {
+  const formData: Record<string, string> = {
+    format,
+    firstName: data.firstName,
+    lastName: data.lastName,
+    company: data.company ?? '',
+    title: data.title ?? '',
+    phones: JSON.stringify(filled(data.phones)),
+    emails: JSON.stringify(filled(data.emails)),
+    urls: JSON.stringify(filled(data.urls)),
+    socials: JSON.stringify(filled(data.socials)),
+    birthday: data.birthday ?? '',
+    note: data.note ?? '',
+    photo: data.photo ?? '',
+  };
+  if (data.address && hasAddress(data.address)) Object.assign(formData, data.address);
+  return formData;
+}
+
+// Inverse of contactToFormData - also reads the single phone/email/website/address
+// fields of older history entries and batch lines
+export function contactFromFormData(formData: Record<string, string>): { contact: VCardData; format: VCardFormat } {
+  const list = <T extends string>(key: string, legacyKey: string, legacyType: T): ContactEntry<T>[] => {
+    try {
+      if (formData[key]) return JSON.parse(formData[key]);
+    } catch {
+      // Fall through to the legacy field
+    }
+    return formData[legacyKey] ? [{ type: legacyType, value: formData[legacyKey] }] : [];
+  };
+
+  const address: VCardAddress = {
+    street: formData.street ?? formData.address ?? '',
+    city: formData.city ?? '',
+    region: formData.region ?? '',
+    postcode: formData.postcode ?? '',
+    country: formData.country ?? '',
+  };
+  const format = VCARD_FORMATS.some((f) => f.value === formData.format) ? (formData.format as VCardFormat) : '3.0';
+
+  return {
+    format,
+    contact: {
+      firstName: formData.firstName ?? '',
+      lastName: formData.lastName ?? '',
+      company: formData.company || undefined,
+      title: formData.title || undefined,
+      phones: list<ContactPhoneType>('phones', 'phone', 'cell'),
+      emails: list<ContactLabel>('emails', 'email', 'work'),
+      urls: list<ContactLabel>('urls', 'website', 'work'),
+      socials: list<SocialNetwork>('socials', '', 'other'),
+      address: hasAddress(address) ? address : undefined,
+      birthday: formData.birthday || undefined,
+      note: formData.note || undefined,
+      photo: formData.photo || undefined,
+    },
+  };
+}
+
+// BEGIN:VEVENT ... END:VEVENT - the bare event block calendar apps import from a scan
+export function buildEventPayload(data: EventData): string {
+  const { start, end } = getEventBounds(data);
+  const lines = ['BEGIN:VEVENT', `SUMMARY:${escapeVCardValue(data.title)}`];
+
+  if (data.allDay) {
+    if (isValid(start)) lines.push(`DTSTART;VALUE=DATE:${format(start, 'yyyyMMdd')}`);
+    if (isValid(end)) lines.push(`DTEND;VALUE=DATE:${format(end, 'yyyyMMdd')}`);
+  } else {
+    // Wall-clock digits are written as entered - UTC gets the Z suffix, other zones a TZID
+    const zone = data.timeZone === 'UTC' || data.timeZone === FLOATING_TIME_ZONE ? '' : `;TZID=${data.timeZone}`;
+    const suffix = data.timeZone === 'UTC' ? 'Z' : '';
+    if (isValid(start)) lines.push(`DTSTART${zone}:${format(start, "yyyyMMdd'T'HHmmss")}${suffix}`);
+    if (isValid(end)) lines.push(`DTEND${zone}:${format(end, "yyyyMMdd'T'HHmmss")}${suffix}`);
+  }
+
+  if (data.location) lines.push(`LOCATION:${escapeVCardValue(data.location)}`);
+  if (data.description) lines.push(`DESCRIPTION:${escapeVCardValue(data.description)}`);
+  if (data.url) lines.push(`URL:${data.url.trim()}`);
+
+  lines.push('END:VEVENT');
+  return lines.map(foldLine).join('\r\n');
+}
+
+// Start and end as wall-clock dates - all-day events end at midnight after their last day,
+// timed events without an end last an hour
+export function getEventBounds(data: Pick<EventData, 'start' | 'end' | 'allDay'>): { start: Date; end: Date } {
+  if (data.allDay) {
+    const start = parseISO(data.start.slice(0, 10));
+    const end = data.end ? parseISO(data.end.slice(0, 10)) : start;
+    return { start, end: addDays(end, 1) };
+  }
+  const start = parseISO(data.start);
+  return { start, end: data.end ? parseISO(data.end) : addHours(start, 1) };
+}
+
+// Zone of this browser, so new events default to the organiser's local time
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// A one-hour event starting at the next full hour
+export function createDefaultEvent(now: Date = new Date()): EventData {
+  const start = startOfHour(addHours(now, 1));
+  return {
+    title: '',
+    start: format(start, "yyyy-MM-dd'T'HH:mm"),
+    end: format(addHours(start, 1), "yyyy-MM-dd'T'HH:mm"),
+    allDay: false,
+    timeZone: getLocalTimeZone(),
+  };
+}
+
+// Flatten an event into generator form data
+export function eventToFormData(data: EventData): Record<string, string> {
+  return {
+    title: data.title,
+    start: data.start,
+    end: data.end,
+    allDay: String(data.allDay),
+    timeZone: data.timeZone,
+    location: data.location ?? '',
+    description: data.description ?? '',
+    url: data.url ?? '',
+  };
+}
+
+export function eventFromFormData(formData: Record<string, string>): EventData {
+  return {
+    title: formData.title ?? '',
+    start: formData.start ?? '',
+    end: formData.end ?? '',
+    allDay: formData.allDay === 'true',
+    timeZone: formData.timeZone || FLOATING_TIME_ZONE,
+    location: formData.location || undefined,
+    description: formData.description || undefined,
+    url: formData.url || undefined,
+  };
+}
+
+function filled<T extends { value: string }>(entries: T[] | undefined): T[] {
+  return (entries ?? []).filter((entry) => entry.value.trim());
+}
+
+function hasAddress(address: VCardAddress): boolean {
+  return Object.values(address).some((part) => part.trim());
+}
+
+// Fold after 75 octets, continuing with a leading space, never splitting a character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? VCARD_LINE_OCTETS : VCARD_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
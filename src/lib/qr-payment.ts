@@ -0,0 +1,458 @@
+import type {
+  CryptoPayment,
+  EpcPayment,
+  PaymentScheme,
+  SwissAddress,
+  SwissQrBill,
+  SwissReferenceType,
+  UpiPayment,
+} from './qr-types';
+
+// Payment payload builders and the validation each spec demands before a code is printed
+
+// EPC069-12 caps the whole payload at 331 bytes
+export const EPC_MAX_BYTES = 331;
+
+// IBAN lengths of the SEPA countries - EPC codes only work for these
+const SEPA_IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22,
+};
+
+// Swiss Payment Standards: whole SPC payload, and the printed code and cross in millimetres
+export const SWISS_MAX_CHARS = 997;
+export const SWISS_QR_SIZE_MM = 46;
+export const SWISS_CROSS_SIZE_MM = 7;
+
+// Latin characters the QR-bill allows (Basic Latin, Latin-1 Supplement, Latin Extended-A, a few more)
+const SWISS_CHARSET = /^[\u0020-\u007e\u00a0-\u017f\u0218-\u021b\u20ac]*$/;
+
+// Form fields a QR-bill is built from - the creditor address unprefixed, the debtor's prefixed
+const SWISS_ADDRESS_FIELDS = ['name', 'street', 'buildingNumber', 'postalCode', 'town', 'country'];
+const SWISS_FIELDS = [
+  'iban',
+  'amount',
+  'currency',
+  'referenceType',
+  'reference',
+  'message',
+  'billInformation',
+  ...['', 'debtor'].flatMap((prefix) => SWISS_ADDRESS_FIELDS.map((name) => swissField(prefix, name))),
+];
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+// Strip spaces and upper-case - IBANs are often printed in groups of four
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// DE89 3704 0044 0532 0130 00
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+// ISO 13616 mod-97 check, plus the national length for SEPA countries
+export function isValidIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value)) return false;
+  const length = SEPA_IBAN_LENGTHS[value.slice(0, 2)];
+  if (length && value.length !== length) return false;
+  return mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+export function isSepaIban(iban: string): boolean {
+  return normalizeIban(iban).slice(0, 2) in SEPA_IBAN_LENGTHS;
+}
+
+// 8 or 11 characters: bank, country, location and optional branch
+export function isValidBic(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.replace(/\s+/g, '').toUpperCase());
+}
+
+// ISO 11649 structured creditor reference (RF18 5390 0754 7034), mod-97 like an IBAN
+export function isValidCreditorReference(reference: string): boolean {
+  const value = reference.replace(/\s+/g, '').toUpperCase();
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(value)) return false;
+  return mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+// SPC header of a Swiss QR-bill payload
+export function isSwissQrBill(content: string): boolean {
+  return /^SPC\r?\n02\d\d\r?\n/.test(content.trim());
+}
+
+// QR-IBANs carry a QR-IID between 30000 and 31999 in place of the bank clearing number
+export function isQrIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  const iid = Number(value.slice(4, 9));
+  return /^(CH|LI)/.test(value) && iid >= 30000 && iid <= 31999;
+}
+
+// 27-digit QR reference whose last digit is the modulo 10 recursive check digit
+export function isValidQrReference(reference: string): boolean {
+  const value = reference.replace(/\s+/g, '');
+  return /^\d{27}$/.test(value) && mod10Recursive(value.slice(0, 26)) === Number(value[26]);
+}
+
+// Reference type a QR-bill needs when none was chosen: QR-IBANs only take QR references
+export function inferSwissReferenceType(iban: string, reference = ''): SwissReferenceType {
+  if (isQrIban(iban)) return 'QRR';
+  return reference.trim() ? 'SCOR' : 'NON';
+}
+
+// UPI virtual payment address, e.g. shop.name@okbank
+export function isValidVpa(vpa: string): boolean {
+  return /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{2,64}$/.test(vpa.trim());
+}
+
+// Base58 P2PKH / P2SH addresses are format checked; bech32 / bech32m (bc1...) are checksum verified
+export function isValidBitcoinAddress(address: string): boolean {
+  const value = address.trim();
+  if (/^(bc|tb)1/i.test(value)) return isValidSegwitAddress(value);
+  return /^[123mn][1-9A-HJ-NP-Za-km-z]{25,34}$/.test(value);
+}
+
+// 0x plus 40 hex digits - the EIP-55 mixed-case checksum needs keccak and is not verified
+export function isValidEthereumAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address.trim());
+}
+
+// Decimal amount to integer base units ("1.5", 18 -> "1500000000000000000")
+export function decimalToUnits(amount: string, decimals: number): string {
+  const [whole, fraction = ''] = amount.trim().split('.');
+  return (whole + fraction.padEnd(decimals, '0')).replace(/^0+(?=\d)/, '');
+}
+
+// Integer base units, optionally in exponent form ("1.5e18"), back to a decimal amount
+export function unitsToDecimal(value: string, decimals: number): string | null {
+  const match = value.trim().match(/^(\d+)(?:\.(\d+))?(?:e\+?(\d+))?$/i);
+  if (!match) return null;
+  const exponent = Number(match[3] ?? 0);
+  const fraction = match[2] ?? '';
+  if (fraction.replace(/0+$/, '').length > exponent) return null; // fractions of a base unit
+
+  const units = (match[1] + fraction.padEnd(exponent, '0').slice(0, exponent)).padStart(decimals + 1, '0');
+  const whole = units.slice(0, -decimals).replace(/^0+(?=\d)/, '');
+  const rest = units.slice(-decimals).replace(/0+$/, '');
+  return rest ? `${whole}.${rest}` : whole;
+}
+
+// upi://pay?pa=...&pn=...&am=...&cu=INR&tn=...
+// The VPA keeps its '@' - several UPI apps reject pa=name%40bank
+export function buildUpiPayload(data: UpiPayment): string {
+  const params: [string, string][] = [
+    ['pa', data.payee.trim()],
+    ['pn', data.name.trim()],
+  ];
+  if (data.amount?.trim()) params.push(['am', Number(data.amount).toFixed(2)]);
+  params.push(['cu', 'INR']);
+  if (data.note?.trim()) params.push(['tn', data.note.trim()]);
+  const encode = (key: string, value: string) =>
+    key === 'pa' ? encodeURIComponent(value).replace(/%40/g, '@') : encodeURIComponent(value);
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encode(key, value)}`).join('&')}`;
+}
+
+// EPC069-12 version 002, UTF-8, SEPA credit transfer - LF separated, trailing empty lines dropped
+export function buildEpcPayload(data: EpcPayment): string {
+  const line = (value?: string) => (value ?? '').replace(/[\r\n]+/g, ' ').trim();
+  const compact = (value?: string) => line(value).replace(/\s+/g, '').toUpperCase();
+
+  const lines = [
+    'BCD',
+    '002',
+    '1',
+    'SCT',
+    compact(data.bic),
+    line(data.name),
+    normalizeIban(data.iban),
+    data.amount?.trim() ? `EUR${Number(data.amount).toFixed(2)}` : '',
+    compact(data.purpose),
+    compact(data.reference),
+    line(data.text),
+    line(data.info),
+  ];
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+// Swiss QR-bill SPC 0200 - structured addresses, LF separated, no line break after the last element
+export function buildSwissPayload(data: SwissQrBill): string {
+  const line = (value?: string) => (value ?? '').replace(/[\r\n]+/g, ' ').trim();
+  const compact = (value?: string) => line(value).replace(/\s+/g, '').toUpperCase();
+  const address = (party?: SwissAddress | null) =>
+    party?.name.trim()
+      ? [
+          'S',
+          line(party.name),
+          line(party.street),
+          line(party.buildingNumber),
+          line(party.postalCode),
+          line(party.town),
+          compact(party.country),
+        ]
+      : ['', '', '', '', '', '', ''];
+
+  const lines = [
+    'SPC',
+    '0200',
+    '1',
+    normalizeIban(data.iban),
+    ...address(data.creditor),
+    ...address(null), // ultimate creditor - reserved by the standard and left empty
+    data.amount?.trim() ? Number(data.amount).toFixed(2) : '',
+    data.currency,
+    ...address(data.debtor),
+    data.referenceType,
+    data.referenceType === 'NON' ? '' : compact(data.reference),
+    line(data.message),
+    'EPD',
+    line(data.billInformation),
+  ];
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
+
+// bitcoin:<address>?amount=<BTC>&label=...&message=...
+export function buildBitcoinPayload(data: CryptoPayment): string {
+  const params: string[] = [];
+  if (data.amount?.trim()) params.push(`amount=${data.amount.trim()}`);
+  if (data.label?.trim()) params.push(`label=${encodeURIComponent(data.label.trim())}`);
+  if (data.message?.trim()) params.push(`message=${encodeURIComponent(data.message.trim())}`);
+  return `bitcoin:${data.address.trim()}${params.length ? `?${params.join('&')}` : ''}`;
+}
+
+// ethereum:<address>[@chainId]?value=<wei>
+export function buildEthereumPayload(data: CryptoPayment): string {
+  const chain = data.chainId?.trim() ? `@${data.chainId.trim()}` : '';
+  const value = data.amount?.trim() ? `?value=${decimalToUnits(data.amount, 18)}` : '';
+  return `ethereum:${data.address.trim()}${chain}${value}`;
+}
+
+// Payload for the payment form fields of the selected scheme
+export function buildPaymentPayload(data: Record<string, string>): string {
+  switch (data.scheme as PaymentScheme) {
+    case 'epc':
+      return buildEpcPayload(toEpcPayment(data));
+    case 'swiss':
+      return buildSwissPayload(toSwissQrBill(data));
+    case 'bitcoin':
+      return buildBitcoinPayload(toCryptoPayment(data));
+    case 'ethereum':
+      return buildEthereumPayload(toCryptoPayment(data));
+    default:
+      return buildUpiPayload({ payee: data.payee ?? '', name: data.name ?? '', amount: data.amount, note: data.note });
+  }
+}
+
+// Problems with the payment form, keyed by field ('payload' for the whole code)
+export function getPaymentErrors(data: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const value = (key: string) => (data[key] ?? '').trim();
+  const amount = (decimals: number, max: number, min = 0) => {
+    const text = value('amount');
+    if (!text) return;
+    if (!new RegExp(`^\\d+(\\.\\d{1,${decimals}})?$`).test(text)) {
+      errors.amount = `Use digits with up to ${decimals} decimals`;
+    } else if (Number(text) < min || Number(text) > max) {
+      errors.amount = `Amount must be between ${min} and ${max}`;
+    }
+  };
+
+  switch (data.scheme as PaymentScheme) {
+    case 'epc': {
+      if (!value('name')) errors.name = 'Beneficiary name is required';
+      else if (value('name').length > 70) errors.name = 'At most 70 characters';
+      if (!isValidIban(value('iban'))) errors.iban = 'IBAN checksum or length is invalid';
+      else if (!isSepaIban(value('iban'))) errors.iban = 'EPC codes only work for SEPA accounts';
+      if (value('bic') && !isValidBic(value('bic'))) errors.bic = 'BIC must be 8 or 11 characters';
+      amount(2, 999999999.99, 0.01);
+      if (value('purpose') && !/^[A-Za-z]{4}$/.test(value('purpose'))) errors.purpose = 'Four-letter ISO 20022 code';
+      if (value('reference') && value('text')) errors.reference = 'Use either a reference or a text, not both';
+      else if (value('reference').length > 35) errors.reference = 'At most 35 characters';
+      else if (/^RF/i.test(value('reference')) && !isValidCreditorReference(value('reference'))) {
+        errors.reference = 'RF creditor reference checksum is invalid';
+      }
+      if (value('text').length > 140) errors.text = 'At most 140 characters';
+      if (value('info').length > 70) errors.info = 'At most 70 characters';
+      if (new TextEncoder().encode(buildEpcPayload(toEpcPayment(data))).length > EPC_MAX_BYTES) {
+        errors.payload = `EPC codes hold at most ${EPC_MAX_BYTES} bytes`;
+      }
+      break;
+    }
+    case 'swiss': {
+      const bill = toSwissQrBill(data);
+      const party = (prefix: string) => {
+        const fields: [string, number, string?][] = [
+          ['name', 70, 'Name'],
+          ['street', 70],
+          ['buildingNumber', 16],
+          ['postalCode', 16, 'Postal code'],
+          ['town', 35, 'Town'],
+        ];
+        fields.forEach(([name, max, required]) => {
+          const key = swissField(prefix, name);
+          if (required && !value(key)) errors[key] = `${required} is required`;
+          else if (value(key).length > max) errors[key] = `At most ${max} characters`;
+        });
+        if (!/^[A-Za-z]{2}$/.test(value(swissField(prefix, 'country')))) {
+          errors[swissField(prefix, 'country')] = 'Two-letter country code';
+        }
+      };
+
+      if (!isValidIban(value('iban'))) errors.iban = 'IBAN checksum or length is invalid';
+      else if (!/^(CH|LI)/.test(normalizeIban(value('iban')))) errors.iban = 'QR-bills need a Swiss or Liechtenstein IBAN';
+      party('');
+      if (bill.debtor) party('debtor');
+      amount(2, 999999999.99, 0.01);
+      if (bill.currency !== 'CHF' && bill.currency !== 'EUR') errors.currency = 'Currency must be CHF or EUR';
+
+      if (bill.referenceType === 'QRR') {
+        if (!isQrIban(bill.iban)) errors.referenceType = 'QR references need a QR-IBAN';
+        else if (!isValidQrReference(value('reference'))) errors.reference = '27 digits ending in a valid check digit';
+      } else if (isQrIban(bill.iban)) {
+        errors.referenceType = 'A QR-IBAN always needs a QR reference';
+      } else if (bill.referenceType === 'SCOR' && !isValidCreditorReference(value('reference'))) {
+        errors.reference = 'RF creditor reference checksum is invalid';
+      }
+      if (value('message').length + value('billInformation').length > 140) {
+        errors.message = 'Message and billing information share 140 characters';
+      }
+
+      SWISS_FIELDS.filter((key) => !errors[key] && !SWISS_CHARSET.test(value(key))).forEach((key) => {
+        errors[key] = 'Only Latin characters are allowed';
+      });
+      if (buildSwissPayload(bill).length > SWISS_MAX_CHARS) {
+        errors.payload = `QR-bills hold at most ${SWISS_MAX_CHARS} characters`;
+      }
+      break;
+    }
+    case 'bitcoin':
+      if (!isValidBitcoinAddress(value('address'))) errors.address = 'Not a valid bitcoin address';
+      amount(8, 21000000);
+      break;
+    case 'ethereum':
+      if (!isValidEthereumAddress(value('address'))) errors.address = 'Use a 0x address with 40 hex digits';
+      amount(18, 1000000000);
+      if (value('chainId') && !/^[1-9]\d*$/.test(value('chainId'))) errors.chainId = 'Chain ID is a positive number';
+      break;
+    default:
+      if (!isValidVpa(value('payee'))) errors.payee = 'Use a UPI ID such as name@bank';
+      if (!value('name')) errors.name = 'Payee name is required';
+      amount(2, 99999999.99, 0.01);
+      break;
+  }
+  return errors;
+}
+
+function toEpcPayment(data: Record<string, string>): EpcPayment {
+  return {
+    name: data.name ?? '',
+    iban: data.iban ?? '',
+    bic: data.bic,
+    amount: data.amount,
+    purpose: data.purpose,
+    reference: data.reference,
+    text: data.text,
+    info: data.info,
+  };
+}
+
+// Debtor fields are prefixed (debtorName, debtorTown, ...) - the debtor is left out while all are empty
+export function toSwissQrBill(data: Record<string, string>): SwissQrBill {
+  const party = (prefix: string): SwissAddress => {
+    const get = (name: string) => (data[swissField(prefix, name)] ?? '').trim();
+    return {
+      name: get('name'),
+      street: get('street'),
+      buildingNumber: get('buildingNumber'),
+      postalCode: get('postalCode'),
+      town: get('town'),
+      country: get('country').toUpperCase(),
+    };
+  };
+  const debtor = party('debtor');
+  return {
+    iban: data.iban ?? '',
+    creditor: party(''),
+    amount: data.amount,
+    currency: (data.currency || 'CHF') as SwissQrBill['currency'],
+    debtor: Object.values(debtor).some(Boolean) ? debtor : null,
+    referenceType: (data.referenceType as SwissReferenceType) || inferSwissReferenceType(data.iban ?? '', data.reference),
+    reference: data.reference,
+    message: data.message,
+    billInformation: data.billInformation,
+  };
+}
+
+// creditor "town" or debtor "debtorTown"
+function swissField(prefix: string, name: string): string {
+  return prefix ? `${prefix}${name[0].toUpperCase()}${name.slice(1)}` : name;
+}
+
+function toCryptoPayment(data: Record<string, string>): CryptoPayment {
+  return {
+    address: data.address ?? '',
+    amount: data.amount,
+    label: data.label,
+    message: data.message,
+    chainId: data.chainId,
+  };
+}
+
+// Remainder of a long alphanumeric number, letters counting as 10-35
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
+
+// Recursive modulo 10 check digit of Swiss QR and ISR references
+function mod10Recursive(digits: string): number {
+  const table = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+  let carry = 0;
+  for (const digit of digits) carry = table[(carry + Number(digit)) % 10];
+  return (10 - carry) % 10;
+}
+
+// BIP173 / BIP350 segwit address: checksum, witness version and program length
+function isValidSegwitAddress(address: string): boolean {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) return false;
+  const value = address.toLowerCase();
+  const separator = value.lastIndexOf('1');
+  const hrp = value.slice(0, separator);
+  const data = [...value.slice(separator + 1)].map((char) => BECH32_CHARSET.indexOf(char));
+  if (value.length > 90 || data.length < 7 || data.some((digit) => digit < 0)) return false;
+
+  const checksum = bech32Polymod([
+    ...[...hrp].map((char) => char.charCodeAt(0) >> 5),
+    0,
+    ...[...hrp].map((char) => char.charCodeAt(0) & 31),
+    ...data,
+  ]);
+  const version = data[0];
+  if (version > 16 || checksum !== (version === 0 ? 1 : BECH32M_CONSTANT)) return false;
+
+  const programBytes = Math.floor(((data.length - 7) * 5) / 8);
+  if (programBytes < 2 || programBytes > 40) return false;
+  return version !== 0 || programBytes === 20 || programBytes === 32;
+}
+
+function bech32Polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= generator[i];
+    }
+  }
+  return checksum >>> 0;
+}
@@ -0,0 +1,667 @@
+import type {
+  QRRenderOptions,
+  SwissAddress,
+  QRGradient,
+  PaperSize,
+  PaperOrientation,
+  PrintLayout,
+} from './qr-types';
+import { PAPER_SIZES, DEFAULT_EYE_STYLE } from './qr-types';
+import { createQRMatrix, QUIET_ZONE_MODULES } from './qr-matrix';
+import { SWISS_QR_SIZE_MM, formatIban, toSwissQrBill } from './qr-payment';
+import { parseQRContent } from './qr-parse';
+import { QRPath } from './qr-path';
+import {
+  buildModulesPath,
+  buildEyePaths,
+  calculateLogoBox,
+  buildLogoPlatePath,
+  buildLogoClipPath,
+  type LogoBox,
+} from './qr-geometry';
+import { getLogoExcavationMask } from './qr-excavation';
+import { applySwissCross, loadImage } from './qr-utils';
+import {
+  normalizeStops,
+  getLinearGradientPoints,
+  getRadialGradientRadius,
+  buildConicWedges,
+  parseHexColor,
+} from './qr-gradient';
+
+// Points per millimetre
+const MM = 72 / 25.4;
+
+// Helvetica advance widths (1/1000 em) for printable ASCII 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Embedded JPEG image
+export interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Single PDF page - coordinates in millimetres from the top-left corner
+export class PdfPage {
+  readonly ops: string[] = [];
+  readonly images = new Set<PdfImage>();
+  readonly shadings = new Map<string, string>(); // resource name -> shading dictionary
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  // Draw in a local space: origin at (x, y) mm, y axis down, 1 unit = scale mm
+  group(x: number, y: number, scale: number, draw: () => void): void {
+    const s = scale * MM;
+    this.ops.push('q', `${num(s)} 0 0 ${num(-s)} ${num(x * MM)} ${num((this.height - y) * MM)} cm`);
+    draw();
+    this.ops.push('Q');
+  }
+
+  // Shift the current local space
+  offset(dx: number, dy: number, draw: () => void): void {
+    this.ops.push('q', `1 0 0 1 ${num(dx)} ${num(dy)} cm`);
+    draw();
+    this.ops.push('Q');
+  }
+
+  fillPath(path: QRPath, color: string, evenOdd = false): void {
+    if (path.isEmpty) return;
+    this.ops.push(`${pdfColor(color)} rg`, pathOps(path), evenOdd ? 'f*' : 'f');
+  }
+
+  // Fill path with a gradient spanning the square box (0, 0, size) of the local space
+  fillGradient(path: QRPath, gradient: QRGradient, size: number, evenOdd = false): void {
+    if (path.isEmpty) return;
+    this.ops.push('q', pathOps(path), evenOdd ? 'W* n' : 'W n');
+
+    if (gradient.type === 'conic') {
+      // No native conic shading - paint clipped wedges instead
+      buildConicWedges(gradient, 0, 0, size).forEach((wedge) => this.fillPath(wedge.path, wedge.color));
+    } else {
+      const name = `Sh${this.shadings.size + 1}`;
+      this.shadings.set(name, shadingDictionary(gradient, size));
+      this.ops.push(`/${name} sh`);
+    }
+
+    this.ops.push('Q');
+  }
+
+  strokePath(path: QRPath, color: string, lineWidth: number, dash: number[] = []): void {
+    if (path.isEmpty) return;
+    this.ops.push(
+      `${pdfColor(color)} RG`,
+      `${num(lineWidth)} w`,
+      `[${dash.map(num).join(' ')}] 0 d`,
+      pathOps(path),
+      'S'
+    );
+  }
+
+  // Clip following drawing to path (until the enclosing group ends)
+  clip(path: QRPath): void {
+    this.ops.push(pathOps(path), 'W n');
+  }
+
+  drawImage(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    this.images.add(image);
+    this.ops.push('q', `${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm`, `/${image.name} Do`, 'Q');
+  }
+
+  // Text at page level - y is the baseline in mm from the top edge
+  text(
+    value: string,
+    x: number,
+    y: number,
+    sizePt: number,
+    options: { color?: string; align?: 'left' | 'center' | 'right'; bold?: boolean } = {}
+  ): void {
+    const { color = '#000000', align = 'left', bold = false } = options;
+    const widthMm = measureText(value, sizePt) / MM;
+    const left = align === 'center' ? x - widthMm / 2 : align === 'right' ? x - widthMm : x;
+
+    this.ops.push(
+      'BT',
+      `/${bold ? 'F2' : 'F1'} ${num(sizePt)} Tf`,
+      `${pdfColor(color)} rg`,
+      `${num(left * MM)} ${num((this.height - y) * MM)} Td`,
+      `(${encodeText(value)}) Tj`,
+      'ET'
+    );
+  }
+}
+
+// Minimal PDF 1.4 writer - vector paths, Helvetica text and JPEG images
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private imageCount = 0;
+
+  addPage(widthMm: number, heightMm: number): PdfPage {
+    const page = new PdfPage(widthMm, heightMm);
+    this.pages.push(page);
+    return page;
+  }
+
+  createImage(data: Uint8Array, width: number, height: number): PdfImage {
+    this.imageCount++;
+    return { name: `Im${this.imageCount}`, width, height, data };
+  }
+
+  toBlob(): Blob {
+    const chunks: (string | Uint8Array)[] = [];
+    const offsets: number[] = [];
+    let position = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      chunks.push(chunk);
+      position += chunk.length; // strings are pure ASCII
+    };
+    const object = (id: number, body: string | (string | Uint8Array)[]) => {
+      offsets[id] = position;
+      write(`${id} 0 obj\n`);
+      (Array.isArray(body) ? body : [body]).forEach(write);
+      write('\nendobj\n');
+    };
+
+    const images = Array.from(new Set(this.pages.flatMap((p) => Array.from(p.images))));
+    const imageIds = new Map(images.map((image, i) => [image, 5 + i]));
+    const firstPageId = 5 + images.length;
+    const pageIds = this.pages.map((_, i) => firstPageId + i * 2);
+
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    images.forEach((image) => {
+      object(imageIds.get(image)!, [
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+        image.data,
+        '\nendstream',
+      ]);
+    });
+
+    this.pages.forEach((page, i) => {
+      const xObjects = Array.from(page.images)
+        .map((image) => `/${image.name} ${imageIds.get(image)} 0 R`)
+        .join(' ');
+      const shadings = Array.from(page.shadings)
+        .map(([name, dictionary]) => `/${name} ${dictionary}`)
+        .join(' ');
+      const content = page.ops.join('\n');
+
+      object(
+        pageIds[i],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width * MM)} ${num(page.height * MM)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''}` +
+          `${shadings ? ` /Shading << ${shadings} >>` : ''} >> ` +
+          `/Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      object(pageIds[i] + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const xrefPosition = position;
+    const count = firstPageId + this.pages.length * 2;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefPosition}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+}
+
+// Print sheet settings - mirrors the print dialog
+export interface PdfSheetOptions {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  layout: PrintLayout;
+  qrSize: number; // mm
+  copies: number;
+  gridCols: number;
+  margin: number; // mm
+  label: string | null; // null = no label
+}
+
+export function getPaperDimensions(
+  paperSize: PaperSize,
+  orientation: PaperOrientation
+): { width: number; height: number } {
+  const base = PAPER_SIZES[paperSize];
+  return orientation === 'landscape'
+    ? { width: base.height, height: base.width }
+    : { width: base.width, height: base.height };
+}
+
+// Grid that fits on one sheet
+export function computeSheetLayout(
+  sheet: Pick<PdfSheetOptions, 'paperSize' | 'orientation' | 'layout' | 'qrSize' | 'gridCols' | 'margin'> & {
+    showLabel: boolean;
+  }
+): { cols: number; rows: number; maxItems: number } {
+  const paper = getPaperDimensions(sheet.paperSize, sheet.orientation);
+  const usableWidth = paper.width - sheet.margin * 2;
+  const usableHeight = paper.height - sheet.margin * 2;
+
+  const cols = Math.max(1, sheet.layout === 'fill'
+    ? Math.floor(usableWidth / (sheet.qrSize + 5))
+    : sheet.layout === 'single' ? 1 : sheet.gridCols);
+  const rows = Math.max(1, Math.floor(usableHeight / (sheet.qrSize + (sheet.showLabel ? 15 : 5))));
+
+  return { cols, rows, maxItems: cols * rows };
+}
+
+// Single QR code on a page of exactly its size
+export async function createQRPdf(
+  content: string,
+  options: QRRenderOptions,
+  sizeMm: number
+): Promise<Blob> {
+  const doc = new PdfDocument();
+  const artwork = await prepareArtwork(doc, content, options);
+  const page = doc.addPage(sizeMm, sizeMm);
+  drawArtwork(page, artwork, 0, 0, sizeMm);
+  return doc.toBlob();
+}
+
+// Sheet of QR codes - same layout rules as the print dialog, paginated as needed
+export async function createQRSheetPdf(
+  content: string,
+  options: QRRenderOptions,
+  sheet: PdfSheetOptions
+): Promise<Blob> {
+  const doc = new PdfDocument();
+  const artwork = await prepareArtwork(doc, content, options);
+  const paper = getPaperDimensions(sheet.paperSize, sheet.orientation);
+  const { cols, rows, maxItems } = computeSheetLayout({ ...sheet, showLabel: sheet.label !== null });
+
+  const count = sheet.layout === 'fill' ? maxItems : Math.max(1, sheet.copies);
+  const cellWidth = (paper.width - sheet.margin * 2) / cols;
+  const rowHeight = sheet.qrSize + (sheet.label !== null ? 15 : 5);
+  const drawSize = Math.min(sheet.qrSize, cellWidth);
+  const labelSize = Math.max(8, sheet.qrSize / 10) * 0.75;
+
+  let page: PdfPage | null = null;
+  for (let i = 0; i < count; i++) {
+    const slot = i % maxItems;
+    if (slot === 0) page = doc.addPage(paper.width, paper.height);
+
+    const col = slot % cols;
+    const row = Math.floor(slot / cols);
+    const x = sheet.margin + col * cellWidth + (cellWidth - drawSize) / 2;
+    const y = sheet.margin + row * rowHeight;
+
+    drawArtwork(page!, artwork, x, y, drawSize);
+
+    if (sheet.label) {
+      page!.text(fitText(sheet.label, labelSize, drawSize), x + drawSize / 2, y + drawSize + 4, labelSize, {
+        color: '#333333',
+        align: 'center',
+      });
+    }
+  }
+
+  return doc.toBlob();
+}
+
+// Payment part of a Swiss QR-bill on its own A6 landscape page (148 x 105 mm) - the code is
+// always black on white at 46 mm, headings 8 pt bold, values 10 pt, per the style guide
+export async function createSwissBillPdf(content: string): Promise<Blob> {
+  const parsed = parseQRContent(content);
+  if (parsed.mode !== 'payment' || parsed.formData.scheme !== 'swiss') {
+    throw new Error('Not a Swiss QR-bill payload');
+  }
+  const bill = toSwissQrBill(parsed.formData);
+
+  const doc = new PdfDocument();
+  const page = doc.addPage(148, 105);
+  const options: QRRenderOptions = {
+    size: 1024,
+    design: 'square',
+    fgColor: '#000000',
+    bgColor: '#ffffff',
+    errorCorrectionLevel: 'M',
+  };
+  const artwork = await prepareArtwork(doc, content, options);
+  const modules = createQRMatrix(content, 'M').size;
+  const quietZone = (SWISS_QR_SIZE_MM / modules) * QUIET_ZONE_MODULES;
+  drawArtwork(page, artwork, 5 - quietZone, 17 - quietZone, SWISS_QR_SIZE_MM + quietZone * 2);
+
+  page.text('Payment part', 5, 9, 11, { bold: true });
+
+  // Amount section below the code - a blank field with corner marks when the payer fills it in
+  page.text('Currency', 5, 72, 8, { bold: true });
+  page.text(bill.currency, 5, 76.5, 10);
+  page.text('Amount', 18, 72, 8, { bold: true });
+  if (bill.amount?.trim()) {
+    page.text(formatSwissAmount(bill.amount), 18, 76.5, 10);
+  } else {
+    drawCornerMarks(page, 18, 74, 38, 15);
+  }
+
+  // Information section to the right
+  const left = 56;
+  const width = 148 - 5 - left;
+  let y = 8;
+  const heading = (value: string) => {
+    page.text(value, left, y, 8, { bold: true });
+    y += 3.5;
+  };
+  const lines = (values: string[]) => {
+    values.forEach((value) => {
+      wrapText(value, 10, width).forEach((line) => {
+        page.text(line, left, y, 10);
+        y += 3.9;
+      });
+    });
+    y += 2.5;
+  };
+
+  heading('Account / Payable to');
+  lines([formatIban(bill.iban), ...formatSwissAddress(bill.creditor)]);
+
+  if (bill.referenceType !== 'NON' && bill.reference?.trim()) {
+    heading('Reference');
+    lines([formatSwissReference(bill.reference, bill.referenceType === 'QRR')]);
+  }
+
+  const information = [bill.message, bill.billInformation].filter((value) => value?.trim()) as string[];
+  if (information.length) {
+    heading('Additional information');
+    lines(information);
+  }
+
+  if (bill.debtor) {
+    heading('Payable by');
+    lines(formatSwissAddress(bill.debtor));
+  } else {
+    heading('Payable by (name/address)');
+    drawCornerMarks(page, left, y - 1.5, 65, 25);
+  }
+
+  return doc.toBlob();
+}
+
+// Everything needed to paint one QR code - built once, drawn many times
+interface PdfArtwork {
+  size: number;
+  total: number;
+  options: QRRenderOptions;
+  modules: QRPath;
+  eyeFrames: QRPath;
+  eyeBalls: QRPath;
+  logo: { plate: QRPath | null; clip: QRPath | null; box: LogoBox; image: PdfImage } | null;
+}
+
+async function prepareArtwork(
+  doc: PdfDocument,
+  content: string,
+  renderOptions: QRRenderOptions
+): Promise<PdfArtwork> {
+  const options = applySwissCross(content, renderOptions);
+  const {
+    size,
+    logo,
+    logoShape = 'square',
+    logoLayout = 'center',
+    logoSize = 15,
+    logoExcavate = true,
+    logoPlate = true,
+  } = options;
+  const matrix = createQRMatrix(content, options.errorCorrectionLevel ?? 'H');
+  const eyes = options.eyes ?? DEFAULT_EYE_STYLE;
+  const moduleSize = size / (matrix.size + QUIET_ZONE_MODULES * 2);
+  const modules = buildModulesPath(matrix, {
+    design: options.design,
+    moduleSize,
+    margin: QUIET_ZONE_MODULES,
+    skipFinders: true,
+    excavated: logo && logoExcavate ? getLogoExcavationMask(matrix, size, logoLayout, logoSize, logoShape) : undefined,
+  });
+  const { frames, balls } = buildEyePaths(matrix.size, {
+    moduleSize,
+    margin: QUIET_ZONE_MODULES,
+    frameShape: eyes.frameShape,
+    ballShape: eyes.ballShape,
+  });
+
+  let logoArt: PdfArtwork['logo'] = null;
+  if (logo) {
+    const image = await rasterizeLogo(doc, logo.data, options.bgColor);
+    if (image) {
+      const box = calculateLogoBox(size, logoLayout, logoSize);
+      logoArt = {
+        plate: logoExcavate || !logoPlate ? null : buildLogoPlatePath(box, logoShape),
+        clip: buildLogoClipPath(box, logoShape),
+        box,
+        image,
+      };
+    }
+  }
+
+  return {
+    size,
+    total: size + (options.borderWidth ?? 0) * 2,
+    options,
+    modules,
+    eyeFrames: frames,
+    eyeBalls: balls,
+    logo: logoArt,
+  };
+}
+
+function drawArtwork(page: PdfPage, art: PdfArtwork, x: number, y: number, widthMm: number): void {
+  const { options } = art;
+  const border = options.borderWidth ?? 0;
+
+  page.group(x, y, widthMm / art.total, () => {
+    if (border > 0) {
+      page.fillPath(new QRPath().rect(0, 0, art.total, art.total), options.borderColor ?? '#ffffff');
+    }
+
+    page.offset(border, border, () => {
+      const eyes = options.eyes ?? DEFAULT_EYE_STYLE;
+      const paint = (path: QRPath, color: string, gradient?: QRGradient | null, evenOdd = false) =>
+        gradient ? page.fillGradient(path, gradient, art.size, evenOdd) : page.fillPath(path, color, evenOdd);
+
+      paint(new QRPath().rect(0, 0, art.size, art.size), options.bgColor, options.bgGradient);
+      paint(art.modules, options.fgColor, options.fgGradient);
+      paint(art.eyeFrames, eyes.frameColor || options.fgColor, eyes.frameColor ? null : options.fgGradient, true);
+      paint(art.eyeBalls, eyes.ballColor || options.fgColor, eyes.ballColor ? null : options.fgGradient);
+
+      if (art.logo) {
+        const { plate, clip, box, image } = art.logo;
+        if (plate) paint(plate, options.bgColor, options.bgGradient);
+        page.offset(0, 0, () => {
+          if (clip) page.clip(clip);
+          page.drawImage(image, box.x, box.y, box.size, box.size);
+        });
+      }
+    });
+  });
+}
+
+// Name, street with number and postal code with town - the country only abroad
+function formatSwissAddress(party: SwissAddress): string[] {
+  const street = [party.street, party.buildingNumber].filter((value) => value?.trim()).join(' ');
+  const country = party.country && party.country !== 'CH' && party.country !== 'LI' ? `${party.country}-` : '';
+  return [party.name, street, `${country}${party.postalCode} ${party.town}`].filter((line) => line.trim());
+}
+
+// 1 949.75 - space as thousands separator
+function formatSwissAmount(amount: string): string {
+  const [whole, fraction] = Number(amount).toFixed(2).split('.');
+  return `${whole.replace(/\B(?=(\d{3})+$)/g, ' ')}.${fraction}`;
+}
+
+// QR references in blocks of five from the right (21 00000 00003 ...), RF references in blocks of four
+function formatSwissReference(reference: string, qrReference: boolean): string {
+  const value = reference.replace(/\s+/g, '');
+  return qrReference ? value.replace(/\B(?=(\d{5})+$)/g, ' ') : value.replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+// Blank field for handwriting - 3 mm corner marks, 0.75 pt lines
+function drawCornerMarks(page: PdfPage, x: number, y: number, width: number, height: number): void {
+  const mark = 3;
+  const path = new QRPath()
+    .moveTo(x, y + mark).lineTo(x, y).lineTo(x + mark, y)
+    .moveTo(x + width - mark, y).lineTo(x + width, y).lineTo(x + width, y + mark)
+    .moveTo(x + width, y + height - mark).lineTo(x + width, y + height).lineTo(x + width - mark, y + height)
+    .moveTo(x + mark, y + height).lineTo(x, y + height).lineTo(x, y + height - mark);
+  page.group(0, 0, 1, () => page.strokePath(path, '#000000', 0.75 / MM));
+}
+
+// Flatten logo onto the background color and embed it as JPEG
+async function rasterizeLogo(
+  doc: PdfDocument,
+  src: string,
+  bgColor: string
+): Promise<PdfImage | null> {
+  const img = await loadImage(src);
+  if (!img) return null;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 512;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.fillStyle = bgColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+    const data = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    return doc.createImage(data, canvas.width, canvas.height);
+  } catch {
+    // Tainted canvas (logo without CORS headers) - skip the logo
+    return null;
+  }
+}
+
+function pathOps(path: QRPath): string {
+  return path.commands
+    .map((cmd) => {
+      switch (cmd.op) {
+        case 'M':
+          return `${num(cmd.x)} ${num(cmd.y)} m`;
+        case 'L':
+          return `${num(cmd.x)} ${num(cmd.y)} l`;
+        case 'C':
+          return `${num(cmd.x1)} ${num(cmd.y1)} ${num(cmd.x2)} ${num(cmd.y2)} ${num(cmd.x)} ${num(cmd.y)} c`;
+        case 'Z':
+          return 'h';
+      }
+    })
+    .join('\n');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+// Hex color to PDF RGB operands - unparseable colors fall back to black
+function pdfColor(color: string): string {
+  return parseHexColor(color)
+    .map((channel) => num(channel / 255))
+    .join(' ');
+}
+
+// Axial or radial shading with a stitched interpolation function over the stops
+function shadingDictionary(gradient: QRGradient, size: number): string {
+  const stops = normalizeStops(gradient.stops);
+  const segments = stops.slice(1).map(
+    (stop, i) =>
+      `<< /FunctionType 2 /Domain [0 1] /C0 [${pdfColor(stops[i].color)}] /C1 [${pdfColor(stop.color)}] /N 1 >>`
+  );
+  const fn = segments.length === 1
+    ? segments[0]
+    : `<< /FunctionType 3 /Domain [0 1] /Functions [${segments.join(' ')}] ` +
+      `/Bounds [${stops.slice(1, -1).map((stop) => num(stop.offset)).join(' ')}] ` +
+      `/Encode [${segments.map(() => '0 1').join(' ')}] >>`;
+
+  if (gradient.type === 'radial') {
+    const c = num(size / 2);
+    return `<< /ShadingType 3 /ColorSpace /DeviceRGB /Coords [${c} ${c} 0 ${c} ${c} ${num(getRadialGradientRadius(size))}] /Function ${fn} /Extend [true true] >>`;
+  }
+
+  const { x1, y1, x2, y2 } = getLinearGradientPoints(gradient.angle, 0, 0, size);
+  return `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [${[x1, y1, x2, y2].map(num).join(' ')}] /Function ${fn} /Extend [true true] >>`;
+}
+
+// Text width in points for the standard Helvetica font
+export function measureText(value: string, sizePt: number): number {
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * sizePt) / 1000;
+}
+
+// Truncate text with an ellipsis so it fits the given width in mm
+export function fitText(value: string, sizePt: number, widthMm: number): string {
+  const maxWidth = widthMm * MM;
+  if (measureText(value, sizePt) <= maxWidth) return value;
+
+  let result = value;
+  while (result.length > 1 && measureText(`${result}...`, sizePt) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}...`;
+}
+
+// Break text into lines no wider than widthMm, splitting overlong words
+export function wrapText(value: string, sizePt: number, widthMm: number): string[] {
+  const maxWidth = widthMm * MM;
+  const lines: string[] = [];
+  let current = '';
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, sizePt) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    while (measureText(current, sizePt) > maxWidth && current.length > 1) {
+      let split = current.length - 1;
+      while (split > 1 && measureText(current.slice(0, split), sizePt) > maxWidth) split--;
+      lines.push(current.slice(0, split));
+      current = current.slice(split);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// Encode a string for a PDF literal (WinAnsi)
+function encodeText(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      result += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      result += char;
+    } else if (code >= 160 && code <= 255) {
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += '?';
+    }
+  }
+  return result;
+}
@@ -0,0 +1,281 @@
+import { verifyQRCanvas } from './qr-decode';
+
+// Working size for all degradations - large enough for dense codes, small enough to stay fast
+const WORK_SIZE = 480;
+
+type Point = [number, number];
+
+// Single simulated degradation
+export interface RobustnessTest {
+  id: string;
+  label: string;
+  apply: (canvas: HTMLCanvasElement) => Promise<HTMLCanvasElement> | HTMLCanvasElement;
+}
+
+export interface RobustnessResult {
+  id: string;
+  label: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface RobustnessReport {
+  results: RobustnessResult[];
+  passed: number;
+  total: number;
+  score: number; // 0-100
+}
+
+export const ROBUSTNESS_TESTS: RobustnessTest[] = [
+  { id: 'small', label: 'Small print (160 px)', apply: (c) => resize(c, 160) },
+  { id: 'tiny', label: 'Tiny print (96 px)', apply: (c) => resize(c, 96) },
+  { id: 'blur', label: 'Gaussian blur', apply: (c) => gaussianBlur(c, c.width * 0.008) },
+  { id: 'rotate', label: 'Rotation (12°)', apply: (c) => rotate(c, 12) },
+  { id: 'rotate-45', label: 'Rotation (45°)', apply: (c) => rotate(c, 45) },
+  { id: 'perspective', label: 'Perspective skew', apply: (c) => keystone(c, 0.2) },
+  { id: 'jpeg', label: 'JPEG compression (15%)', apply: (c) => jpegRoundTrip(c, 0.15) },
+  { id: 'contrast', label: 'Low contrast (30%)', apply: (c) => reduceContrast(c, 0.3) },
+  { id: 'occlusion', label: 'Partial occlusion (10%)', apply: (c) => occlude(c, 0.1) },
+];
+
+// Re-decode the rendered QR after every simulated degradation
+export async function runRobustnessTest(
+  canvas: HTMLCanvasElement,
+  expected: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<RobustnessReport> {
+  const source = resize(canvas, WORK_SIZE);
+  const results: RobustnessResult[] = [];
+
+  for (const test of ROBUSTNESS_TESTS) {
+    let result: RobustnessResult;
+    try {
+      const verification = await verifyQRCanvas(await test.apply(source), expected);
+      result = { id: test.id, label: test.label, passed: verification.ok, message: verification.message };
+    } catch (error) {
+      result = {
+        id: test.id,
+        label: test.label,
+        passed: false,
+        message: error instanceof Error ? error.message : 'Degradation failed',
+      };
+    }
+    results.push(result);
+    onProgress?.(results.length, ROBUSTNESS_TESTS.length);
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    results,
+    passed,
+    total: results.length,
+    score: Math.round((passed / results.length) * 100),
+  };
+}
+
+// Solve the 3x3 homography (h33 = 1) that maps each src point onto its dst point
+export function computeHomography(src: Point[], dst: Point[]): number[] {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = src[i];
+    const [u, v] = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinearSystem(a, b), 1];
+}
+
+export function applyHomography(h: number[], x: number, y: number): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+}
+
+// Gaussian elimination with partial pivoting
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error('Degenerate quad');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  return [canvas, ctx];
+}
+
+function resize(canvas: HTMLCanvasElement, size: number): HTMLCanvasElement {
+  const [out, ctx] = createCanvas(size, size);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, size, size);
+  return out;
+}
+
+// Rotate around the center on white paper, growing the canvas so nothing is cropped
+function rotate(canvas: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const angle = (degrees * Math.PI) / 180;
+  const size = Math.ceil(canvas.width * (Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle))));
+  const [out, ctx] = createCanvas(size, size);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate(angle);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return out;
+}
+
+// Keystone distortion - top edge shrinks, as when photographing a poster from below
+function keystone(canvas: HTMLCanvasElement, amount: number): HTMLCanvasElement {
+  const { width, height } = canvas;
+  const inset = width * amount * 0.5;
+  const quad: Point[] = [[inset, 0], [width - inset, 0], [width, height], [0, height]];
+  const corners: Point[] = [[0, 0], [width, 0], [width, height], [0, height]];
+  const toSource = computeHomography(quad, corners);
+
+  const src = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+  const [out, ctx] = createCanvas(width, height);
+  const dst = ctx.createImageData(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sx, sy] = applyHomography(toSource, x + 0.5, y + 0.5);
+      const i = (y * width + x) * 4;
+      sampleBilinear(src, sx - 0.5, sy - 0.5, dst.data, i);
+    }
+  }
+
+  ctx.putImageData(dst, 0, 0);
+  return out;
+}
+
+// Bilinear sample into target - outside the source reads as white paper
+function sampleBilinear(src: ImageData, x: number, y: number, target: Uint8ClampedArray, offset: number): void {
+  const { width, height, data } = src;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const pixel = (px: number, py: number, channel: number) =>
+    px < 0 || py < 0 || px >= width || py >= height ? 255 : data[(py * width + px) * 4 + channel];
+
+  for (let c = 0; c < 3; c++) {
+    const top = pixel(x0, y0, c) * (1 - fx) + pixel(x0 + 1, y0, c) * fx;
+    const bottom = pixel(x0, y0 + 1, c) * (1 - fx) + pixel(x0 + 1, y0 + 1, c) * fx;
+    target[offset + c] = top * (1 - fy) + bottom * fy;
+  }
+  target[offset + 3] = 255;
+}
+
+// Gaussian blur approximated by three box blur passes
+function gaussianBlur(canvas: HTMLCanvasElement, sigma: number): HTMLCanvasElement {
+  const { width, height } = canvas;
+  const [out, ctx] = createCanvas(width, height);
+  ctx.drawImage(canvas, 0, 0);
+  const image = ctx.getImageData(0, 0, width, height);
+  const radius = Math.max(1, Math.round((Math.sqrt(4 * sigma * sigma + 1) - 1) / 2)); // 3 passes ~ sigma
+
+  const buffer = new Float32Array(width * height);
+  const temp = new Float32Array(width * height);
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < buffer.length; i++) buffer[i] = image.data[i * 4 + c];
+    for (let pass = 0; pass < 3; pass++) {
+      boxBlur(buffer, temp, width, height, radius, true);
+      boxBlur(temp, buffer, width, height, radius, false);
+    }
+    for (let i = 0; i < buffer.length; i++) image.data[i * 4 + c] = buffer[i];
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return out;
+}
+
+// One-dimensional box blur with edge clamping
+function boxBlur(
+  src: Float32Array,
+  dst: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean
+): void {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const index = (line: number, pos: number) => (horizontal ? line * width + pos : pos * width + line);
+  const clamp = (pos: number) => Math.min(length - 1, Math.max(0, pos));
+  const span = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) sum += src[index(line, clamp(k))];
+    for (let pos = 0; pos < length; pos++) {
+      dst[index(line, pos)] = sum / span;
+      sum += src[index(line, clamp(pos + radius + 1))] - src[index(line, clamp(pos - radius))];
+    }
+  }
+}
+
+async function jpegRoundTrip(canvas: HTMLCanvasElement, quality: number): Promise<HTMLCanvasElement> {
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('JPEG encode failed'));
+    img.src = canvas.toDataURL('image/jpeg', quality);
+  });
+
+  const [out, ctx] = createCanvas(canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0);
+  return out;
+}
+
+// Pull every channel towards mid-grey (faded ink, glossy paper)
+function reduceContrast(canvas: HTMLCanvasElement, contrast: number): HTMLCanvasElement {
+  const [out, ctx] = createCanvas(canvas.width, canvas.height);
+  ctx.drawImage(canvas, 0, 0);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) image.data[i + c] = 128 + (image.data[i + c] - 128) * contrast;
+  }
+  ctx.putImageData(image, 0, 0);
+  return out;
+}
+
+// Cover part of the data region (away from the finder patterns) with a grey sticker
+function occlude(canvas: HTMLCanvasElement, area: number): HTMLCanvasElement {
+  const { width, height } = canvas;
+  const [out, ctx] = createCanvas(width, height);
+  ctx.drawImage(canvas, 0, 0);
+
+  const rectWidth = width * 0.4;
+  const rectHeight = (width * height * area) / rectWidth;
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(width * 0.45, height * 0.55, rectWidth, rectHeight);
+  return out;
+}
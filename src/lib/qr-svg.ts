@@ -0,0 +1,284 @@
+import type { LogoItem, QRRenderOptions, QRGradient } from './qr-types';
+import { DEFAULT_EYE_STYLE } from './qr-types';
+import { createQRMatrix, QUIET_ZONE_MODULES } from './qr-matrix';
+import { QRPath, toSvgPathData } from './qr-path';
+import { applySwissCross, downloadBlob } from './qr-utils';
+import {
+  buildModulesPath,
+  buildEyePaths,
+  calculateLogoBox,
+  buildLogoPlatePath,
+  buildLogoClipPath,
+  type LogoBox,
+} from './qr-geometry';
+import { getLogoExcavationMask } from './qr-excavation';
+import {
+  normalizeStops,
+  getLinearGradientPoints,
+  getRadialGradientRadius,
+  buildConicWedges,
+} from './qr-gradient';
+
+// Render complete QR code as a standalone vector SVG document
+export async function renderQRSvg(
+  content: string,
+  options: QRRenderOptions
+): Promise<string> {
+  const {
+    size,
+    design,
+    fgColor,
+    bgColor,
+    fgGradient,
+    bgGradient,
+    eyes = DEFAULT_EYE_STYLE,
+    errorCorrectionLevel = 'H',
+    logo,
+    logoShape = 'square',
+    logoLayout = 'center',
+    logoSize = 15,
+    logoExcavate = true,
+    logoPlate = true,
+    borderWidth = 0,
+    borderColor = '#ffffff',
+  } = applySwissCross(content, options);
+
+  const matrix = createQRMatrix(content, errorCorrectionLevel);
+  const moduleSize = size / (matrix.size + QUIET_ZONE_MODULES * 2);
+  const modulesPath = buildModulesPath(matrix, {
+    design,
+    moduleSize,
+    margin: QUIET_ZONE_MODULES,
+    skipFinders: true,
+    excavated: logo && logoExcavate ? getLogoExcavationMask(matrix, size, logoLayout, logoSize, logoShape) : undefined,
+  });
+  const { frames, balls } = buildEyePaths(matrix.size, {
+    moduleSize,
+    margin: QUIET_ZONE_MODULES,
+    frameShape: eyes.frameShape,
+    ballShape: eyes.ballShape,
+  });
+
+  const total = size + borderWidth * 2;
+  const body: string[] = [];
+  const defs: string[] = [];
+
+  if (borderWidth > 0) {
+    body.push(`<rect width="${total}" height="${total}" fill="${escapeXml(borderColor)}"/>`);
+  }
+
+  body.push(`<g transform="translate(${borderWidth} ${borderWidth})">`);
+  body.push(paintPath(new QRPath().rect(0, 0, size, size), bgColor, bgGradient, 'qr-bg', size, defs));
+  body.push(paintPath(modulesPath, fgColor, fgGradient, 'qr-fg', size, defs));
+  body.push(paintPath(frames, eyes.frameColor || fgColor, eyes.frameColor ? null : fgGradient, 'qr-fg', size, defs, true));
+  body.push(paintPath(balls, eyes.ballColor || fgColor, eyes.ballColor ? null : fgGradient, 'qr-fg', size, defs));
+
+  if (logo) {
+    const box = calculateLogoBox(size, logoLayout, logoSize);
+    const logoMarkup = await buildLogoMarkup(logo, box);
+
+    if (logoMarkup) {
+      if (!logoExcavate && logoPlate) {
+        body.push(paintPath(buildLogoPlatePath(box, logoShape), bgColor, bgGradient, 'qr-bg', size, defs));
+      }
+
+      const clipPath = buildLogoClipPath(box, logoShape);
+      if (clipPath) {
+        defs.push(`<clipPath id="qr-logo-clip"><path d="${toSvgPathData(clipPath)}"/></clipPath>`);
+        body.push(`<g clip-path="url(#qr-logo-clip)">${logoMarkup}</g>`);
+      } else {
+        body.push(logoMarkup);
+      }
+    }
+  }
+
+  body.push('</g>');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${total}" height="${total}" viewBox="0 0 ${total} ${total}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+// Paint a path with a flat color or a gradient - conic gradients become clipped wedges
+function paintPath(
+  path: QRPath,
+  color: string,
+  gradient: QRGradient | null | undefined,
+  id: string,
+  size: number,
+  defs: string[],
+  evenOdd = false
+): string {
+  const d = toSvgPathData(path);
+  const rule = evenOdd ? ' fill-rule="evenodd"' : '';
+  if (!gradient) return `<path d="${d}" fill="${escapeXml(color)}"${rule}/>`;
+
+  if (gradient.type === 'conic') {
+    const clipId = `${id}-clip-${defs.length}`;
+    defs.push(`<clipPath id="${clipId}"><path d="${d}"${evenOdd ? ' clip-rule="evenodd"' : ''}/></clipPath>`);
+    const wedges = buildConicWedges(gradient, 0, 0, size)
+      .map((wedge) => `<path d="${toSvgPathData(wedge.path)}" fill="${wedge.color}"/>`)
+      .join('');
+    return `<g clip-path="url(#${clipId})">${wedges}</g>`;
+  }
+
+  if (!defs.some((def) => def.includes(`id="${id}"`))) {
+    defs.push(buildGradientDef(gradient, id, size));
+  }
+  return `<path d="${d}" fill="url(#${id})"${rule}/>`;
+}
+
+// Linear or radial gradient definition in user space (shared by every path using it)
+function buildGradientDef(gradient: QRGradient, id: string, size: number): string {
+  const stops = normalizeStops(gradient.stops)
+    .map((stop) => `<stop offset="${stop.offset}" stop-color="${escapeXml(stop.color)}"/>`)
+    .join('');
+
+  if (gradient.type === 'radial') {
+    const c = size / 2;
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${c}" cy="${c}" r="${getRadialGradientRadius(size)}">${stops}</radialGradient>`;
+  }
+
+  const { x1, y1, x2, y2 } = getLinearGradientPoints(gradient.angle, 0, 0, size);
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient>`;
+}
+
+// Build logo markup - SVG logos are inlined as vector paths, raster logos are embedded
+async function buildLogoMarkup(logo: LogoItem, box: LogoBox): Promise<string | null> {
+  const source = await loadLogoSource(logo.data);
+
+  if (source.svg) {
+    const inlined = inlineSvgLogo(source.svg, box);
+    if (inlined) return inlined;
+  }
+
+  const href = source.dataUrl || logo.data;
+  return `<image x="${box.x}" y="${box.y}" width="${box.size}" height="${box.size}" preserveAspectRatio="xMidYMid meet" href="${escapeXml(href)}" xlink:href="${escapeXml(href)}"/>`;
+}
+
+// Resolve logo data into SVG markup or a self-contained data URL
+async function loadLogoSource(
+  src: string
+): Promise<{ svg?: string; dataUrl?: string }> {
+  try {
+    if (src.startsWith('data:image/svg+xml')) {
+      return { svg: decodeDataUrl(src) };
+    }
+    if (src.startsWith('data:')) {
+      return { dataUrl: src };
+    }
+
+    const response = await fetch(src);
+    if (!response.ok) return {};
+
+    const blob = await response.blob();
+    if (blob.type.includes('svg') || /\.svg(\?|$)/i.test(src)) {
+      return { svg: await blob.text() };
+    }
+    return { dataUrl: await blobToDataUrl(blob) };
+  } catch {
+    // Fall back to referencing the original URL
+    return {};
+  }
+}
+
+// Links an inlined logo may keep: its own fragments and embedded raster images
+const SAFE_LOGO_HREF = /^(#|data:image\/)/i;
+const LOGO_ID_PREFIX = 'qr-logo-svg-';
+
+// Place an SVG document inside the logo box as a nested <svg>
+function inlineSvgLogo(markup: string, box: LogoBox): string | null {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (!root || root.nodeName !== 'svg' || doc.getElementsByTagName('parsererror').length) {
+    return null;
+  }
+
+  // Never carry scripts, handlers or outside references into the exported file
+  Array.from(root.querySelectorAll('script, foreignObject')).forEach((el) => el.remove());
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+  elements.forEach((el) => {
+    Array.from(el.attributes)
+      .filter((attr) => {
+        const name = attr.name.toLowerCase();
+        if (name.startsWith('on')) return true;
+        return isHrefAttribute(name) && !SAFE_LOGO_HREF.test(attr.value.trim());
+      })
+      .forEach((attr) => el.removeAttribute(attr.name));
+  });
+
+  // The logo's ids move into their own namespace so they cannot shadow qr-fg, qr-bg or qr-logo-clip
+  const ids = new Set(elements.map((el) => el.getAttribute('id')).filter((id): id is string => !!id));
+  if (ids.size > 0) {
+    const renameUrls = (value: string) =>
+      value.replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (match, quote, id) =>
+        ids.has(id) ? `url(${quote}#${LOGO_ID_PREFIX}${id}${quote})` : match
+      );
+    elements.forEach((el) => {
+      Array.from(el.attributes).forEach((attr) => {
+        const fragment = attr.value.trim().startsWith('#') ? attr.value.trim().slice(1) : null;
+        let value = renameUrls(attr.value);
+        if (attr.name === 'id') value = `${LOGO_ID_PREFIX}${attr.value}`;
+        else if (isHrefAttribute(attr.name.toLowerCase()) && fragment && ids.has(fragment)) {
+          value = `#${LOGO_ID_PREFIX}${fragment}`;
+        }
+        if (value !== attr.value) el.setAttribute(attr.name, value);
+      });
+      if (el.nodeName === 'style' && el.textContent) el.textContent = renameUrls(el.textContent);
+    });
+  }
+
+  if (!root.getAttribute('viewBox')) {
+    const width = parseFloat(root.getAttribute('width') || '');
+    const height = parseFloat(root.getAttribute('height') || '');
+    if (width > 0 && height > 0) root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  }
+
+  root.setAttribute('x', String(box.x));
+  root.setAttribute('y', String(box.y));
+  root.setAttribute('width', String(box.size));
+  root.setAttribute('height', String(box.size));
+  root.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+
+  return new XMLSerializer().serializeToString(root);
+}
+
+// href and xlink:href
+function isHrefAttribute(name: string): boolean {
+  return name === 'href' || name.endsWith(':href');
+}
+
+function decodeDataUrl(dataUrl: string): string {
+  const [header, payload = ''] = dataUrl.split(',', 2);
+  if (header.endsWith(';base64')) {
+    const bytes = Uint8Array.from(atob(payload), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  }
+  return decodeURIComponent(payload);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Download SVG markup as a file
+export function downloadSvg(svg: string, filename: string): void {
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+}
@@ -0,0 +1,317 @@
+import type { LuminanceImage } from './qr-detect';
+import { inflate } from './qr-inflate';
+
+// Baseline TIFF reader for multi-page proofs: strips or tiles, uncompressed / LZW / Deflate / PackBits,
+// bilevel, grayscale, palette, RGB and CMYK. Every page is decoded to grayscale for the detector
+
+export interface TiffPage {
+  width: number;
+  height: number;
+  decode(): Promise<LuminanceImage>;
+}
+
+const TAG = {
+  NEW_SUBFILE_TYPE: 254,
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PLANAR_CONFIGURATION: 284,
+  PREDICTOR: 317,
+  COLOR_MAP: 320,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+};
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  2: 'CCITT RLE',
+  3: 'CCITT Group 3',
+  4: 'CCITT Group 4',
+  6: 'old-style JPEG',
+  7: 'JPEG',
+};
+
+// Byte size of each TIFF field type (index = type id)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4, 0, 0, 8];
+
+type Ifd = Map<number, number[]>;
+
+export function isTiff(bytes: Uint8Array): boolean {
+  return (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+}
+
+// Full-resolution pages in file order - reduced-resolution previews are skipped
+export function readTiff(bytes: Uint8Array): TiffPage[] {
+  if (!isTiff(bytes)) throw new Error('Not a TIFF file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+
+  const pages: TiffPage[] = [];
+  const visited = new Set<number>();
+  let offset = view.getUint32(4, little);
+  while (offset && offset + 2 <= bytes.length && !visited.has(offset)) {
+    visited.add(offset);
+    const ifd = readIfd(view, offset, little);
+    const count = view.getUint16(offset, little);
+    offset = view.getUint32(offset + 2 + count * 12, little);
+
+    if ((first(ifd, TAG.NEW_SUBFILE_TYPE) ?? 0) & 1) continue;
+    const width = first(ifd, TAG.IMAGE_WIDTH);
+    const height = first(ifd, TAG.IMAGE_LENGTH);
+    if (!width || !height) continue;
+    pages.push({ width, height, decode: () => decodePage(bytes, ifd, little, width, height) });
+  }
+  return pages;
+}
+
+function readIfd(view: DataView, offset: number, little: boolean): Ifd {
+  const ifd: Ifd = new Map();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] ?? 0;
+    if (!size || size * length > view.byteLength) continue;
+
+    // Values that fit in four bytes are stored inline
+    const start = size * length <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (start + size * length > view.byteLength) continue;
+    const values: number[] = [];
+    for (let j = 0; j < length; j++) {
+      const at = start + j * size;
+      if (type === 3 || type === 8) values.push(view.getUint16(at, little));
+      else if (type === 4 || type === 9 || type === 13) values.push(view.getUint32(at, little));
+      else if (type === 16) values.push(Number(view.getBigUint64(at, little)));
+      else values.push(view.getUint8(at));
+    }
+    ifd.set(tag, values);
+  }
+  return ifd;
+}
+
+function first(ifd: Ifd, tag: number): number | undefined {
+  return ifd.get(tag)?.[0];
+}
+
+async function decodePage(
+  bytes: Uint8Array,
+  ifd: Ifd,
+  little: boolean,
+  width: number,
+  height: number
+): Promise<LuminanceImage> {
+  const compression = first(ifd, TAG.COMPRESSION) ?? 1;
+  if (![1, 5, 8, 32946, 32773].includes(compression)) {
+    throw new Error(`${COMPRESSION_NAMES[compression] ?? `Type ${compression}`} compressed TIFF pages are not supported`);
+  }
+  const bits = first(ifd, TAG.BITS_PER_SAMPLE) ?? 1;
+  const samples = first(ifd, TAG.SAMPLES_PER_PIXEL) ?? 1;
+  const photometric = first(ifd, TAG.PHOTOMETRIC) ?? 1;
+  const predictor = first(ifd, TAG.PREDICTOR) ?? 1;
+  if ((first(ifd, TAG.PLANAR_CONFIGURATION) ?? 1) !== 1 && samples > 1) {
+    throw new Error('Planar TIFF pages are not supported');
+  }
+  if (![1, 2, 4, 8, 16].includes(bits)) throw new Error(`${bits}-bit TIFF pages are not supported`);
+
+  const toGray = grayConverter(photometric, bits, samples, ifd.get(TAG.COLOR_MAP));
+  const output = new Uint8ClampedArray(width * height).fill(255);
+
+  // Strips are tiles as wide as the page
+  const tiled = ifd.has(TAG.TILE_OFFSETS);
+  const chunkWidth = tiled ? first(ifd, TAG.TILE_WIDTH) ?? width : width;
+  const chunkHeight = tiled ? first(ifd, TAG.TILE_LENGTH) ?? height : Math.min(first(ifd, TAG.ROWS_PER_STRIP) ?? height, height);
+  const offsets = ifd.get(tiled ? TAG.TILE_OFFSETS : TAG.STRIP_OFFSETS) ?? [];
+  const counts = ifd.get(tiled ? TAG.TILE_BYTE_COUNTS : TAG.STRIP_BYTE_COUNTS) ?? [];
+  const across = Math.ceil(width / chunkWidth);
+  const rowBytes = Math.ceil((chunkWidth * samples * bits) / 8);
+
+  for (let index = 0; index < offsets.length; index++) {
+    const raw = bytes.subarray(offsets[index], offsets[index] + (counts[index] ?? bytes.length - offsets[index]));
+    const data = await decompress(raw, compression, rowBytes * chunkHeight);
+    if (predictor === 2) undoHorizontalPredictor(data, rowBytes, samples, bits, little);
+
+    const left = (index % across) * chunkWidth;
+    const top = Math.floor(index / across) * chunkHeight;
+    for (let y = 0; y < chunkHeight && top + y < height; y++) {
+      for (let x = 0; x < chunkWidth && left + x < width; x++) {
+        const pixel = y * rowBytes * 8 + x * samples * bits; // bit offset
+        if (pixel / 8 >= data.length) break;
+        output[(top + y) * width + left + x] = toGray((s) => readSample(data, pixel + s * bits, bits, little));
+      }
+    }
+  }
+  return { data: output, width, height };
+}
+
+async function decompress(data: Uint8Array, compression: number, expected: number): Promise<Uint8Array> {
+  switch (compression) {
+    case 5:
+      return lzwDecode(data, expected);
+    case 8:
+    case 32946:
+      return inflate(data);
+    case 32773:
+      return packBitsDecode(data, expected);
+    default:
+      return data;
+  }
+}
+
+// Sample value scaled to 0..255
+function readSample(data: Uint8Array, bitOffset: number, bits: number, little: boolean): number {
+  if (bits === 8) return data[bitOffset >> 3];
+  if (bits === 16) return data[(bitOffset >> 3) + (little ? 1 : 0)];
+  const byte = data[bitOffset >> 3];
+  const shift = 8 - bits - (bitOffset & 7);
+  const value = (byte >> shift) & ((1 << bits) - 1);
+  return Math.round((value * 255) / ((1 << bits) - 1));
+}
+
+function grayConverter(
+  photometric: number,
+  bits: number,
+  samples: number,
+  colorMap: number[] | undefined
+): (sample: (index: number) => number) => number {
+  const luma = (r: number, g: number, b: number) => Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  switch (photometric) {
+    case 0:
+      return (sample) => 255 - sample(0);
+    case 1:
+      return (sample) => sample(0);
+    case 2:
+      if (samples < 3) throw new Error('RGB TIFF pages need three samples per pixel');
+      return (sample) => luma(sample(0), sample(1), sample(2));
+    case 3: {
+      if (!colorMap) throw new Error('Palette TIFF page without a color map');
+      const entries = 1 << bits;
+      const levels = 255 / ((1 << bits) - 1);
+      return (sample) => {
+        const index = Math.round(sample(0) / levels);
+        return luma(colorMap[index] >> 8, colorMap[entries + index] >> 8, colorMap[entries * 2 + index] >> 8);
+      };
+    }
+    case 5:
+      return (sample) => {
+        const k = 1 - sample(3) / 255;
+        return luma((255 - sample(0)) * k, (255 - sample(1)) * k, (255 - sample(2)) * k);
+      };
+    default:
+      throw new Error(`TIFF photometric interpretation ${photometric} is not supported`);
+  }
+}
+
+// Predictor 2: each sample is stored as the difference to the one to its left
+function undoHorizontalPredictor(data: Uint8Array, rowBytes: number, samples: number, bits: number, little: boolean): void {
+  if (bits === 8) {
+    for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+      for (let i = samples; i < rowBytes; i++) data[row + i] = (data[row + i] + data[row + i - samples]) & 0xff;
+    }
+  } else if (bits === 16) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+      for (let i = samples * 2; i + 1 < rowBytes; i += 2) {
+        view.setUint16(row + i, (view.getUint16(row + i, little) + view.getUint16(row + i - samples * 2, little)) & 0xffff, little);
+      }
+    }
+  }
+}
+
+// TIFF LZW: MSB-first codes of 9 to 12 bits, switching width one code early
+export function lzwDecode(input: Uint8Array, expected: number): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  let output = new Uint8Array(Math.max(expected, 1024));
+  let outLength = 0;
+  const append = (code: number) => {
+    const length = lengths[code];
+    if (outLength + length > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outLength + length));
+      grown.set(output);
+      output = grown;
+    }
+    for (let i = length - 1, c = code; i >= 0; i--, c = prefix[c]) output[outLength + i] = suffix[c];
+    outLength += length;
+  };
+  const firstByte = (code: number) => {
+    let c = code;
+    while (prefix[c] !== -1) c = prefix[c];
+    return suffix[c];
+  };
+
+  let next = 258;
+  let width = 9;
+  let previous = -1;
+  let bitPosition = 0;
+  while (bitPosition + width <= input.length * 8) {
+    let code = 0;
+    for (let i = 0; i < width; i++, bitPosition++) {
+      code = (code << 1) | ((input[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+    }
+
+    if (code === END) break;
+    if (code === CLEAR) {
+      next = 258;
+      width = 9;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      append(code);
+    } else if (next < 4096) {
+      // Known code: add previous + its first byte; unknown (the KwKwK case): previous + previous's first byte
+      const known = code < next;
+      prefix[next] = previous;
+      suffix[next] = firstByte(known ? code : previous);
+      lengths[next] = lengths[previous] + 1;
+      next++;
+      append(known ? code : next - 1);
+    } else {
+      append(code);
+    }
+    previous = code;
+    if (next + 1 >= 1 << width && width < 12) width++;
+  }
+  return output.subarray(0, outLength);
+}
+
+// PackBits run-length encoding
+export function packBitsDecode(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let outIndex = 0;
+  let i = 0;
+  while (i < input.length && outIndex < expected) {
+    const header = (input[i++] << 24) >> 24; // signed byte
+    if (header >= 0) {
+      const count = Math.min(header + 1, input.length - i, expected - outIndex);
+      output.set(input.subarray(i, i + count), outIndex);
+      outIndex += count;
+      i += header + 1;
+    } else if (header !== -128) {
+      output.fill(input[i++], outIndex, Math.min(outIndex + 1 - header, expected));
+      outIndex += 1 - header;
+    }
+  }
+  return output;
+}
@@ -1,5 +1,5 @@
 // QR Code Mode Types
-export type QRMode = 'url' | 'whatsapp' | 'text' | 'wifi' | 'vcard' | 'email';
+export type QRMode = 'url' | 'whatsapp' | 'sms' | 'tel' | 'text' | 'wifi' | 'vcard' | 'email' | 'event' | 'geo' | 'payment' | 'otp';
 
 // QR Design Styles
 export type QRDesignStyle = 
@@ -13,6 +13,33 @@ export type QRDesignStyle =
   | 'star'
   | 'fluid';
 
+// Error Correction Levels
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+// Gradient Fill
+export type GradientType = 'linear' | 'radial' | 'conic';
+
+export interface GradientStop {
+  offset: number; // 0-1
+  color: string;
+}
+
+export interface QRGradient {
+  type: GradientType;
+  angle: number; // degrees, CSS convention (0 = to top, 90 = to right) - linear & conic only
+  stops: GradientStop[];
+}
+
+// Finder Pattern ("Eye") Styling
+export type EyeShape = 'square' | 'rounded' | 'circle' | 'leaf' | 'cushion';
+
+export interface QREyeStyle {
+  frameShape: EyeShape; // 7x7 outer ring
+  ballShape: EyeShape; // 3x3 center
+  frameColor?: string; // undefined = follow the foreground
+  ballColor?: string;
+}
+
 // Logo Shape Types
 export type LogoShape = 'square' | 'rounded' | 'circle';
 
@@ -56,6 +83,11 @@ export interface QRHistoryItem {
   logoShape?: LogoShape;
   logoLayout?: LogoLayout;
   logoSize?: number;
+  logoExcavate?: boolean;
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  fgGradient?: QRGradient;
+  bgGradient?: QRGradient;
+  eyes?: QREyeStyle;
   formData?: Record<string, string>;
 }
 
@@ -66,19 +98,157 @@ export interface CountryCode {
   dial: string;
 }
 
-// WiFi Auth Types
-export type WifiAuthType = 'WPA' | 'WEP' | 'nopass';
+// SMS and Call Payloads
+export type SmsFormat = 'smsto' | 'sms';
+export type CallScheme = 'tel' | 'facetime' | 'facetime-audio';
+
+// WiFi Auth Types - SAE is WPA3-Personal, WPA2-EAP covers WPA2/WPA3-Enterprise
+export type WifiAuthType = 'WPA' | 'SAE' | 'WPA2-EAP' | 'WEP' | 'nopass';
+export type EapMethod = 'PEAP' | 'TTLS' | 'TLS' | 'PWD' | 'SIM' | 'AKA';
+export type EapPhase2 = 'NONE' | 'MSCHAPV2' | 'GTC' | 'PAP' | 'MSCHAP';
+
+export interface WifiData {
+  ssid: string;
+  password: string;
+  authType: WifiAuthType;
+  hidden: boolean;
+  transitionDisable: boolean; // R:1 - WPA3 only, no fallback to WPA2
+  eapMethod: EapMethod;
+  phase2: EapPhase2;
+  identity: string;
+  anonymousIdentity: string;
+}
+
+// Contact (vCard / MeCard)
+export type VCardFormat = '3.0' | '4.0' | 'mecard';
+export type ContactPhoneType = 'cell' | 'work' | 'home' | 'fax';
+export type ContactLabel = 'work' | 'home';
+export type SocialNetwork = 'linkedin' | 'twitter' | 'facebook' | 'instagram' | 'github' | 'other';
+
+export interface ContactEntry<T extends string> {
+  type: T;
+  value: string;
+}
+
+export interface VCardAddress {
+  street: string;
+  city: string;
+  region: string;
+  postcode: string;
+  country: string;
+}
 
 // vCard Data
 export interface VCardData {
   firstName: string;
   lastName: string;
-  phone: string;
-  email: string;
   company?: string;
   title?: string;
-  website?: string;
-  address?: string;
+  phones: ContactEntry<ContactPhoneType>[];
+  emails: ContactEntry<ContactLabel>[];
+  urls: ContactEntry<ContactLabel>[];
+  socials: ContactEntry<SocialNetwork>[]; // profile URL or handle
+  address?: VCardAddress;
+  birthday?: string; // YYYY-MM-DD
+  note?: string;
+  photo?: string; // URL - an embedded image would never fit in a QR code
+}
+
+// Calendar Event (iCalendar VEVENT)
+export interface EventData {
+  title: string;
+  start: string; // wall-clock 'yyyy-MM-ddTHH:mm' in timeZone, date part only for all-day events
+  end: string;
+  allDay: boolean;
+  timeZone: string; // IANA zone, 'UTC' or FLOATING_TIME_ZONE
+  location?: string;
+  description?: string;
+  url?: string;
+}
+
+// Geolocation - coordinates stay as typed until the payload is built
+export type GeoFormat = 'geo' | 'google' | 'apple';
+
+export interface GeoData {
+  latitude: string;
+  longitude: string;
+  altitude: string; // metres, optional
+  label: string;
+  format: GeoFormat;
+}
+
+// Authenticator (otpauth://) provisioning - numbers stay strings while they are edited
+export type OtpType = 'totp' | 'hotp';
+export type OtpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface OtpData {
+  type: OtpType;
+  issuer: string;
+  account: string;
+  secret: string; // base32 - never persisted to history
+  algorithm: OtpAlgorithm;
+  digits: string;
+  period: string; // seconds, totp only
+  counter: string; // hotp only
+}
+
+// Payments - amounts stay decimal strings so no precision is lost before formatting
+export type PaymentScheme = 'upi' | 'epc' | 'swiss' | 'bitcoin' | 'ethereum';
+
+// UPI deep link (NPCI upi://pay)
+export interface UpiPayment {
+  payee: string; // VPA, e.g. shop@okbank
+  name: string;
+  amount?: string; // INR
+  note?: string;
+}
+
+// EPC069-12 SEPA credit transfer ("GiroCode")
+export interface EpcPayment {
+  name: string;
+  iban: string;
+  bic?: string;
+  amount?: string; // EUR
+  purpose?: string; // ISO 20022 purpose code, e.g. GDDS
+  reference?: string; // structured creditor reference - excludes text
+  text?: string; // unstructured remittance information
+  info?: string; // note shown to the payer
+}
+
+// Swiss QR-bill reference types - QRR needs a QR-IBAN, SCOR an RF creditor reference
+export type SwissReferenceType = 'QRR' | 'SCOR' | 'NON';
+export type SwissCurrency = 'CHF' | 'EUR';
+
+// Structured (type S) address of the creditor or debtor
+export interface SwissAddress {
+  name: string;
+  street?: string;
+  buildingNumber?: string;
+  postalCode: string;
+  town: string;
+  country: string; // ISO 3166 alpha-2
+}
+
+// Swiss QR-bill payment part (SPC version 0200)
+export interface SwissQrBill {
+  iban: string; // CH or LI account - a QR-IBAN for QRR references
+  creditor: SwissAddress;
+  amount?: string; // empty lets the payer fill it in
+  currency: SwissCurrency;
+  debtor?: SwissAddress | null;
+  referenceType: SwissReferenceType;
+  reference?: string;
+  message?: string; // unstructured message
+  billInformation?: string; // structured billing information, e.g. //S1/10/...
+}
+
+// BIP21 bitcoin: and EIP-681 ethereum: URIs
+export interface CryptoPayment {
+  address: string;
+  amount?: string; // BTC or ETH
+  label?: string; // bitcoin only
+  message?: string; // bitcoin only
+  chainId?: string; // ethereum only, mainnet when empty
 }
 
 // QR Generator Options
@@ -97,6 +267,31 @@ export interface QRGeneratorOptions {
   borderColor: string;
 }
 
+// QR Render Options - shared by preview, download and batch pipelines
+export interface QRRenderOptions {
+  size: number;
+  design: QRDesignStyle;
+  fgColor: string;
+  bgColor: string;
+  fgGradient?: QRGradient | null; // overrides fgColor for the modules
+  bgGradient?: QRGradient | null; // overrides bgColor for the background
+  eyes?: QREyeStyle; // finder patterns - defaults to square eyes in the foreground color
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  logo?: LogoItem | null;
+  logoShape?: LogoShape;
+  logoLayout?: LogoLayout;
+  logoSize?: number;
+  logoExcavate?: boolean; // clear whole modules under the logo (default) instead of painting over them
+  logoPlate?: boolean; // background plate behind a logo painted over the modules (default true)
+  borderWidth?: number; // 0 or undefined = no border
+  borderColor?: string;
+}
+
+// Print Paper
+export type PaperSize = 'a4' | 'a5' | 'letter' | 'legal' | 'custom';
+export type PaperOrientation = 'portrait' | 'landscape';
+export type PrintLayout = 'single' | 'grid' | 'fill';
+
 // Preset Logos
 export const PRESET_LOGOS: LogoItem[] = [
   {
@@ -173,6 +368,20 @@ export const PRESET_LOGOS: LogoItem[] = [
   },
 ];
 
+// Swiss cross of the QR-bill - white border, black square and cross in 0.1 mm units of its 7 mm box
+export const SWISS_CROSS_LOGO: LogoItem = {
+  id: 'swiss-cross',
+  name: 'Swiss Cross',
+  type: 'preset',
+  data: `data:image/svg+xml,${encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 70 70">' +
+      '<rect width="70" height="70" fill="#fff"/>' +
+      '<rect x="5" y="5" width="60" height="60" fill="#000"/>' +
+      '<path d="M29.4 16.3h11.2v13.1h13.1v11.2H40.6v13.1H29.4V40.6H16.3V29.4h13.1z" fill="#fff"/>' +
+      '</svg>'
+  )}`,
+};
+
 // Design Style Options
 export const DESIGN_STYLES: { value: QRDesignStyle; label: string; icon: string }[] = [
   { value: 'square', label: 'Square', icon: '⬛' },
@@ -186,6 +395,17 @@ export const DESIGN_STYLES: { value: QRDesignStyle; label: string; icon: string
   { value: 'fluid', label: 'Fluid', icon: '💧' },
 ];
 
+// Eye Shape Options
+export const EYE_SHAPES: { value: EyeShape; label: string; icon: string }[] = [
+  { value: 'square', label: 'Square', icon: '⬛' },
+  { value: 'rounded', label: 'Rounded', icon: '▢' },
+  { value: 'circle', label: 'Circle', icon: '⚫' },
+  { value: 'leaf', label: 'Leaf', icon: '🍃' },
+  { value: 'cushion', label: 'Cushion', icon: '🟫' },
+];
+
+export const DEFAULT_EYE_STYLE: QREyeStyle = { frameShape: 'square', ballShape: 'square' };
+
 // Logo Shape Options
 export const LOGO_SHAPES: { value: LogoShape; label: string; icon: string }[] = [
   { value: 'square', label: 'Square', icon: '⬜' },
@@ -203,6 +423,170 @@ export const LOGO_LAYOUTS: { value: LogoLayout; label: string; icon: string }[]
   { value: 'watermark', label: 'Watermark', icon: '💧' },
 ];
 
+// Error Correction Levels (recovery = share of codewords that may be damaged)
+export const ERROR_CORRECTION_LEVELS: { value: ErrorCorrectionLevel; label: string; recovery: number }[] = [
+  { value: 'L', label: 'Low', recovery: 7 },
+  { value: 'M', label: 'Medium', recovery: 15 },
+  { value: 'Q', label: 'Quartile', recovery: 25 },
+  { value: 'H', label: 'High', recovery: 30 },
+];
+
+// Gradient Types
+export const GRADIENT_TYPES: { value: GradientType; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'conic', label: 'Conic' },
+];
+
+// Contact Options
+export const EMPTY_CONTACT: VCardData = {
+  firstName: '',
+  lastName: '',
+  phones: [{ type: 'cell', value: '' }],
+  emails: [{ type: 'work', value: '' }],
+  urls: [],
+  socials: [],
+};
+
+export const VCARD_FORMATS: { value: VCardFormat; label: string; description: string }[] = [
+  { value: '3.0', label: 'vCard 3.0', description: 'Widest support' },
+  { value: '4.0', label: 'vCard 4.0', description: 'Current standard' },
+  { value: 'mecard', label: 'MeCard', description: 'Smallest code' },
+];
+
+export const CONTACT_PHONE_TYPES: { value: ContactPhoneType; label: string }[] = [
+  { value: 'cell', label: 'Mobile' },
+  { value: 'work', label: 'Office' },
+  { value: 'home', label: 'Home' },
+  { value: 'fax', label: 'Fax' },
+];
+
+export const CONTACT_LABELS: { value: ContactLabel; label: string }[] = [
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Personal' },
+];
+
+export const SOCIAL_NETWORKS: { value: SocialNetwork; label: string; baseUrl?: string }[] = [
+  { value: 'linkedin', label: 'LinkedIn', baseUrl: 'https://www.linkedin.com/in/' },
+  { value: 'twitter', label: 'X / Twitter', baseUrl: 'https://x.com/' },
+  { value: 'facebook', label: 'Facebook', baseUrl: 'https://www.facebook.com/' },
+  { value: 'instagram', label: 'Instagram', baseUrl: 'https://www.instagram.com/' },
+  { value: 'github', label: 'GitHub', baseUrl: 'https://github.com/' },
+  { value: 'other', label: 'Other' },
+];
+
+// Event Options - floating times are read in whatever zone the scanning phone is in
+export const FLOATING_TIME_ZONE = 'floating';
+
+export const EVENT_TIME_ZONES: { value: string; label: string }[] = [
+  { value: FLOATING_TIME_ZONE, label: 'Local time of the viewer' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles (Pacific)' },
+  { value: 'America/Denver', label: 'Denver (Mountain)' },
+  { value: 'America/Chicago', label: 'Chicago (Central)' },
+  { value: 'America/New_York', label: 'New York (Eastern)' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Paris', label: 'Paris' },
+  { value: 'Europe/Berlin', label: 'Berlin' },
+  { value: 'Europe/Moscow', label: 'Moscow' },
+  { value: 'Africa/Lagos', label: 'Lagos' },
+  { value: 'Africa/Johannesburg', label: 'Johannesburg' },
+  { value: 'Asia/Dubai', label: 'Dubai' },
+  { value: 'Asia/Kolkata', label: 'India' },
+  { value: 'Asia/Singapore', label: 'Singapore' },
+  { value: 'Asia/Shanghai', label: 'China' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+  { value: 'Pacific/Auckland', label: 'Auckland' },
+];
+
+// SMS Payload Options
+export const SMS_FORMATS: { value: SmsFormat; label: string; description: string }[] = [
+  { value: 'smsto', label: 'SMSTO:', description: 'Android and most scanner apps' },
+  { value: 'sms', label: 'sms: link', description: 'iPhone camera and browsers' },
+];
+
+// Call Options
+export const CALL_SCHEMES: { value: CallScheme; label: string }[] = [
+  { value: 'tel', label: 'Phone Call' },
+  { value: 'facetime', label: 'FaceTime' },
+  { value: 'facetime-audio', label: 'FaceTime Audio' },
+];
+
+// Geo Options
+export const EMPTY_GEO: GeoData = { latitude: '', longitude: '', altitude: '', label: '', format: 'geo' };
+
+export const GEO_FORMATS: { value: GeoFormat; label: string; description: string }[] = [
+  { value: 'geo', label: 'geo: URI', description: 'Default maps app, works offline' },
+  { value: 'google', label: 'Google Maps', description: 'Web link' },
+  { value: 'apple', label: 'Apple Maps', description: 'Web link' },
+];
+
+// WiFi Options
+export const EMPTY_WIFI: WifiData = {
+  ssid: '',
+  password: '',
+  authType: 'WPA',
+  hidden: false,
+  transitionDisable: false,
+  eapMethod: 'PEAP',
+  phase2: 'MSCHAPV2',
+  identity: '',
+  anonymousIdentity: '',
+};
+
+export const WIFI_AUTH_TYPES: { value: WifiAuthType; label: string; description: string }[] = [
+  { value: 'WPA', label: 'WPA/WPA2/WPA3', description: 'Personal, works on every device' },
+  { value: 'SAE', label: 'WPA3 (SAE)', description: 'Personal, WPA3 only' },
+  { value: 'WPA2-EAP', label: 'Enterprise (EAP)', description: 'WPA2/WPA3-Enterprise with a user login' },
+  { value: 'WEP', label: 'WEP', description: 'Obsolete and insecure' },
+  { value: 'nopass', label: 'None', description: 'Open network' },
+];
+
+// Phase 2 choices per EAP method - empty when the method has no inner authentication
+export const EAP_METHODS: { value: EapMethod; label: string; phase2: EapPhase2[]; password: boolean }[] = [
+  { value: 'PEAP', label: 'PEAP', phase2: ['MSCHAPV2', 'GTC'], password: true },
+  { value: 'TTLS', label: 'TTLS', phase2: ['PAP', 'MSCHAP', 'MSCHAPV2', 'GTC'], password: true },
+  { value: 'TLS', label: 'TLS (certificate)', phase2: [], password: false },
+  { value: 'PWD', label: 'PWD', phase2: [], password: true },
+  { value: 'SIM', label: 'SIM', phase2: [], password: false },
+  { value: 'AKA', label: 'AKA', phase2: [], password: false },
+];
+
+// OTP Options
+export const EMPTY_OTP: OtpData = {
+  type: 'totp',
+  issuer: '',
+  account: '',
+  secret: '',
+  algorithm: 'SHA1',
+  digits: '6',
+  period: '30',
+  counter: '0',
+};
+
+export const OTP_ALGORITHMS: { value: OtpAlgorithm; label: string; description: string }[] = [
+  { value: 'SHA1', label: 'SHA-1', description: 'Supported by every authenticator app' },
+  { value: 'SHA256', label: 'SHA-256', description: 'Not all apps support it' },
+  { value: 'SHA512', label: 'SHA-512', description: 'Not all apps support it' },
+];
+
+// Payment Options
+export const PAYMENT_SCHEMES: { value: PaymentScheme; label: string; description: string }[] = [
+  { value: 'upi', label: 'UPI', description: 'India - any UPI app' },
+  { value: 'epc', label: 'SEPA', description: 'EU bank transfer (EPC / GiroCode)' },
+  { value: 'swiss', label: 'QR-bill', description: 'Swiss QR-bill payment part' },
+  { value: 'bitcoin', label: 'Bitcoin', description: 'BIP21 payment request' },
+  { value: 'ethereum', label: 'Ethereum', description: 'EIP-681 payment request' },
+];
+
+export const SWISS_REFERENCE_TYPES: { value: SwissReferenceType; label: string; description: string }[] = [
+  { value: 'QRR', label: 'QR reference', description: '27 digits, QR-IBAN only' },
+  { value: 'SCOR', label: 'Creditor reference', description: 'ISO 11649 RF reference' },
+  { value: 'NON', label: 'No reference', description: 'Message only' },
+];
+
 // Common Country Codes
 export const COUNTRY_CODES: CountryCode[] = [
   { code: 'IN', name: 'India', dial: '91' },
@@ -255,3 +639,12 @@ export const COUNTRY_CODES: CountryCode[] = [
   { code: 'HK', name: 'Hong Kong', dial: '852' },
   { code: 'TW', name: 'Taiwan', dial: '886' },
 ];
+
+// Paper Sizes (millimetres, portrait)
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number; label: string }> = {
+  a4: { width: 210, height: 297, label: 'A4 (210×297mm)' },
+  a5: { width: 148, height: 210, label: 'A5 (148×210mm)' },
+  letter: { width: 216, height: 279, label: 'Letter (8.5×11")' },
+  legal: { width: 216, height: 356, label: 'Legal (8.5×14")' },
+  custom: { width: 210, height: 297, label: 'Custom' },
+};
@@ -1,13 +1,53 @@
-import QRCode from 'qrcode';
+import { isValid } from 'date-fns';
 import type { 
   QRMode, 
   QRDesignStyle, 
   LogoItem, 
   LogoShape, 
   LogoLayout,
-  WifiAuthType,
-  VCardData 
+  SmsFormat,
+  CallScheme,
+  GeoFormat,
+  OtpData,
+  ErrorCorrectionLevel,
+  QRRenderOptions,
+  QRGradient,
+  QREyeStyle,
 } from './qr-types';
+import { DEFAULT_EYE_STYLE, EMPTY_OTP, SWISS_CROSS_LOGO } from './qr-types';
+import { createQRMatrix, QUIET_ZONE_MODULES } from './qr-matrix';
+import { tracePath } from './qr-path';
+import {
+  buildModulesPath,
+  buildEyePaths,
+  calculateLogoBox,
+  buildLogoPlatePath,
+  getLogoFootprint,
+  buildLogoClipPath,
+} from './qr-geometry';
+import { createCanvasGradient } from './qr-gradient';
+import { isValidLatitude, isValidLongitude } from './qr-geo';
+import { buildOtpPayload, getOtpErrors } from './qr-otp';
+import { getWifiErrors, wifiFromFormData } from './qr-wifi';
+import {
+  SWISS_CROSS_SIZE_MM,
+  SWISS_QR_SIZE_MM,
+  buildPaymentPayload,
+  getPaymentErrors,
+  isSwissQrBill,
+} from './qr-payment';
+import {
+  buildCallPayload,
+  buildContactPayload,
+  buildEventPayload,
+  buildGeoPayload,
+  buildSmsPayload,
+  buildWifiPayload,
+  contactFromFormData,
+  eventFromFormData,
+  getEventBounds,
+  toE164,
+} from './qr-payload';
 
 // Generate QR content based on mode
 export function generateQRContent(
@@ -28,27 +68,21 @@ export function generateQRContent(
       const message = data.message ? encodeURIComponent(data.message) : '';
       return `https://wa.me/${countryCode}${phone}${message ? `?text=${message}` : ''}`;
     }
+    case 'sms':
+      return buildSmsPayload({
+        number: toE164(data.countryCode || '', data.phone || ''),
+        message: data.message || '',
+        format: (data.format as SmsFormat) || 'smsto',
+      });
+    case 'tel':
+      return buildCallPayload(toE164(data.countryCode || '', data.phone || ''), (data.scheme as CallScheme) || 'tel');
     case 'text':
       return data.text || '';
-    case 'wifi': {
-      const ssid = data.ssid || '';
-      const password = data.password || '';
-      const authType: WifiAuthType = (data.authType as WifiAuthType) || 'WPA';
-      const hidden = data.hidden === 'true' ? 'H:true' : '';
-      return `WIFI:T:${authType};S:${ssid};P:${password};${hidden};`;
-    }
+    case 'wifi':
+      return buildWifiPayload(wifiFromFormData(data));
     case 'vcard': {
-      const vcard: VCardData = {
-        firstName: data.firstName || '',
-        lastName: data.lastName || '',
-        phone: data.phone || '',
-        email: data.email || '',
-        company: data.company,
-        title: data.title,
-        website: data.website,
-        address: data.address,
-      };
-      return generateVCardString(vcard);
+      const { contact, format } = contactFromFormData(data);
+      return buildContactPayload(contact, format);
     }
     case 'email': {
       const email = data.email || '';
@@ -59,198 +93,214 @@ export function generateQRContent(
       if (body) params.push(`body=${body}`);
       return `mailto:${email}${params.length ? '?' + params.join('&') : ''}`;
     }
+    case 'event':
+      return buildEventPayload(eventFromFormData(data));
+    case 'payment':
+      return buildPaymentPayload(data);
+    case 'geo':
+      return buildGeoPayload({
+        latitude: data.latitude || '',
+        longitude: data.longitude || '',
+        altitude: data.altitude || '',
+        label: data.label || '',
+        format: (data.format as GeoFormat) || 'geo',
+      });
+    case 'otp':
+      return buildOtpPayload({ ...EMPTY_OTP, ...data } as OtpData);
     default:
       return '';
   }
 }
 
-// Generate vCard string
-function generateVCardString(data: VCardData): string {
-  const lines = [
-    'BEGIN:VCARD',
-    'VERSION:3.0',
-    `N:${data.lastName};${data.firstName};;;`,
-    `FN:${data.firstName} ${data.lastName}`,
-  ];
-
-  if (data.phone) lines.push(`TEL:${data.phone}`);
-  if (data.email) lines.push(`EMAIL:${data.email}`);
-  if (data.company) lines.push(`ORG:${data.company}`);
-  if (data.title) lines.push(`TITLE:${data.title}`);
-  if (data.website) lines.push(`URL:${data.website}`);
-  if (data.address) lines.push(`ADR:;;${data.address};;;;`);
-
-  lines.push('END:VCARD');
-  return lines.join('\n');
+// Check that the form holds enough to generate a meaningful code
+export function isFormDataValid(mode: QRMode, data: Record<string, string>): boolean {
+  switch (mode) {
+    case 'url':
+      return (data.url?.trim().length ?? 0) >= 3;
+    case 'whatsapp':
+      return (data.phone?.replace(/\D/g, '').length ?? 0) >= 7;
+    case 'sms':
+    case 'tel': {
+      // Three digits allow service short codes, E.164 caps numbers at 15
+      const digits = toE164(data.countryCode || '', data.phone || '').replace(/\D/g, '').length;
+      return (data.phone?.replace(/\D/g, '').length ?? 0) >= 3 && digits <= 15;
+    }
+    case 'text':
+      return (data.text?.trim().length ?? 0) > 0;
+    case 'wifi':
+      return Object.keys(getWifiErrors(wifiFromFormData(data))).length === 0;
+    case 'vcard':
+      return !!data.firstName?.trim() || !!data.lastName?.trim();
+    case 'email':
+      return !!data.email?.includes('@');
+    case 'event': {
+      const event = eventFromFormData(data);
+      const { start, end } = getEventBounds(event);
+      return !!event.title.trim() && isValid(start) && isValid(end) && end >= start;
+    }
+    case 'geo': {
+      const altitude = data.altitude?.trim();
+      return (
+        !!data.latitude?.trim() && isValidLatitude(Number(data.latitude)) &&
+        !!data.longitude?.trim() && isValidLongitude(Number(data.longitude)) &&
+        (!altitude || Number.isFinite(Number(altitude)))
+      );
+    }
+    case 'payment':
+      return Object.keys(getPaymentErrors(data)).length === 0;
+    case 'otp':
+      return Object.keys(getOtpErrors({ ...EMPTY_OTP, ...data } as OtpData)).length === 0;
+    default:
+      return false;
+  }
 }
 
-// Generate QR code as canvas
+// Generate QR code as canvas - every module is drawn at its true position in the matrix
 export async function generateQRCanvas(
   content: string,
   options: {
     size?: number;
     fgColor?: string;
     bgColor?: string;
-    errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+    fgGradient?: QRGradient | null;
+    bgGradient?: QRGradient | null;
+    eyes?: QREyeStyle;
+    design?: QRDesignStyle;
+    errorCorrectionLevel?: ErrorCorrectionLevel;
+    margin?: number; // quiet zone in modules
+    excavate?: { layout: LogoLayout; size: number; shape: LogoShape } | null; // logo area to clear
   } = {}
 ): Promise<HTMLCanvasElement> {
   const {
     size = 800,
     fgColor = '#000000',
     bgColor = '#ffffff',
+    fgGradient,
+    bgGradient,
+    eyes = DEFAULT_EYE_STYLE,
+    design = 'square',
     errorCorrectionLevel = 'H',
+    margin = QUIET_ZONE_MODULES,
+    excavate,
   } = options;
 
+  const matrix = createQRMatrix(content, errorCorrectionLevel);
+
   const canvas = document.createElement('canvas');
   canvas.width = size;
   canvas.height = size;
 
-  await QRCode.toCanvas(canvas, content, {
-    width: size,
-    margin: 2,
-    color: {
-      dark: fgColor,
-      light: bgColor,
-    },
-    errorCorrectionLevel,
-  });
-
-  return canvas;
-}
-
-// Apply design style to QR canvas
-export function applyDesignStyle(
-  canvas: HTMLCanvasElement,
-  style: QRDesignStyle,
-  fgColor: string,
-  bgColor: string
-): HTMLCanvasElement {
-  if (style === 'square') return canvas;
-
   const ctx = canvas.getContext('2d');
   if (!ctx) return canvas;
 
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const newCanvas = document.createElement('canvas');
-  newCanvas.width = canvas.width;
-  newCanvas.height = canvas.height;
-  const newCtx = newCanvas.getContext('2d');
-  if (!newCtx) return canvas;
-
   // Fill background
-  newCtx.fillStyle = bgColor;
-  newCtx.fillRect(0, 0, newCanvas.width, newCanvas.height);
+  ctx.fillStyle = bgGradient ? createCanvasGradient(ctx, bgGradient, 0, 0, size) : bgColor;
+  ctx.fillRect(0, 0, size, size);
+
+  const moduleSize = size / (matrix.size + margin * 2);
+  const snap = design === 'square';
+  const excavated = excavate
+    ? getLogoFootprint(matrix.size, calculateLogoBox(size, excavate.layout, excavate.size), excavate.shape, {
+        moduleSize,
+        margin,
+      })
+    : undefined;
+  const modulesPath = buildModulesPath(matrix, { design, moduleSize, margin, snap, skipFinders: true, excavated });
+  const { frames, balls } = buildEyePaths(matrix.size, {
+    moduleSize,
+    margin,
+    snap,
+    frameShape: eyes.frameShape,
+    ballShape: eyes.ballShape,
+  });
 
-  // Detect module size
-  const moduleSize = Math.floor(canvas.width / 37); // Approximate
+  const foreground = fgGradient ? createCanvasGradient(ctx, fgGradient, 0, 0, size) : fgColor;
 
-  newCtx.fillStyle = fgColor;
+  ctx.fillStyle = foreground;
+  tracePath(ctx, modulesPath);
+  ctx.fill();
 
-  for (let y = 0; y < canvas.height; y += moduleSize) {
-    for (let x = 0; x < canvas.width; x += moduleSize) {
-      const pixelIndex = (y * canvas.width + x) * 4;
-      const isDark = imageData.data[pixelIndex] < 128;
+  // Finder patterns are drawn from their known positions so any design keeps them recognizable
+  ctx.fillStyle = eyes.frameColor || foreground;
+  tracePath(ctx, frames);
+  ctx.fill('evenodd');
 
-      if (isDark) {
-        drawStyledModule(newCtx, x, y, moduleSize, style);
-      }
-    }
-  }
+  ctx.fillStyle = eyes.ballColor || foreground;
+  tracePath(ctx, balls);
+  ctx.fill();
 
-  return newCanvas;
+  return canvas;
 }
 
-// Draw styled module
-function drawStyledModule(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  size: number,
-  style: QRDesignStyle
-): void {
-  const padding = size * 0.1;
-  const actualSize = size - padding * 2;
-
-  switch (style) {
-    case 'rounded': {
-      const radius = actualSize / 4;
-      ctx.beginPath();
-      ctx.roundRect(x + padding, y + padding, actualSize, actualSize, radius);
-      ctx.fill();
-      break;
-    }
-    case 'dots': {
-      ctx.beginPath();
-      ctx.arc(x + size / 2, y + size / 2, actualSize / 2.2, 0, Math.PI * 2);
-      ctx.fill();
-      break;
-    }
-    case 'classy': {
-      ctx.fillRect(x + padding, y + padding, actualSize, actualSize);
-      break;
-    }
-    case 'classy-rounded': {
-      const radius = actualSize / 3;
-      ctx.beginPath();
-      ctx.roundRect(x + padding, y + padding, actualSize, actualSize, radius);
-      ctx.fill();
-      break;
-    }
-    case 'extra-rounded': {
-      const radius = actualSize / 2;
-      ctx.beginPath();
-      ctx.roundRect(x + padding, y + padding, actualSize, actualSize, radius);
-      ctx.fill();
-      break;
-    }
-    case 'diamond': {
-      ctx.beginPath();
-      ctx.moveTo(x + size / 2, y + padding);
-      ctx.lineTo(x + size - padding, y + size / 2);
-      ctx.lineTo(x + size / 2, y + size - padding);
-      ctx.lineTo(x + padding, y + size / 2);
-      ctx.closePath();
-      ctx.fill();
-      break;
-    }
-    case 'star': {
-      drawStar(ctx, x + size / 2, y + size / 2, actualSize / 2, 4);
-      break;
-    }
-    case 'fluid': {
-      const radius = actualSize / 2.5;
-      ctx.beginPath();
-      ctx.roundRect(x + padding, y + padding, actualSize, actualSize, radius);
-      ctx.fill();
-      break;
-    }
-    default:
-      ctx.fillRect(x, y, size, size);
+// Render complete QR code - design, logo and border in one pipeline
+export async function renderQRCanvas(
+  content: string,
+  options: QRRenderOptions
+): Promise<HTMLCanvasElement> {
+  const {
+    size,
+    design,
+    fgColor,
+    bgColor,
+    fgGradient,
+    bgGradient,
+    eyes,
+    errorCorrectionLevel,
+    logo,
+    logoShape = 'square',
+    logoLayout = 'center',
+    logoSize = 15,
+    logoExcavate = true,
+    logoPlate = true,
+    borderWidth = 0,
+    borderColor = '#ffffff',
+  } = applySwissCross(content, options);
+
+  const excavate = logo && logoExcavate;
+  let canvas = await generateQRCanvas(content, {
+    size,
+    fgColor,
+    bgColor,
+    fgGradient,
+    bgGradient,
+    eyes,
+    design,
+    errorCorrectionLevel,
+    excavate: excavate ? { layout: logoLayout, size: logoSize, shape: logoShape } : null,
+  });
+
+  if (logo) {
+    canvas = await addLogoToCanvas(canvas, logo, {
+      shape: logoShape,
+      layout: logoLayout,
+      size: logoSize,
+      bgColor,
+      bgGradient,
+      plate: !excavate && logoPlate,
+    });
   }
-}
 
-// Draw star shape
-function drawStar(
-  ctx: CanvasRenderingContext2D,
-  cx: number,
-  cy: number,
-  radius: number,
-  points: number
-): void {
-  ctx.beginPath();
-  for (let i = 0; i < points * 2; i++) {
-    const r = i % 2 === 0 ? radius : radius * 0.5;
-    const angle = (i * Math.PI) / points - Math.PI / 2;
-    const x = cx + r * Math.cos(angle);
-    const y = cy + r * Math.sin(angle);
-    if (i === 0) {
-      ctx.moveTo(x, y);
-    } else {
-      ctx.lineTo(x, y);
-    }
+  if (borderWidth > 0) {
+    canvas = addBorderToCanvas(canvas, borderWidth, borderColor);
   }
-  ctx.closePath();
-  ctx.fill();
+
+  return canvas;
+}
+
+// Swiss QR-bills always carry the Swiss cross - 7 mm on the 46 mm symbol, painted over the
+// modules in place of any custom logo
+export function applySwissCross(content: string, options: QRRenderOptions): QRRenderOptions {
+  if (!isSwissQrBill(content)) return options;
+  const modules = createQRMatrix(content, options.errorCorrectionLevel ?? 'H').size;
+  return {
+    ...options,
+    logo: SWISS_CROSS_LOGO,
+    logoShape: 'square',
+    logoLayout: 'center',
+    logoSize: (SWISS_CROSS_SIZE_MM / SWISS_QR_SIZE_MM) * (modules / (modules + QUIET_ZONE_MODULES * 2)) * 100,
+    logoExcavate: false,
+    logoPlate: false,
+  };
 }
 
 // Add logo to QR canvas
@@ -262,9 +312,11 @@ export async function addLogoToCanvas(
     layout: LogoLayout;
     size: number;
     bgColor: string;
+    bgGradient?: QRGradient | null; // plate continues the background gradient
+    plate?: boolean; // false when the modules under the logo were already cleared
   }
 ): Promise<HTMLCanvasElement> {
-  const { shape, layout, size, bgColor } = options;
+  const { shape, layout, size, bgColor, bgGradient, plate = true } = options;
   const ctx = canvas.getContext('2d');
   if (!ctx) return canvas;
 
@@ -272,117 +324,31 @@ export async function addLogoToCanvas(
   const logoImg = await loadImage(logo.data);
   if (!logoImg) return canvas;
 
-  const logoSize = canvas.width * (size / 100);
-  const position = calculateLogoPosition(canvas, layout, logoSize);
+  const box = calculateLogoBox(canvas.width, layout, size);
 
   // Draw background padding
-  const padding = logoSize * 0.15;
-  ctx.fillStyle = bgColor;
-
-  if (shape === 'circle') {
-    ctx.beginPath();
-    ctx.arc(
-      position.x + logoSize / 2,
-      position.y + logoSize / 2,
-      logoSize / 2 + padding,
-      0,
-      Math.PI * 2
-    );
-    ctx.fill();
-  } else if (shape === 'rounded') {
-    const radius = logoSize / 6;
-    ctx.beginPath();
-    ctx.roundRect(
-      position.x - padding,
-      position.y - padding,
-      logoSize + padding * 2,
-      logoSize + padding * 2,
-      radius
-    );
+  if (plate) {
+    ctx.fillStyle = bgGradient ? createCanvasGradient(ctx, bgGradient, 0, 0, canvas.width) : bgColor;
+    tracePath(ctx, buildLogoPlatePath(box, shape));
     ctx.fill();
-  } else {
-    ctx.fillRect(
-      position.x - padding,
-      position.y - padding,
-      logoSize + padding * 2,
-      logoSize + padding * 2
-    );
   }
 
   // Draw logo with clipping
   ctx.save();
-  if (shape === 'circle') {
-    ctx.beginPath();
-    ctx.arc(
-      position.x + logoSize / 2,
-      position.y + logoSize / 2,
-      logoSize / 2,
-      0,
-      Math.PI * 2
-    );
-    ctx.clip();
-  } else if (shape === 'rounded') {
-    const radius = logoSize / 6;
-    ctx.beginPath();
-    ctx.roundRect(position.x, position.y, logoSize, logoSize, radius);
+  const clipPath = buildLogoClipPath(box, shape);
+  if (clipPath) {
+    tracePath(ctx, clipPath);
     ctx.clip();
   }
 
-  ctx.drawImage(logoImg, position.x, position.y, logoSize, logoSize);
+  ctx.drawImage(logoImg, box.x, box.y, box.size, box.size);
   ctx.restore();
 
   return canvas;
 }
 
-// Calculate logo position based on layout
-function calculateLogoPosition(
-  canvas: HTMLCanvasElement,
-  layout: LogoLayout,
-  logoSize: number
-): { x: number; y: number } {
-  const margin = canvas.width * 0.08;
-
-  switch (layout) {
-    case 'center':
-      return {
-        x: (canvas.width - logoSize) / 2,
-        y: (canvas.height - logoSize) / 2,
-      };
-    case 'bottom-right':
-      return {
-        x: canvas.width - logoSize - margin,
-        y: canvas.height - logoSize - margin,
-      };
-    case 'bottom-left':
-      return {
-        x: margin,
-        y: canvas.height - logoSize - margin,
-      };
-    case 'top-right':
-      return {
-        x: canvas.width - logoSize - margin,
-        y: margin,
-      };
-    case 'top-left':
-      return {
-        x: margin,
-        y: margin,
-      };
-    case 'watermark':
-      return {
-        x: (canvas.width - logoSize) / 2,
-        y: canvas.height - logoSize - margin * 2,
-      };
-    default:
-      return {
-        x: (canvas.width - logoSize) / 2,
-        y: (canvas.height - logoSize) / 2,
-      };
-  }
-}
-
 // Load image from URL or data
-async function loadImage(src: string): Promise<HTMLImageElement | null> {
+export async function loadImage(src: string): Promise<HTMLImageElement | null> {
   return new Promise((resolve) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -593,6 +559,16 @@ export function downloadCanvas(
   link.click();
 }
 
+// Download blob as file
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 // Copy canvas to clipboard
 export async function copyCanvasToClipboard(
   canvas: HTMLCanvasElement
@@ -0,0 +1,128 @@
+import type { EapPhase2, WifiAuthType, WifiData } from './qr-types';
+import { EAP_METHODS } from './qr-types';
+
+// WiFi network checks: key formats per security type and a password strength estimate
+
+export type PasswordStrength = 'weak' | 'fair' | 'strong';
+
+// Passwords that show up at the top of every breach list and router default
+const COMMON_PASSWORDS = [
+  'password', 'passw0rd', '12345678', '123456789', '1234567890', '87654321', 'qwertyui', 'qwerty123',
+  'iloveyou', 'sunshine', 'football', 'baseball', 'welcome1', 'admin123', 'letmein1', 'internet',
+  'wireless', 'wifipassword', 'guestwifi', 'abcd1234', '11111111', '00000000',
+];
+
+// Entropy below 40 bits falls to an offline WPA handshake attack quickly; 60+ holds up
+const WEAK_BITS = 40;
+const STRONG_BITS = 60;
+
+// T: value as written by any generator - WPA3 and EAP spellings vary between vendors
+export function normalizeWifiAuthType(value: string): WifiAuthType {
+  const type = value.trim().toUpperCase();
+  if (type === 'WEP') return 'WEP';
+  if (type === 'NOPASS' || type === 'NONE' || type === 'OPEN') return 'nopass';
+  if (type === 'SAE' || type === 'WPA3') return 'SAE';
+  if (type.includes('EAP') || type === 'ENTERPRISE') return 'WPA2-EAP';
+  return 'WPA';
+}
+
+// Form fields back to typed network settings; unknown EAP values fall back to the defaults
+export function wifiFromFormData(data: Record<string, string>): WifiData {
+  const method = EAP_METHODS.find((m) => m.value === data.eapMethod?.toUpperCase()) ?? EAP_METHODS[0];
+  const phase2 = (data.phase2 ?? '').toUpperCase() as EapPhase2;
+  return {
+    ssid: data.ssid ?? '',
+    password: data.password ?? '',
+    authType: normalizeWifiAuthType(data.authType || 'WPA'),
+    hidden: data.hidden === 'true',
+    transitionDisable: data.transitionDisable === 'true',
+    eapMethod: method.value,
+    phase2: method.phase2.includes(phase2) ? phase2 : method.phase2[0] ?? 'NONE',
+    identity: data.identity ?? '',
+    anonymousIdentity: data.anonymousIdentity ?? '',
+  };
+}
+
+export function wifiToFormData(wifi: WifiData): Record<string, string> {
+  return {
+    ...wifi,
+    hidden: String(wifi.hidden),
+    transitionDisable: String(wifi.transitionDisable),
+  };
+}
+
+// Problems that would keep a device from joining, keyed by field
+export function getWifiErrors(wifi: WifiData): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const ssidBytes = new TextEncoder().encode(wifi.ssid).length;
+  if (!wifi.ssid.trim()) errors.ssid = 'Network name is required';
+  else if (ssidBytes > 32) errors.ssid = 'Network names are at most 32 bytes';
+
+  const { password } = wifi;
+  switch (wifi.authType) {
+    case 'WPA':
+    case 'SAE':
+      // SAE accepts any length, but WPA2 fallback and most devices expect a WPA passphrase
+      if (!/^[0-9a-fA-F]{64}$/.test(password) && (password.length < 8 || password.length > 63)) {
+        errors.password = 'Use 8 to 63 characters (or a 64 digit hex key)';
+      }
+      break;
+    case 'WEP':
+      if (![5, 13].includes(password.length) && !/^([0-9a-fA-F]{10}|[0-9a-fA-F]{26})$/.test(password)) {
+        errors.password = 'WEP keys are 5 or 13 characters, or 10 or 26 hex digits';
+      }
+      break;
+    case 'WPA2-EAP': {
+      const method = EAP_METHODS.find((m) => m.value === wifi.eapMethod);
+      if (method?.password && !wifi.identity.trim()) errors.identity = 'Identity is required for this method';
+      if (method?.password && !password) errors.password = 'Password is required for this method';
+      break;
+    }
+  }
+  return errors;
+}
+
+// Rough entropy: character pool size to the power of the length, minus obvious patterns
+export function estimatePasswordStrength(password: string): { strength: PasswordStrength; bits: number } {
+  if (!password) return { strength: 'weak', bits: 0 };
+
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/\d/.test(password)) pool += 10;
+  if (/[^a-zA-Z\d]/.test(password)) pool += 33;
+
+  // Repeats and runs (aaaa, 1234, abcd) add almost nothing
+  let effective = 0;
+  [...password].forEach((char, i) => {
+    const previous = password.charCodeAt(i - 1);
+    const code = char.charCodeAt(0);
+    effective += i > 0 && (code === previous || Math.abs(code - previous) === 1) ? 0.25 : 1;
+  });
+
+  const lower = password.toLowerCase();
+  const bits = COMMON_PASSWORDS.some((common) => lower.includes(common))
+    ? Math.min(effective * Math.log2(pool), WEAK_BITS - 1)
+    : effective * Math.log2(pool);
+  const strength = bits < WEAK_BITS ? 'weak' : bits < STRONG_BITS ? 'fair' : 'strong';
+  return { strength, bits: Math.round(bits) };
+}
+
+// Security advice that does not block generating the code
+export function getWifiWarnings(wifi: WifiData): string[] {
+  const warnings: string[] = [];
+  if (wifi.authType === 'WEP') {
+    warnings.push('WEP can be cracked in minutes - switch the router to WPA2 or WPA3 if possible');
+  }
+  if (wifi.authType === 'nopass') {
+    warnings.push('Open networks are unencrypted - anyone nearby can read the traffic');
+  }
+  if (
+    (wifi.authType === 'WPA' || wifi.authType === 'SAE' || wifi.authType === 'WEP') &&
+    wifi.password &&
+    estimatePasswordStrength(wifi.password).strength === 'weak'
+  ) {
+    warnings.push('This password is easy to guess - use a longer passphrase with mixed characters');
+  }
+  return warnings;
+}
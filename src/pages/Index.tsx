@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
@@ -11,11 +11,23 @@ import { LogoManager } from '@/components/LogoManager';
 import { LivePreview } from '@/components/LivePreview';
 import { QRScanner } from '@/components/QRScanner';
 import { BatchScanner } from '@/components/BatchScanner';
+import { useScanInbox } from '@/hooks/use-scan-inbox';
 import { QRHistory } from '@/components/QRHistory';
 import { ColorPresets, type ColorPreset } from '@/components/ColorPresets';
 import { BatchGenerator } from '@/components/BatchGenerator';
 import { PrintDialog } from '@/components/PrintDialog';
-import { DownloadOptions, type ImageFormat } from '@/components/DownloadOptions';
+import { DownloadOptions, type ImageFormat, type DownloadSettings } from '@/components/DownloadOptions';
+import { ErrorCorrectionSelector } from '@/components/ErrorCorrectionSelector';
+import { RobustnessPanel } from '@/components/RobustnessPanel';
+import { GradientEditor } from '@/components/GradientEditor';
+import { EyeStyleSelector } from '@/components/EyeStyleSelector';
+import { ContactForm } from '@/components/ContactForm';
+import { EventForm } from '@/components/EventForm';
+import { PhoneNumberInput } from '@/components/PhoneNumberInput';
+import { GeoForm } from '@/components/GeoForm';
+import { PaymentForm } from '@/components/PaymentForm';
+import { OtpForm } from '@/components/OtpForm';
+import { WifiForm } from '@/components/WifiForm';
 import { type QRQuality, getQualitySize } from '@/components/QualitySelector';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -58,22 +70,56 @@ import type {
   LogoLayout,
   VerificationStatus,
   QRHistoryItem,
+  QRRenderOptions,
+  ErrorCorrectionLevel,
+  QRGradient,
+  QREyeStyle,
+  EventData,
+  GeoData,
+  OtpData,
+  SmsFormat,
+  CallScheme,
+  VCardData,
+  VCardFormat,
+  WifiData,
 } from '@/lib/qr-types';
 import {
+  DEFAULT_EYE_STYLE,
   DESIGN_STYLES,
+  EMPTY_CONTACT,
+  EMPTY_GEO,
+  EMPTY_OTP,
+  EMPTY_WIFI,
   LOGO_SHAPES,
   LOGO_LAYOUTS,
-  COUNTRY_CODES,
+  SMS_FORMATS,
+  CALL_SCHEMES,
 } from '@/lib/qr-types';
 import {
   generateQRContent,
-  generateQRCanvas,
-  applyDesignStyle,
-  addLogoToCanvas,
-  addBorderToCanvas,
+  isFormDataValid,
+  renderQRCanvas,
   copyCanvasToClipboard,
   shareCanvas,
+  downloadBlob,
 } from '@/lib/qr-utils';
+import { renderQRSvg, downloadSvg } from '@/lib/qr-svg';
+import { createQRPdf } from '@/lib/qr-pdf';
+import { verifyQRCanvas, verifyQRPdf, verifyQRSvg, type QRVerification } from '@/lib/qr-decode';
+import { createGradient } from '@/lib/qr-gradient';
+import { runRobustnessTest, type RobustnessReport } from '@/lib/qr-robustness';
+import { assessLogoExcavation, type ExcavationReport } from '@/lib/qr-excavation';
+import { parseQRContent, type ParsedQRContent } from '@/lib/qr-parse';
+import {
+  contactFromFormData,
+  contactToFormData,
+  createDefaultEvent,
+  eventFromFormData,
+  eventToFormData,
+} from '@/lib/qr-payload';
+import { redactOtpSecret } from '@/lib/qr-otp';
+import { wifiFromFormData, wifiToFormData } from '@/lib/qr-wifi';
+import { cn } from '@/lib/utils';
 
 const Index = () => {
   // Core State
@@ -89,28 +135,28 @@ const Index = () => {
   const [phoneValue, setPhoneValue] = useState('');
   const [countryCode, setCountryCode] = useState('91');
   const [messageValue, setMessageValue] = useState('Hello');
+  const [smsFormat, setSmsFormat] = useState<SmsFormat>('smsto');
+  const [callScheme, setCallScheme] = useState<CallScheme>('tel');
   const [emailValue, setEmailValue] = useState('');
   const [emailSubject, setEmailSubject] = useState('');
   const [emailBody, setEmailBody] = useState('');
-  const [wifiSSID, setWifiSSID] = useState('');
-  const [wifiPassword, setWifiPassword] = useState('');
-  const [wifiAuth, setWifiAuth] = useState<'WPA' | 'WEP' | 'nopass'>('WPA');
-  const [wifiHidden, setWifiHidden] = useState(false);
-  const [vcardFirstName, setVcardFirstName] = useState('');
-  const [vcardLastName, setVcardLastName] = useState('');
-  const [vcardPhone, setVcardPhone] = useState('');
-  const [vcardEmail, setVcardEmail] = useState('');
-  const [vcardCompany, setVcardCompany] = useState('');
-  const [vcardTitle, setVcardTitle] = useState('');
-  const [vcardWebsite, setVcardWebsite] = useState('');
+  const [wifi, setWifi] = useState<WifiData>(EMPTY_WIFI);
+  const [contact, setContact] = useState<VCardData>(EMPTY_CONTACT);
+  const [contactFormat, setContactFormat] = useState<VCardFormat>('3.0');
+  const [event, setEvent] = useState<EventData>(() => createDefaultEvent());
+  const [geo, setGeo] = useState<GeoData>(EMPTY_GEO);
+  const [payment, setPayment] = useState<Record<string, string>>({ scheme: 'upi' });
+  const [otp, setOtp] = useState<OtpData>(EMPTY_OTP);
 
   // Colors
   const [customColors, setCustomColors] = useState(false);
   const [fgColor, setFgColor] = useState('#000000');
   const [bgColor, setBgColor] = useState('#ffffff');
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
-  const [isGradient, setIsGradient] = useState(false);
-  const [gradientColors, setGradientColors] = useState<string[]>([]);
+  const [fgGradient, setFgGradient] = useState<QRGradient | null>(null);
+  const [bgGradient, setBgGradient] = useState<QRGradient | null>(null);
+  const [errorCorrectionLevel, setErrorCorrectionLevel] = useState<ErrorCorrectionLevel>('H');
+  const [eyeStyle, setEyeStyle] = useState<QREyeStyle>(DEFAULT_EYE_STYLE);
 
   // Logo - preset to square shape
   const [enableLogo, setEnableLogo] = useState(false);
@@ -118,6 +164,7 @@ const Index = () => {
   const [logoShape, setLogoShape] = useState<LogoShape>('square');
   const [logoLayout, setLogoLayout] = useState<LogoLayout>('center');
   const [logoSize, setLogoSize] = useState(15);
+  const [logoExcavate, setLogoExcavate] = useState(true);
 
   // Border - preset to 15px white
   const [enableBorder, setEnableBorder] = useState(false);
@@ -127,6 +174,9 @@ const Index = () => {
   // Verification
   const [verificationStatus, setVerificationStatus] = useState<VerificationStatus>('idle');
   const [verificationMessage, setVerificationMessage] = useState('');
+  const [robustnessReport, setRobustnessReport] = useState<RobustnessReport | null>(null);
+  const [isStressTesting, setIsStressTesting] = useState(false);
+  const [stressProgress, setStressProgress] = useState(0);
 
   // History with limit slider
   const [history, setHistory] = useState<QRHistoryItem[]>([]);
@@ -135,7 +185,10 @@ const Index = () => {
   const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
   
   // Batch scanner contents
-  const [batchScanContents, setBatchScanContents] = useState<string[]>([]);
+  const [batchScanContents, setBatchScanContents] = useState<ParsedQRContent[]>([]);
+
+  // Images pasted or dropped anywhere on the Scan tab
+  const scanInbox = useScanInbox(activeTab === 'scan');
 
   // Canvas Ref
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -173,8 +226,7 @@ const Index = () => {
     setSelectedPreset(preset.id);
     setFgColor(preset.fg);
     setBgColor(preset.bg);
-    setIsGradient(!!preset.isGradient);
-    setGradientColors(preset.gradientColors || []);
+    setFgGradient(preset.isGradient && preset.gradientColors ? createGradient(preset.gradientColors) : null);
     setCustomColors(true);
   };
 
@@ -185,55 +237,65 @@ const Index = () => {
         return { url: urlValue };
       case 'whatsapp':
         return { phone: phoneValue, countryCode, message: messageValue };
+      case 'sms':
+        return { phone: phoneValue, countryCode, message: messageValue, format: smsFormat };
+      case 'tel':
+        return { phone: phoneValue, countryCode, scheme: callScheme };
       case 'text':
         return { text: textValue };
       case 'wifi':
-        return {
-          ssid: wifiSSID,
-          password: wifiPassword,
-          authType: wifiAuth,
-          hidden: wifiHidden.toString(),
-        };
+        return wifiToFormData(wifi);
       case 'vcard':
-        return {
-          firstName: vcardFirstName,
-          lastName: vcardLastName,
-          phone: vcardPhone,
-          email: vcardEmail,
-          company: vcardCompany,
-          title: vcardTitle,
-          website: vcardWebsite,
-        };
+        return contactToFormData(contact, contactFormat);
       case 'email':
         return { email: emailValue, subject: emailSubject, body: emailBody };
+      case 'event':
+        return eventToFormData(event);
+      case 'geo':
+        return { ...geo };
+      case 'payment':
+        return { ...payment };
+      case 'otp':
+        return { ...otp };
       default:
         return {};
     }
   }, [
-    mode, urlValue, textValue, phoneValue, countryCode, messageValue,
-    emailValue, emailSubject, emailBody, wifiSSID, wifiPassword, wifiAuth, wifiHidden,
-    vcardFirstName, vcardLastName, vcardPhone, vcardEmail, vcardCompany, vcardTitle, vcardWebsite
+    mode, urlValue, textValue, phoneValue, countryCode, messageValue, smsFormat, callScheme,
+    emailValue, emailSubject, emailBody, wifi,
+    contact, contactFormat, event, geo, payment, otp
   ]);
 
   // Validate content
-  const isContentValid = useCallback(() => {
-    switch (mode) {
-      case 'url':
-        return urlValue.trim().length >= 3;
-      case 'whatsapp':
-        return phoneValue.replace(/\D/g, '').length >= 7;
-      case 'text':
-        return textValue.trim().length > 0;
-      case 'wifi':
-        return wifiSSID.trim().length > 0;
-      case 'vcard':
-        return vcardFirstName.trim().length > 0 || vcardLastName.trim().length > 0;
-      case 'email':
-        return emailValue.includes('@');
-      default:
-        return false;
-    }
-  }, [mode, urlValue, textValue, phoneValue, wifiSSID, vcardFirstName, vcardLastName, emailValue]);
+  const isContentValid = useCallback(() => isFormDataValid(mode, getFormData()), [mode, getFormData]);
+
+  // Render options for the current design settings
+  const getRenderOptions = useCallback((size: number): QRRenderOptions => ({
+    size,
+    design: designStyle,
+    fgColor: customColors ? fgColor : '#000000',
+    bgColor: customColors ? bgColor : '#ffffff',
+    fgGradient: customColors ? fgGradient : null,
+    bgGradient: customColors ? bgGradient : null,
+    eyes: eyeStyle,
+    errorCorrectionLevel,
+    logo: enableLogo ? selectedLogo : null,
+    logoShape,
+    logoLayout,
+    logoSize,
+    logoExcavate,
+    borderWidth: enableBorder ? borderWidth : 0,
+    borderColor,
+  }), [
+    designStyle, customColors, fgColor, bgColor, fgGradient, bgGradient, eyeStyle, errorCorrectionLevel, enableLogo, selectedLogo,
+    logoShape, logoLayout, logoSize, logoExcavate, enableBorder, borderWidth, borderColor
+  ]);
+
+  // Codewords the logo destroys - checked against what the error correction level can recover
+  const logoDamage = useMemo(
+    () => (enableLogo && previewContent ? assessLogoExcavation(previewContent, getRenderOptions(800)) : null),
+    [enableLogo, previewContent, getRenderOptions]
+  );
 
   // Generate QR Code
   const generateQR = useCallback(async () => {
@@ -250,34 +312,15 @@ const Index = () => {
       const content = generateQRContent(mode, getFormData());
       setPreviewContent(content);
 
-      // Generate base QR canvas
-      let canvas = await generateQRCanvas(content, {
-        fgColor: customColors ? fgColor : '#000000',
-        bgColor: customColors ? bgColor : '#ffffff',
-      });
-
-      // Apply design style
-      canvas = applyDesignStyle(
-        canvas,
-        designStyle,
-        customColors ? fgColor : '#000000',
-        customColors ? bgColor : '#ffffff'
-      );
-
-      // Add logo if enabled
-      if (enableLogo && selectedLogo) {
-        canvas = await addLogoToCanvas(canvas, selectedLogo, {
-          shape: logoShape,
-          layout: logoLayout,
-          size: logoSize,
-          bgColor: customColors ? bgColor : '#ffffff',
-        });
+      const damage = assessLogoExcavation(content, getRenderOptions(800));
+      if (damage?.status === 'unrecoverable') {
+        setVerificationStatus('error');
+        setVerificationMessage(damage.message);
+        toast.error(`${damage.message}. Shrink the logo or raise the error correction level.`);
+        return;
       }
 
-      // Add border if enabled
-      if (enableBorder) {
-        canvas = addBorderToCanvas(canvas, borderWidth, borderColor);
-      }
+      const canvas = await renderQRCanvas(content, getRenderOptions(800));
 
       // Store generated canvas
       generatedCanvasRef.current = canvas;
@@ -295,12 +338,16 @@ const Index = () => {
       setHasQR(true);
 
       // Verify QR
-      await verifyQR();
+      const verification = await verifyQR(canvas, content, damage);
 
       // Add to history
       addToHistory(content);
 
-      toast.success('QR code generated!');
+      if (verification.ok) {
+        toast.success('QR code generated!');
+      } else {
+        toast.error(`QR code generated, but it does not scan: ${verification.message}`);
+      }
     } catch (error) {
       console.error('QR generation error:', error);
       setVerificationStatus('error');
@@ -309,39 +356,84 @@ const Index = () => {
     } finally {
       setIsGenerating(false);
     }
-  }, [
-    isContentValid, mode, getFormData, customColors, fgColor, bgColor,
-    designStyle, enableLogo, selectedLogo, logoShape, logoLayout, logoSize,
-    enableBorder, borderWidth, borderColor
-  ]);
+  }, [isContentValid, mode, getFormData, getRenderOptions]);
 
-  // Verify QR code
-  const verifyQR = async () => {
-    await new Promise((r) => setTimeout(r, 500));
+  // Verify QR code - decode the final canvas and compare with the intended content
+  const verifyQR = async (canvas: HTMLCanvasElement, content: string, damage: ExcavationReport | null) => {
+    setVerificationMessage('Verifying by decoding...');
+    const result = await verifyQRCanvas(canvas, content);
 
-    if (enableLogo && logoSize > 20) {
+    if (!result.ok) {
+      setVerificationStatus('error');
+      setVerificationMessage(result.message);
+    } else if (damage?.status === 'warning') {
       setVerificationStatus('warning');
-      setVerificationMessage(`Logo may be too large (${logoSize}%) - Try ≤20%`);
-    } else if (enableLogo && selectedLogo) {
-      setVerificationStatus('verified');
-      setVerificationMessage('Verified - QR should scan correctly');
-      setTimeout(() => setVerificationStatus('idle'), 3000);
+      setVerificationMessage(`Decoded OK - ${damage.message}`);
     } else {
       setVerificationStatus('verified');
-      setVerificationMessage('Verified - High quality QR code');
+      setVerificationMessage(result.message);
       setTimeout(() => setVerificationStatus('idle'), 3000);
     }
+    return result;
+  };
+
+  // Stress test - re-decode after simulated print/camera degradations
+  const handleStressTest = async () => {
+    if (!previewContent) return;
+
+    setIsStressTesting(true);
+    setStressProgress(0);
+    setVerificationStatus('verifying');
+    setVerificationMessage('Stress testing scan robustness...');
+
+    try {
+      const canvas = await renderQRCanvas(previewContent, getRenderOptions(800));
+      const report = await runRobustnessTest(canvas, previewContent, (done, total) =>
+        setStressProgress((done / total) * 100)
+      );
+      setRobustnessReport(report);
+
+      const failed = report.results.filter((r) => !r.passed).map((r) => r.label);
+      const summary = `Robustness ${report.passed}/${report.total}`;
+      if (failed.length === 0) {
+        setVerificationStatus('verified');
+        setVerificationMessage(`${summary} - survives every degradation`);
+      } else {
+        setVerificationStatus(report.score >= 70 ? 'warning' : 'error');
+        setVerificationMessage(`${summary} - fails: ${failed.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Stress test error:', error);
+      setVerificationStatus('error');
+      setVerificationMessage('Stress test failed to run');
+    } finally {
+      setIsStressTesting(false);
+    }
   };
 
+  // A report only describes the design it was run on
+  useEffect(() => {
+    setRobustnessReport(null);
+  }, [previewContent, getRenderOptions]);
+
   // Add to history - stores settings only (no image data) to save space
   // Only called when Generate button is clicked - prevents duplicates
-  const addToHistory = (content: string) => {
+  const addToHistory = (generated: string) => {
     if (maxHistory === 0) return; // History disabled
+
+    // OTP secrets never reach localStorage - the entry keeps issuer, account and settings only
+    const isOtp = mode === 'otp';
+    const content = isOtp ? redactOtpSecret(generated) : generated;
+    const formData = isOtp ? { ...getFormData(), secret: '' } : getFormData();
     
     // Check for duplicates (same content and design)
     const isDuplicate = history.some(
       h => h.content === content && h.design === designStyle && 
-           h.colors.fg === fgColor && h.colors.bg === bgColor
+           h.colors.fg === fgColor && h.colors.bg === bgColor &&
+           (h.errorCorrectionLevel ?? 'H') === errorCorrectionLevel &&
+           JSON.stringify(h.fgGradient ?? null) === JSON.stringify(customColors ? fgGradient : null) &&
+           JSON.stringify(h.bgGradient ?? null) === JSON.stringify(customColors ? bgGradient : null) &&
+           JSON.stringify(h.eyes ?? DEFAULT_EYE_STYLE) === JSON.stringify(eyeStyle)
     );
     if (isDuplicate) return;
     
@@ -360,70 +452,93 @@ const Index = () => {
       logoShape: enableLogo ? logoShape : undefined,
       logoLayout: enableLogo ? logoLayout : undefined,
       logoSize: enableLogo ? logoSize : undefined,
-      formData: getFormData(),
+      logoExcavate: enableLogo ? logoExcavate : undefined,
+      errorCorrectionLevel,
+      fgGradient: customColors && fgGradient ? fgGradient : undefined,
+      bgGradient: customColors && bgGradient ? bgGradient : undefined,
+      eyes: eyeStyle,
+      formData,
     };
 
     setHistory((prev) => [item, ...prev.slice(0, maxHistory - 1)]);
   };
 
   // Download with options - uses toBlob for large canvases to avoid 0-byte files
-  const handleDownload = async (filename: string, quality: QRQuality, format: ImageFormat) => {
-    if (!previewContent) return;
+  const handleDownload = async (
+    filename: string,
+    quality: QRQuality,
+    format: ImageFormat,
+    settings: Partial<DownloadSettings> = {}
+  ): Promise<boolean> => {
+    if (!previewContent) return false;
     
     try {
       const size = getQualitySize(quality);
-      
-      // Generate high-quality canvas
-      let canvas = await generateQRCanvas(previewContent, {
-        fgColor: customColors ? fgColor : '#000000',
-        bgColor: customColors ? bgColor : '#ffffff',
-        size,
+      const renderOptions = (renderSize: number): QRRenderOptions => ({
+        ...getRenderOptions(renderSize),
+        errorCorrectionLevel: settings.errorCorrectionLevel ?? errorCorrectionLevel,
       });
 
-      canvas = applyDesignStyle(canvas, designStyle, customColors ? fgColor : '#000000', customColors ? bgColor : '#ffffff');
-
-      if (enableLogo && selectedLogo) {
-        canvas = await addLogoToCanvas(canvas, selectedLogo, {
-          shape: logoShape,
-          layout: logoLayout,
-          size: logoSize,
-          bgColor: customColors ? bgColor : '#ffffff',
-        });
+      // The export level can differ from the preview's, so the logo is checked again at that level
+      const damage = assessLogoExcavation(previewContent, renderOptions(800));
+      if (damage?.status === 'unrecoverable') {
+        toast.error(`${damage.message}. Shrink the logo or raise the error correction level.`);
+        return false;
       }
 
-      if (enableBorder) {
-        canvas = addBorderToCanvas(canvas, borderWidth, borderColor);
-      }
+      let verification: QRVerification;
+      // Vector output - no rasterization at all
+      if (format === 'pdf') {
+        const pdf = await createQRPdf(previewContent, renderOptions(1024), settings.pdfSizeMm ?? 50);
+        verification = await verifyQRPdf(pdf, previewContent);
+        downloadBlob(pdf, `${filename}.pdf`);
+      } else if (format === 'svg') {
+        const svg = await renderQRSvg(previewContent, renderOptions(size));
+        verification = await verifyQRSvg(svg, previewContent);
+        downloadSvg(svg, filename);
+      } else {
+        // Generate high-quality canvas
+        const canvas = await renderQRCanvas(previewContent, renderOptions(size));
+        verification = await verifyQRCanvas(canvas, previewContent);
 
-      const mimeType = format === 'jpeg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
-      
-      // Use toBlob for large canvases (8K+) to avoid memory issues with toDataURL
-      if (size >= 8192) {
-        const blob = await new Promise<Blob | null>((resolve) => {
-          canvas.toBlob(resolve, mimeType, 0.95);
-        });
+        const mimeType = format === 'jpeg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
         
-        if (!blob) {
-          throw new Error('Failed to generate image blob');
+        // Use toBlob for large canvases (8K+) to avoid memory issues with toDataURL
+        if (size >= 8192) {
+          const blob = await new Promise<Blob | null>((resolve) => {
+            canvas.toBlob(resolve, mimeType, 0.95);
+          });
+          
+          if (!blob) {
+            throw new Error('Failed to generate image blob');
+          }
+          
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.download = `${filename}.${format}`;
+          link.href = url;
+          link.click();
+          
+          // Clean up blob URL after download
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } else {
+          const link = document.createElement('a');
+          link.download = `${filename}.${format}`;
+          link.href = canvas.toDataURL(mimeType, 0.95);
+          link.click();
         }
-        
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.download = `${filename}.${format}`;
-        link.href = url;
-        link.click();
-        
-        // Clean up blob URL after download
-        setTimeout(() => URL.revokeObjectURL(url), 1000);
-      } else {
-        const link = document.createElement('a');
-        link.download = `${filename}.${format}`;
-        link.href = canvas.toDataURL(mimeType, 0.95);
-        link.click();
       }
+
+      if (!verification.ok) {
+        toast.error(`Downloaded, but the file does not scan: ${verification.message}`);
+      } else if (damage?.status === 'warning') {
+        toast.warning(`Downloaded - ${damage.message}`);
+      }
+      return verification.ok;
     } catch (error) {
       console.error('Download error:', error);
       toast.error('Failed to download');
+      return false;
     }
   };
 
@@ -444,8 +559,7 @@ const Index = () => {
   // Quick download without dialog
   const handleQuickDownload = async () => {
     if (!previewContent) return;
-    await handleDownload(`qr-${mode}`, 'high', 'png');
-    toast.success('QR code downloaded!');
+    if (await handleDownload(`qr-${mode}`, 'high', 'png')) toast.success('QR code downloaded!');
   };
 
   // Copy
@@ -474,7 +588,11 @@ const Index = () => {
     setDesignStyle(item.design);
     setFgColor(item.colors.fg);
     setBgColor(item.colors.bg);
-    if (item.colors.fg !== '#000000' || item.colors.bg !== '#ffffff') {
+    setErrorCorrectionLevel(item.errorCorrectionLevel ?? 'H');
+    setFgGradient(item.fgGradient ?? null);
+    setBgGradient(item.bgGradient ?? null);
+    setEyeStyle(item.eyes ?? DEFAULT_EYE_STYLE);
+    if (item.colors.fg !== '#000000' || item.colors.bg !== '#ffffff' || item.fgGradient || item.bgGradient) {
       setCustomColors(true);
     }
     
@@ -493,54 +611,20 @@ const Index = () => {
       if (item.logoShape) setLogoShape(item.logoShape);
       if (item.logoLayout) setLogoLayout(item.logoLayout);
       if (item.logoSize) setLogoSize(item.logoSize);
+      setLogoExcavate(item.logoExcavate ?? true);
     }
     
-    // Restore form data
-    if (item.formData) {
-      const fd = item.formData;
-      switch (item.type) {
-        case 'url':
-          setUrlValue(fd.url || item.content.replace(/^https?:\/\//, ''));
-          break;
-        case 'text':
-          setTextValue(fd.text || item.content);
-          break;
-        case 'whatsapp':
-          if (fd.phone) setPhoneValue(fd.phone);
-          if (fd.countryCode) setCountryCode(fd.countryCode);
-          if (fd.message) setMessageValue(fd.message);
-          break;
-        case 'email':
-          if (fd.email) setEmailValue(fd.email);
-          if (fd.subject) setEmailSubject(fd.subject);
-          if (fd.body) setEmailBody(fd.body);
-          break;
-        case 'wifi':
-          if (fd.ssid) setWifiSSID(fd.ssid);
-          if (fd.password) setWifiPassword(fd.password);
-          if (fd.authType) setWifiAuth(fd.authType as 'WPA' | 'WEP' | 'nopass');
-          if (fd.hidden) setWifiHidden(fd.hidden === 'true');
-          break;
-        case 'vcard':
-          if (fd.firstName) setVcardFirstName(fd.firstName);
-          if (fd.lastName) setVcardLastName(fd.lastName);
-          if (fd.phone) setVcardPhone(fd.phone);
-          if (fd.email) setVcardEmail(fd.email);
-          if (fd.company) setVcardCompany(fd.company);
-          if (fd.title) setVcardTitle(fd.title);
-          if (fd.website) setVcardWebsite(fd.website);
-          break;
-      }
-    } else {
-      // Fallback: parse content directly
-      if (item.type === 'url') {
-        setUrlValue(item.content.replace(/^https?:\/\//, ''));
-      } else if (item.type === 'text') {
-        setTextValue(item.content);
-      }
-    }
+    // Restore form data - older entries without it are parsed from the content
+    const restored = item.formData ? { mode: item.type, formData: item.formData } : parseQRContent(item.content);
+    applyFormData(restored.mode, restored.formData);
     
     setActiveTab('generate');
+
+    // History never holds OTP secrets, so there is nothing to generate yet
+    if (restored.mode === 'otp') {
+      toast.success('Loaded from history', { description: 'Enter or generate the secret again' });
+      return;
+    }
     toast.success('Loaded from history');
     
     setTimeout(generateQR, 100);
@@ -553,35 +637,64 @@ const Index = () => {
     toast.success('History cleared');
   };
 
-  // Handle extracted content from scanner
-  const handleExtractedContent = (content: string) => {
-    // Detect content type
-    if (content.startsWith('http://') || content.startsWith('https://')) {
-      setMode('url');
-      setUrlValue(content.replace(/^https?:\/\//, ''));
-    } else if (content.startsWith('WIFI:')) {
-      setMode('wifi');
-      const ssidMatch = content.match(/S:([^;]*)/);
-      const passMatch = content.match(/P:([^;]*)/);
-      if (ssidMatch) setWifiSSID(ssidMatch[1]);
-      if (passMatch) setWifiPassword(passMatch[1]);
-    } else if (content.startsWith('mailto:')) {
-      setMode('email');
-      const email = content.replace('mailto:', '').split('?')[0];
-      setEmailValue(email);
-    } else if (content.startsWith('https://wa.me/')) {
-      setMode('whatsapp');
-      const match = content.match(/wa\.me\/(\d+)/);
-      if (match) {
-        const fullNumber = match[1];
-        setPhoneValue(fullNumber.slice(2));
-        setCountryCode(fullNumber.slice(0, 2));
+  // Fill the generator form from parsed payload fields
+  const applyFormData = (target: QRMode, fd: Record<string, string>) => {
+    setMode(target);
+    switch (target) {
+      case 'url':
+        setUrlValue(fd.url ?? '');
+        break;
+      case 'text':
+        setTextValue(fd.text ?? '');
+        break;
+      case 'whatsapp':
+        setPhoneValue(fd.phone ?? '');
+        if (fd.countryCode) setCountryCode(fd.countryCode);
+        setMessageValue(fd.message ?? '');
+        break;
+      case 'sms':
+        setPhoneValue(fd.phone ?? '');
+        setCountryCode(fd.countryCode ?? '');
+        setMessageValue(fd.message ?? '');
+        setSmsFormat((fd.format as SmsFormat) || 'smsto');
+        break;
+      case 'tel':
+        setPhoneValue(fd.phone ?? '');
+        setCountryCode(fd.countryCode ?? '');
+        setCallScheme((fd.scheme as CallScheme) || 'tel');
+        break;
+      case 'email':
+        setEmailValue(fd.email ?? '');
+        setEmailSubject(fd.subject ?? '');
+        setEmailBody(fd.body ?? '');
+        break;
+      case 'wifi':
+        setWifi(wifiFromFormData(fd));
+        break;
+      case 'vcard': {
+        const parsed = contactFromFormData(fd);
+        setContact(parsed.contact);
+        setContactFormat(parsed.format);
+        break;
       }
-    } else {
-      setMode('text');
-      setTextValue(content);
+      case 'event':
+        setEvent(eventFromFormData(fd));
+        break;
+      case 'geo':
+        setGeo({ ...EMPTY_GEO, ...fd });
+        break;
+      case 'payment':
+        setPayment({ scheme: 'upi', ...fd });
+        break;
+      case 'otp':
+        setOtp({ ...EMPTY_OTP, ...fd } as OtpData);
+        break;
     }
-    
+  };
+
+  // Handle extracted content from scanner
+  const handleExtractedContent = ({ mode: detected, formData }: ParsedQRContent) => {
+    applyFormData(detected, formData);
     setActiveTab('generate');
   };
 
@@ -594,17 +707,24 @@ const Index = () => {
     setEmailValue('');
     setEmailSubject('');
     setEmailBody('');
-    setWifiSSID('');
-    setWifiPassword('');
+    setWifi(EMPTY_WIFI);
+    setContact(EMPTY_CONTACT);
+    setEvent(createDefaultEvent());
+    setGeo(EMPTY_GEO);
+    setPayment({ scheme: 'upi' });
+    setOtp(EMPTY_OTP);
     setDesignStyle('square');
     setCustomColors(false);
     setFgColor('#000000');
     setBgColor('#ffffff');
     setSelectedPreset(null);
-    setIsGradient(false);
-    setGradientColors([]);
+    setFgGradient(null);
+    setBgGradient(null);
+    setErrorCorrectionLevel('H');
+    setEyeStyle(DEFAULT_EYE_STYLE);
     setEnableLogo(false);
     setSelectedLogo(null);
+    setLogoExcavate(true);
     setEnableBorder(false);
     setHasQR(false);
     setPreviewContent('');
@@ -696,26 +816,12 @@ const Index = () => {
                         >
                           <div className="space-y-2">
                             <Label>Phone Number</Label>
-                            <div className="flex gap-2">
-                              <Select value={countryCode} onValueChange={setCountryCode}>
-                                <SelectTrigger className="w-32">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent className="max-h-60">
-                                  {COUNTRY_CODES.map((cc) => (
-                                    <SelectItem key={cc.code} value={cc.dial}>
-                                      +{cc.dial} {cc.name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <Input
-                                placeholder="Phone number"
-                                value={phoneValue}
-                                onChange={(e) => setPhoneValue(e.target.value)}
-                                className="flex-1"
-                              />
-                            </div>
+                            <PhoneNumberInput
+                              countryCode={countryCode}
+                              onCountryCodeChange={setCountryCode}
+                              phone={phoneValue}
+                              onPhoneChange={setPhoneValue}
+                            />
                           </div>
                           <div className="space-y-2">
                             <Label>Pre-filled Message</Label>
@@ -729,6 +835,85 @@ const Index = () => {
                         </motion.div>
                       )}
 
+                      {mode === 'sms' && (
+                        <motion.div
+                          key="sms"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                          className="space-y-4"
+                        >
+                          <div className="space-y-2">
+                            <Label>Phone Number</Label>
+                            <PhoneNumberInput
+                              countryCode={countryCode}
+                              onCountryCodeChange={setCountryCode}
+                              phone={phoneValue}
+                              onPhoneChange={setPhoneValue}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Message</Label>
+                            <Textarea
+                              placeholder="JOIN"
+                              value={messageValue}
+                              onChange={(e) => setMessageValue(e.target.value)}
+                              rows={3}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-3">
+                            <Label>Payload Format</Label>
+                            <Select value={smsFormat} onValueChange={(v) => setSmsFormat(v as SmsFormat)}>
+                              <SelectTrigger className="w-56">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SMS_FORMATS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label} - {option.description}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </motion.div>
+                      )}
+
+                      {mode === 'tel' && (
+                        <motion.div
+                          key="tel"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                          className="space-y-4"
+                        >
+                          <div className="space-y-2">
+                            <Label>Phone Number</Label>
+                            <PhoneNumberInput
+                              countryCode={countryCode}
+                              onCountryCodeChange={setCountryCode}
+                              phone={phoneValue}
+                              onPhoneChange={setPhoneValue}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <Label>Call Type</Label>
+                            <Select value={callScheme} onValueChange={(v) => setCallScheme(v as CallScheme)}>
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CALL_SCHEMES.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </motion.div>
+                      )}
+
                       {mode === 'text' && (
                         <motion.div
                           key="text"
@@ -755,40 +940,7 @@ const Index = () => {
                           exit={{ opacity: 0, y: -10 }}
                           className="space-y-4"
                         >
-                          <div className="space-y-2">
-                            <Label>Network Name (SSID)</Label>
-                            <Input
-                              placeholder="My WiFi Network"
-                              value={wifiSSID}
-                              onChange={(e) => setWifiSSID(e.target.value)}
-                            />
-                          </div>
-                          <div className="space-y-2">
-                            <Label>Password</Label>
-                            <Input
-                              type="password"
-                              placeholder="WiFi password"
-                              value={wifiPassword}
-                              onChange={(e) => setWifiPassword(e.target.value)}
-                            />
-                          </div>
-                          <div className="flex items-center justify-between">
-                            <Label>Security Type</Label>
-                            <Select value={wifiAuth} onValueChange={(v) => setWifiAuth(v as typeof wifiAuth)}>
-                              <SelectTrigger className="w-32">
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="WPA">WPA/WPA2</SelectItem>
-                                <SelectItem value="WEP">WEP</SelectItem>
-                                <SelectItem value="nopass">None</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
-                          <div className="flex items-center justify-between">
-                            <Label>Hidden Network</Label>
-                            <Switch checked={wifiHidden} onCheckedChange={setWifiHidden} />
-                          </div>
+                          <WifiForm value={wifi} onChange={setWifi} />
                         </motion.div>
                       )}
 
@@ -800,67 +952,62 @@ const Index = () => {
                           exit={{ opacity: 0, y: -10 }}
                           className="space-y-4"
                         >
-                          <div className="grid grid-cols-2 gap-3">
-                            <div className="space-y-2">
-                              <Label>First Name</Label>
-                              <Input
-                                placeholder="John"
-                                value={vcardFirstName}
-                                onChange={(e) => setVcardFirstName(e.target.value)}
-                              />
-                            </div>
-                            <div className="space-y-2">
-                              <Label>Last Name</Label>
-                              <Input
-                                placeholder="Doe"
-                                value={vcardLastName}
-                                onChange={(e) => setVcardLastName(e.target.value)}
-                              />
-                            </div>
-                          </div>
-                          <div className="space-y-2">
-                            <Label>Phone</Label>
-                            <Input
-                              placeholder="+1 234 567 8900"
-                              value={vcardPhone}
-                              onChange={(e) => setVcardPhone(e.target.value)}
-                            />
-                          </div>
-                          <div className="space-y-2">
-                            <Label>Email</Label>
-                            <Input
-                              type="email"
-                              placeholder="john@example.com"
-                              value={vcardEmail}
-                              onChange={(e) => setVcardEmail(e.target.value)}
-                            />
-                          </div>
-                          <div className="grid grid-cols-2 gap-3">
-                            <div className="space-y-2">
-                              <Label>Company</Label>
-                              <Input
-                                placeholder="Acme Inc"
-                                value={vcardCompany}
-                                onChange={(e) => setVcardCompany(e.target.value)}
-                              />
-                            </div>
-                            <div className="space-y-2">
-                              <Label>Title</Label>
-                              <Input
-                                placeholder="CEO"
-                                value={vcardTitle}
-                                onChange={(e) => setVcardTitle(e.target.value)}
-                              />
-                            </div>
-                          </div>
-                          <div className="space-y-2">
-                            <Label>Website</Label>
-                            <Input
-                              placeholder="https://example.com"
-                              value={vcardWebsite}
-                              onChange={(e) => setVcardWebsite(e.target.value)}
-                            />
-                          </div>
+                          <ContactForm
+                            value={contact}
+                            onChange={setContact}
+                            format={contactFormat}
+                            onFormatChange={setContactFormat}
+                            errorCorrectionLevel={errorCorrectionLevel}
+                          />
+                        </motion.div>
+                      )}
+
+                      {mode === 'event' && (
+                        <motion.div
+                          key="event"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                        >
+                          <EventForm value={event} onChange={setEvent} />
+                        </motion.div>
+                      )}
+
+                      {mode === 'geo' && (
+                        <motion.div
+                          key="geo"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                        >
+                          <GeoForm value={geo} onChange={setGeo} />
+                        </motion.div>
+                      )}
+
+                      {mode === 'payment' && (
+                        <motion.div
+                          key="payment"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                        >
+                          <PaymentForm
+                            value={payment}
+                            onChange={setPayment}
+                            errorCorrectionLevel={errorCorrectionLevel}
+                            onErrorCorrectionLevelChange={setErrorCorrectionLevel}
+                          />
+                        </motion.div>
+                      )}
+
+                      {mode === 'otp' && (
+                        <motion.div
+                          key="otp"
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -10 }}
+                        >
+                          <OtpForm value={otp} onChange={setOtp} />
                         </motion.div>
                       )}
 
@@ -919,6 +1066,19 @@ const Index = () => {
                       onChange={(v) => setDesignStyle(v as QRDesignStyle)}
                       columns={3}
                     />
+                    <div className="mt-6">
+                      <EyeStyleSelector
+                        value={eyeStyle}
+                        onChange={setEyeStyle}
+                        fgColor={customColors ? fgColor : '#000000'}
+                      />
+                    </div>
+                    <ErrorCorrectionSelector
+                      value={errorCorrectionLevel}
+                      onChange={setErrorCorrectionLevel}
+                      content={previewContent}
+                      className="mt-6"
+                    />
                   </CardContent>
                 </Card>
 
@@ -997,6 +1157,26 @@ const Index = () => {
                               </div>
                             </div>
                           </div>
+
+                          {/* Gradients */}
+                          <GradientEditor
+                            label="Foreground Gradient"
+                            value={fgGradient}
+                            onChange={(v) => {
+                              setFgGradient(v);
+                              setSelectedPreset(null);
+                            }}
+                            baseColor={fgColor}
+                          />
+                          <GradientEditor
+                            label="Background Gradient"
+                            value={bgGradient}
+                            onChange={(v) => {
+                              setBgGradient(v);
+                              setSelectedPreset(null);
+                            }}
+                            baseColor={bgColor}
+                          />
                         </CardContent>
                       </motion.div>
                     )}
@@ -1060,12 +1240,29 @@ const Index = () => {
                               max={25}
                               step={1}
                             />
-                            {logoSize > 20 && (
-                              <p className="text-xs text-warning">
-                                ⚠️ Large logos may affect scannability
+                            {logoDamage && logoDamage.status !== 'ok' && (
+                              <p
+                                className={cn(
+                                  'text-xs',
+                                  logoDamage.status === 'unrecoverable' ? 'text-destructive' : 'text-warning'
+                                )}
+                              >
+                                ⚠️ {logoDamage.message}
                               </p>
                             )}
                           </div>
+
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <Label>Clear Modules Under Logo</Label>
+                              <p className="text-xs text-muted-foreground">
+                                {logoDamage
+                                  ? `${logoDamage.lostCodewords} of ${logoDamage.totalCodewords} codewords hidden`
+                                  : 'Removes whole modules instead of painting over them'}
+                              </p>
+                            </div>
+                            <Switch checked={logoExcavate} onCheckedChange={setLogoExcavate} />
+                          </div>
                         </CardContent>
                       </motion.div>
                     )}
@@ -1137,11 +1334,16 @@ const Index = () => {
                       designStyle={designStyle}
                       fgColor={customColors ? fgColor : '#000000'}
                       bgColor={customColors ? bgColor : '#ffffff'}
+                      fgGradient={customColors ? fgGradient : null}
+                      bgGradient={customColors ? bgGradient : null}
+                      eyes={eyeStyle}
+                      errorCorrectionLevel={errorCorrectionLevel}
                       enableLogo={enableLogo}
                       logo={selectedLogo}
                       logoShape={logoShape}
                       logoLayout={logoLayout}
                       logoSize={logoSize}
+                      logoExcavate={logoExcavate}
                       enableBorder={enableBorder}
                       borderWidth={borderWidth}
                       borderColor={borderColor}
@@ -1190,6 +1392,7 @@ const Index = () => {
                         qrContent={previewContent}
                         onDownload={handleDownload}
                         defaultFilename={`qr-${mode}`}
+                        errorCorrectionLevel={errorCorrectionLevel}
                       />
                       <Button
                         variant="outline"
@@ -1212,9 +1415,19 @@ const Index = () => {
                       <PrintDialog 
                         qrDataUrl={qrDataUrl}
                         qrContent={previewContent}
+                        renderOptions={getRenderOptions(1024)}
                       />
                     </div>
 
+                    {/* Scan Robustness */}
+                    <RobustnessPanel
+                      report={robustnessReport}
+                      isRunning={isStressTesting}
+                      progress={stressProgress}
+                      disabled={!hasQR || !previewContent}
+                      onRun={handleStressTest}
+                    />
+
                     {/* Reset Button */}
                     <Button
                       variant="ghost"
@@ -1239,15 +1452,34 @@ const Index = () => {
 
           {/* Scan Tab */}
           <TabsContent value="scan">
-            <div className="max-w-3xl mx-auto grid md:grid-cols-2 gap-6">
-              <QRScanner onContentExtracted={handleExtractedContent} />
+            <div
+              {...scanInbox.dropProps}
+              className={`max-w-3xl mx-auto grid md:grid-cols-2 gap-6 rounded-xl transition-shadow ${
+                scanInbox.isDragOver ? 'ring-2 ring-primary ring-offset-4 ring-offset-background' : ''
+              }`}
+            >
+              <QRScanner
+                onContentExtracted={handleExtractedContent}
+                onContentsExtracted={(contents) => {
+                  setBatchScanContents(contents);
+                }}
+                onSwitchToBatch={() => setActiveTab('batch')}
+                incoming={scanInbox.deliveries.single}
+                onIncomingConsumed={(id) => scanInbox.consume('single', id)}
+              />
               <BatchScanner 
                 onContentsExtracted={(contents) => {
                   setBatchScanContents(contents);
                 }}
                 onSwitchToBatch={() => setActiveTab('batch')}
+                incoming={scanInbox.deliveries.batch}
+                onIncomingConsumed={(id) => scanInbox.consume('batch', id)}
               />
             </div>
+            <p className="text-xs text-center text-muted-foreground mt-4">
+              Tip: paste a screenshot with Ctrl/⌘+V or drag images here from another tab - one image is scanned
+              directly, several go to the batch scanner
+            </p>
           </TabsContent>
 
           {/* History Tab */}
@@ -0,0 +1,53 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { BatchScanner } from "@/components/BatchScanner";
+import { openScanDocument, type ScanDocument } from "@/lib/qr-document";
+
+vi.mock("html5-qrcode", () => ({
+  Html5Qrcode: class {
+    scanFile = vi.fn();
+    clear = async () => {};
+  },
+}));
+vi.mock("@/lib/qr-document", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/qr-document")>()),
+  openScanDocument: vi.fn(),
+}));
+
+// Two blank pages - nothing to find, so no thumbnail is rendered
+function fakeDocument(): ScanDocument {
+  const page = { render: async () => ({ data: new Uint8ClampedArray(64 * 64).fill(255), width: 64, height: 64 }) };
+  return { kind: "pdf", pages: [page, page], close: vi.fn(async () => {}) };
+}
+
+// jsdom's File has no arrayBuffer()
+function pdfFile(): File {
+  const file = new File(["%PDF-1.7"], "proof.pdf", { type: "application/pdf" });
+  return Object.assign(file, { arrayBuffer: async () => new ArrayBuffer(8) });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(openScanDocument).mockReset();
+});
+
+describe("BatchScanner", () => {
+  it("closes a document once its pages are scanned, and again after finding more codes", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {}); // blank pages are logged as scan errors
+    const documents: ScanDocument[] = [];
+    vi.mocked(openScanDocument).mockImplementation(async () => {
+      documents.push(fakeDocument());
+      return documents[documents.length - 1];
+    });
+    const { container } = render(<BatchScanner onContentsExtracted={() => {}} />);
+
+    fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [pdfFile()] } });
+    await waitFor(() => expect(documents[0]?.close).toHaveBeenCalledTimes(1));
+
+    // The closed document is opened again from the file for the thorough scan
+    fireEvent.click((await screen.findAllByText("Find more codes"))[0]);
+    await waitFor(() => expect(documents[1]?.close).toHaveBeenCalledTimes(1));
+    expect(openScanDocument).toHaveBeenCalledTimes(2);
+    expect(documents[0].close).toHaveBeenCalledTimes(1);
+  });
+});
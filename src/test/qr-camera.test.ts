@@ -0,0 +1,82 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { FAKE_CAMERA_LABEL, createFakeCameraStream, installFakeCamera, recordScan } from "@/lib/qr-camera";
+
+describe("recordScan", () => {
+  it("adds each payload once and counts separate sightings", () => {
+    let { entries, isNew } = recordScan([], "https://a.example", 0);
+    expect(isNew).toBe(true);
+
+    // Same code on consecutive frames
+    ({ entries, isNew } = recordScan(entries, "https://a.example", 100));
+    expect(isNew).toBe(false);
+    expect(entries).toEqual([{ content: "https://a.example", firstSeen: 0, lastSeen: 100, count: 1 }]);
+
+    ({ entries, isNew } = recordScan(entries, "WIFI:T:WPA;S:Home;P:secret12;;", 200));
+    expect(isNew).toBe(true);
+
+    // Back in view after the cooldown
+    ({ entries } = recordScan(entries, "https://a.example", 5000));
+    expect(entries.map((entry) => entry.count)).toEqual([2, 1]);
+  });
+});
+
+// jsdom has no captureStream - whatever is there is put back after each test
+const originalCaptureStream = Object.getOwnPropertyDescriptor(HTMLCanvasElement.prototype, "captureStream");
+
+// jsdom has no canvas backend - record draw calls and hand back a stub stream
+function stubCanvas() {
+  const drawn: unknown[] = [];
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+    fillRect: () => {},
+    drawImage: (image: unknown) => drawn.push(image),
+  } as unknown as CanvasRenderingContext2D);
+  HTMLCanvasElement.prototype.captureStream = () => stream;
+  return { drawn, track, stream };
+}
+
+function fixture(name: string): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.id = name;
+  canvas.width = 200;
+  canvas.height = 200;
+  return canvas;
+}
+
+describe("fake camera", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    if (originalCaptureStream) Object.defineProperty(HTMLCanvasElement.prototype, "captureStream", originalCaptureStream);
+    else delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).captureStream;
+  });
+
+  it("cycles through image fixtures", () => {
+    vi.useFakeTimers();
+    const { drawn, track } = stubCanvas();
+    const frames = [fixture("first"), fixture("second")];
+    const { stop } = createFakeCameraStream(frames, { fps: 10, frameMs: 1000 });
+
+    vi.advanceTimersByTime(1000);
+    expect(drawn[0]).toBe(frames[0]);
+    expect(drawn.at(-1)).toBe(frames[1]);
+
+    stop();
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it("replaces the camera list and getUserMedia until restored", async () => {
+    const { stream } = stubCanvas();
+    const original = navigator.mediaDevices;
+    const restore = installFakeCamera([fixture("only")]);
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    expect(devices.map((device) => [device.kind, device.label])).toEqual([["videoinput", FAKE_CAMERA_LABEL]]);
+    await expect(navigator.mediaDevices.getUserMedia({ video: true })).resolves.toBe(stream);
+    await expect(navigator.mediaDevices.getUserMedia({ audio: true })).rejects.toThrow();
+
+    restore();
+    expect(navigator.mediaDevices).toBe(original);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getQRCapacity, getDataCapacity, getMisdecodeProtection, getModuleCount } from "@/lib/qr-capacity";
+
+describe("getQRCapacity", () => {
+  it("reports version, modules and remaining bytes", () => {
+    // 11 bytes in byte mode: 4 + 8 + 88 = 100 bits of 128 available in 1-M
+    const info = getQRCapacity("hello world", "M");
+    expect(info.fits).toBe(true);
+    expect(info.version).toBe(1);
+    expect(info.modules).toBe(21);
+    expect(info.usedBits).toBe(100);
+    expect(info.remainingBytes).toBe(3);
+  });
+
+  it("needs a larger symbol at higher levels", () => {
+    const content = "https://example.com/products/item?id=1234567890";
+    const low = getQRCapacity(content, "L");
+    const high = getQRCapacity(content, "H");
+    expect(high.version).toBeGreaterThan(low.version);
+    expect(high.modules).toBe(getModuleCount(high.version));
+  });
+
+  it("flags content that exceeds version 40", () => {
+    const info = getQRCapacity("x".repeat(getDataCapacity(40, "H") + 10), "H");
+    expect(info.fits).toBe(false);
+    expect(info.version).toBe(0);
+    expect(getQRCapacity("x".repeat(getDataCapacity(40, "H") + 10), "L").fits).toBe(true);
+  });
+});
+
+describe("getMisdecodeProtection", () => {
+  it("reserves codewords only in the smallest symbols", () => {
+    expect((["L", "M", "Q", "H"] as const).map((level) => getMisdecodeProtection(1, level))).toEqual([3, 2, 1, 1]);
+    expect(getMisdecodeProtection(2, "L")).toBe(2);
+    expect(getMisdecodeProtection(3, "L")).toBe(1);
+    expect(getMisdecodeProtection(2, "M")).toBe(0);
+    expect(getMisdecodeProtection(10, "L")).toBe(0);
+  });
+});
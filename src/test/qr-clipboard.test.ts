@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  dataUrlToFile,
+  filesFromTransfer,
+  hasScanContent,
+  imageUrlsFromTransfer,
+  isEditableTarget,
+  routeScanFiles,
+  type TransferLike,
+} from "@/lib/qr-clipboard";
+
+const PNG_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==";
+
+function transfer(data: Record<string, string>, files: File[] = []): TransferLike {
+  return { files, getData: (format) => data[format] ?? "" };
+}
+
+const image = (name: string, type = "image/png") => new File([new Uint8Array(4)], name, { type });
+
+describe("routeScanFiles", () => {
+  it("sends one image to the single scanner and everything else to the batch scanner", () => {
+    expect(routeScanFiles([image("a.png")])).toBe("single");
+    expect(routeScanFiles([image("a.png"), image("b.png")])).toBe("batch");
+    expect(routeScanFiles([image("proof.pdf", "application/pdf")])).toBe("batch");
+  });
+});
+
+describe("dataUrlToFile", () => {
+  it("decodes base64 images", () => {
+    const file = dataUrlToFile(PNG_DATA_URL, "pasted");
+    expect(file.name).toBe("pasted.png");
+    expect(file.type).toBe("image/png");
+    expect(file.size).toBe(70);
+  });
+
+  it("decodes percent-encoded SVG", () => {
+    const file = dataUrlToFile("data:image/svg+xml,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%2F%3E", "logo");
+    expect(file.name).toBe("logo.svg");
+    expect(file.size).toBe('<svg xmlns="http://www.w3.org/2000/svg"/>'.length);
+  });
+
+  it("rejects text that is not a data URL", () => {
+    expect(() => dataUrlToFile("https://example.com/a.png", "x")).toThrow("Invalid data URL");
+  });
+});
+
+describe("imageUrlsFromTransfer", () => {
+  it("prefers the image over the link around it when dragged from another tab", () => {
+    const urls = imageUrlsFromTransfer(
+      transfer({
+        "text/html": '<a href="https://example.com/menu"><img src="https://cdn.example.com/qr.png" alt=""></a>',
+        "text/uri-list": "https://example.com/menu",
+      })
+    );
+    expect(urls).toEqual(["https://cdn.example.com/qr.png"]);
+  });
+
+  it("skips uri-list comments", () => {
+    expect(imageUrlsFromTransfer(transfer({ "text/uri-list": "# dragged\r\nhttps://example.com/qr" }))).toEqual([
+      "https://example.com/qr",
+    ]);
+  });
+
+  it("accepts pasted data URLs and image links but not other text", () => {
+    expect(imageUrlsFromTransfer(transfer({ "text/plain": ` ${PNG_DATA_URL}\n` }))).toEqual([PNG_DATA_URL]);
+    expect(imageUrlsFromTransfer(transfer({ "text/plain": "https://example.com/codes/qr.webp" }))).toEqual([
+      "https://example.com/codes/qr.webp",
+    ]);
+    expect(imageUrlsFromTransfer(transfer({ "text/plain": "https://example.com/about" }))).toEqual([]);
+    expect(imageUrlsFromTransfer(transfer({ "text/html": '<img src="javascript:alert(1)">' }))).toEqual([]);
+  });
+});
+
+describe("filesFromTransfer", () => {
+  it("keeps scannable files and numbers generic screenshot names", async () => {
+    const { files, failed } = await filesFromTransfer(
+      transfer({}, [image("image.png"), image("image.png"), image("notes.txt", "text/plain"), image("poster.jpg", "image/jpeg")])
+    );
+    expect(failed).toEqual([]);
+    expect(files).toHaveLength(3);
+    expect(files[0].name).toMatch(/^pasted-\d{6}-1\.png$/);
+    expect(files[1].name).toMatch(/^pasted-\d{6}-2\.png$/);
+    expect(files[2].name).toBe("poster.jpg");
+  });
+
+  it("turns a pasted data URL into a file", async () => {
+    const { files } = await filesFromTransfer(transfer({ "text/plain": PNG_DATA_URL }));
+    expect(files.map((file) => file.type)).toEqual(["image/png"]);
+  });
+});
+
+describe("hasScanContent", () => {
+  it("only claims transfers with images or documents", () => {
+    expect(hasScanContent(transfer({}, [image("scan.png")]))).toBe(true);
+    expect(hasScanContent(transfer({ "text/plain": PNG_DATA_URL }))).toBe(true);
+    expect(hasScanContent(transfer({ "text/plain": "https://example.com/about" }))).toBe(false);
+    expect(hasScanContent(transfer({ "text/plain": "hello" }, [image("notes.txt", "text/plain")]))).toBe(false);
+  });
+});
+
+describe("isEditableTarget", () => {
+  it("leaves pastes into form fields alone", () => {
+    expect(isEditableTarget(document.createElement("textarea"))).toBe(true);
+    expect(isEditableTarget(document.createElement("input"))).toBe(true);
+    expect(isEditableTarget(document.createElement("div"))).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+});
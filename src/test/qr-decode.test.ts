@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { decodeQRCanvas, verifyQRCanvas } from "@/lib/qr-decode";
+
+const scanFile = vi.hoisted(() => vi.fn());
+const clear = vi.hoisted(() => vi.fn());
+
+vi.mock("html5-qrcode", () => ({
+  Html5Qrcode: class {
+    scanFile = scanFile;
+    clear = clear;
+  },
+}));
+
+// jsdom has no canvas backend - hand back a fixed PNG blob (or none)
+function stubToBlob(blob: Blob | null = new Blob(["png"], { type: "image/png" })) {
+  vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation((callback) => callback(blob));
+}
+
+function canvas(): HTMLCanvasElement {
+  const element = document.createElement("canvas");
+  element.width = 200;
+  element.height = 200;
+  return element;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  scanFile.mockReset();
+  clear.mockReset();
+});
+
+describe("verifyQRCanvas", () => {
+  beforeEach(() => stubToBlob());
+
+  it("passes when the decoded content matches", async () => {
+    scanFile.mockResolvedValue("https://example.com");
+    expect(await verifyQRCanvas(canvas(), "https://example.com")).toEqual({
+      ok: true,
+      decoded: "https://example.com",
+      message: "Verified - decoded content matches",
+    });
+  });
+
+  it("reports a mismatch with the decoded content", async () => {
+    scanFile.mockResolvedValue("https://example.org");
+    expect(await verifyQRCanvas(canvas(), "https://example.com")).toEqual({
+      ok: false,
+      decoded: "https://example.org",
+      message: "Mismatch - decoded content differs from input",
+    });
+  });
+
+  it("reports unreadable codes", async () => {
+    scanFile.mockRejectedValue(new Error("No MultiFormat Readers were able to detect the code."));
+    expect(await verifyQRCanvas(canvas(), "https://example.com")).toEqual({
+      ok: false,
+      decoded: null,
+      message: "Unreadable - scanner could not decode this QR",
+    });
+  });
+
+  it("treats CRLF and LF as the same content", async () => {
+    scanFile.mockResolvedValue("BEGIN:VCARD\r\nFN:Ada\r\nEND:VCARD");
+    const result = await verifyQRCanvas(canvas(), "BEGIN:VCARD\nFN:Ada\nEND:VCARD");
+    expect(result.ok).toBe(true);
+    expect(result.decoded).toBe("BEGIN:VCARD\r\nFN:Ada\r\nEND:VCARD");
+
+    scanFile.mockResolvedValue("line one\nline two");
+    expect((await verifyQRCanvas(canvas(), "line one\r\nline 2")).ok).toBe(false);
+  });
+});
+
+describe("decodeQRCanvas", () => {
+  it("removes its hidden reader element after decoding or failing", async () => {
+    stubToBlob();
+    const before = document.body.childElementCount;
+
+    scanFile.mockResolvedValueOnce("ok").mockRejectedValueOnce(new Error("unreadable"));
+    expect(await decodeQRCanvas(canvas())).toBe("ok");
+    expect(await decodeQRCanvas(canvas())).toBeNull();
+
+    expect(clear).toHaveBeenCalledTimes(2);
+    expect(document.body.childElementCount).toBe(before);
+    expect(document.querySelector('[id^="qr-verify-reader-"]')).toBeNull();
+  });
+
+  it("does not scan when the canvas cannot be encoded", async () => {
+    stubToBlob(null);
+    expect(await decodeQRCanvas(canvas())).toBeNull();
+    expect(scanFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import * as ZXingModule from "html5-qrcode/third_party/zxing-js.umd";
+import { MAX_DECODE_CALLS, centerOf, detectQRCodes, toLuminance, type LuminanceImage } from "@/lib/qr-detect";
+import { createQRMatrix } from "@/lib/qr-matrix";
+
+interface PlacedCode {
+  content: string;
+  x: number;
+  y: number;
+  scale: number; // pixels per module
+}
+
+// Draw codes onto a white sheet, the way a print sheet or poster wall photo looks after binarization
+function sheet(width: number, height: number, codes: PlacedCode[]): LuminanceImage {
+  const data = new Uint8ClampedArray(width * height).fill(255);
+  for (const { content, x, y, scale } of codes) {
+    const matrix = createQRMatrix(content, "M");
+    for (let row = 0; row < matrix.size; row++) {
+      for (let col = 0; col < matrix.size; col++) {
+        if (!matrix.modules[row * matrix.size + col]) continue;
+        for (let dy = 0; dy < scale; dy++) {
+          const start = (y + row * scale + dy) * width + x + col * scale;
+          data.fill(0, start, start + scale);
+        }
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+function sizeOf({ content, scale }: PlacedCode): number {
+  return createQRMatrix(content, "M").size * scale;
+}
+
+const { QRCodeReader } = ZXingModule as unknown as { QRCodeReader: { prototype: { decode(): unknown } } };
+const blank = (width: number, height: number): LuminanceImage => ({
+  data: new Uint8ClampedArray(width * height).fill(255),
+  width,
+  height,
+});
+
+describe("detectQRCodes", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("finds every code on a print sheet in reading order, with its corners", () => {
+    const codes: PlacedCode[] = [];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        codes.push({ content: `https://example.com/item/${row * 3 + col}`, x: 20 + col * 150, y: 20 + row * 150, scale: 4 });
+      }
+    }
+    const found = detectQRCodes(sheet(470, 470, codes), { thorough: true });
+
+    expect(found.map((code) => code.content)).toEqual(codes.map((code) => code.content));
+    found.forEach(({ corners }, i) => {
+      const { x, y } = codes[i];
+      const size = sizeOf(codes[i]);
+      const expected = [[x, y], [x + size, y], [x + size, y + size], [x, y + size]];
+      corners.forEach(([cx, cy], j) => {
+        expect(Math.abs(cx - expected[j][0])).toBeLessThan(3);
+        expect(Math.abs(cy - expected[j][1])).toBeLessThan(3);
+      });
+    });
+  });
+
+  it("keeps repeated payloads as separate detections and handles mixed sizes", () => {
+    const codes: PlacedCode[] = [
+      { content: "WIFI:T:WPA;S:Lobby;P:welcome2guests;;", x: 20, y: 20, scale: 6 },
+      { content: "https://example.com/item/1", x: 260, y: 40, scale: 3 },
+      { content: "https://example.com/item/1", x: 260, y: 160, scale: 3 },
+    ];
+    const found = detectQRCodes(sheet(380, 280, codes), { thorough: true });
+
+    expect(found.map((code) => code.content).sort()).toEqual(codes.map((code) => code.content).sort());
+    const centers = found.filter((code) => code.content.endsWith("/1")).map((code) => centerOf(code.corners)[1]);
+    expect(Math.abs(centers[0] - centers[1])).toBeGreaterThan(100);
+  });
+
+  it("returns nothing for an image without codes", () => {
+    expect(detectQRCodes(blank(200, 200))).toEqual([]);
+  });
+
+  it("reads a single code with one full-image pass", () => {
+    const decode = vi.spyOn(QRCodeReader.prototype, "decode");
+    const found = detectQRCodes(sheet(400, 300, [{ content: "https://example.com", x: 150, y: 100, scale: 4 }]));
+
+    expect(found.map((code) => code.content)).toEqual(["https://example.com"]);
+    // The hit, then the pass that finds nothing else - no window sweep
+    expect(decode).toHaveBeenCalledTimes(2);
+  });
+
+  it("only sweeps an empty photo when asked, and then within the decode budget", () => {
+    const decode = vi.spyOn(QRCodeReader.prototype, "decode");
+    expect(detectQRCodes(blank(2048, 1536))).toEqual([]);
+    expect(decode).toHaveBeenCalledTimes(1);
+
+    decode.mockClear();
+    expect(detectQRCodes(blank(2048, 1536), { thorough: true })).toEqual([]);
+    expect(decode.mock.calls.length).toBeGreaterThan(1);
+    expect(decode.mock.calls.length).toBeLessThanOrEqual(MAX_DECODE_CALLS);
+  });
+});
+
+describe("toLuminance", () => {
+  it("weights channels and treats transparency as white", () => {
+    const rgba = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0]);
+    expect(Array.from(toLuminance(rgba, 2, 1).data)).toEqual([76, 255]);
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi } from "vitest";
+// pdf.js runs its worker in-process once the worker module is loaded, and needs its Node build outside the browser
+import "pdfjs-dist/legacy/build/pdf.worker.mjs";
+import { detectQRCodes } from "@/lib/qr-detect";
+import { downscale, openScanDocument, pageLabel, scanResultsToCsv } from "@/lib/qr-document";
+import type { QRInspection } from "@/lib/qr-inspect";
+import { createQRMatrix } from "@/lib/qr-matrix";
+import { createQRSheetPdf } from "@/lib/qr-pdf";
+import { lzwDecode, packBitsDecode, readTiff } from "@/lib/qr-tiff";
+import type { QRRenderOptions } from "@/lib/qr-types";
+
+vi.mock("pdfjs-dist", () => import("pdfjs-dist/legacy/build/pdf.mjs"));
+
+const options: QRRenderOptions = {
+  size: 200,
+  design: "square",
+  fgColor: "#000000",
+  bgColor: "#ffffff",
+};
+
+// jsdom's Blob has no arrayBuffer()
+const readBytes = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+interface TiffPageSpec {
+  width: number;
+  height: number;
+  bits: number;
+  compression: number;
+  photometric: number;
+  data: Uint8Array;
+}
+
+// Little-endian TIFF with one strip per page, pages chained in order
+function buildTiff(pages: TiffPageSpec[]): Uint8Array {
+  const ifdSize = 2 + 9 * 12 + 4;
+  const total = 8 + pages.reduce((sum, page) => sum + ifdSize + page.data.length, 0);
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, 8, true);
+
+  let offset = 8;
+  pages.forEach((page, i) => {
+    const dataOffset = offset + ifdSize;
+    const entries: [number, number, number][] = [
+      [256, 3, page.width],
+      [257, 3, page.height],
+      [258, 3, page.bits],
+      [259, 3, page.compression],
+      [262, 3, page.photometric],
+      [273, 4, dataOffset],
+      [277, 3, 1],
+      [278, 3, page.height],
+      [279, 4, page.data.length],
+    ];
+    view.setUint16(offset, entries.length, true);
+    entries.forEach(([tag, type, value], j) => {
+      const entry = offset + 2 + j * 12;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      view.setUint32(entry + 4, 1, true);
+      view.setUint32(entry + 8, value, true);
+    });
+    const next = i < pages.length - 1 ? dataOffset + page.data.length : 0;
+    view.setUint32(offset + 2 + entries.length * 12, next, true);
+    bytes.set(page.data, dataOffset);
+    offset = dataOffset + page.data.length;
+  });
+  return bytes;
+}
+
+// MSB-first 9-bit codes
+function packCodes(codes: number[]): Uint8Array {
+  const bits = codes.map((code) => code.toString(2).padStart(9, "0")).join("").padEnd(Math.ceil((codes.length * 9) / 8) * 8, "0");
+  return Uint8Array.from(bits.match(/.{8}/g)!, (byte) => parseInt(byte, 2));
+}
+
+type PdfObject = string | { dict: string; stream: Uint8Array };
+
+// One 300 x 300 pt page drawing `content`; objects from 5 on are passed in
+function buildPdf(content: string, resources = "", objects: PdfObject[] = []): Uint8Array {
+  const all: PdfObject[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 300] /Contents 4 0 R /Resources << ${resources} >> >>`,
+    { dict: "", stream: new TextEncoder().encode(content) },
+    ...objects,
+  ];
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  push("%PDF-1.4\n");
+  const offsets = all.map((object, i) => {
+    const offset = length;
+    push(`${i + 1} 0 obj\n`);
+    if (typeof object === "string") push(object);
+    else {
+      push(`<< ${object.dict} /Length ${object.stream.length} >>\nstream\n`);
+      push(object.stream);
+      push("\nendstream");
+    }
+    push("\nendobj\n");
+    return offset;
+  });
+  const xref = length;
+  push(`xref\n0 ${all.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  push(`trailer\n<< /Size ${all.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const bytes = new Uint8Array(length);
+  chunks.reduce((offset, chunk) => (bytes.set(chunk, offset), offset + chunk.length), 0);
+  return bytes;
+}
+
+const proof = "https://example.com/proof";
+
+// Dark modules of the proof code as filled rectangles over x, y = 50..250
+function moduleRects(): string {
+  const matrix = createQRMatrix(proof, "M");
+  const module = 200 / matrix.size;
+  const rects: string[] = [];
+  matrix.modules.forEach((dark, index) => {
+    if (!dark) return;
+    const row = Math.floor(index / matrix.size);
+    const col = index % matrix.size;
+    rects.push(`${50 + col * module} ${250 - (row + 1) * module} ${module} ${module} re`);
+  });
+  return `0 g ${rects.join(" ")} f`;
+}
+
+describe("TIFF pages", () => {
+  it("reads every page of a multi-page file", async () => {
+    const gray = Uint8Array.from([0, 64, 128, 255, 255, 128, 64, 0]);
+    // 1-bit min-is-white page, PackBits: two rows of "10100000" and "01010000"
+    const bilevel = Uint8Array.from([0x00, 0xa0, 0x00, 0x50]);
+    const tiff = buildTiff([
+      { width: 4, height: 2, bits: 8, compression: 1, photometric: 1, data: gray },
+      { width: 4, height: 2, bits: 1, compression: 32773, photometric: 0, data: bilevel },
+    ]);
+    const pages = readTiff(tiff);
+
+    expect(pages.map(({ width, height }) => [width, height])).toEqual([[4, 2], [4, 2]]);
+    expect(Array.from((await pages[0].decode()).data)).toEqual(Array.from(gray));
+    expect(Array.from((await pages[1].decode()).data)).toEqual([0, 255, 0, 255, 255, 0, 255, 0]);
+  });
+
+  it("names compressions it cannot decode", async () => {
+    const tiff = buildTiff([{ width: 8, height: 1, bits: 1, compression: 4, photometric: 0, data: new Uint8Array(4) }]);
+    await expect(readTiff(tiff)[0].decode()).rejects.toThrow("CCITT Group 4 compressed TIFF pages are not supported");
+  });
+
+  it("decodes LZW including codes defined by their own use", () => {
+    // Clear, A, B, AB, ABA (not yet in the table), End
+    const data = packCodes([256, 65, 66, 258, 260, 257]);
+    expect(new TextDecoder().decode(lzwDecode(data, 7))).toBe("ABABABA");
+  });
+
+  it("expands PackBits runs and literals", () => {
+    expect(Array.from(packBitsDecode(Uint8Array.from([0xfe, 7, 1, 1, 2]), 5))).toEqual([7, 7, 7, 1, 2]);
+  });
+});
+
+describe("openScanDocument", () => {
+  it("rasterizes PDF pages so every code on a print sheet is found", async () => {
+    const content = "https://example.com/proof";
+    const pdf = await createQRSheetPdf(content, options, {
+      paperSize: "a5",
+      orientation: "portrait",
+      layout: "grid",
+      qrSize: 40,
+      copies: 6,
+      gridCols: 2,
+      margin: 10,
+      label: "Proof",
+    });
+    const document = await openScanDocument(await readBytes(pdf));
+    expect(document.kind).toBe("pdf");
+
+    // a5 holds 2 x 3 codes of 40mm with labels, so six copies fit one page
+    expect(document.pages).toHaveLength(1);
+    const image = await document.pages[0].render(1000);
+    expect(Math.max(image.width, image.height)).toBe(1000);
+    expect(detectQRCodes(image, { thorough: true }).map((code) => code.content)).toEqual(new Array(6).fill(content));
+  });
+
+  it("honours clipping paths", async () => {
+    // Black fill clipped to a strip along the top edge - unclipped it would bury the code
+    const document = await openScanDocument(buildPdf(`q 0 270 300 30 re W n 0 g 0 0 300 300 re f Q ${moduleRects()}`));
+    const image = await document.pages[0].render(600);
+
+    expect(image.data[10 * image.width + 300]).toBe(0);
+    expect(detectQRCodes(image).map((code) => code.content)).toEqual([proof]);
+  });
+
+  it("draws images through their soft masks", async () => {
+    // A solid black image whose SMask carries the code, as PNGs with alpha are embedded
+    const matrix = createQRMatrix(proof, "M");
+    const scale = 4;
+    const width = matrix.size * scale;
+    const alpha = new Uint8Array(width * width);
+    alpha.forEach((_, i) => {
+      const row = Math.floor(Math.floor(i / width) / scale);
+      const col = Math.floor((i % width) / scale);
+      alpha[i] = matrix.modules[row * matrix.size + col] ? 255 : 0;
+    });
+    const image = `/Type /XObject /Subtype /Image /Width ${width} /Height ${width} /BitsPerComponent 8 /ColorSpace /DeviceGray`;
+    const pdf = buildPdf("q 200 0 0 200 50 50 cm /Code Do Q", "/XObject << /Code 5 0 R >>", [
+      { dict: `${image} /SMask 6 0 R`, stream: new Uint8Array(width * width) },
+      { dict: image, stream: alpha },
+    ]);
+
+    const page = await (await openScanDocument(pdf)).pages[0].render(600);
+    expect(detectQRCodes(page).map((code) => code.content)).toEqual([proof]);
+  });
+
+  it("releases the pdf.js document on close", async () => {
+    const document = await openScanDocument(buildPdf(moduleRects()));
+    await document.pages[0].render(300);
+
+    await document.close();
+    await expect(document.pages[0].render(300)).rejects.toThrow();
+  });
+
+  it("opens TIFFs page by page", async () => {
+    const tiff = buildTiff([
+      { width: 2, height: 1, bits: 8, compression: 1, photometric: 1, data: Uint8Array.from([0, 255]) },
+      { width: 2, height: 1, bits: 8, compression: 1, photometric: 1, data: Uint8Array.from([255, 0]) },
+    ]);
+    const document = await openScanDocument(tiff);
+    expect(document.kind).toBe("tiff");
+    expect(Array.from((await document.pages[1].render()).data)).toEqual([255, 0]);
+  });
+
+  it("rejects files that are neither PDF nor TIFF", async () => {
+    await expect(openScanDocument(new TextEncoder().encode("hello"))).rejects.toThrow("Not a PDF file");
+  });
+});
+
+describe("scan results", () => {
+  it("labels document pages 1-based", () => {
+    expect(pageLabel("proofs.pdf", 0)).toBe("proofs.pdf#1");
+  });
+
+  it("averages pixels when shrinking a page", () => {
+    const image = { data: Uint8ClampedArray.from([0, 255, 255, 255, 0, 0, 0, 0]), width: 4, height: 2 };
+    expect(downscale(image, 2)).toEqual({ data: Uint8ClampedArray.from([64, 128]), width: 2, height: 1 });
+  });
+
+  it("exports quoted CSV rows", () => {
+    const csv = scanResultsToCsv([
+      { source: "sheet.pdf#2", index: 1, content: "https://example.com" },
+      { source: "menu, back.png", index: 3, content: 'WIFI:S:"Cafe";;\nnext' },
+    ]);
+    const blank = ",".repeat(12);
+    expect(csv).toBe(
+      "source,code,content,version,ec_level,mask,modes,eci,module_px,quiet_zone,grade," +
+        "symbol_contrast,modulation,fixed_pattern_damage,unused_ec\r\n" +
+        `sheet.pdf#2,1,https://example.com${blank}\r\n` +
+        `"menu, back.png",3,"WIFI:S:""Cafe"";;\nnext"${blank}`
+    );
+  });
+
+  it("adds symbol details and grades as columns", () => {
+    const inspection: QRInspection = {
+      version: 2,
+      errorCorrectionLevel: "M",
+      maskPattern: 5,
+      segments: [{ mode: "byte", count: 19 }],
+      eci: [26],
+      moduleSize: 4.25,
+      quietZone: 2,
+      quietZoneAdequate: false,
+      decoded: true,
+      grades: {
+        overall: "B",
+        symbolContrast: { value: 0.8, grade: "A" },
+        modulation: { value: 0.42, grade: "B" },
+        fixedPatternDamage: { value: 0, grade: "A" },
+        unusedErrorCorrection: { value: 0.9, grade: "A" },
+      },
+    };
+    const [, row] = scanResultsToCsv([{ source: "a.png", index: 1, content: "x", inspection }]).split("\r\n");
+    expect(row).toBe("a.png,1,x,2,M,5,byte,26,4.3,2,B,A (0.80),B (0.42),A (0),A (0.90)");
+  });
+});
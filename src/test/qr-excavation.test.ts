@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { analyzeExcavation, assessLogoExcavation, mapCodewords } from "@/lib/qr-excavation";
+import { createQRMatrix } from "@/lib/qr-matrix";
+import type { QRRenderOptions } from "@/lib/qr-types";
+
+const logo = { id: "test", name: "Test", type: "custom" as const, data: "data:image/png;base64," };
+const options = (patch: Partial<QRRenderOptions>): QRRenderOptions => ({
+  size: 800,
+  design: "square",
+  fgColor: "#000000",
+  bgColor: "#ffffff",
+  logo,
+  ...patch,
+});
+
+describe("mapCodewords", () => {
+  it("places eight modules per codeword, starting bottom-right", () => {
+    const matrix = createQRMatrix("hello", "M");
+    const owners = mapCodewords(matrix);
+    const counts = new Map<number, number>();
+    owners.forEach((owner) => owner >= 0 && counts.set(owner, (counts.get(owner) ?? 0) + 1));
+
+    expect(counts.size).toBe(26); // version 1 holds 26 codewords
+    expect([...counts.values()].every((count) => count === 8)).toBe(true);
+    expect(owners[20 * 21 + 20]).toBe(0);
+    expect(owners[17 * 21 + 19]).toBe(0);
+    expect(owners[16 * 21 + 20]).toBe(1);
+  });
+});
+
+describe("analyzeExcavation", () => {
+  it("reports nothing lost for an untouched symbol", () => {
+    const matrix = createQRMatrix("hello", "H");
+    const report = analyzeExcavation(matrix, new Uint8Array(matrix.size * matrix.size));
+    expect(report.lostCodewords).toBe(0);
+    expect(report.status).toBe("ok");
+  });
+
+  it("accepts a small centered logo at level H", () => {
+    const report = assessLogoExcavation("https://example.com", options({ errorCorrectionLevel: "H", logoSize: 12 }));
+    expect(report?.lostCodewords).toBeGreaterThan(0);
+    expect(report?.status).not.toBe("unrecoverable");
+  });
+
+  it("refuses a logo the error correction level cannot cover", () => {
+    const report = assessLogoExcavation("https://example.com", options({ errorCorrectionLevel: "L", logoSize: 25 }));
+    expect(report?.status).toBe("unrecoverable");
+    expect(report?.budgetUsed).toBeGreaterThan(1);
+  });
+
+  it("flags logos on top of a finder pattern", () => {
+    const report = assessLogoExcavation("hello", options({ logoLayout: "top-left", logoSize: 20 }));
+    expect(report?.coversFinder).toBe(true);
+    expect(report?.status).toBe("unrecoverable");
+  });
+
+  it("warns when a large logo hides the center alignment pattern", () => {
+    const content = `https://example.com/${"a".repeat(80)}`;
+    expect(createQRMatrix(content, "H").version).toBeGreaterThanOrEqual(7);
+
+    const report = assessLogoExcavation(content, options({ errorCorrectionLevel: "H", logoSize: 25 }));
+    expect(report?.budgetUsed).toBeLessThan(0.7);
+    expect(report?.gridModules).toBe(17); // the dark modules of one 5x5 alignment pattern
+    expect(report?.status).toBe("warning");
+    expect(report?.message).toContain("alignment or timing");
+  });
+
+  // Clear the chosen modules of the first `count` codewords
+  const clearCodewords = (content: string, count: number, dark: boolean) => {
+    const matrix = createQRMatrix(content, "M");
+    const owners = mapCodewords(matrix);
+    const cleared = new Uint8Array(matrix.size * matrix.size);
+    owners.forEach((owner, index) => {
+      if (owner >= 0 && owner < count && !!matrix.modules[index] === dark) cleared[index] = 1;
+    });
+    return analyzeExcavation(matrix, cleared);
+  };
+
+  it("leaves misdecode protection codewords out of the budget", () => {
+    // Version 1-M has 10 EC codewords, 2 of them for misdecode protection: 4 errors are correctable
+    const report = clearCodewords("hello", 5, true);
+    expect(report.lostCodewords).toBe(5);
+    expect(report.budgetUsed).toBe(1.25);
+    expect(report.status).toBe("unrecoverable");
+  });
+
+  it("ignores cleared modules that were light already", () => {
+    const report = clearCodewords("hello", 5, false);
+    expect(report.clearedModules).toBeGreaterThan(0);
+    expect(report.lostCodewords).toBe(0);
+    expect(report.status).toBe("ok");
+  });
+
+  it("skips the check without a logo", () => {
+    expect(assessLogoExcavation("hello", options({ logo: null }))).toBeNull();
+  });
+});
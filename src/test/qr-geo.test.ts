@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { decodePlusCode, encodePlusCode, formatDms, isFullPlusCode, parseCoordinates } from "@/lib/qr-geo";
+
+describe("Plus Codes", () => {
+  it("encodes the reference test vectors", () => {
+    expect(encodePlusCode(20.3700625, 2.7821875, 10)).toBe("7FG49QCJ+2V");
+    expect(encodePlusCode(20.3701125, 2.782234375, 11)).toBe("7FG49QCJ+2VX");
+    expect(encodePlusCode(20.3701135, 2.78223535156, 13)).toBe("7FG49QCJ+2VXGJ");
+  });
+
+  it("decodes full codes to the centre of their area", () => {
+    const point = decodePlusCode("7fg49qcj+2v");
+    expect(point?.latitude).toBeCloseTo(20.3700625, 7);
+    expect(point?.longitude).toBeCloseTo(2.7821875, 7);
+    expect(decodePlusCode("7FG49Q00+")).toEqual({ latitude: 20.375, longitude: 2.775 });
+  });
+
+  it("rejects short and malformed codes", () => {
+    expect(isFullPlusCode("9C3XGV3C+CW")).toBe(true);
+    expect(isFullPlusCode("GV3C+CW")).toBe(false);
+    expect(isFullPlusCode("7FG49Q0+")).toBe(false);
+    expect(isFullPlusCode("7FG49QCJ+2")).toBe(false);
+    expect(isFullPlusCode("ZZG49QCJ+2V")).toBe(false);
+  });
+});
+
+describe("parseCoordinates", () => {
+  it("reads decimal degrees, DMS and Plus Codes", () => {
+    expect(parseCoordinates("51.5074, -0.1278")).toEqual({ latitude: 51.5074, longitude: -0.1278 });
+    const dms = parseCoordinates(`51°30'26.6"N 0°7'40.1"W`);
+    expect(dms?.latitude).toBeCloseTo(51.507389, 6);
+    expect(dms?.longitude).toBeCloseTo(-0.127806, 6);
+    expect(parseCoordinates("E 151°12' S 33°52'")).toEqual({ latitude: -(33 + 52 / 60), longitude: 151.2 });
+    expect(parseCoordinates("7FG49QCJ+2V Somewhere")?.latitude).toBeCloseTo(20.3700625, 7);
+  });
+
+  it("rejects out-of-range and unreadable input", () => {
+    expect(parseCoordinates("91, 10")).toBeNull();
+    expect(parseCoordinates("10, 181")).toBeNull();
+    expect(parseCoordinates(`51°75'N 0°7'W`)).toBeNull();
+    expect(parseCoordinates("GV3C+CW London")).toBeNull();
+    expect(parseCoordinates("main entrance")).toBeNull();
+  });
+
+  it("formats DMS for display", () => {
+    expect(formatDms({ latitude: 51.507389, longitude: -0.127806 })).toBe(`51°30'26.6"N 0°07'40.1"W`);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { buildEyePaths, buildModulesPath, getFinderOrigins, isFinderModule } from "@/lib/qr-geometry";
+import { toSvgPathData } from "@/lib/qr-path";
+import type { QRMatrix } from "@/lib/qr-matrix";
+
+// Tiny hand-made matrix from rows of "#" (dark) and "." (light)
+function matrixFrom(rows: string[]): QRMatrix {
+  const size = rows.length;
+  const modules = Uint8Array.from(rows.join("").split(""), (c) => (c === "#" ? 1 : 0));
+  return { size, version: 1, errorCorrectionLevel: "M", maskPattern: 0, modules, reserved: new Uint8Array(size * size) };
+}
+
+describe("finder patterns", () => {
+  it("locates the three finder corners", () => {
+    expect(getFinderOrigins(21).map(({ row, col }) => [row, col])).toEqual([[0, 0], [0, 14], [14, 0]]);
+    expect(isFinderModule(21, 6, 6)).toBe(true);
+    expect(isFinderModule(21, 0, 20)).toBe(true);
+    expect(isFinderModule(21, 7, 7)).toBe(false);
+    expect(isFinderModule(21, 20, 20)).toBe(false);
+  });
+
+  it("builds a hollow frame and a ball for every eye", () => {
+    const { frames, balls } = buildEyePaths(21, { moduleSize: 10, margin: 0, frameShape: "square", ballShape: "square" });
+    expect(toSvgPathData(frames).match(/M/g)).toHaveLength(6);
+    expect(toSvgPathData(balls).match(/M/g)).toHaveLength(3);
+    expect(toSvgPathData(balls).startsWith("M20 20L50 20L50 50L20 50Z")).toBe(true);
+  });
+});
+
+describe("fluid design", () => {
+  const fluid = (rows: string[]) =>
+    toSvgPathData(buildModulesPath(matrixFrom(rows), { design: "fluid", moduleSize: 10, margin: 0 }));
+
+  it("rounds only the outer corners of joined modules", () => {
+    // Two modules side by side: rounded on the outside, square where they meet
+    const d = fluid(["##", ".."]);
+    expect(d.startsWith("M5 0L10 0L10 10L5 10C")).toBe(true);
+    expect(d).toContain("M10 0L15 0C");
+  });
+
+  it("fills the concave corner inside an L of dark modules", () => {
+    const withFillet = fluid(["##", "#."]);
+    // Light cell at (1, 1) gets a fillet anchored on its top-left corner
+    expect(withFillet).toContain("M10 10L");
+    // No fillet when the diagonal module is light
+    expect(fluid([".#", "#."])).not.toContain("M10 10L");
+  });
+});
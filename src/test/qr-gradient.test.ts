@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  createGradient,
+  getLinearGradientPoints,
+  normalizeStops,
+  sampleGradient,
+} from "@/lib/qr-gradient";
+import { renderQRSvg } from "@/lib/qr-svg";
+
+describe("gradient helpers", () => {
+  it("spreads preset colors evenly", () => {
+    expect(createGradient(["#000000", "#808080", "#ffffff"]).stops.map((s) => s.offset)).toEqual([0, 0.5, 1]);
+  });
+
+  it("pads and sorts stops to cover 0..1", () => {
+    const stops = normalizeStops([
+      { offset: 0.8, color: "#ffffff" },
+      { offset: 0.2, color: "#000000" },
+    ]);
+    expect(stops.map((s) => s.offset)).toEqual([0, 0.2, 0.8, 1]);
+    expect(stops[0].color).toBe("#000000");
+  });
+
+  it("interpolates colors between stops", () => {
+    const stops = createGradient(["#000000", "#ffffff"]).stops;
+    expect(sampleGradient(stops, 0.5)).toBe("#808080");
+    expect(sampleGradient(stops, 2)).toBe("#ffffff");
+  });
+
+  it("follows the CSS angle convention", () => {
+    // 90deg runs left to right through the middle of the box
+    const points = getLinearGradientPoints(90, 0, 0, 100);
+    expect(points.x1).toBeCloseTo(0);
+    expect(points.x2).toBeCloseTo(100);
+    expect(points.y1).toBeCloseTo(50);
+  });
+});
+
+describe("renderQRSvg gradients", () => {
+  it("fills modules with a user-space linear gradient", async () => {
+    const svg = await renderQRSvg("gradient", {
+      size: 200,
+      design: "square",
+      fgColor: "#000000",
+      bgColor: "#ffffff",
+      fgGradient: createGradient(["#0ea5e9", "#6366f1"], "linear", 90),
+    });
+    expect(svg).toContain('<linearGradient id="qr-fg" gradientUnits="userSpaceOnUse"');
+    expect(svg).toContain('fill="url(#qr-fg)"');
+  });
+
+  it("approximates conic gradients with clipped wedges", async () => {
+    const svg = await renderQRSvg("gradient", {
+      size: 200,
+      design: "square",
+      fgColor: "#000000",
+      bgColor: "#ffffff",
+      fgGradient: createGradient(["#000000", "#ff0000"], "conic", 0),
+    });
+    expect(svg).toMatch(/<clipPath id="qr-fg-clip-\d+">/);
+    expect(svg).not.toContain("conicGradient");
+  });
+});
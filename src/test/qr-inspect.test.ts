@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import type { LuminanceImage, Point } from "@/lib/qr-detect";
+import { describeSegments, inspectFirstQRCode, inspectQRCode } from "@/lib/qr-inspect";
+import { createQRMatrix, type QRMatrix } from "@/lib/qr-matrix";
+import type { ErrorCorrectionLevel } from "@/lib/qr-types";
+
+interface Print {
+  margin: number; // modules of paper around the symbol
+  scale: number; // pixels per module
+  dark?: number;
+  light?: number;
+  flip?: [number, number][]; // modules printed in the wrong color
+}
+
+// Print one symbol onto paper and return it with its outer corners
+function print(matrix: QRMatrix, { margin, scale, dark = 0, light = 255, flip = [] }: Print) {
+  const width = (matrix.size + margin * 2) * scale;
+  const data = new Uint8ClampedArray(width * width).fill(light);
+  const flipped = new Set(flip.map(([row, col]) => row * matrix.size + col));
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      const index = row * matrix.size + col;
+      if (!matrix.modules[index] === !flipped.has(index)) continue;
+      for (let dy = 0; dy < scale; dy++) {
+        const start = ((margin + row) * scale + dy) * width + (margin + col) * scale;
+        data.fill(dark, start, start + scale);
+      }
+    }
+  }
+  const image: LuminanceImage = { data, width, height: width };
+  const a = margin * scale;
+  const b = (margin + matrix.size) * scale;
+  const corners: Point[] = [[a, a], [b, a], [b, b], [a, b]];
+  return { image, corners };
+}
+
+// Data modules of a symbol, spread over the whole data area
+function dataModules(matrix: QRMatrix, count: number): [number, number][] {
+  const modules: [number, number][] = [];
+  for (let index = 0; index < matrix.modules.length && modules.length < count; index += 37) {
+    if (!matrix.reserved[index]) modules.push([Math.floor(index / matrix.size), index % matrix.size]);
+  }
+  return modules;
+}
+
+describe("inspectQRCode", () => {
+  it.each<[string, ErrorCorrectionLevel]>([
+    ["12345678901234", "L"],
+    ["HELLO WORLD", "Q"],
+    ["https://example.com/menu?table=12&lang=de", "H"],
+    ["x".repeat(180), "M"],
+  ])("reads the encoding of %s at level %s", (content, level) => {
+    const matrix = createQRMatrix(content, level);
+    const { image, corners } = print(matrix, { margin: 4, scale: 4 });
+    const inspection = inspectQRCode(image, corners)!;
+
+    expect(inspection.version).toBe(matrix.version);
+    expect(inspection.errorCorrectionLevel).toBe(level);
+    expect(inspection.maskPattern).toBe(matrix.maskPattern);
+    expect(inspection.decoded).toBe(true);
+    expect(inspection.moduleSize).toBe(4);
+  });
+
+  it("lists segment modes and character counts", () => {
+    const inspect = (content: string) => {
+      const { image, corners } = print(createQRMatrix(content, "M"), { margin: 4, scale: 3 });
+      return inspectQRCode(image, corners)!;
+    };
+    const numeric = inspect("12345678901234");
+    expect(numeric.segments).toEqual([{ mode: "numeric", count: 14 }]);
+    expect(numeric.eci).toEqual([]);
+    expect(describeSegments(numeric)).toBe("numeric");
+
+    const url = inspect("https://example.com");
+    expect(describeSegments(url)).toBe("byte");
+    expect(url.segments.reduce((sum, segment) => sum + segment.count, 0)).toBe(19);
+  });
+
+  it("grades a clean print A with an adequate quiet zone", () => {
+    const { image, corners } = print(createQRMatrix("https://example.com", "M"), { margin: 4, scale: 4 });
+    const { grades, quietZone, quietZoneAdequate } = inspectQRCode(image, corners)!;
+
+    expect(quietZone).toBe(4);
+    expect(quietZoneAdequate).toBe(true);
+    expect(grades.overall).toBe("A");
+    expect(grades.symbolContrast.value).toBe(1);
+    expect(grades.unusedErrorCorrection.value).toBe(1);
+    expect(grades.fixedPatternDamage.value).toBe(0);
+  });
+
+  it("reports a short quiet zone", () => {
+    const { image, corners } = print(createQRMatrix("https://example.com", "M"), { margin: 2, scale: 4 });
+    const inspection = inspectQRCode(image, corners)!;
+    expect(inspection.quietZone).toBe(2);
+    expect(inspection.quietZoneAdequate).toBe(false);
+  });
+
+  it("grades washed-out prints down on contrast", () => {
+    const { image, corners } = print(createQRMatrix("https://example.com", "M"), { margin: 4, scale: 4, dark: 110, light: 200 });
+    const { grades, decoded } = inspectQRCode(image, corners)!;
+    expect(decoded).toBe(true);
+    expect(grades.symbolContrast.grade).toBe("D");
+    expect(grades.overall).toBe("D");
+  });
+
+  it("spends unused error correction on damaged data modules", () => {
+    const matrix = createQRMatrix("https://example.com/menu?table=12", "H");
+    const { image, corners } = print(matrix, { margin: 4, scale: 4, flip: dataModules(matrix, 6) });
+    const { grades, decoded } = inspectQRCode(image, corners)!;
+
+    expect(decoded).toBe(true);
+    expect(grades.unusedErrorCorrection.value).toBeLessThan(1);
+    expect(grades.unusedErrorCorrection.value).toBeGreaterThan(0);
+    expect(grades.modulation.value).toBe(0); // the flipped modules have the wrong color
+  });
+
+  it("counts fixed pattern damage per finder", () => {
+    const matrix = createQRMatrix("https://example.com", "M");
+    const { image, corners } = print(matrix, { margin: 4, scale: 4, flip: [[3, 3], [2, 2], [0, 6]] });
+    const { grades } = inspectQRCode(image, corners)!;
+    expect(grades.fixedPatternDamage).toEqual({ value: 3, grade: "D" });
+    expect(grades.overall).toBe("D");
+  });
+
+  it("works from the corners a single full-image read reports", () => {
+    const matrix = createQRMatrix("https://example.com/proof", "Q");
+    const { image } = print(matrix, { margin: 4, scale: 5 });
+    const inspection = inspectFirstQRCode(image, 0.5)!;
+
+    expect(inspection.version).toBe(matrix.version);
+    expect(inspection.errorCorrectionLevel).toBe("Q");
+    expect(inspection.moduleSize).toBeCloseTo(10, 0);
+  });
+
+  it("returns null where there is no code", () => {
+    const blank: LuminanceImage = { data: new Uint8ClampedArray(100 * 100).fill(255), width: 100, height: 100 };
+    expect(inspectQRCode(blank, [[10, 10], [90, 10], [90, 90], [10, 90]])).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { createQRMatrix, isDarkModule } from "@/lib/qr-matrix";
+
+describe("createQRMatrix", () => {
+  it("sizes the matrix from the encoded version", () => {
+    const matrix = createQRMatrix("https://example.com");
+    expect(matrix.size).toBe(matrix.version * 4 + 17);
+    expect(matrix.modules.length).toBe(matrix.size * matrix.size);
+  });
+
+  it("grows beyond version 5 for long payloads", () => {
+    const matrix = createQRMatrix("https://example.com/" + "a".repeat(200), "H");
+    expect(matrix.version).toBeGreaterThan(5);
+  });
+
+  it("places finder patterns at the true module coordinates", () => {
+    const matrix = createQRMatrix("hello", "M");
+    const last = matrix.size - 1;
+    // Outer ring is dark, separator ring is light
+    expect(isDarkModule(matrix, 0, 0)).toBe(true);
+    expect(isDarkModule(matrix, 0, last)).toBe(true);
+    expect(isDarkModule(matrix, last, 0)).toBe(true);
+    expect(isDarkModule(matrix, 1, 1)).toBe(false);
+    expect(isDarkModule(matrix, 3, 3)).toBe(true);
+    expect(isDarkModule(matrix, 7, 7)).toBe(false);
+  });
+
+  it("treats coordinates outside the symbol as light", () => {
+    const matrix = createQRMatrix("hello");
+    expect(isDarkModule(matrix, -1, 0)).toBe(false);
+    expect(isDarkModule(matrix, 0, matrix.size)).toBe(false);
+  });
+});
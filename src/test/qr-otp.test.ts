@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpPayload,
+  computeOtp,
+  generateOtpSecret,
+  getOtpErrors,
+  getTotpCounter,
+  redactOtpSecret,
+} from "@/lib/qr-otp";
+import { EMPTY_OTP } from "@/lib/qr-types";
+
+// RFC 4226 / 6238 reference secrets: "12345678901234567890" repeated to the hash length
+const secretFor = (length: number) => base32Encode(new TextEncoder().encode("1234567890".repeat(7).slice(0, length)));
+
+describe("base32", () => {
+  it("encodes RFC 4648 test vectors without padding", () => {
+    expect(base32Encode(new TextEncoder().encode("foobar"))).toBe("MZXW6YTBOI");
+    expect(new TextDecoder().decode(base32Decode("mzxw 6ytb oi======")!)).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet and impossible lengths", () => {
+    expect(base32Decode("MZXW6YTB01")).toBeNull();
+    expect(base32Decode("MZXW6YTBO")).toBeNull();
+  });
+
+  it("generates 160-bit secrets", () => {
+    const secret = generateOtpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(secret).not.toBe(generateOtpSecret());
+  });
+});
+
+describe("computeOtp", () => {
+  it("matches the RFC 4226 HOTP values", async () => {
+    const secret = secretFor(20);
+    expect(await computeOtp(secret, 0)).toBe("755224");
+    expect(await computeOtp(secret, 9)).toBe("520489");
+  });
+
+  it("matches the RFC 6238 TOTP values for each algorithm", async () => {
+    const counter = getTotpCounter(1111111109 * 1000, 30);
+    expect(await computeOtp(secretFor(20), counter, "SHA1", 8)).toBe("07081804");
+    expect(await computeOtp(secretFor(32), counter, "SHA256", 8)).toBe("68084774");
+    expect(await computeOtp(secretFor(64), counter, "SHA512", 8)).toBe("25091201");
+  });
+});
+
+describe("otpauth URIs", () => {
+  const data = { ...EMPTY_OTP, issuer: "Acme Corp", account: "alice@acme.com", secret: "jbsw y3dp ehpk 3pxp" };
+
+  it("builds the key URI with an issuer prefix and parameter", () => {
+    expect(buildOtpPayload(data)).toBe(
+      "otpauth://totp/Acme%20Corp:alice%40acme.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme%20Corp&algorithm=SHA1&digits=6&period=30"
+    );
+    expect(buildOtpPayload({ ...data, type: "hotp", counter: "7" })).toContain("&counter=7");
+  });
+
+  it("drops the secret for history", () => {
+    expect(redactOtpSecret(buildOtpPayload(data))).toBe(
+      "otpauth://totp/Acme%20Corp:alice%40acme.com?issuer=Acme%20Corp&algorithm=SHA1&digits=6&period=30"
+    );
+    expect(redactOtpSecret("otpauth://hotp/bob?counter=1&secret=JBSWY3DPEHPK3PXP")).toBe("otpauth://hotp/bob?counter=1");
+  });
+
+  it("reports invalid fields", () => {
+    expect(getOtpErrors(data)).toEqual({});
+    expect(getOtpErrors({ ...data, secret: "JBSWY3DP1" })).toHaveProperty("secret");
+    expect(getOtpErrors({ ...data, secret: "JBSWY3DP" })).toHaveProperty("secret");
+    expect(getOtpErrors({ ...data, issuer: "Acme:Corp", period: "0" })).toEqual({
+      issuer: "The issuer cannot contain a colon",
+      period: "Period is a positive number of seconds",
+    });
+  });
+});
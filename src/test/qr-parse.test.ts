@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { parseQRContent, splitPhoneNumber } from "@/lib/qr-parse";
+import { generateQRContent } from "@/lib/qr-utils";
+import { contactFromFormData } from "@/lib/qr-payload";
+
+describe("parseQRContent", () => {
+  it("reads back what the generator produces", () => {
+    const wifi = { ssid: "Home", password: "secret", authType: "WEP", hidden: "true" };
+    expect(parseQRContent(generateQRContent("wifi", wifi))).toEqual({ mode: "wifi", formData: wifi });
+
+    const email = { email: "a@example.com", subject: "Hi there", body: "Line 1\nLine 2 & more" };
+    expect(parseQRContent(generateQRContent("email", email))).toEqual({ mode: "email", formData: email });
+
+    const whatsapp = { phone: "5551234567", countryCode: "1", message: "Hello?" };
+    expect(parseQRContent(generateQRContent("whatsapp", whatsapp))).toEqual({ mode: "whatsapp", formData: whatsapp });
+
+    expect(parseQRContent("http://example.com/a?b=1")).toEqual({ mode: "url", formData: { url: "http://example.com/a?b=1" } });
+    expect(parseQRContent("just words")).toEqual({ mode: "text", formData: { text: "just words" } });
+  });
+
+  it("unescapes WiFi fields", () => {
+    const { formData } = parseQRContent(String.raw`WIFI:S:My\;Net\:5G;T:WPA;P:pa\\ss\;word;;`);
+    expect(formData).toMatchObject({ ssid: "My;Net:5G", password: "pa\\ss;word", authType: "WPA", hidden: "false" });
+    expect(parseQRContent("WIFI:S:Open;;").formData.authType).toBe("nopass");
+  });
+
+  it("parses multi-line vCards with parameters and folding", () => {
+    const vcard = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Doe;Jane;;;",
+      "FN:Jane Doe",
+      "TEL;TYPE=CELL:+1 555 0100",
+      "TEL;WORK;VOICE:+1 555 0199",
+      "item1.EMAIL;TYPE=INTERNET:jane@",
+      " example.com",
+      "ORG:Acme\\, Inc.;Research",
+      "ADR:;;1 Main St;Springfield;;12345;USA",
+      "END:VCARD",
+    ].join("\r\n");
+    const { mode, formData } = parseQRContent(vcard);
+    expect(mode).toBe("vcard");
+    expect(contactFromFormData(formData).contact).toMatchObject({
+      firstName: "Jane",
+      lastName: "Doe",
+      company: "Acme, Inc.",
+      phones: [
+        { type: "cell", value: "+1 555 0100" },
+        { type: "work", value: "+1 555 0199" },
+      ],
+      emails: [{ type: "work", value: "jane@example.com" }],
+      address: { street: "1 Main St", city: "Springfield", region: "", postcode: "12345", country: "USA" },
+    });
+  });
+
+  it("understands MECARD and MATMSG", () => {
+    expect(contactFromFormData(parseQRContent("MECARD:N:Doe,John;TEL:123;TEL:456;;").formData)).toMatchObject({
+      format: "mecard",
+      contact: { firstName: "John", lastName: "Doe", phones: [{ value: "123" }, { value: "456" }] },
+    });
+    expect(parseQRContent("MATMSG:TO:a@b.c;SUB:Hi;BODY:Yo;;")).toEqual({
+      mode: "email",
+      formData: { email: "a@b.c", subject: "Hi", body: "Yo" },
+    });
+  });
+});
+
+describe("parseQRContent phone payloads", () => {
+  it("reads SMS payloads in their common spellings", () => {
+    expect(parseQRContent("SMS:+14155550100:Call me").formData).toEqual({
+      phone: "4155550100",
+      countryCode: "1",
+      message: "Call me",
+      format: "smsto",
+    });
+    expect(parseQRContent("sms:12345&body=STOP").formData).toEqual({
+      phone: "12345",
+      countryCode: "",
+      message: "STOP",
+      format: "sms",
+    });
+  });
+
+  it("drops tel: parameters", () => {
+    expect(parseQRContent("tel:+44-20-7946-0000;ext=12")).toEqual({
+      mode: "tel",
+      formData: { phone: "2079460000", countryCode: "44", scheme: "tel" },
+    });
+  });
+});
+
+describe("parseQRContent locations", () => {
+  it("reads Android-style pins and map links, leaving other links as URLs", () => {
+    expect(parseQRContent("geo:0,0?q=40.7484,-73.9857(Empire%20State)").formData).toEqual({
+      latitude: "40.7484",
+      longitude: "-73.9857",
+      altitude: "",
+      label: "Empire State",
+      format: "geo",
+    });
+    expect(parseQRContent("https://www.google.com/maps/@35.6586,139.7454,17z").formData).toMatchObject({
+      latitude: "35.6586",
+      longitude: "139.7454",
+      format: "google",
+    });
+    expect(parseQRContent("https://www.google.com/maps/place/Tokyo").mode).toBe("url");
+  });
+});
+
+describe("parseQRContent events", () => {
+  it("reads the VEVENT of a calendar and skips its time zone definitions", () => {
+    const calendar = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VTIMEZONE",
+      "TZID:America/New_York",
+      "BEGIN:STANDARD",
+      "DTSTART:19701101T020000",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=America/New_York:20261103T183000",
+      "DTEND;TZID=America/New_York:20261103T200000",
+      "SUMMARY:Meetup\\, evening",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(parseQRContent(calendar)).toMatchObject({
+      mode: "event",
+      formData: {
+        title: "Meetup, evening",
+        start: "2026-11-03T18:30",
+        end: "2026-11-03T20:00",
+        allDay: "false",
+        timeZone: "America/New_York",
+      },
+    });
+  });
+});
+
+describe("parseQRContent payments", () => {
+  it("splits combined (K) QR-bill addresses into postal code and town", () => {
+    const bill = [
+      "SPC", "0200", "1", "CH5800791123000889012",
+      "K", "Robert Schneider AG", "Rue du Lac 1268", "2501 Biel", "", "", "CH",
+      "", "", "", "", "", "", "",
+      "", "CHF",
+      "", "", "", "", "", "", "",
+      "NON", "", "Donation", "EPD",
+    ].join("\r\n");
+    expect(parseQRContent(bill)).toMatchObject({
+      mode: "payment",
+      formData: {
+        scheme: "swiss",
+        name: "Robert Schneider AG",
+        street: "Rue du Lac 1268",
+        buildingNumber: "",
+        postalCode: "2501",
+        town: "Biel",
+        debtorName: "",
+        referenceType: "NON",
+        message: "Donation",
+      },
+    });
+  });
+});
+
+describe("splitPhoneNumber", () => {
+  it("matches the longest known dial code", () => {
+    expect(splitPhoneNumber("+971501234567")).toEqual({ countryCode: "971", phone: "501234567" });
+    expect(splitPhoneNumber("919876543210")).toEqual({ countryCode: "91", phone: "9876543210" });
+    expect(splitPhoneNumber("14155550100")).toEqual({ countryCode: "1", phone: "4155550100" });
+  });
+});
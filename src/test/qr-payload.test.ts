@@ -0,0 +1,243 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEventPayload,
+  buildMeCard,
+  buildVCard,
+  buildWifiPayload,
+  contactFromFormData,
+  contactToFormData,
+  eventToFormData,
+  toE164,
+} from "@/lib/qr-payload";
+import { parseQRContent } from "@/lib/qr-parse";
+import { generateQRContent } from "@/lib/qr-utils";
+import type { EventData, QRMode, VCardData, VCardFormat } from "@/lib/qr-types";
+
+const contact: VCardData = {
+  firstName: "Zoë",
+  lastName: "O'Neil; Jr.",
+  company: "Smith, Jones & Co",
+  title: "Head of R\\D",
+  phones: [
+    { type: "cell", value: "+447700900123" },
+    { type: "work", value: "+442079460000" },
+  ],
+  emails: [{ type: "work", value: "zoe@example.com" }],
+  urls: [{ type: "work", value: "https://example.com/a,b" }],
+  socials: [{ type: "linkedin", value: "https://www.linkedin.com/in/zoe" }],
+  address: { street: "1 High St, Flat 2", city: "London", region: "", postcode: "EC1A 1BB", country: "UK" },
+  birthday: "1990-01-15",
+  note: "Met at the fair;\nfollow up",
+};
+
+describe("buildWifiPayload", () => {
+  it("escapes delimiters and omits the hidden flag when not set", () => {
+    expect(buildWifiPayload({ ssid: "Cafe;Guest", password: String.raw`a:b,c\"d`, authType: "WPA" })).toBe(
+      String.raw`WIFI:T:WPA;S:Cafe\;Guest;P:a\:b\,c\\\"d;;`
+    );
+    expect(buildWifiPayload({ ssid: "Open", authType: "nopass", hidden: true })).toBe("WIFI:T:nopass;S:Open;H:true;;");
+  });
+
+  it("adds the transition disable flag for WPA3 networks", () => {
+    expect(buildWifiPayload({ ssid: "Home", password: "correct-horse", authType: "SAE", transitionDisable: true })).toBe(
+      "WIFI:T:SAE;R:1;S:Home;P:correct-horse;;"
+    );
+    expect(buildWifiPayload({ ssid: "Home", password: "wep12", authType: "WEP", transitionDisable: true })).toBe(
+      "WIFI:T:WEP;S:Home;P:wep12;;"
+    );
+  });
+
+  it("writes enterprise fields and drops the password for certificate methods", () => {
+    expect(
+      buildWifiPayload({
+        ssid: "CorpNet",
+        password: "s3cret",
+        authType: "WPA2-EAP",
+        eapMethod: "PEAP",
+        phase2: "MSCHAPV2",
+        identity: "alice@corp.example",
+        anonymousIdentity: "anonymous@corp.example",
+      })
+    ).toBe("WIFI:T:WPA2-EAP;S:CorpNet;E:PEAP;PH2:MSCHAPV2;A:anonymous@corp.example;I:alice@corp.example;P:s3cret;;");
+    expect(
+      buildWifiPayload({ ssid: "CorpNet", password: "ignored", authType: "WPA2-EAP", eapMethod: "TLS", identity: "alice" })
+    ).toBe("WIFI:T:WPA2-EAP;S:CorpNet;E:TLS;I:alice;;");
+  });
+});
+
+describe("toE164", () => {
+  it("joins the dial code and drops formatting and the trunk prefix", () => {
+    expect(toE164("44", "07700 900-123")).toBe("+447700900123");
+    expect(toE164("1", "(415) 555-0100")).toBe("+14155550100");
+    expect(toE164("39", "06 1234 5678")).toBe("+390612345678");
+  });
+
+  it("keeps numbers that already carry a country code", () => {
+    expect(toE164("91", "+44 7700 900123")).toBe("+447700900123");
+    expect(toE164("91", "0044 7700 900123")).toBe("+447700900123");
+    expect(toE164("", "12345")).toBe("12345");
+  });
+});
+
+describe("buildVCard", () => {
+  it("escapes text values and uses CRLF line endings", () => {
+    const vcard = buildVCard(contact);
+    expect(vcard).toContain(String.raw`N:O'Neil\; Jr.;Zoë;;;`);
+    expect(vcard).toContain(String.raw`ORG:Smith\, Jones & Co`);
+    expect(vcard).toContain("\r\nTEL;TYPE=CELL:+447700900123\r\n");
+    expect(vcard).toContain("\r\nURL;TYPE=WORK:https://example.com/a,b\r\n");
+    expect(vcard).toContain(String.raw`ADR:;;1 High St\, Flat 2;London;;EC1A 1BB;UK`);
+  });
+
+  it("writes vCard 4.0 phones as tel: URIs", () => {
+    const vcard = buildVCard({ ...contact, phones: [{ type: "cell", value: "+44 7700 900123" }] }, "4.0");
+    expect(vcard).toContain("VERSION:4.0");
+    expect(vcard).toContain("TEL;TYPE=cell;VALUE=uri:tel:+447700900123");
+    expect(vcard).toContain("BDAY:19900115");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const vcard = buildVCard({ ...contact, title: "é".repeat(60) });
+    const encoder = new TextEncoder();
+    vcard.split("\r\n").forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(parseQRContent(vcard).formData.title).toBe("é".repeat(60));
+  });
+});
+
+const event: EventData = {
+  title: "Launch; Q&A, demos",
+  start: "2026-11-03T09:00",
+  end: "2026-11-03T10:30",
+  allDay: false,
+  timeZone: "Europe/Berlin",
+  location: "Hall B, Expo Centre",
+  description: "Doors open 8:30\nBring your badge",
+  url: "https://example.com/launch",
+};
+
+describe("buildEventPayload", () => {
+  it("writes zoned times with a TZID and escapes text", () => {
+    const payload = buildEventPayload(event);
+    expect(payload.startsWith("BEGIN:VEVENT\r\nSUMMARY:Launch\\; Q&A\\, demos\r\n")).toBe(true);
+    expect(payload).toContain("\r\nDTSTART;TZID=Europe/Berlin:20261103T090000\r\n");
+    expect(payload).toContain("\r\nDTEND;TZID=Europe/Berlin:20261103T103000\r\n");
+    expect(payload).toContain(String.raw`DESCRIPTION:Doors open 8:30\nBring your badge`);
+    expect(payload.endsWith("\r\nEND:VEVENT")).toBe(true);
+  });
+
+  it("marks UTC times with Z and gives all-day events an exclusive end date", () => {
+    expect(buildEventPayload({ ...event, timeZone: "UTC" })).toContain("DTSTART:20261103T090000Z");
+    const allDay = buildEventPayload({ ...event, allDay: true, start: "2026-12-31", end: "2027-01-01" });
+    expect(allDay).toContain("DTSTART;VALUE=DATE:20261231");
+    expect(allDay).toContain("DTEND;VALUE=DATE:20270102");
+  });
+});
+
+describe("payload round trips", () => {
+  const cases: [QRMode, Record<string, string>][] = [
+    ["url", { url: "https://example.com/path?q=1&r=a%20b" }],
+    ["text", { text: "Line one\nLine two; with: delimiters" }],
+    ["whatsapp", { phone: "501234567", countryCode: "971", message: "Hi & bye?" }],
+    ["sms", { phone: "7700900123", countryCode: "44", message: "JOIN: now?", format: "smsto" }],
+    ["sms", { phone: "4155550100", countryCode: "1", message: "Hi & bye", format: "sms" }],
+    ["tel", { phone: "501234567", countryCode: "971", scheme: "tel" }],
+    ["tel", { phone: "4155550100", countryCode: "1", scheme: "facetime-audio" }],
+    ["geo", { latitude: "51.507389", longitude: "-0.127806", altitude: "35", label: "North Entrance & Lobby", format: "geo" }],
+    ["geo", { latitude: "-33.8688", longitude: "151.2093", altitude: "", label: "", format: "google" }],
+    ["geo", { latitude: "48.8584", longitude: "2.2945", altitude: "", label: "Gate C", format: "apple" }],
+    ["payment", { scheme: "upi", payee: "shop@okbank", name: "Sharma & Sons", amount: "499.00", note: "Inv 1042" }],
+    [
+      "payment",
+      {
+        scheme: "epc",
+        name: "Muster GmbH",
+        iban: "DE89370400440532013000",
+        bic: "COBADEFFXXX",
+        amount: "12.50",
+        purpose: "GDDS",
+        reference: "RF18539007547034",
+        text: "",
+        info: "Danke",
+      },
+    ],
+    [
+      "payment",
+      {
+        scheme: "swiss",
+        iban: "CH4431999123000889012",
+        name: "Robert Schneider AG",
+        street: "Rue du Lac",
+        buildingNumber: "1268",
+        postalCode: "2501",
+        town: "Biel",
+        country: "CH",
+        amount: "1949.75",
+        currency: "CHF",
+        debtorName: "Pia-Maria Rutschmann-Schnyder",
+        debtorStreet: "Grosse Marktgasse",
+        debtorBuildingNumber: "28",
+        debtorPostalCode: "9400",
+        debtorTown: "Rorschach",
+        debtorCountry: "CH",
+        referenceType: "QRR",
+        reference: "210000000003139471430009017",
+        message: "Auftrag vom 15.06.2026",
+        billInformation: "//S1/10/10201409/11/260615/30/106017086",
+      },
+    ],
+    ["payment", { scheme: "bitcoin", address: "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq", amount: "0.0015", label: "Café", message: "Order #1" }],
+    ["payment", { scheme: "ethereum", address: "0xde0B295669a9FD93d5F28D9Ec85E40f4cb697BAe", amount: "0.05", chainId: "137" }],
+    [
+      "otp",
+      {
+        type: "totp",
+        issuer: "Acme Corp",
+        account: "alice@acme.com",
+        secret: "JBSWY3DPEHPK3PXP",
+        algorithm: "SHA256",
+        digits: "8",
+        period: "60",
+        counter: "0",
+      },
+    ],
+    ["wifi", { ssid: "Cafe;Guest", password: "p@ss:w,rd\\", authType: "WPA", hidden: "true" }],
+    ["wifi", { ssid: "Lobby", password: "", authType: "nopass", hidden: "false" }],
+    ["wifi", { ssid: "Home", password: "correct-horse", authType: "SAE", hidden: "false", transitionDisable: "true" }],
+    [
+      "wifi",
+      {
+        ssid: "CorpNet",
+        password: "s3cret",
+        authType: "WPA2-EAP",
+        hidden: "false",
+        eapMethod: "TTLS",
+        phase2: "PAP",
+        identity: "alice@corp.example",
+        anonymousIdentity: "",
+      },
+    ],
+    ["vcard", contactToFormData(contact, "3.0")],
+    ["vcard", contactToFormData(contact, "4.0")],
+    ["email", { email: "team@example.com", subject: "Q&A: 50% off", body: "Hello,\nSee you" }],
+    ["event", eventToFormData(event)],
+    ["event", eventToFormData({ title: "Expo", start: "2026-11-04", end: "2026-11-05", allDay: true, timeZone: "floating" })],
+  ];
+
+  it.each(cases)("parses %s back to the same form data", (mode, formData) => {
+    expect(parseQRContent(generateQRContent(mode, formData))).toEqual({ mode, formData });
+  });
+
+  it("round trips MeCards, which carry profiles as plain URLs", () => {
+    const { formData } = parseQRContent(buildMeCard(contact));
+    expect(contactFromFormData(formData)).toEqual({
+      format: "mecard" satisfies VCardFormat,
+      contact: {
+        ...contact,
+        title: undefined,
+        phones: contact.phones.map((phone) => ({ ...phone, type: "cell" })),
+        urls: [...contact.urls, { type: "work", value: "https://www.linkedin.com/in/zoe" }],
+        socials: [],
+      },
+    });
+  });
+});
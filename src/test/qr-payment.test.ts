@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEpcPayload,
+  buildSwissPayload,
+  buildUpiPayload,
+  decimalToUnits,
+  getPaymentErrors,
+  isValidBitcoinAddress,
+  isValidCreditorReference,
+  isQrIban,
+  isValidIban,
+  isValidQrReference,
+  unitsToDecimal,
+} from "@/lib/qr-payment";
+
+describe("account validation", () => {
+  it("checks IBAN checksums and SEPA lengths", () => {
+    expect(isValidIban("DE89 3704 0044 0532 0130 00")).toBe(true);
+    expect(isValidIban("GB82WEST12345698765432")).toBe(true);
+    expect(isValidIban("DE89370400440532013001")).toBe(false);
+    expect(isValidIban("DE8937040044053201300")).toBe(false);
+  });
+
+  it("checks RF creditor references", () => {
+    expect(isValidCreditorReference("RF18 5390 0754 7034")).toBe(true);
+    expect(isValidCreditorReference("RF19 5390 0754 7034")).toBe(false);
+  });
+
+  it("recognises QR-IBANs and QR reference check digits", () => {
+    expect(isQrIban("CH44 3199 9123 0008 8901 2")).toBe(true);
+    expect(isQrIban("CH5800791123000889012")).toBe(false);
+    expect(isValidQrReference("21 00000 00003 13947 14300 09017")).toBe(true);
+    expect(isValidQrReference("210000000003139471430009018")).toBe(false);
+  });
+
+  it("verifies bech32 and bech32m checksums", () => {
+    expect(isValidBitcoinAddress("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4")).toBe(true);
+    expect(isValidBitcoinAddress("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0")).toBe(true);
+    expect(isValidBitcoinAddress("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5")).toBe(false);
+    expect(isValidBitcoinAddress("bc1qW508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4")).toBe(false);
+    expect(isValidBitcoinAddress("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2")).toBe(true);
+  });
+});
+
+describe("payment payloads", () => {
+  it("builds EPC069-12 version 002 lines and drops trailing empty ones", () => {
+    expect(
+      buildEpcPayload({ name: "Muster GmbH", iban: "de89 3704 0044 0532 0130 00", amount: "12.5", text: "Invoice 1042" })
+    ).toBe(["BCD", "002", "1", "SCT", "", "Muster GmbH", "DE89370400440532013000", "EUR12.50", "", "", "Invoice 1042"].join("\n"));
+  });
+
+  it("builds SPC 0200 with structured addresses and no trailing line break", () => {
+    const payload = buildSwissPayload({
+      iban: "CH44 3199 9123 0008 8901 2",
+      creditor: { name: "Robert Schneider AG", street: "Rue du Lac", buildingNumber: "1268", postalCode: "2501", town: "Biel", country: "ch" },
+      amount: "1949.7",
+      currency: "CHF",
+      debtor: null,
+      referenceType: "QRR",
+      reference: "21 00000 00003 13947 14300 09017",
+      message: "Order of 15 June 2026",
+    });
+    const lines = payload.split("\n");
+    expect(lines.slice(0, 11)).toEqual(["SPC", "0200", "1", "CH4431999123000889012", "S", "Robert Schneider AG", "Rue du Lac", "1268", "2501", "Biel", "CH"]);
+    expect(lines.slice(18, 21)).toEqual(["1949.70", "CHF", ""]);
+    expect(lines.slice(27)).toEqual(["QRR", "210000000003139471430009017", "Order of 15 June 2026", "EPD"]);
+  });
+
+  it("percent-encodes UPI parameters but keeps the VPA readable", () => {
+    expect(buildUpiPayload({ payee: "shop@okbank", name: "Sharma & Sons", amount: "499", note: "Inv 1042" })).toBe(
+      "upi://pay?pa=shop@okbank&pn=Sharma%20%26%20Sons&am=499.00&cu=INR&tn=Inv%201042"
+    );
+  });
+
+  it("converts between decimal amounts and base units", () => {
+    expect(decimalToUnits("1.5", 18)).toBe("1500000000000000000");
+    expect(unitsToDecimal("1500000000000000000", 18)).toBe("1.5");
+    expect(unitsToDecimal("2.014e18", 18)).toBe("2.014");
+    expect(unitsToDecimal("1.5", 18)).toBeNull();
+  });
+
+  it("reports spec violations per field", () => {
+    expect(getPaymentErrors({ scheme: "epc", name: "A", iban: "DE89370400440532013000", reference: "RF18", text: "x" })).toHaveProperty("reference");
+    expect(getPaymentErrors({ scheme: "epc", name: "A", iban: "US12345678901234567" })).toHaveProperty("iban");
+    expect(getPaymentErrors({ scheme: "upi", payee: "shop@okbank", name: "Shop", amount: "10.999" })).toEqual({
+      amount: "Use digits with up to 2 decimals",
+    });
+    const bill = { scheme: "swiss", iban: "CH4431999123000889012", name: "Robert Schneider AG", postalCode: "2501", town: "Biel", country: "CH" };
+    expect(getPaymentErrors({ ...bill, reference: "210000000003139471430009017" })).toEqual({});
+    expect(getPaymentErrors({ ...bill, referenceType: "NON" })).toHaveProperty("referenceType");
+    expect(getPaymentErrors({ ...bill, iban: "DE89370400440532013000" })).toHaveProperty("iban");
+    expect(getPaymentErrors({ ...bill, iban: "CH5800791123000889012", debtorName: "Pia Rutschmann" })).toEqual({
+      debtorPostalCode: "Postal code is required",
+      debtorTown: "Town is required",
+      debtorCountry: "Two-letter country code",
+    });
+    // Fields left over from another scheme are not part of the bill
+    expect(getPaymentErrors({ ...bill, reference: "210000000003139471430009017", payee: "दुकान@upi", note: "धन्यवाद" })).toEqual({});
+    expect(getPaymentErrors({ ...bill, reference: "210000000003139471430009017", message: "Danke 谢谢" })).toEqual({
+      message: "Only Latin characters are allowed",
+    });
+    expect(getPaymentErrors({ scheme: "ethereum", address: "0xde0B295669a9FD93d5F28D9Ec85E40f4cb697BAe", amount: "0.05" })).toEqual({});
+  });
+});
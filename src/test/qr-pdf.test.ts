@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { computeSheetLayout, createQRPdf, createQRSheetPdf, fitText, measureText, wrapText } from "@/lib/qr-pdf";
+import type { QRRenderOptions } from "@/lib/qr-types";
+
+const options: QRRenderOptions = {
+  size: 200,
+  design: "square",
+  fgColor: "#000000",
+  bgColor: "#ffffff",
+};
+
+// jsdom's Blob has no arrayBuffer()
+const readPdf = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new TextDecoder("latin1").decode(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe("computeSheetLayout", () => {
+  it("fills the usable page area", () => {
+    const layout = computeSheetLayout({
+      paperSize: "a4",
+      orientation: "portrait",
+      layout: "fill",
+      qrSize: 40,
+      gridCols: 3,
+      margin: 10,
+      showLabel: true,
+    });
+    // 190mm / 45mm = 4 columns, 277mm / 55mm = 5 rows
+    expect(layout).toEqual({ cols: 4, rows: 5, maxItems: 20 });
+  });
+
+  it("swaps dimensions in landscape", () => {
+    const layout = computeSheetLayout({
+      paperSize: "a4",
+      orientation: "landscape",
+      layout: "fill",
+      qrSize: 40,
+      gridCols: 3,
+      margin: 10,
+      showLabel: false,
+    });
+    expect(layout.cols).toBe(6);
+    expect(layout.rows).toBe(4);
+  });
+});
+
+describe("PDF export", () => {
+  it("sizes a single code page in millimetres", async () => {
+    const pdf = await readPdf(await createQRPdf("https://example.com", options, 50));
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/MediaBox [0 0 141.732 141.732]");
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+
+  it("paginates copies that do not fit one sheet", async () => {
+    const pdf = await readPdf(
+      await createQRSheetPdf("https://example.com", options, {
+        paperSize: "a5",
+        orientation: "portrait",
+        layout: "grid",
+        qrSize: 60,
+        copies: 8,
+        gridCols: 2,
+        margin: 10,
+        label: "Café (menu)",
+      })
+    );
+    // a5 holds 2 x 2 codes of 60mm with labels
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("(Caf\\351 \\(menu\\)) Tj");
+  });
+
+  it("truncates labels wider than the code", () => {
+    expect(fitText("short", 9, 40)).toBe("short");
+    expect(fitText("a".repeat(200), 9, 40)).toMatch(/^a+\.\.\.$/);
+  });
+
+  it("wraps QR-bill text at word boundaries and splits overlong words", () => {
+    const lines = wrapText(`Order of 15 June 2026 ${"x".repeat(80)}`, 10, 40);
+    expect(lines[0]).toBe("Order of 15 June 2026");
+    expect(lines.join("")).toBe(`Order of 15 June 2026${"x".repeat(80)}`);
+    lines.forEach((line) => expect(measureText(line, 10)).toBeLessThanOrEqual((40 * 72) / 25.4));
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { verifyQRCanvas, type QRVerification } from "@/lib/qr-decode";
+import { ROBUSTNESS_TESTS, computeHomography, applyHomography, runRobustnessTest } from "@/lib/qr-robustness";
+
+vi.mock("@/lib/qr-decode", () => ({ verifyQRCanvas: vi.fn() }));
+
+const verified: QRVerification = { ok: true, decoded: "https://example.com", message: "Verified - decoded content matches" };
+const unreadable: QRVerification = { ok: false, decoded: null, message: "Unreadable - scanner could not decode this QR" };
+
+// jsdom has no canvas backend - a context that hands out blank pixel buffers and draws nothing
+function stubCanvas() {
+  const pixels = (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) });
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+    drawImage: () => {},
+    fillRect: () => {},
+    translate: () => {},
+    rotate: () => {},
+    putImageData: () => {},
+    getImageData: (_x: number, _y: number, width: number, height: number) => pixels(width, height),
+    createImageData: pixels,
+  } as unknown as CanvasRenderingContext2D);
+  // The JPEG round trip cannot encode here, so that degradation throws
+  vi.spyOn(HTMLCanvasElement.prototype, "toDataURL").mockImplementation(() => {
+    throw new Error("JPEG encode failed");
+  });
+}
+
+function canvas(): HTMLCanvasElement {
+  const element = document.createElement("canvas");
+  element.width = 800;
+  element.height = 800;
+  return element;
+}
+
+describe("computeHomography", () => {
+  it("maps every source corner onto its target", () => {
+    const src: [number, number][] = [[0, 0], [100, 0], [100, 100], [0, 100]];
+    const dst: [number, number][] = [[10, 5], [90, 0], [110, 100], [-5, 95]];
+    const h = computeHomography(src, dst);
+
+    src.forEach(([x, y], i) => {
+      const [u, v] = applyHomography(h, x, y);
+      expect(u).toBeCloseTo(dst[i][0], 6);
+      expect(v).toBeCloseTo(dst[i][1], 6);
+    });
+  });
+
+  it("is the identity for identical quads", () => {
+    const quad: [number, number][] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+    const [u, v] = applyHomography(computeHomography(quad, quad), 0.25, 0.75);
+    expect(u).toBeCloseTo(0.25, 9);
+    expect(v).toBeCloseTo(0.75, 9);
+  });
+});
+
+describe("ROBUSTNESS_TESTS", () => {
+  it("covers print size, blur, rotation, perspective, compression, contrast and occlusion", () => {
+    expect(ROBUSTNESS_TESTS.map((test) => test.id)).toEqual([
+      "small",
+      "tiny",
+      "blur",
+      "rotate",
+      "rotate-45",
+      "perspective",
+      "jpeg",
+      "contrast",
+      "occlusion",
+    ]);
+    expect(ROBUSTNESS_TESTS.every((test) => test.label.length > 0)).toBe(true);
+  });
+});
+
+describe("runRobustnessTest", () => {
+  beforeEach(stubCanvas);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(verifyQRCanvas).mockReset();
+  });
+
+  it("records every degradation and scores the share that still decodes", async () => {
+    // In order: small, tiny, blur, rotate, rotate-45, perspective, (jpeg throws), contrast, occlusion
+    vi.mocked(verifyQRCanvas)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(unreadable)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(verified)
+      .mockResolvedValueOnce(unreadable);
+    const onProgress = vi.fn();
+
+    const report = await runRobustnessTest(canvas(), "https://example.com", onProgress);
+
+    expect(report.results.map(({ id, passed }) => [id, passed])).toEqual([
+      ["small", true],
+      ["tiny", false],
+      ["blur", true],
+      ["rotate", true],
+      ["rotate-45", true],
+      ["perspective", true],
+      ["jpeg", false],
+      ["contrast", true],
+      ["occlusion", false],
+    ]);
+    expect(report.results[1].message).toBe(unreadable.message);
+    expect(report).toMatchObject({ passed: 6, total: 9, score: 67 });
+
+    expect(verifyQRCanvas).toHaveBeenCalledTimes(8);
+    expect(vi.mocked(verifyQRCanvas).mock.calls.every(([, expected]) => expected === "https://example.com")).toBe(true);
+    expect(onProgress.mock.calls.map(([done, total]) => `${done}/${total}`)).toEqual(
+      ROBUSTNESS_TESTS.map((_, i) => `${i + 1}/9`)
+    );
+  });
+
+  it("fails a degradation that throws instead of aborting the run", async () => {
+    vi.mocked(verifyQRCanvas).mockResolvedValue(verified);
+
+    const report = await runRobustnessTest(canvas(), "https://example.com");
+
+    expect(report.results.find((result) => result.id === "jpeg")).toEqual({
+      id: "jpeg",
+      label: "JPEG compression (15%)",
+      passed: false,
+      message: "JPEG encode failed",
+    });
+    expect(report).toMatchObject({ passed: 8, total: 9, score: 89 });
+  });
+});
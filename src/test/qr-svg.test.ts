@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { createGradient } from "@/lib/qr-gradient";
+import { renderQRSvg } from "@/lib/qr-svg";
+import { QRPath, toSvgPathData } from "@/lib/qr-path";
+
+describe("toSvgPathData", () => {
+  it("serializes rectangles and curves", () => {
+    const path = new QRPath().rect(0, 0, 2, 2).circle(5, 5, 1);
+    const d = toSvgPathData(path);
+    expect(d.startsWith("M0 0L2 0L2 2L0 2Z")).toBe(true);
+    expect(d).toContain("C");
+  });
+});
+
+describe("renderQRSvg", () => {
+  it("produces a standalone vector document", async () => {
+    const svg = await renderQRSvg("https://example.com", {
+      size: 400,
+      design: "dots",
+      fgColor: "#112233",
+      bgColor: "#ffffff",
+    });
+    expect(svg).toContain('viewBox="0 0 400 400"');
+    expect(svg).toContain('fill="#112233"');
+    expect(svg).not.toContain("<image");
+    expect(new DOMParser().parseFromString(svg, "image/svg+xml").documentElement.nodeName).toBe("svg");
+  });
+
+  it("grows the canvas by the border width", async () => {
+    const svg = await renderQRSvg("hello", {
+      size: 200,
+      design: "square",
+      fgColor: "#000000",
+      bgColor: "#ffffff",
+      borderWidth: 10,
+      borderColor: "#ff0000",
+    });
+    expect(svg).toContain('viewBox="0 0 220 220"');
+    expect(svg).toContain('fill="#ff0000"');
+  });
+
+  it("inlines SVG logos as vector markup", async () => {
+    const logo = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24v24H0z" onclick="x()"/></svg>')}`;
+    const svg = await renderQRSvg("hello", {
+      size: 200,
+      design: "square",
+      fgColor: "#000000",
+      bgColor: "#ffffff",
+      logo: { id: "test", name: "Test", type: "custom", data: logo },
+      logoShape: "circle",
+    });
+    expect(svg).toContain('d="M0 0h24v24H0z"');
+    expect(svg).toContain("qr-logo-clip");
+    expect(svg).not.toContain("onclick");
+  });
+
+  it("drops outside references and namespaces the ids of inlined logos", async () => {
+    const markup =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24">' +
+      '<defs><linearGradient id="qr-fg"><stop offset="0" stop-color="red"/></linearGradient><path id="dot" d="M0 0h4v4H0z"/></defs>' +
+      '<style>.a { fill: url(#qr-fg); }</style>' +
+      '<rect class="a" fill="url(#qr-fg)" width="24" height="24"/>' +
+      '<use href="#dot"/><use xlink:href="#dot" x="8"/>' +
+      '<a href="javascript:alert(1)"><circle r="2"/></a>' +
+      '<use href="https://evil.example/sprite.svg#icon"/>' +
+      '<image xlink:href="data:image/png;base64,iVBORw0KGgo=" width="4" height="4"/>' +
+      "</svg>";
+    const svg = await renderQRSvg("hello", {
+      size: 200,
+      design: "square",
+      fgColor: "#000000",
+      fgGradient: createGradient(["#0ea5e9", "#6366f1"], "linear", 90),
+      bgColor: "#ffffff",
+      logo: { id: "test", name: "Test", type: "custom", data: `data:image/svg+xml,${encodeURIComponent(markup)}` },
+    });
+
+    expect(svg).not.toContain("javascript:");
+    expect(svg).not.toContain("evil.example");
+    expect(svg).toContain("data:image/png;base64,iVBORw0KGgo=");
+    // Only the generator's own gradient keeps the plain id
+    expect(svg.match(/id="qr-fg"/g)).toHaveLength(1);
+    expect(svg).toContain('fill="url(#qr-fg)"');
+    expect(svg).toContain('id="qr-logo-svg-qr-fg"');
+    expect(svg).toContain('fill="url(#qr-logo-svg-qr-fg)"');
+    expect(svg).toContain("fill: url(#qr-logo-svg-qr-fg)");
+    expect(svg).toContain('href="#qr-logo-svg-dot"');
+    expect(svg).toContain('xlink:href="#qr-logo-svg-dot"');
+  });
+
+  it("paints custom eye frames and balls in their own colors", async () => {
+    const svg = await renderQRSvg("hello", {
+      size: 200,
+      design: "dots",
+      fgColor: "#000000",
+      bgColor: "#ffffff",
+      eyes: { frameShape: "circle", ballShape: "leaf", frameColor: "#ff0000", ballColor: "#00ff00" },
+    });
+    expect(svg).toContain('fill="#ff0000" fill-rule="evenodd"');
+    expect(svg).toContain('fill="#00ff00"');
+  });
+});
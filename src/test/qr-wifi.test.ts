@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimatePasswordStrength,
+  getWifiErrors,
+  getWifiWarnings,
+  normalizeWifiAuthType,
+  wifiFromFormData,
+} from "@/lib/qr-wifi";
+import { EMPTY_WIFI, type WifiData } from "@/lib/qr-types";
+
+const wifi = (patch: Partial<WifiData>): WifiData => ({ ...EMPTY_WIFI, ssid: "Home", ...patch });
+
+describe("normalizeWifiAuthType", () => {
+  it("maps vendor spellings to the supported types", () => {
+    expect(normalizeWifiAuthType("wpa2")).toBe("WPA");
+    expect(normalizeWifiAuthType("WPA3")).toBe("SAE");
+    expect(normalizeWifiAuthType("wpa2-eap")).toBe("WPA2-EAP");
+    expect(normalizeWifiAuthType("open")).toBe("nopass");
+  });
+
+  it("falls back to the EAP defaults for unknown methods", () => {
+    const data = wifiFromFormData({ ssid: "Corp", authType: "WPA2-EAP", eapMethod: "LEAP", phase2: "PAP" });
+    expect(data.eapMethod).toBe("PEAP");
+    expect(data.phase2).toBe("MSCHAPV2");
+  });
+});
+
+describe("getWifiErrors", () => {
+  it("checks SSID length in bytes", () => {
+    expect(getWifiErrors(wifi({ ssid: "é".repeat(17), authType: "nopass" })).ssid).toBeDefined();
+    expect(getWifiErrors(wifi({ ssid: "é".repeat(16), authType: "nopass" }))).toEqual({});
+  });
+
+  it("enforces WPA and WEP key formats", () => {
+    expect(getWifiErrors(wifi({ password: "short" })).password).toBeDefined();
+    expect(getWifiErrors(wifi({ password: "z".repeat(64) })).password).toBeDefined();
+    expect(getWifiErrors(wifi({ password: "ab".repeat(32) }))).toEqual({});
+    expect(getWifiErrors(wifi({ authType: "WEP", password: "0123456789" }))).toEqual({});
+    expect(getWifiErrors(wifi({ authType: "WEP", password: "123456" })).password).toBeDefined();
+  });
+
+  it("requires identity and password only for password based EAP methods", () => {
+    expect(Object.keys(getWifiErrors(wifi({ authType: "WPA2-EAP" })))).toEqual(["identity", "password"]);
+    expect(getWifiErrors(wifi({ authType: "WPA2-EAP", eapMethod: "TLS" }))).toEqual({});
+  });
+});
+
+describe("password strength", () => {
+  it("rates common and patterned passwords as weak", () => {
+    expect(estimatePasswordStrength("password123").strength).toBe("weak");
+    expect(estimatePasswordStrength("abcdefgh").strength).toBe("weak");
+    expect(estimatePasswordStrength("Sunlight42").strength).toBe("fair");
+    expect(estimatePasswordStrength("correct-horse-battery-staple").strength).toBe("strong");
+  });
+
+  it("warns about WEP, open networks and weak passwords", () => {
+    expect(getWifiWarnings(wifi({ password: "correct-horse-battery-staple" }))).toEqual([]);
+    expect(getWifiWarnings(wifi({ password: "12345678" }))).toHaveLength(1);
+    expect(getWifiWarnings(wifi({ authType: "nopass" }))).toHaveLength(1);
+    expect(getWifiWarnings(wifi({ authType: "WEP", password: "abcde" }))).toHaveLength(2);
+  });
+});
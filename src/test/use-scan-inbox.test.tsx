@@ -0,0 +1,89 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { act, render, renderHook, waitFor } from "@testing-library/react";
+import { toast } from "sonner";
+import { QRScanner } from "@/components/QRScanner";
+import { useScanInbox } from "@/hooks/use-scan-inbox";
+import type { TransferLike } from "@/lib/qr-clipboard";
+
+const scanFile = vi.hoisted(() => vi.fn());
+
+vi.mock("html5-qrcode", () => ({
+  Html5Qrcode: class {
+    scanFile = scanFile;
+    clear = async () => {};
+  },
+}));
+vi.mock("@/lib/qr-inspect-file", () => ({ inspectQRCodeInFile: async () => null }));
+
+const transfer = (...files: File[]): TransferLike => ({ files, getData: () => "" });
+const image = (name: string) => new File(["png"], name, { type: "image/png" });
+
+// The Scan tab: Index keeps the inbox while the tab content (and its scanners) unmounts
+function ScanTab({ open, onInbox }: { open: boolean; onInbox: (inbox: ReturnType<typeof useScanInbox>) => void }) {
+  const inbox = useScanInbox(true);
+  onInbox(inbox);
+  return open ? (
+    <QRScanner
+      onContentExtracted={() => {}}
+      incoming={inbox.deliveries.single}
+      onIncomingConsumed={(id) => inbox.consume("single", id)}
+    />
+  ) : null;
+}
+
+// jsdom's ClipboardEvent takes no clipboardData
+function paste(data: TransferLike): Event {
+  const event = new Event("paste", { bubbles: true, cancelable: true });
+  Object.defineProperty(event, "clipboardData", { value: data });
+  document.body.dispatchEvent(event);
+  return event;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  scanFile.mockReset();
+});
+
+describe("useScanInbox", () => {
+  it("clears only the delivery a scanner took", async () => {
+    const { result } = renderHook(() => useScanInbox(true));
+    await act(() => result.current.receive(transfer(image("a.png"))));
+    const first = result.current.deliveries.single!;
+
+    await act(() => result.current.receive(transfer(image("b.png"))));
+    act(() => result.current.consume("single", first.id));
+    expect(result.current.deliveries.single?.files[0].name).toBe("b.png");
+
+    act(() => result.current.consume("single", result.current.deliveries.single!.id));
+    expect(result.current.deliveries.single).toBeUndefined();
+  });
+
+  it("lets pastes without an image through untouched", async () => {
+    const error = vi.spyOn(toast, "error");
+    const { result } = renderHook(() => useScanInbox(true));
+
+    const text = paste({ files: [], getData: (format) => (format === "text/plain" ? "https://example.com/about" : "") });
+    expect(text.defaultPrevented).toBe(false);
+
+    const screenshot = paste(transfer(image("image.png")));
+    expect(screenshot.defaultPrevented).toBe(true);
+    await waitFor(() => expect(result.current.deliveries.single).toBeDefined());
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it("does not scan a pasted image again when the scanner remounts", async () => {
+    scanFile.mockResolvedValue("https://example.com");
+    let inbox!: ReturnType<typeof useScanInbox>;
+    const { rerender } = render(<ScanTab open onInbox={(value) => (inbox = value)} />);
+
+    await act(() => inbox.receive(transfer(image("pasted.png"))));
+    await waitFor(() => expect(scanFile).toHaveBeenCalledTimes(1));
+    expect(inbox.deliveries.single).toBeUndefined();
+
+    // Switching tabs away and back unmounts and remounts the scanner
+    rerender(<ScanTab open={false} onInbox={(value) => (inbox = value)} />);
+    rerender(<ScanTab open onInbox={(value) => (inbox = value)} />);
+    await act(async () => {});
+    expect(scanFile).toHaveBeenCalledTimes(1);
+  });
+});